@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the rover manifest API route
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/manifest/[rover]/route';
+import { PhotosService } from '@/features/photos/photos-service';
+import { RateLimitExceededError } from '@/lib/http-errors';
+import { ManifestApiResponse } from '@/types/photos';
+
+jest.mock('@/features/photos/photos-service', () => ({
+  PhotosService: {
+    getManifest: jest.fn(),
+  },
+}));
+
+const mockPhotosService = PhotosService as jest.Mocked<typeof PhotosService>;
+
+const mockManifest: ManifestApiResponse = {
+  data: {
+    rover: 'curiosity',
+    status: 'active',
+    landingDate: '2012-08-06',
+    launchDate: '2011-11-26',
+    maxSol: 4102,
+    maxDate: '2024-02-19',
+    totalPhotos: 695000,
+    cameraSols: { MAST: 1, NAVCAM: 2 },
+    sols: [
+      { sol: 1, earthDate: '2012-08-07', totalPhotos: 16, cameras: ['NAVCAM'] },
+      {
+        sol: 2,
+        earthDate: '2012-08-08',
+        totalPhotos: 74,
+        cameras: ['MAST', 'NAVCAM'],
+      },
+    ],
+  },
+  meta: {
+    solCount: 2,
+    requestTime: '2024-02-20T00:00:00Z',
+    cached: false,
+  },
+};
+
+function callRoute(rover: string, query = ''): ReturnType<typeof GET> {
+  return GET(
+    new NextRequest(`http://localhost/api/manifest/${rover}${query}`),
+    { params: Promise.resolve({ rover }) }
+  );
+}
+
+describe('GET /api/manifest/[rover]', () => {
+  const originalConsoleError = console.error;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    console.error = jest.fn();
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+  });
+
+  it('returns the manifest with long-lived cache headers', async () => {
+    mockPhotosService.getManifest.mockResolvedValue(mockManifest);
+
+    const response = await callRoute('curiosity', '?fromSol=1&toSol=2');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toContain('s-maxage=3600');
+    expect(response.headers.get('X-Max-Sol')).toBe('4102');
+    expect(await response.json()).toEqual(mockManifest);
+    expect(mockPhotosService.getManifest).toHaveBeenCalledWith('curiosity', {
+      fromSol: 1,
+      toSol: 2,
+    });
+  });
+
+  it('rejects unknown rovers and invalid sol ranges', async () => {
+    const invalidRover = await callRoute('sojourner');
+    expect(invalidRover.status).toBe(400);
+    expect((await invalidRover.json()).code).toBe('INVALID_ROVER');
+
+    const invalidRange = await callRoute('curiosity', '?fromSol=10&toSol=x');
+    expect(invalidRange.status).toBe(400);
+    expect((await invalidRange.json()).details).toEqual({
+      invalidParameters: [
+        {
+          parameter: 'toSol',
+          value: 'x',
+          error: 'Sol must be a whole number',
+          code: 'INVALID_NUMBER',
+        },
+      ],
+    });
+
+    const reversed = await callRoute('curiosity', '?fromSol=10&toSol=5');
+    expect((await reversed.json()).details.invalidParameters).toEqual([
+      expect.objectContaining({ parameter: 'toSol', code: 'INVALID_RANGE' }),
+    ]);
+    expect(mockPhotosService.getManifest).not.toHaveBeenCalled();
+  });
+
+  it('passes rate limits on with Retry-After', async () => {
+    mockPhotosService.getManifest.mockRejectedValue(
+      new RateLimitExceededError('nasa-api', 90 * 1000)
+    );
+
+    const response = await callRoute('perseverance');
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('90');
+    expect((await response.json()).code).toBe('RATE_LIMITED');
+  });
+
+  it('reports other upstream failures as 502', async () => {
+    mockPhotosService.getManifest.mockRejectedValue(new Error('Network error'));
+
+    const response = await callRoute('curiosity');
+
+    expect(response.status).toBe(502);
+    expect((await response.json()).code).toBe('UPSTREAM_ERROR');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the OpenAPI document
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/openapi.json/route';
+import { buildOpenApiDocument } from '@/app/api/openapi';
+import { PHOTOS_QUERY } from '@/app/api/schemas/photos';
+import { WEATHER_QUERY } from '@/app/api/schemas/weather';
+import { JsonSchema } from '@/types/openapi';
+
+/** Every $ref anywhere in a value */
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') refs.push(child);
+      else collectRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+describe('OpenAPI document', () => {
+  const document = buildOpenApiDocument('https://example.test');
+
+  test('documents every query parameter of the route schemas', () => {
+    const weather = document.paths['/api/v1/weather/{rover}']?.get;
+    const photos = document.paths['/api/v1/photos/{rover}']?.get;
+
+    expect(weather?.parameters.map((p) => p.name)).toEqual([
+      'rover',
+      ...Object.keys(WEATHER_QUERY),
+    ]);
+    expect(photos?.parameters.map((p) => p.name)).toEqual([
+      'rover',
+      ...Object.keys(PHOTOS_QUERY),
+    ]);
+  });
+
+  test('carries validator metadata into parameter schemas', () => {
+    const parameters =
+      document.paths['/api/v1/weather/{rover}']?.get.parameters;
+    const tempUnit = parameters?.find((p) => p.name === 'tempUnit');
+    const pageSize = parameters?.find((p) => p.name === 'pageSize');
+    const limit = document.paths['/api/v1/photos/{rover}']?.get.parameters.find(
+      (p) => p.name === 'limit'
+    );
+
+    expect(tempUnit?.schema.enum).toEqual(
+      expect.arrayContaining(['celsius', 'fahrenheit', 'kelvin'])
+    );
+    expect(pageSize?.schema).toMatchObject({
+      type: 'integer',
+      minimum: 1,
+      maximum: 500,
+    });
+    expect(limit?.schema).toMatchObject({ default: 12, maximum: 50 });
+  });
+
+  test('resolves every schema reference', () => {
+    const refs = collectRefs(document);
+    const schemas: Record<string, JsonSchema> = document.components.schemas;
+
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      const name = ref.replace('#/components/schemas/', '');
+      expect(schemas[name]).toBeDefined();
+    }
+  });
+
+  test('serves the document with the request origin', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost:3000/api/openapi.json')
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(body.openapi).toBe('3.0.3');
+    expect(body.servers).toEqual([{ url: 'http://localhost:3000' }]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for schema-driven query validation in the API routes
+ */
+
+import { NextRequest } from 'next/server';
+import { GET as getPhotos } from '@/app/api/photos/[rover]/route';
+import { GET as getWeather } from '@/app/api/weather/[rover]/route';
+import { GET as compareWeather } from '@/app/api/weather/compare/route';
+import { PhotosService } from '@/features/photos/photos-service';
+import { WeatherService } from '@/features/weather/weather-service';
+
+jest.mock('@/features/photos/photos-service', () => ({
+  PhotosService: {
+    getLatestPhotos: jest.fn(),
+  },
+}));
+
+jest.mock('@/features/weather/weather-service', () => ({
+  WeatherService: {
+    MAX_PAGE_SIZE: 500,
+    getWeatherData: jest.fn(),
+    resolveSolRange: jest.fn(),
+  },
+}));
+
+const mockPhotosService = jest.mocked(PhotosService);
+const mockWeatherService = jest.mocked(WeatherService);
+
+function request(path: string): NextRequest {
+  return new NextRequest(`http://localhost${path}`);
+}
+
+function rover(name: string): { params: Promise<{ rover: string }> } {
+  return { params: Promise.resolve({ rover: name }) };
+}
+
+describe('API request schemas', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists every invalid photos parameter in one error', async () => {
+    const response = await getPhotos(
+      request('/api/photos/curiosity?limit=500&camera=POLAROID&sol=abc'),
+      rover('curiosity')
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.code).toBe('INVALID_PARAMETERS');
+    expect(
+      body.details.invalidParameters.map(
+        ({ parameter }: { parameter: string }) => parameter
+      )
+    ).toEqual(['limit', 'sol', 'camera']);
+    expect(mockPhotosService.getLatestPhotos).not.toHaveBeenCalled();
+  });
+
+  it('rejects a camera the requested rover does not carry', async () => {
+    const response = await getPhotos(
+      request('/api/photos/spirit?camera=PIXL'),
+      rover('spirit')
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.details.invalidParameters).toEqual([
+      expect.objectContaining({ parameter: 'camera', code: 'INVALID_CAMERA' }),
+    ]);
+    expect(mockPhotosService.getLatestPhotos).not.toHaveBeenCalled();
+  });
+
+  it('passes typed photos options to the service', async () => {
+    mockPhotosService.getLatestPhotos.mockResolvedValue({
+      data: {
+        photos: [],
+        totalPhotos: 0,
+        rover: 'curiosity',
+        lastFetch: '2024-01-01T00:00:00Z',
+        status: 'success',
+      },
+      meta: { count: 0, requestTime: '2024-01-01T00:00:00Z', cached: false },
+    });
+
+    const response = await getPhotos(
+      request('/api/photos/curiosity?sol=100&camera=navcam&page=2'),
+      rover('curiosity')
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockPhotosService.getLatestPhotos).toHaveBeenCalledWith(
+      'curiosity',
+      { limit: 12, sol: 100, camera: 'NAVCAM', page: 2 }
+    );
+  });
+
+  it('lists registry rovers and rejects rovers without photos', async () => {
+    const unknown = await getPhotos(
+      request('/api/photos/sojourner'),
+      rover('sojourner')
+    );
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json()).details.validRovers).toContain('spirit');
+
+    const insight = await getPhotos(
+      request('/api/photos/insight'),
+      rover('insight')
+    );
+    expect(insight.status).toBe(404);
+    expect((await insight.json()).code).toBe('NO_PHOTO_ARCHIVE');
+    expect(mockPhotosService.getLatestPhotos).not.toHaveBeenCalled();
+  });
+
+  it('rejects weather units and flags instead of passing them through', async () => {
+    const response = await getWeather(
+      request(
+        '/api/weather/curiosity?tempUnit=rankine&includeEstimated=maybe&history=0'
+      ),
+      rover('curiosity')
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(
+      body.details.invalidParameters.map(
+        ({ parameter, code }: { parameter: string; code: string }) => [
+          parameter,
+          code,
+        ]
+      )
+    ).toEqual([
+      ['history', 'OUT_OF_RANGE'],
+      ['tempUnit', 'INVALID_UNIT'],
+      ['includeEstimated', 'INVALID_BOOLEAN'],
+    ]);
+    expect(mockWeatherService.getWeatherData).not.toHaveBeenCalled();
+  });
+
+  it('reports an unknown weather rover with the query parameters', async () => {
+    const response = await getWeather(
+      request('/api/weather/sojourner?tempUnit=rankine'),
+      rover('sojourner')
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.code).toBe('INVALID_PARAMETERS');
+    expect(body.details.invalidParameters).toEqual([
+      {
+        parameter: 'rover',
+        value: 'sojourner',
+        error: expect.stringContaining('curiosity'),
+        code: 'INVALID_ROVER',
+      },
+      expect.objectContaining({ parameter: 'tempUnit', code: 'INVALID_UNIT' }),
+    ]);
+    expect(mockWeatherService.resolveSolRange).not.toHaveBeenCalled();
+    expect(mockWeatherService.getWeatherData).not.toHaveBeenCalled();
+  });
+
+  it('reports an impossible weather range as a range parameter', async () => {
+    mockWeatherService.resolveSolRange.mockImplementation(() => {
+      throw new Error('Range does not overlap the mission');
+    });
+
+    const response = await getWeather(
+      request('/api/weather/curiosity?fromSol=99999'),
+      rover('curiosity')
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details.invalidParameters).toEqual([
+      {
+        parameter: 'range',
+        value: null,
+        error: 'Range does not overlap the mission',
+        code: 'INVALID_RANGE',
+      },
+    ]);
+  });
+
+  it('requires at least two rovers to compare', async () => {
+    const response = await compareWeather(
+      request('/api/weather/compare?rovers=curiosity&lsBinSize=120')
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(
+      body.details.invalidParameters.map(
+        ({ parameter, code }: { parameter: string; code: string }) => [
+          parameter,
+          code,
+        ]
+      )
+    ).toEqual([
+      ['rovers', 'TOO_FEW_ROVERS'],
+      ['lsBinSize', 'OUT_OF_RANGE'],
+    ]);
+
+    const missing = await compareWeather(request('/api/weather/compare'));
+    expect((await missing.json()).details.invalidParameters[0]).toMatchObject({
+      parameter: 'rovers',
+      code: 'MISSING_PARAMETER',
+    });
+    expect(mockWeatherService.getWeatherData).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for ApiExplorer
+ */
+
+import {
+  render,
+  screen,
+  fireEvent,
+  waitFor,
+  within,
+} from '@testing-library/react';
+import { ApiExplorer, buildRequestUrl } from '@/features/api-docs';
+import { OpenApiDocument, OpenApiParameter } from '@/types/openapi';
+
+const roverParameter: OpenApiParameter = {
+  name: 'rover',
+  in: 'path',
+  required: true,
+  description: 'Rover name',
+  schema: { type: 'string', enum: ['curiosity', 'perseverance'] },
+};
+
+const document: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Test API', version: '1.0.0', description: 'Test' },
+  servers: [{ url: '/' }],
+  security: [{ ApiKeyHeader: [] }],
+  paths: {
+    '/api/v1/photos/{rover}': {
+      get: {
+        operationId: 'getPhotos',
+        summary: 'Rover photos',
+        tags: ['Photos'],
+        parameters: [
+          roverParameter,
+          {
+            name: 'sol',
+            in: 'query',
+            required: false,
+            description: 'Sol',
+            schema: { type: 'integer', minimum: 0, maximum: 100000 },
+          },
+          {
+            name: 'camera',
+            in: 'query',
+            required: false,
+            description: 'Camera',
+            schema: { type: 'string', enum: ['FHAZ', 'NAVCAM'] },
+          },
+        ],
+        responses: { '200': { description: 'Photos' } },
+      },
+    },
+    '/api/v1/stream/{rover}': {
+      get: {
+        operationId: 'streamWeather',
+        summary: 'Live stream',
+        tags: ['Weather'],
+        parameters: [roverParameter],
+        responses: {
+          '200': {
+            description: 'Events',
+            content: { 'text/event-stream': { schema: { type: 'string' } } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {},
+    securitySchemes: {
+      ApiKeyHeader: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'Issued API key',
+      },
+    },
+  },
+};
+
+describe('ApiExplorer', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({
+      status: 200,
+      text: () => Promise.resolve('{"status":"success"}'),
+    });
+  });
+
+  it('lists every endpoint with its parameters', () => {
+    render(<ApiExplorer document={document} />);
+
+    expect(
+      screen.getByRole('heading', { name: 'Rover photos' })
+    ).toBeInTheDocument();
+    expect(
+      within(
+        screen.getByRole('region', { name: 'Rover photos' })
+      ).getByLabelText('camera')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('link', { name: /OpenAPI 3\.0\.3 document/ })
+    ).toHaveAttribute('href', '/api/openapi.json');
+  });
+
+  it('sends a request built from the form and shows the response', async () => {
+    render(<ApiExplorer document={document} />);
+
+    const photos = within(screen.getByRole('region', { name: 'Rover photos' }));
+    fireEvent.change(photos.getByLabelText('sol'), {
+      target: { value: '1000' },
+    });
+    fireEvent.click(photos.getByRole('button', { name: 'Send request' }));
+
+    await waitFor(() =>
+      expect(screen.getByTestId('getPhotos-result')).toHaveTextContent(
+        '"status": "success"'
+      )
+    );
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/v1/photos/curiosity?sol=1000',
+      expect.anything()
+    );
+  });
+
+  it('sends the entered API key with requests and stream links', async () => {
+    render(<ApiExplorer document={document} />);
+
+    fireEvent.change(screen.getByLabelText('API key'), {
+      target: { value: 'mwd_test' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send request' }));
+
+    await waitFor(() =>
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/v1/photos/curiosity',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-API-Key': 'mwd_test' }),
+        })
+      )
+    );
+    expect(screen.getByRole('link', { name: 'Open stream' })).toHaveAttribute(
+      'href',
+      '/api/v1/stream/curiosity?api_key=mwd_test'
+    );
+  });
+
+  it('links to event streams instead of fetching them', () => {
+    render(<ApiExplorer document={document} />);
+
+    expect(screen.getByRole('link', { name: 'Open stream' })).toHaveAttribute(
+      'href',
+      '/api/v1/stream/curiosity'
+    );
+  });
+
+  it('builds request URLs without empty parameters', () => {
+    const operation = document.paths['/api/v1/photos/{rover}']!.get;
+
+    expect(
+      buildRequestUrl('/api/v1/photos/{rover}', operation.parameters, {
+        rover: 'perseverance',
+        sol: ' ',
+        camera: 'NAVCAM',
+      })
+    ).toBe('/api/v1/photos/perseverance?camera=NAVCAM');
+  });
+});
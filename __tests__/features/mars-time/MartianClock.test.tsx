@@ -5,6 +5,7 @@
 import React from 'react';
 import { render, screen } from '@testing-library/react';
 import { MartianClock } from '@/features/mars-time/MartianClock';
+import { MarsTimeData } from '@/types/mars-time';
 
 // Mock the useMartianTime hook
 jest.mock('@/features/mars-time/useMartianTime', () => ({
@@ -38,13 +39,13 @@ const mockUseMartianTime = useMartianTime as jest.MockedFunction<
   typeof useMartianTime
 >;
 
-const mockMarsTimeData = {
+const mockMarsTimeData: MarsTimeData = {
   msd: 52543.123456,
   mtc: '14:25:30',
-  curiosityLTST: '15:10:45',
-  perseveranceLTST: '16:22:15',
-  curiositySol: 4123,
-  perseveranceSol: 1056,
+  rovers: [
+    { rover: 'curiosity', ltst: '15:10:45', sol: 4123, active: true },
+    { rover: 'perseverance', ltst: '16:22:15', sol: 1056, active: true },
+  ],
   earthTime: '12:34:56',
 };
 
@@ -100,6 +101,24 @@ describe('MartianClock', () => {
     expect(screen.getByText('Live updates')).toBeInTheDocument();
   });
 
+  it('lists completed missions with their final sol', () => {
+    mockUseMartianTime.mockReturnValue({
+      ...mockMarsTimeData,
+      rovers: [
+        ...mockMarsTimeData.rovers,
+        { rover: 'spirit', ltst: '03:41:09', sol: 2208, active: false },
+      ],
+    });
+
+    render(<MartianClock />);
+
+    expect(screen.getByText('Past missions')).toBeInTheDocument();
+    expect(screen.getByText('Spirit (Gusev Crater)')).toBeInTheDocument();
+    expect(screen.getByText('03:41:09 · final sol 2,208')).toBeInTheDocument();
+    // Only operating missions get a full local time panel
+    expect(screen.queryByText('Sol 2,208')).not.toBeInTheDocument();
+  });
+
   it('displays correct accessibility attributes', () => {
     mockUseMartianTime.mockReturnValue(mockMarsTimeData);
 
@@ -114,10 +133,12 @@ describe('MartianClock', () => {
   });
 
   it('formats sol numbers with proper localization', () => {
-    const dataWithLargeSols = {
+    const dataWithLargeSols: MarsTimeData = {
       ...mockMarsTimeData,
-      curiositySol: 12345,
-      perseveranceSol: 6789,
+      rovers: [
+        { rover: 'curiosity', ltst: '15:10:45', sol: 12345, active: true },
+        { rover: 'perseverance', ltst: '16:22:15', sol: 6789, active: true },
+      ],
     };
 
     mockUseMartianTime.mockReturnValue(dataWithLargeSols);
@@ -130,10 +151,9 @@ describe('MartianClock', () => {
   });
 
   it('handles edge case with zero sol numbers', () => {
-    const dataWithZeroSols = {
+    const dataWithZeroSols: MarsTimeData = {
       ...mockMarsTimeData,
-      curiositySol: 0,
-      perseveranceSol: 0,
+      rovers: mockMarsTimeData.rovers.map((rover) => ({ ...rover, sol: 0 })),
     };
 
     mockUseMartianTime.mockReturnValue(dataWithZeroSols);
@@ -13,18 +13,19 @@ jest.mock('@/features/mars-time/time-conversion', () => ({
 }));
 
 import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+import { MarsTimeData } from '@/types/mars-time';
 
 const mockMarsTimeCalculator = MarsTimeCalculator as jest.Mocked<
   typeof MarsTimeCalculator
 >;
 
-const mockMarsTimeData = {
+const mockMarsTimeData: MarsTimeData = {
   msd: 52543.123456,
   mtc: '14:25:30',
-  curiosityLTST: '15:10:45',
-  perseveranceLTST: '16:22:15',
-  curiositySol: 4123,
-  perseveranceSol: 1056,
+  rovers: [
+    { rover: 'curiosity', ltst: '15:10:45', sol: 4123, active: true },
+    { rover: 'perseverance', ltst: '16:22:15', sol: 1056, active: true },
+  ],
   earthTime: '12:34:56',
 };
 
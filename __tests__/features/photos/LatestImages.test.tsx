@@ -5,12 +5,16 @@
 import React from 'react';
 import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import { LatestImages } from '@/features/photos/LatestImages';
-import { usePhotosData } from '@/features/photos/usePhotosData';
+import {
+  useInfinitePhotos,
+  usePhotosData,
+} from '@/features/photos/usePhotosData';
 import { LatestPhotosData, MarsPhoto } from '@/types/photos';
 
-// Mock the usePhotosData hook
+// Mock the usePhotosData hooks
 jest.mock('@/features/photos/usePhotosData');
 const mockUsePhotosData = jest.mocked(usePhotosData);
+const mockUseInfinitePhotos = jest.mocked(useInfinitePhotos);
 
 // Mock the useCameraData hook
 jest.mock('@/features/photos/useCameraData');
@@ -97,6 +101,32 @@ const mockPhotosData: LatestPhotosData = {
   status: 'success',
 };
 
+const mockInfinitePhotos = (
+  pages: LatestPhotosData[],
+  overrides: Record<string, unknown> = {}
+): void => {
+  mockUseInfinitePhotos.mockReturnValue({
+    data: {
+      pages: pages.map((page) => ({
+        data: page,
+        meta: {
+          count: page.photos.length,
+          requestTime: '2024-01-15T12:00:00Z',
+          cached: false,
+        },
+      })),
+      pageParams: pages.map((_, i) => i + 1),
+    },
+    isLoading: false,
+    error: null,
+    hasNextPage: false,
+    isFetchingNextPage: false,
+    fetchNextPage: jest.fn(),
+    refetch: jest.fn(),
+    ...overrides,
+  } as unknown as ReturnType<typeof useInfinitePhotos>);
+};
+
 const renderComponent = (component: React.ReactElement): void => {
   render(component);
 };
@@ -104,6 +134,7 @@ const renderComponent = (component: React.ReactElement): void => {
 describe('LatestImages', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockInfinitePhotos([]);
 
     // Mock all available cameras (including some without photos)
     mockUseCameraData.mockReturnValue({
@@ -357,6 +388,172 @@ describe('LatestImages', () => {
     fireEvent.click(closeButton);
   });
 
+  it('shows photos from a focused sol', () => {
+    mockUsePhotosData.mockReturnValue({
+      data: {
+        data: mockPhotosData,
+        meta: {
+          count: 3,
+          requestTime: '2024-01-15T12:00:00Z',
+          cached: false,
+        },
+      },
+      isLoading: false,
+      error: null,
+      refetch: jest.fn(),
+    } as unknown as ReturnType<typeof usePhotosData>);
+
+    renderComponent(
+      <LatestImages focusSol={{ rover: 'perseverance', sol: 250 }} />
+    );
+
+    expect(screen.getByText('Images from Sol 250')).toBeInTheDocument();
+    expect(mockUseInfinitePhotos).toHaveBeenLastCalledWith(
+      'perseverance',
+      { sol: 250 },
+      { enabled: true }
+    );
+
+    fireEvent.click(screen.getByText('Back to latest photos'));
+
+    expect(screen.getByText('Latest Images')).toBeInTheDocument();
+    expect(mockUsePhotosData).toHaveBeenLastCalledWith(
+      'perseverance',
+      { limit: 12 },
+      { enabled: true }
+    );
+  });
+
+  it('browses sols from the sol picker and previous/next buttons', () => {
+    mockUsePhotosData.mockReturnValue({
+      data: {
+        data: mockPhotosData,
+        meta: {
+          count: 3,
+          requestTime: '2024-01-15T12:00:00Z',
+          cached: false,
+        },
+      },
+      isLoading: false,
+      error: null,
+      refetch: jest.fn(),
+    } as unknown as ReturnType<typeof usePhotosData>);
+
+    renderComponent(<LatestImages />);
+
+    // Previous sol starts from the sol of the latest photos
+    fireEvent.click(screen.getByText('Previous sol'));
+    expect(screen.getByText('Images from Sol 999')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Next sol'));
+    fireEvent.click(screen.getByText('Next sol'));
+    expect(screen.getByText('Images from Sol 1001')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Sol'), {
+      target: { value: '42' },
+    });
+    fireEvent.click(screen.getByText('Go'));
+
+    expect(screen.getByText('Images from Sol 42')).toBeInTheDocument();
+    expect(mockUseInfinitePhotos).toHaveBeenLastCalledWith(
+      'curiosity',
+      { sol: 42 },
+      { enabled: true }
+    );
+    expect(mockUsePhotosData).toHaveBeenLastCalledWith(
+      'curiosity',
+      { limit: 12 },
+      { enabled: false }
+    );
+  });
+
+  it('browses photos by Earth date', () => {
+    renderComponent(<LatestImages />);
+
+    fireEvent.change(screen.getByLabelText('Earth date'), {
+      target: { value: '2020-03-01' },
+    });
+
+    expect(screen.getByText('Images from 2020-03-01')).toBeInTheDocument();
+    expect(mockUseInfinitePhotos).toHaveBeenLastCalledWith(
+      'curiosity',
+      { earthDate: '2020-03-01' },
+      { enabled: true }
+    );
+  });
+
+  it('shows every loaded page and loads more on request', () => {
+    const fetchNextPage = jest.fn();
+    mockInfinitePhotos(
+      [
+        { ...mockPhotosData, nextPage: 2 },
+        {
+          ...mockPhotosData,
+          photos: [createMockPhoto(4, 1000), createMockPhoto(5, 1000)],
+        },
+      ],
+      { hasNextPage: true, fetchNextPage }
+    );
+
+    renderComponent(
+      <LatestImages focusSol={{ rover: 'curiosity', sol: 1000 }} />
+    );
+
+    expect(screen.getAllByRole('img')).toHaveLength(5);
+    fireEvent.click(screen.getByText('Load more'));
+    expect(fetchNextPage).toHaveBeenCalled();
+  });
+
+  it('shows stereo pairs as anaglyphs or side by side', () => {
+    const left = {
+      ...createMockPhoto(1, 1000),
+      camera: {
+        id: 2,
+        name: 'NAVCAM',
+        fullName: 'Navigation Camera',
+        roverId: 5,
+      },
+      imgSrc: 'https://example.com/NLB_486264973EDR_F0481570NCAM00323M_.JPG',
+    } as MarsPhoto;
+    const right = {
+      ...left,
+      id: 2,
+      imgSrc: 'https://example.com/NRB_486264973EDR_F0481570NCAM00323M_.JPG',
+    };
+    mockUsePhotosData.mockReturnValue({
+      data: {
+        data: { ...mockPhotosData, photos: [left, right] },
+        meta: {
+          count: 2,
+          requestTime: '2024-01-15T12:00:00Z',
+          cached: false,
+        },
+      },
+      isLoading: false,
+      error: null,
+      refetch: jest.fn(),
+    } as unknown as ReturnType<typeof usePhotosData>);
+
+    renderComponent(<LatestImages />);
+
+    expect(screen.getAllByText('3D')).toHaveLength(2);
+    const [firstImage] = screen.getAllByRole('img');
+    if (firstImage) fireEvent.click(firstImage);
+
+    fireEvent.click(screen.getByText('Anaglyph 3D'));
+    expect(screen.getByTestId('stereo-anaglyph')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Side by side'));
+    expect(screen.getByAltText(/^Left eye/)).toHaveAttribute(
+      'src',
+      left.imgSrc
+    );
+    expect(screen.getByAltText(/^Right eye/)).toHaveAttribute(
+      'src',
+      right.imgSrc
+    );
+  });
+
   it('respects limit prop', async () => {
     const largePhotosData: LatestPhotosData = {
       ...mockPhotosData,
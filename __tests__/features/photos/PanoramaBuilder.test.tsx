@@ -0,0 +1,73 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { PanoramaBuilder } from '@/features/photos/PanoramaBuilder';
+import { MarsPhoto } from '@/types/photos';
+
+// Mock Next.js Image component to avoid hostname configuration issues in tests
+jest.mock('next/image', () => ({
+  __esModule: true,
+  default: ({
+    src,
+    alt,
+    ...props
+  }: {
+    src: string;
+    alt: string;
+    [key: string]: unknown;
+  }): React.ReactElement => {
+    // eslint-disable-next-line @next/next/no-img-element
+    return <img src={src} alt={alt} {...props} />;
+  },
+}));
+
+const createFrame = (id: number, frameNumber: number): MarsPhoto => ({
+  id,
+  sol: 1000,
+  earthDate: '2015-05-30',
+  camera: { id: 22, name: 'MAST', fullName: 'Mast Camera', roverId: 5 },
+  imgSrc: `https://example.com/1000ML00446300004037${frameNumber}E01_DXXX.jpg`,
+  rover: {
+    id: 5,
+    name: 'curiosity',
+    landingDate: '2012-08-05',
+    launchDate: '2011-11-26',
+    status: 'active',
+    maxSol: 1200,
+    maxDate: '2024-01-15',
+    totalPhotos: 500000,
+  },
+});
+
+describe('PanoramaBuilder', () => {
+  it('renders nothing without imaging sequences', () => {
+    const { container } = render(
+      <PanoramaBuilder photos={[createFrame(1, 45)]} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('opens a sequence as a strip of frames in shooting order', () => {
+    render(
+      <PanoramaBuilder
+        photos={[createFrame(1, 47), createFrame(2, 45), createFrame(3, 46)]}
+      />
+    );
+
+    fireEvent.click(screen.getByText(/Sol 1000 · MAST · 3 frames/));
+
+    const strip = screen.getByTestId('panorama-strip');
+    expect(strip).toHaveAccessibleName('Mast Camera panorama from Sol 1000');
+    expect(
+      screen.getAllByRole('img').map((img) => img.getAttribute('src'))
+    ).toEqual([
+      expect.stringContaining('403745'),
+      expect.stringContaining('403746'),
+      expect.stringContaining('403747'),
+    ]);
+  });
+});
@@ -3,6 +3,14 @@
  */
 
 import { PhotosService } from '@/features/photos/photos-service';
+import {
+  PHOTOS_PAGE_SIZE,
+  getStereoFrame,
+} from '@/features/photos/photo-groups';
+import { CacheManager } from '@/lib/cache';
+import { nasaApiQuota } from '@/lib/rate-limiter';
+import { ApiResilience } from '@/lib/retry';
+import { CameraName, MarsPhoto } from '@/types/photos';
 import { RoverName } from '@/types/weather';
 
 // Mock the global fetch function
@@ -26,6 +34,9 @@ describe('PhotosService', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    CacheManager.reset();
+    ApiResilience.resetAllCircuits();
+    nasaApiQuota.reset();
     process.env = { ...originalEnv, NASA_API_KEY: 'test-api-key' };
   });
 
@@ -250,14 +261,42 @@ describe('PhotosService', () => {
     );
   });
 
+  it('reports the next page only after a full page of sol results', async () => {
+    const [photo] = mockNASAResponse.latest_photos;
+    const fullPage = Array.from({ length: PHOTOS_PAGE_SIZE }, (_, i) => ({
+      ...photo,
+      id: i + 1,
+    }));
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ photos: fullPage }),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ photos: fullPage.slice(0, 3) }),
+      } as Response);
+
+    const first = await PhotosService.getLatestPhotos('curiosity', {
+      sol: 1000,
+      page: 2,
+    });
+    const last = await PhotosService.getLatestPhotos('curiosity', {
+      sol: 1000,
+      page: 3,
+    });
+
+    expect(first.data.nextPage).toBe(3);
+    expect(last.data.nextPage).toBeUndefined();
+  });
+
   it('uses DEMO_KEY when NASA_API_KEY is not set', async () => {
     delete process.env.NASA_API_KEY;
 
     // Clear module cache to ensure the service re-reads the environment
     jest.resetModules();
-    const { PhotosService: ReloadedPhotosService } = await import(
-      '@/features/photos/photos-service'
-    );
+    const { PhotosService: ReloadedPhotosService } =
+      await import('@/features/photos/photos-service');
 
     mockFetch.mockResolvedValueOnce({
       ok: true,
@@ -306,6 +345,126 @@ describe('PhotosService', () => {
     expect(displayPhoto.thumbnailSrc).toBe(mockPhoto.imgSrc);
   });
 
+  it('pairs left and right stereo frames by sol, instrument and clock', () => {
+    const photo = (
+      id: number,
+      camera: CameraName,
+      filename: string,
+      sol = 1000
+    ): MarsPhoto => ({
+      id,
+      sol,
+      earthDate: '2015-05-30',
+      camera: { id, name: camera, fullName: camera, roverId: 5 },
+      imgSrc: `https://mars.nasa.gov/msl-raw-images/${filename}`,
+      rover: {
+        id: 5,
+        name: 'curiosity',
+        landingDate: '2012-08-05',
+        launchDate: '2011-11-26',
+        status: 'active',
+        maxSol: 1200,
+        maxDate: '2024-01-15',
+        totalPhotos: 500000,
+      },
+    });
+
+    const pairs = PhotosService.findStereoPairs([
+      photo(1, 'NAVCAM', 'NLB_486264973EDR_F0481570NCAM00323M_.JPG'),
+      photo(2, 'FHAZ', 'FRB_486264990EDR_F0481570FHAZ00323M_.JPG'),
+      photo(3, 'NAVCAM', 'NRB_486264974EDR_F0481570NCAM00323M_.JPG'),
+      photo(4, 'FHAZ', 'FLB_486264990EDR_F0481570FHAZ00323M_.JPG'),
+      // Too far apart in time, different sol, and not a stereo camera
+      photo(5, 'NAVCAM', 'NRB_486265100EDR_F0481570NCAM00323M_.JPG'),
+      photo(6, 'NAVCAM', 'NRB_486264973EDR_F0481570NCAM00323M_.JPG', 999),
+      photo(7, 'MAST', '1000ML0044630000403745E01_DXXX.jpg'),
+      photo(
+        8,
+        'MCZCAM_LEFT',
+        'ZL0_1000_0752452230_113EBY_N0480000ZCAM05123_1100LMJ01.png'
+      ),
+      photo(
+        9,
+        'MCZCAM_RIGHT',
+        'ZR0_1000_0752452230_113EBY_N0480000ZCAM05123_1100LMJ01.png'
+      ),
+    ]);
+
+    expect(
+      pairs.map(({ instrument, left, right }) => [
+        instrument,
+        left.id,
+        right.id,
+      ])
+    ).toEqual([
+      ['NAVCAM', 1, 3],
+      ['FHAZ', 4, 2],
+      ['MCZCAM', 8, 9],
+    ]);
+    expect(pairs[0]?.sclk).toBe(486264973);
+    expect(
+      getStereoFrame({
+        ...photo(7, 'MAST', 'x'),
+        imgSrc: 'https://example.com/photo1.jpg',
+      })
+    ).toBeNull();
+  });
+
+  it('groups Mastcam sequences into ordered panoramas', () => {
+    const frame = (
+      id: number,
+      camera: CameraName,
+      filename: string
+    ): MarsPhoto =>
+      ({
+        id,
+        sol: 1000,
+        earthDate: '2015-05-30',
+        camera: { id: 22, name: camera, fullName: camera, roverId: 5 },
+        imgSrc: `https://mars.nasa.gov/msl-raw-images/${filename}`,
+        rover: mockNASAResponse.latest_photos[0]?.rover,
+      }) as unknown as MarsPhoto;
+
+    const panoramas = PhotosService.findPanoramas([
+      frame(1, 'MAST', '1000ML0044630000403747E01_DXXX.jpg'),
+      frame(2, 'MAST', '1000ML0044630000403745E01_DXXX.jpg'),
+      frame(3, 'MAST', '1000ML0044630000403746E01_DXXX.jpg'),
+      // Another sequence with too few frames, and a non-Mastcam photo
+      frame(4, 'MAST', '1000ML0044640000403800E01_DXXX.jpg'),
+      frame(5, 'NAVCAM', 'NLB_486264973EDR_F0481570NCAM00323M_.JPG'),
+      frame(
+        6,
+        'MCZCAM_LEFT',
+        'ZL0_1000_0752452290_113EBY_N0480000ZCAM05123_1100LMJ01.png'
+      ),
+      frame(
+        7,
+        'MCZCAM_LEFT',
+        'ZL0_1000_0752452230_113EBY_N0480000ZCAM05123_1100LMJ01.png'
+      ),
+      frame(
+        8,
+        'MCZCAM_LEFT',
+        'ZL0_1000_0752452260_113EBY_N0480000ZCAM05123_1100LMJ01.png'
+      ),
+      frame(
+        9,
+        'MCZCAM_LEFT',
+        'ZL0_1000_0752452320_113EBY_N0480000ZCAM05123_1100LMJ01.png'
+      ),
+    ]);
+
+    expect(
+      panoramas.map(({ sequence, frames }) => [
+        sequence,
+        frames.map(({ id }) => id),
+      ])
+    ).toEqual([
+      ['ZCAM05123', [7, 8, 6, 9]],
+      ['004463', [2, 3, 1]],
+    ]);
+  });
+
   it('retries failed requests', async () => {
     // First two calls fail, third succeeds
     mockFetch
@@ -323,6 +482,86 @@ describe('PhotosService', () => {
     expect(result.data.photos).toHaveLength(2);
   });
 
+  it('shares one request between concurrent identical calls', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockNASAResponse,
+    } as Response);
+
+    const [first, second] = await Promise.all([
+      PhotosService.getLatestPhotos('curiosity', { camera: 'MAST' }),
+      PhotosService.getLatestPhotos('curiosity', { camera: 'MAST' }),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(first.data.photos).toHaveLength(2);
+    expect(second.data.photos).toHaveLength(2);
+  });
+
+  it('normalizes the full manifest and filters sols by range', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        photo_manifest: {
+          name: 'Curiosity',
+          landing_date: '2012-08-06',
+          launch_date: '2011-11-26',
+          status: 'active',
+          max_sol: 3,
+          max_date: '2012-08-09',
+          total_photos: 120,
+          photos: [
+            {
+              sol: 3,
+              earth_date: '2012-08-09',
+              total_photos: 30,
+              cameras: ['MAST'],
+            },
+            {
+              sol: 1,
+              earth_date: '2012-08-07',
+              total_photos: 16,
+              cameras: ['NAVCAM'],
+            },
+            {
+              sol: 2,
+              earth_date: '2012-08-08',
+              total_photos: 74,
+              cameras: ['MAST', 'NAVCAM'],
+            },
+          ],
+        },
+      }),
+    } as Response);
+
+    const full = await PhotosService.getManifest('curiosity');
+    const range = await PhotosService.getManifest('curiosity', {
+      fromSol: 2,
+      toSol: 3,
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(full.data).toMatchObject({
+      maxSol: 3,
+      totalPhotos: 120,
+      cameraSols: { MAST: 2, NAVCAM: 2 },
+    });
+    expect(full.data.sols.map((entry) => entry.sol)).toEqual([1, 2, 3]);
+    expect(full.data.sols[1]).toEqual({
+      sol: 2,
+      earthDate: '2012-08-08',
+      totalPhotos: 74,
+      cameras: ['MAST', 'NAVCAM'],
+    });
+    expect(range.meta).toMatchObject({ solCount: 2, cached: true });
+
+    const manifest = await PhotosService.getRoverManifest('curiosity');
+    expect(manifest.cameras.map((camera) => camera.name)).toEqual([
+      'MAST',
+      'NAVCAM',
+    ]);
+  });
+
   it('handles timeout properly', async () => {
     const mockAbortController = {
       abort: jest.fn(),
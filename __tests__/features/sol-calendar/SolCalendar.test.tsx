@@ -0,0 +1,82 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SolCalendar } from '@/features/sol-calendar/SolCalendar';
+import { useSolCoverage } from '@/features/sol-calendar/useSolCoverage';
+import { buildSolCoverage } from '@/features/sol-calendar/sol-coverage';
+
+jest.mock('@/features/sol-calendar/useSolCoverage');
+const mockUseSolCoverage = jest.mocked(useSolCoverage);
+
+describe('SolCalendar', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUseSolCoverage.mockImplementation((_rover, fromSol, toSol) => ({
+      cells: buildSolCoverage(
+        fromSol,
+        toSol,
+        [
+          {
+            sol: toSol,
+            earthDate: '2024-01-10',
+            totalPhotos: 300,
+            cameras: ['MAST'],
+          },
+        ],
+        []
+      ),
+      maxPhotoSol: toSol,
+      isLoading: false,
+      error: null,
+    }));
+  });
+
+  it('shows the latest window of sols and describes each cell', () => {
+    render(<SolCalendar />);
+
+    const [, fromSol, toSol] = mockUseSolCoverage.mock.calls[0]!;
+    expect(toSol - fromSol).toBe(99);
+    expect(screen.getByTestId(`sol-cell-${toSol}`)).toHaveAccessibleName(
+      `Sol ${toSol} (2024-01-10): 300 photos from MAST, unavailable weather data`
+    );
+  });
+
+  it('reports clicked sols for the selected rover', () => {
+    const onSelectSol = jest.fn();
+    render(
+      <SolCalendar initialRover="perseverance" onSelectSol={onSelectSol} />
+    );
+
+    const [, fromSol] = mockUseSolCoverage.mock.calls[0]!;
+    fireEvent.click(screen.getByTestId(`sol-cell-${fromSol}`));
+
+    expect(onSelectSol).toHaveBeenCalledWith({
+      rover: 'perseverance',
+      sol: fromSol,
+    });
+  });
+
+  it('pages to earlier sols and switches color and layout modes', () => {
+    render(<SolCalendar />);
+    const [, fromSol] = mockUseSolCoverage.mock.calls[0]!;
+
+    fireEvent.click(screen.getByText('Earlier sols'));
+    expect(mockUseSolCoverage).toHaveBeenLastCalledWith(
+      'curiosity',
+      fromSol - 100,
+      fromSol - 1
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'weather' }));
+    expect(screen.getByTestId('sol-calendar-legend')).toHaveTextContent(
+      'Weather data:'
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'By Earth date' }));
+    expect(screen.getByText('Sun')).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: /^Sol / })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  buildSolCoverage,
+  getPhotoIntensity,
+  groupByEarthWeek,
+} from '@/features/sol-calendar/sol-coverage';
+import { MarsWeatherSol } from '@/types/weather';
+
+const weatherSol = (
+  sol: number,
+  earthDate: string,
+  dataQuality: MarsWeatherSol['dataQuality']
+): MarsWeatherSol =>
+  ({ sol, earthDate, dataQuality }) as unknown as MarsWeatherSol;
+
+describe('sol coverage', () => {
+  it('merges manifest photo counts with weather data quality', () => {
+    const cells = buildSolCoverage(
+      10,
+      12,
+      [
+        {
+          sol: 10,
+          earthDate: '2012-08-16',
+          totalPhotos: 120,
+          cameras: ['MAST', 'NAVCAM'],
+        },
+      ],
+      [
+        weatherSol(10, '2012-08-16', 'complete'),
+        weatherSol(11, '2012-08-17', 'estimated'),
+      ]
+    );
+
+    expect(cells).toEqual([
+      {
+        sol: 10,
+        earthDate: '2012-08-16',
+        photoCount: 120,
+        cameras: ['MAST', 'NAVCAM'],
+        dataQuality: 'complete',
+      },
+      {
+        sol: 11,
+        earthDate: '2012-08-17',
+        photoCount: 0,
+        cameras: [],
+        dataQuality: 'estimated',
+      },
+      {
+        sol: 12,
+        earthDate: null,
+        photoCount: 0,
+        cameras: [],
+        dataQuality: 'unavailable',
+      },
+    ]);
+  });
+
+  it('buckets photo counts into heatmap intensities', () => {
+    expect([0, 1, 49, 50, 200, 499, 500, 4000].map(getPhotoIntensity)).toEqual([
+      0, 1, 1, 2, 3, 3, 4, 4,
+    ]);
+  });
+
+  it('arranges sols into Sunday-first Earth weeks', () => {
+    const cells = buildSolCoverage(
+      0,
+      2,
+      [],
+      [
+        weatherSol(0, '2024-01-02', 'complete'),
+        weatherSol(1, '2024-01-03', 'partial'),
+        weatherSol(2, '2024-01-08', 'complete'),
+      ]
+    );
+
+    const weeks = groupByEarthWeek(cells);
+
+    expect(weeks).toHaveLength(2);
+    expect(weeks[0]?.[0]).toEqual({ date: '2023-12-31', cell: null });
+    expect(weeks[0]?.[2]?.cell?.sol).toBe(0);
+    expect(weeks[0]?.[3]?.cell?.sol).toBe(1);
+    expect(weeks[1]?.[1]).toMatchObject({ date: '2024-01-08' });
+    expect(weeks[1]?.[1]?.cell?.sol).toBe(2);
+    expect(groupByEarthWeek(buildSolCoverage(0, 1))).toEqual([]);
+  });
+});
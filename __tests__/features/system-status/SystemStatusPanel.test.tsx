@@ -0,0 +1,172 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SystemStatusPanel } from '@/features/system-status/SystemStatusPanel';
+import {
+  useResetCircuit,
+  useSystemHealth,
+} from '@/features/system-status/useSystemHealth';
+import { HealthApiResponse } from '@/types/health';
+
+jest.mock('@/features/system-status/useSystemHealth');
+const mockUseSystemHealth = jest.mocked(useSystemHealth);
+const mockUseResetCircuit = jest.mocked(useResetCircuit);
+
+const mockHealth: HealthApiResponse = {
+  status: 'degraded',
+  circuits: [
+    {
+      name: 'nasa-latest-photos-curiosity',
+      state: 'open',
+      failureCount: 5,
+      failureThreshold: 5,
+      lastFailureTime: '2024-01-15T12:00:00Z',
+      nextAttemptTime: new Date(Date.now() + 42 * 1000).toISOString(),
+    },
+    {
+      name: 'nasa-latest-photos-perseverance',
+      state: 'closed',
+      failureCount: 0,
+      failureThreshold: 5,
+      lastFailureTime: null,
+      nextAttemptTime: null,
+    },
+  ],
+  recentRetries: [
+    {
+      circuitName: 'nasa-latest-photos-curiosity',
+      attempt: 2,
+      error: 'Server error: 503 Service Unavailable',
+      delayMs: 2000,
+      timestamp: '2024-01-15T12:00:00Z',
+    },
+  ],
+  quotas: [
+    {
+      name: 'nasa-api',
+      capacity: 30,
+      remaining: 4,
+      refillPerHour: 30,
+      blockedUntil: null,
+    },
+  ],
+  cache: {
+    store: 'memory',
+    stats: {
+      hits: 3,
+      stale: 1,
+      misses: 4,
+      hitRate: 0.5,
+      byType: {
+        weather: { hits: 3, stale: 1, misses: 2 },
+        photos: { hits: 0, stale: 0, misses: 2 },
+        manifest: { hits: 0, stale: 0, misses: 0 },
+        climatology: { hits: 0, stale: 0, misses: 0 },
+      },
+    },
+  },
+  uptimeSeconds: 120,
+  timestamp: '2024-01-15T12:00:00Z',
+};
+
+describe('SystemStatusPanel', () => {
+  const mutate = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessionStorage.clear();
+
+    mockUseSystemHealth.mockReturnValue({
+      data: mockHealth,
+      error: null,
+      isLoading: false,
+      isFetching: false,
+      refetch: jest.fn(),
+    } as unknown as ReturnType<typeof useSystemHealth>);
+    mockUseResetCircuit.mockReturnValue({
+      mutate,
+      isPending: false,
+      error: null,
+    } as unknown as ReturnType<typeof useResetCircuit>);
+  });
+
+  it('lists circuits with state, failures and next retry time', () => {
+    render(<SystemStatusPanel />);
+
+    expect(screen.getByTestId('health-status')).toHaveTextContent('degraded');
+
+    const openCircuit = screen.getByTestId(
+      'circuit-nasa-latest-photos-curiosity'
+    );
+    expect(openCircuit).toHaveTextContent('open');
+    expect(openCircuit).toHaveTextContent('5/5 failures');
+    expect(openCircuit).toHaveTextContent(/Next retry in \d+s/);
+
+    const closedCircuit = screen.getByTestId(
+      'circuit-nasa-latest-photos-perseverance'
+    );
+    expect(closedCircuit).toHaveTextContent('closed');
+    expect(closedCircuit).not.toHaveTextContent('Next retry');
+  });
+
+  it('shows recent retries, quotas and cache statistics', () => {
+    render(<SystemStatusPanel />);
+
+    expect(screen.getByTestId('quota-nasa-api')).toHaveTextContent(
+      '4/30 requests left'
+    );
+
+    expect(screen.getByTestId('recent-retries')).toHaveTextContent(
+      'Server error: 503 Service Unavailable'
+    );
+    expect(screen.getByTestId('cache-summary')).toHaveTextContent(
+      '50% hit rate'
+    );
+  });
+
+  it('resets a circuit with the admin token', () => {
+    render(<SystemStatusPanel />);
+
+    fireEvent.change(screen.getByLabelText('Admin token'), {
+      target: { value: 'secret' },
+    });
+    fireEvent.click(
+      screen.getByRole('button', {
+        name: 'Reset circuit nasa-latest-photos-curiosity',
+      })
+    );
+
+    expect(mutate).toHaveBeenCalledWith({
+      token: 'secret',
+      circuit: 'nasa-latest-photos-curiosity',
+    });
+    expect(sessionStorage.getItem('mars-weather-admin-token')).toBe('secret');
+  });
+
+  it('resets every circuit at once', () => {
+    render(<SystemStatusPanel />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Reset all/ }));
+
+    expect(mutate).toHaveBeenCalledWith({ token: '' });
+  });
+
+  it('shows an error when health cannot be loaded', () => {
+    mockUseSystemHealth.mockReturnValue({
+      data: undefined,
+      error: new Error('Failed to fetch health: 500'),
+      isLoading: false,
+      isFetching: false,
+      refetch: jest.fn(),
+    } as unknown as ReturnType<typeof useSystemHealth>);
+
+    render(<SystemStatusPanel />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Failed to fetch health: 500'
+    );
+  });
+});
@@ -6,6 +6,7 @@ import '@testing-library/jest-dom';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { HistoricalTrends } from '@/features/weather/HistoricalTrends';
 import { useWeatherData } from '@/features/weather/useWeatherData';
+import { useWeatherComparison } from '@/features/weather/useWeatherComparison';
 
 // Mock framer-motion to avoid animation issues in tests
 jest.mock('framer-motion', () => ({
@@ -48,6 +49,9 @@ jest.mock('recharts', () => ({
 // Mock useWeatherData hook
 jest.mock('@/features/weather/useWeatherData');
 
+// Mock useWeatherComparison hook
+jest.mock('@/features/weather/useWeatherComparison');
+
 // Sample weather sol data
 const mockWeatherSol1 = {
   sol: 3800,
@@ -130,13 +134,80 @@ const defaultMockData = {
   lastFetch: '2023-01-02T12:00:00Z',
 };
 
-// Cast the mock
+// Both rovers aligned on two Earth dates and one Ls bin
+const mockComparison = {
+  rovers: ['curiosity' as const, 'perseverance' as const],
+  temperatureUnit: 'celsius' as const,
+  pressureUnit: 'pa' as const,
+  windUnit: 'mps' as const,
+  lsBinSize: 1,
+  byEarthDate: [
+    {
+      earthDate: '2023-01-01',
+      solarLongitude: 100.2,
+      readings: {
+        curiosity: {
+          sols: [3800],
+          temperature: { min: -80.5, average: -45.3, max: -10.2 },
+          pressure: 75000,
+          windSpeed: 12.5,
+        },
+      },
+    },
+    {
+      earthDate: '2023-01-02',
+      solarLongitude: 100.7,
+      readings: {
+        curiosity: {
+          sols: [3801],
+          temperature: { min: -82.1, average: -43.9, max: -8.7 },
+          pressure: 76000,
+          windSpeed: 15.2,
+        },
+        perseverance: {
+          sols: [660],
+          temperature: { min: -85, average: -50, max: -15 },
+          pressure: 72000,
+          windSpeed: null,
+        },
+      },
+    },
+  ],
+  byLs: [
+    {
+      lsStart: 100,
+      lsEnd: 101,
+      readings: {
+        curiosity: {
+          sols: [3800, 3801],
+          temperature: { min: -82.1, average: -44.6, max: -8.7 },
+          pressure: 75500,
+          windSpeed: 13.85,
+        },
+        perseverance: {
+          sols: [660],
+          temperature: { min: -85, average: -50, max: -15 },
+          pressure: 72000,
+          windSpeed: null,
+        },
+      },
+    },
+  ],
+};
+
+// Cast the mocks
 const mockedUseWeatherData = jest.mocked(useWeatherData);
+const mockedUseWeatherComparison = jest.mocked(useWeatherComparison);
 
 describe('HistoricalTrends', () => {
   beforeEach(() => {
     // Reset mock to default state before each test
     mockedUseWeatherData.mockReturnValue(defaultMockData);
+    mockedUseWeatherComparison.mockReturnValue({
+      data: mockComparison,
+      isLoading: false,
+      error: null,
+    });
   });
 
   afterEach(() => {
@@ -271,6 +342,35 @@ describe('HistoricalTrends', () => {
     expect(screen.getByText('2023-01-01 - 2023-01-02')).toBeInTheDocument();
   });
 
+  it('overlays both rovers in comparison mode', () => {
+    render(<HistoricalTrends />);
+
+    expect(mockedUseWeatherComparison).toHaveBeenLastCalledWith(
+      ['curiosity', 'perseverance'],
+      { historyDays: 30, enabled: false }
+    );
+
+    fireEvent.click(screen.getByText('Compare'));
+    fireEvent.click(screen.getByText('7d'));
+
+    expect(mockedUseWeatherComparison).toHaveBeenLastCalledWith(
+      ['curiosity', 'perseverance'],
+      { historyDays: 7, enabled: true }
+    );
+    expect(screen.getByRole('button', { name: /Compare/ })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    // One line per rover
+    expect(screen.getAllByTestId('line')).toHaveLength(2);
+    expect(screen.getByText('Comparing 2 Earth dates')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Ls'));
+
+    expect(screen.getByText('Comparing 1 Ls bins')).toBeInTheDocument();
+    expect(screen.getByText('Ls 100°–101° - Ls 100°–101°')).toBeInTheDocument();
+  });
+
   it('applies custom className', () => {
     const { container } = render(<HistoricalTrends className="custom-class" />);
 
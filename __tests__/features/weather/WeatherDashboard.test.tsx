@@ -127,6 +127,44 @@ describe('WeatherDashboard', () => {
     expect(screen.getByText('REMS instrument')).toBeInTheDocument();
   });
 
+  it('renders Mars year, solar longitude and season when present', () => {
+    mockUseWeatherData.mockReturnValue({
+      data: {
+        ...mockWeatherData,
+        latest: {
+          ...mockWeatherData.latest,
+          marsYear: 37,
+          solarLongitude: 123.44,
+          season: 'southern-winter' as const,
+        },
+      },
+      isLoading: false,
+      error: null,
+      refetch: jest.fn(),
+      lastFetch: '2024-01-01T00:00:00Z',
+    });
+
+    render(<WeatherDashboard />);
+
+    expect(screen.getByTestId('mars-season')).toHaveTextContent(
+      'MY 37 · Ls 123.4° · Southern winter'
+    );
+  });
+
+  it('omits the season line for unannotated data', () => {
+    mockUseWeatherData.mockReturnValue({
+      data: mockWeatherData,
+      isLoading: false,
+      error: null,
+      refetch: jest.fn(),
+      lastFetch: '2024-01-01T00:00:00Z',
+    });
+
+    render(<WeatherDashboard />);
+
+    expect(screen.queryByTestId('mars-season')).not.toBeInTheDocument();
+  });
+
   it('renders error state when data fetch fails', () => {
     const mockRefetch = jest.fn();
     mockUseWeatherData.mockReturnValue({
@@ -292,6 +330,31 @@ describe('WeatherDashboard', () => {
     expect(screen.getByText('Jezero Crater')).toBeInTheDocument();
   });
 
+  it('opens a focused sol and returns to the latest sol', () => {
+    mockUseWeatherData.mockReturnValue({
+      data: mockWeatherData,
+      isLoading: false,
+      error: null,
+      refetch: jest.fn(),
+      lastFetch: '2024-01-01T00:00:00Z',
+    });
+
+    render(<WeatherDashboard focusSol={{ rover: 'perseverance', sol: 500 }} />);
+
+    expect(mockUseWeatherData).toHaveBeenLastCalledWith(
+      'perseverance',
+      expect.objectContaining({ fromSol: 500, toSol: 500 })
+    );
+
+    fireEvent.click(screen.getByText('Back to latest sol'));
+
+    expect(mockUseWeatherData).toHaveBeenLastCalledWith(
+      'perseverance',
+      expect.not.objectContaining({ fromSol: 500 })
+    );
+    expect(screen.queryByText('Back to latest sol')).not.toBeInTheDocument();
+  });
+
   it('renders with proper accessibility attributes', () => {
     mockUseWeatherData.mockReturnValue({
       data: mockWeatherData,
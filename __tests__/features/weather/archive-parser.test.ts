@@ -0,0 +1,198 @@
+/**
+ * Tests for REMS/MEDA/TWINS archive parsing
+ */
+
+import {
+  ArchiveAccumulator,
+  parseArchiveTable,
+  parseLabelColumns,
+} from '@/features/weather/archive-parser';
+import { ArchiveWeatherProvider } from '@/features/weather/weather-providers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const REMS_CSV = [
+  'SCLK,LMST,UTC,AMBIENT_TEMP,PRESSURE,HORIZONTAL_WIND_SPEED,WIND_DIRECTION',
+  '397535244,00010M06:00:00.000,2012-08-16T10:00:00,200.15,760.0,4.0,350',
+  '397538844,00010M12:00:00.000,2012-08-16T16:00:00,270.15,740.0,6.0,10',
+  '397542444,00010M18:00:00.000,2012-08-16T22:00:00,235.15,750.0,UNK,UNK',
+  '397621644,00011M12:00:00.000,2012-08-17T16:40:00,265.15,745.0,5.0,90',
+].join('\n');
+
+describe('archive parser', () => {
+  describe('parseLabelColumns', () => {
+    it('extracts column names from a PDS3 label', () => {
+      const label = `
+OBJECT = TABLE
+  OBJECT = COLUMN
+    NAME = SCLK
+    DATA_TYPE = ASCII_INTEGER
+  END_OBJECT = COLUMN
+  OBJECT = COLUMN
+    NAME = "AMBIENT_TEMP"
+  END_OBJECT = COLUMN
+  OBJECT = COLUMN
+    NAME = PRESSURE
+  END_OBJECT = COLUMN
+END_OBJECT = TABLE`;
+
+      expect(parseLabelColumns(label)).toEqual([
+        'SCLK',
+        'AMBIENT_TEMP',
+        'PRESSURE',
+      ]);
+    });
+  });
+
+  describe('parseArchiveTable', () => {
+    it('reads header rows from CSV products', () => {
+      const table = parseArchiveTable(REMS_CSV);
+
+      expect(table.columns).toContain('AMBIENT_TEMP');
+      expect(table.rows).toHaveLength(4);
+    });
+
+    it('uses label columns for headerless TAB products', () => {
+      const table = parseArchiveTable('12 250.0 700.5\n12 251.0 701.5\n', [
+        'SOL',
+        'AMBIENT_TEMP',
+        'PRESSURE',
+      ]);
+
+      expect(table.columns).toEqual(['SOL', 'AMBIENT_TEMP', 'PRESSURE']);
+      expect(table.rows[1]).toEqual(['12', '251.0', '701.5']);
+    });
+
+    it('rejects headerless products without a label', () => {
+      expect(() => parseArchiveTable('12 250.0 700.5')).toThrow(
+        'no header row'
+      );
+    });
+  });
+
+  describe('ArchiveAccumulator', () => {
+    it('aggregates samples per sol and converts kelvin to celsius', () => {
+      const accumulator = new ArchiveAccumulator();
+      accumulator.addTable(parseArchiveTable(REMS_CSV));
+
+      const [sol10, sol11] = accumulator.toWeatherSols('curiosity');
+
+      expect(sol10?.sol).toBe(10);
+      expect(sol10?.earthDate).toBe('2012-08-16');
+      expect(sol10?.instrument).toBe('REMS');
+      expect(sol10?.temperature.min).toBeCloseTo(-73);
+      expect(sol10?.temperature.max).toBeCloseTo(-3);
+      expect(sol10?.temperature.average).toBeCloseTo(-38);
+      expect(sol10?.atmosphere.pressure).toBeCloseTo(750);
+      expect(sol10?.wind?.speed).toBeCloseTo(5);
+      // Circular mean of 350° and 10° is north, not 180°
+      expect(sol10?.wind?.direction).toBe(0);
+      expect(sol11?.sol).toBe(11);
+    });
+
+    it('flags sols with missing samples as partial', () => {
+      const accumulator = new ArchiveAccumulator();
+      accumulator.addTable(parseArchiveTable(REMS_CSV));
+
+      const [sol10, sol11] = accumulator.toWeatherSols('curiosity');
+
+      expect(sol10?.temperature.quality).toBe('complete');
+      expect(sol10?.wind?.quality).toBe('partial');
+      expect(sol10?.dataQuality).toBe('partial');
+      expect(sol11?.dataQuality).toBe('complete');
+    });
+
+    it('merges per-sensor MEDA products for the same sol', () => {
+      const accumulator = new ArchiveAccumulator();
+      accumulator.addTable(
+        parseArchiveTable(
+          'LMST,ATS_LOCAL_TEMP1,ATS_LOCAL_TEMP2\n' +
+            '00100M10:00:00,240.15,242.15\n' +
+            '00100M14:00:00,250.15,252.15'
+        )
+      );
+      accumulator.addTable(
+        parseArchiveTable('LMST,PRESSURE\n00100M10:00:00,720.0')
+      );
+
+      const [sol] = accumulator.toWeatherSols('perseverance');
+
+      expect(sol?.instrument).toBe('MEDA');
+      expect(sol?.temperature.min).toBeCloseTo(-32);
+      expect(sol?.temperature.max).toBeCloseTo(-22);
+      expect(sol?.atmosphere.pressure).toBe(720);
+      expect(sol?.wind).toBeUndefined();
+      expect(sol?.earthDate).toMatch(/^2021-0[56]-\d{2}$/);
+    });
+
+    it('reads TWINS boom temperatures for InSight', () => {
+      const accumulator = new ArchiveAccumulator();
+      accumulator.addTable(
+        parseArchiveTable(
+          'SOL,BMY_AIR_TEMP,BPY_AIR_TEMP,PRESSURE\n' +
+            '100,200.15,202.15,710.0\n' +
+            '100,240.15,238.15,700.0'
+        )
+      );
+
+      const [sol] = accumulator.toWeatherSols('insight');
+
+      expect(sol?.instrument).toBe('TWINS');
+      expect(sol?.location.locationName).toBe('Elysium Planitia');
+      // Both booms are averaged per sample
+      expect(sol?.temperature.min).toBeCloseTo(-72);
+      expect(sol?.temperature.max).toBeCloseTo(-34);
+      expect(sol?.earthDate).toMatch(/^2019-03-\d{2}$/);
+    });
+
+    it('skips sols without temperature or pressure', () => {
+      const accumulator = new ArchiveAccumulator();
+      accumulator.addTable(
+        parseArchiveTable('SOL,AMBIENT_TEMP,PRESSURE\n5,-9999,700\n6,UNK,UNK')
+      );
+
+      expect(accumulator.toWeatherSols('curiosity')).toEqual([]);
+    });
+  });
+
+  describe('ArchiveWeatherProvider', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-'));
+      fs.mkdirSync(path.join(directory, 'curiosity', 'sol00010'), {
+        recursive: true,
+      });
+      fs.writeFileSync(
+        path.join(directory, 'curiosity', 'sol00010', 'RME_00010.CSV'),
+        REMS_CSV
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('reads archive products recursively for the rover', async () => {
+      const provider = new ArchiveWeatherProvider(directory);
+
+      const data = await provider.getWeatherData('curiosity', {
+        historyDays: 7,
+      });
+
+      expect(data.history.map((sol) => sol.sol)).toEqual([10, 11]);
+      expect(data.latest.sol).toBe(11);
+      expect(data.status).toBe('partial');
+    });
+
+    it('fails when the rover has no archive products', async () => {
+      fs.mkdirSync(path.join(directory, 'perseverance'));
+      const provider = new ArchiveWeatherProvider(directory);
+
+      await expect(provider.getWeatherData('perseverance', {})).rejects.toThrow(
+        'No REMS/MEDA archive products'
+      );
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for ClimatologyService seasonal binning
+ */
+
+import { ClimatologyService } from '@/features/weather/climatology-service';
+import { SyntheticWeatherProvider } from '@/features/weather/weather-providers';
+import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+import { MarsWeatherSol } from '@/types/weather';
+
+describe('ClimatologyService', () => {
+  const synthetic = new SyntheticWeatherProvider();
+  const landingMSD = MarsTimeCalculator.getRoverSolMSD('curiosity', 0);
+
+  /** Two full Mars years of synthetic Curiosity sols */
+  const sols: MarsWeatherSol[] = synthetic.generateSolRange(
+    'curiosity',
+    0,
+    1337
+  ).history;
+
+  it('returns one bin per Ls interval', () => {
+    const climatology = ClimatologyService.computeClimatology(
+      'curiosity',
+      sols,
+      { binSize: 10 }
+    );
+
+    expect(climatology.bins).toHaveLength(36);
+    expect(climatology.bins[0]).toMatchObject({ lsStart: 0, lsEnd: 10 });
+    expect(climatology.bins[35]).toMatchObject({ lsStart: 350, lsEnd: 360 });
+    expect(climatology.bins.reduce((total, bin) => total + bin.sols, 0)).toBe(
+      sols.length
+    );
+  });
+
+  it('groups sols by Ls and Mars year', () => {
+    const climatology = ClimatologyService.computeClimatology(
+      'curiosity',
+      sols,
+      { binSize: 30 }
+    );
+
+    expect(climatology.marsYears).toEqual([31, 32, 33]);
+
+    const sol = sols[700]!;
+    const msd = landingMSD + sol.sol + 0.5;
+    const bin =
+      climatology.bins[Math.floor(MarsTimeCalculator.getMarsLs(msd) / 30)]!;
+    const year = bin.years.find(
+      (entry) => entry.marsYear === MarsTimeCalculator.getMarsYear(msd)
+    );
+
+    expect(year).toBeDefined();
+    expect(year!.temperature.min).toBeLessThanOrEqual(sol.temperature.min);
+    expect(year!.temperature.max).toBeGreaterThanOrEqual(sol.temperature.max);
+    expect(bin.years.map((entry) => entry.marsYear)).toEqual(
+      [...bin.years.map((entry) => entry.marsYear)].sort((a, b) => a - b)
+    );
+  });
+
+  it('summarizes daily extremes and averages', () => {
+    const single = sols.slice(0, 1);
+    const climatology = ClimatologyService.computeClimatology(
+      'curiosity',
+      single,
+      { binSize: 90 }
+    );
+    const bin = climatology.bins.find((entry) => entry.sols === 1)!;
+
+    expect(bin.temperature?.min).toBeCloseTo(single[0]!.temperature.min, 1);
+    expect(bin.temperature?.average).toBeCloseTo(
+      single[0]!.temperature.average,
+      1
+    );
+    expect(bin.temperature?.max).toBeCloseTo(single[0]!.temperature.max, 1);
+    expect(bin.pressure?.average).toBeCloseTo(
+      single[0]!.atmosphere.pressure,
+      1
+    );
+    expect(
+      climatology.bins
+        .filter((entry) => entry.sols === 0)
+        .every(
+          (entry) => entry.temperature === null && entry.years.length === 0
+        )
+    ).toBe(true);
+  });
+
+  it('converts statistics to the requested units', () => {
+    const celsius = ClimatologyService.computeClimatology('curiosity', sols);
+    const kelvin = ClimatologyService.computeClimatology('curiosity', sols, {
+      temperatureUnit: 'kelvin',
+      pressureUnit: 'hpa',
+    });
+
+    expect(kelvin.temperatureUnit).toBe('kelvin');
+    expect(kelvin.bins[5]!.temperature!.average).toBeCloseTo(
+      celsius.bins[5]!.temperature!.average + 273.15,
+      1
+    );
+    expect(kelvin.bins[5]!.pressure!.average).toBeCloseTo(
+      celsius.bins[5]!.pressure!.average / 100,
+      1
+    );
+  });
+
+  it('aggregates the full mission from the provider chain', async () => {
+    const result = await ClimatologyService.getClimatology('perseverance', {
+      binSize: 45,
+    });
+
+    expect(result.data.bins).toHaveLength(8);
+    expect(result.meta.totalSols).toBeGreaterThan(1000);
+    expect(result.meta.source).toBeDefined();
+
+    const again = await ClimatologyService.getClimatology('perseverance', {
+      binSize: 45,
+    });
+    expect(again.meta.cached).toBe(true);
+  });
+
+  it('rejects invalid bin sizes', async () => {
+    await expect(
+      ClimatologyService.getClimatology('curiosity', { binSize: 0 })
+    ).rejects.toThrow('Bin size');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for WeatherComparisonService alignment
+ */
+
+import { WeatherComparisonService } from '@/features/weather/comparison-service';
+import { SyntheticWeatherProvider } from '@/features/weather/weather-providers';
+import { WeatherService } from '@/features/weather/weather-service';
+import { MarsWeatherSol } from '@/types/weather';
+
+describe('WeatherComparisonService', () => {
+  const synthetic = new SyntheticWeatherProvider();
+  /** Ten sols per rover, annotated with Ls like WeatherService output */
+  const curiosity = synthetic
+    .generateSolRange('curiosity', 3000, 3009)
+    .history.map((sol) => WeatherService.annotateSol(sol));
+  const perseverance = synthetic
+    .generateSolRange('perseverance', 700, 709)
+    .history.map((sol) => WeatherService.annotateSol(sol));
+
+  it('aligns rovers on shared Earth dates', () => {
+    const comparison = WeatherComparisonService.alignWeather(
+      ['curiosity', 'perseverance'],
+      { curiosity, perseverance }
+    );
+
+    const dates = comparison.byEarthDate.map(({ earthDate }) => earthDate);
+    expect(dates).toEqual([...dates].sort());
+    expect(new Set(dates).size).toBe(dates.length);
+
+    for (const sol of [...curiosity, ...perseverance]) {
+      const point = comparison.byEarthDate.find(
+        ({ earthDate }) => earthDate === sol.earthDate
+      );
+      expect(point?.readings[sol.rover]?.sols).toContain(sol.sol);
+    }
+  });
+
+  it('combines the sols that fall on one point', () => {
+    const base = curiosity[0]!;
+    const sols: MarsWeatherSol[] = [
+      {
+        ...base,
+        temperature: { ...base.temperature, min: -90, average: -50, max: -10 },
+        atmosphere: { ...base.atmosphere, pressure: 700 },
+      },
+      {
+        ...base,
+        sol: base.sol + 1,
+        temperature: { ...base.temperature, min: -80, average: -40, max: -5 },
+        atmosphere: { ...base.atmosphere, pressure: 800 },
+      },
+    ];
+
+    const comparison = WeatherComparisonService.alignWeather(
+      ['curiosity', 'perseverance'],
+      { curiosity: sols }
+    );
+
+    expect(comparison.byEarthDate).toHaveLength(1);
+    expect(comparison.byEarthDate[0]?.readings).toEqual({
+      curiosity: expect.objectContaining({
+        sols: [base.sol, base.sol + 1],
+        temperature: { min: -90, average: -45, max: -5 },
+        pressure: 750,
+      }),
+    });
+  });
+
+  it('bins sols by solar longitude', () => {
+    const comparison = WeatherComparisonService.alignWeather(
+      ['curiosity', 'perseverance'],
+      { curiosity, perseverance },
+      { lsBinSize: 30 }
+    );
+
+    expect(comparison.lsBinSize).toBe(30);
+    for (const bin of comparison.byLs) {
+      expect(bin.lsStart % 30).toBe(0);
+      expect(bin.lsEnd).toBe(Math.min(360, bin.lsStart + 30));
+    }
+    const binned = comparison.byLs.flatMap(({ readings }) =>
+      Object.values(readings).flatMap((reading) => reading.sols)
+    );
+    expect(binned).toHaveLength(curiosity.length + perseverance.length);
+  });
+
+  it('rejects invalid Ls bin sizes', () => {
+    expect(() =>
+      WeatherComparisonService.alignWeather(['curiosity'], {}, { lsBinSize: 0 })
+    ).toThrow('Ls bin size');
+  });
+});
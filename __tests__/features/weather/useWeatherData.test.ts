@@ -0,0 +1,142 @@
+/**
+ * Tests for useWeatherData live stream subscription
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useWeatherData } from '@/features/weather/useWeatherData';
+import { SyntheticWeatherProvider } from '@/features/weather/weather-providers';
+
+/** Minimal EventSource stand-in that lets tests emit named events */
+class MockEventSource {
+  static instances: MockEventSource[] = [];
+  listeners = new Map<string, Array<(event: MessageEvent<string>) => void>>();
+  closed = false;
+
+  constructor(public url: string) {
+    MockEventSource.instances.push(this);
+  }
+
+  addEventListener(
+    type: string,
+    listener: (event: MessageEvent<string>) => void
+  ): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  removeEventListener(): void {}
+
+  close(): void {
+    this.closed = true;
+  }
+
+  emit(type: string, data: unknown): void {
+    const event = { data: JSON.stringify(data) } as MessageEvent<string>;
+    this.listeners.get(type)?.forEach((listener) => listener(event));
+  }
+}
+
+const initialData = new SyntheticWeatherProvider().generateSolRange(
+  'curiosity',
+  100,
+  106
+);
+
+describe('useWeatherData live mode', () => {
+  const originalEventSource = global.EventSource;
+
+  beforeEach(() => {
+    MockEventSource.instances = [];
+    global.EventSource = MockEventSource as unknown as typeof EventSource;
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: initialData }),
+    });
+  });
+
+  afterEach(() => {
+    global.EventSource = originalEventSource;
+    jest.restoreAllMocks();
+  });
+
+  it('subscribes to the rover stream with the requested units', () => {
+    const { unmount } = renderHook(() =>
+      useWeatherData('curiosity', {
+        initialData,
+        live: true,
+        temperatureUnit: 'kelvin',
+      })
+    );
+
+    expect(MockEventSource.instances).toHaveLength(1);
+    expect(MockEventSource.instances[0]!.url).toBe(
+      '/api/stream/curiosity?tempUnit=kelvin'
+    );
+
+    unmount();
+    expect(MockEventSource.instances[0]!.closed).toBe(true);
+  });
+
+  it('merges pushed sols into the latest data', () => {
+    const { result } = renderHook(() =>
+      useWeatherData('curiosity', { initialData, live: true })
+    );
+    const [newSol] = new SyntheticWeatherProvider().generateSolRange(
+      'curiosity',
+      107,
+      107
+    ).history;
+
+    act(() => {
+      MockEventSource.instances[0]!.emit('sol', { sol: newSol });
+    });
+
+    expect(result.current.data?.latest.sol).toBe(107);
+    expect(result.current.data?.history.map((sol) => sol.sol)).toEqual([
+      101, 102, 103, 104, 105, 106, 107,
+    ]);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('refetches when the server invalidates its cache', async () => {
+    renderHook(() => useWeatherData('curiosity', { initialData, live: true }));
+
+    act(() => {
+      MockEventSource.instances[0]!.emit('invalidate', { reason: 'test' });
+    });
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+  });
+
+  it('keeps one subscription across re-renders', async () => {
+    const { rerender } = renderHook(
+      ({ updateInterval }) =>
+        useWeatherData('curiosity', {
+          initialData,
+          live: true,
+          updateInterval,
+        }),
+      { initialProps: { updateInterval: 1000 } }
+    );
+    rerender({ updateInterval: 2000 });
+
+    expect(MockEventSource.instances).toHaveLength(1);
+
+    act(() => {
+      MockEventSource.instances[0]!.emit('invalidate', { reason: 'test' });
+    });
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+  });
+
+  it('does not subscribe for sol-range queries', () => {
+    renderHook(() =>
+      useWeatherData('curiosity', {
+        initialData,
+        live: true,
+        fromSol: 0,
+        toSol: 10,
+      })
+    );
+
+    expect(MockEventSource.instances).toHaveLength(0);
+  });
+});
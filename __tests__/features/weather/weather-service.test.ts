@@ -0,0 +1,411 @@
+/**
+ * Tests for WeatherService data synthesis
+ */
+
+import { WeatherService } from '@/features/weather/weather-service';
+import {
+  WeatherProvider,
+  SyntheticWeatherProvider,
+  FixtureWeatherProvider,
+  createWeatherProviders,
+} from '@/features/weather/weather-providers';
+import { MarsWeatherSol } from '@/types/weather';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/** Strip fields that legitimately change per request */
+function measurements(
+  sol: MarsWeatherSol
+): Omit<MarsWeatherSol, 'lastUpdated'> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { lastUpdated, ...rest } = sol;
+  return rest;
+}
+
+describe('WeatherService', () => {
+  const originalConsoleInfo = console.info;
+
+  beforeAll(() => {
+    console.info = jest.fn();
+  });
+
+  afterAll(() => {
+    console.info = originalConsoleInfo;
+  });
+
+  describe('seeded weather synthesis', () => {
+    it('yields identical values for the same rover and sol', async () => {
+      // Different history lengths bypass the response cache but overlap on sols
+      const first = await WeatherService.getWeatherData('curiosity', {
+        historyDays: 3,
+      });
+      const second = await WeatherService.getWeatherData('curiosity', {
+        historyDays: 5,
+      });
+
+      const secondBySol = new Map(
+        second.data.history.map((sol) => [sol.sol, sol])
+      );
+
+      first.data.history.forEach((sol) => {
+        const match = secondBySol.get(sol.sol);
+        expect(match).toBeDefined();
+        expect(measurements(match!)).toEqual(measurements(sol));
+      });
+    });
+
+    it('yields different values for different rovers', async () => {
+      const curiosity = await WeatherService.getWeatherData('curiosity', {
+        historyDays: 2,
+      });
+      const perseverance = await WeatherService.getWeatherData('perseverance', {
+        historyDays: 2,
+      });
+
+      expect(curiosity.data.latest.temperature.average).not.toBe(
+        perseverance.data.latest.temperature.average
+      );
+    });
+  });
+
+  describe('provider chain', () => {
+    const failingProvider: WeatherProvider = {
+      name: 'failing',
+      getWeatherData: jest.fn().mockRejectedValue(new Error('Archive offline')),
+    };
+
+    afterEach(() => {
+      WeatherService.setProviders(createWeatherProviders());
+    });
+
+    it('falls through failed providers and reports their health', async () => {
+      WeatherService.setProviders([
+        failingProvider,
+        new SyntheticWeatherProvider(),
+      ]);
+
+      const result = await WeatherService.getWeatherData('curiosity');
+
+      expect(result.meta.source).toBe('synthetic');
+      expect(result.meta.providers).toEqual([
+        expect.objectContaining({
+          name: 'failing',
+          status: 'failed',
+          error: 'Archive offline',
+        }),
+        expect.objectContaining({ name: 'synthetic', status: 'ok' }),
+      ]);
+    });
+
+    it('skips providers that do not support the rover', async () => {
+      const curiosityOnly: WeatherProvider = {
+        name: 'curiosity-only',
+        supports: (rover) => rover === 'curiosity',
+        getWeatherData: jest.fn(),
+      };
+      WeatherService.setProviders([
+        curiosityOnly,
+        new SyntheticWeatherProvider(),
+      ]);
+
+      const result = await WeatherService.getWeatherData('perseverance');
+
+      expect(curiosityOnly.getWeatherData).not.toHaveBeenCalled();
+      expect(result.meta.providers?.[0]).toEqual(
+        expect.objectContaining({ name: 'curiosity-only', status: 'skipped' })
+      );
+    });
+
+    it('registers custom providers ahead of the defaults', () => {
+      WeatherService.registerProvider(failingProvider);
+
+      const names = WeatherService.getProviders().map((p) => p.name);
+      expect(names[0]).toBe('failing');
+      expect(names).toContain('synthetic');
+    });
+
+    it('falls back to synthetic data when every provider fails', async () => {
+      WeatherService.setProviders([failingProvider]);
+
+      const result = await WeatherService.getWeatherData('curiosity');
+
+      expect(result.meta.source).toBe('synthetic');
+      expect(result.data.history).toHaveLength(7);
+      expect(result.meta.providers).toHaveLength(1);
+    });
+  });
+
+  describe('cache keys', () => {
+    it('shares one key between equivalent requests', () => {
+      expect(
+        WeatherService.getCacheKey('curiosity', {
+          temperatureUnit: 'celsius',
+          historyDays: 7,
+        })
+      ).toBe(WeatherService.getCacheKey('curiosity', {}));
+      expect(
+        WeatherService.getCacheKey('curiosity', { fromSol: 100, toSol: 149 })
+      ).toBe(
+        WeatherService.getCacheKey('curiosity', {
+          toSol: 149,
+          fromSol: 100,
+          page: 1,
+          pageSize: WeatherService.DEFAULT_PAGE_SIZE,
+        })
+      );
+    });
+
+    it('separates requests that return different data', () => {
+      expect(
+        WeatherService.getCacheKey('curiosity', { temperatureUnit: 'kelvin' })
+      ).not.toBe(WeatherService.getCacheKey('curiosity', {}));
+      expect(WeatherService.getCacheKey('perseverance', {})).not.toBe(
+        WeatherService.getCacheKey('curiosity', {})
+      );
+    });
+  });
+
+  describe('sol-range queries', () => {
+    it('returns the requested sols with pagination details', async () => {
+      const result = await WeatherService.getWeatherData('curiosity', {
+        fromSol: 100,
+        toSol: 149,
+        pageSize: 20,
+        page: 2,
+      });
+
+      expect(result.data.history.map((sol) => sol.sol)).toEqual(
+        Array.from({ length: 20 }, (_, i) => 120 + i)
+      );
+      expect(result.meta.pagination).toEqual({
+        page: 2,
+        pageSize: 20,
+        totalPages: 3,
+        totalSols: 50,
+        fromSol: 100,
+        toSol: 149,
+      });
+    });
+
+    it('maps Earth dates onto mission sols', () => {
+      const pagination = WeatherService.resolveSolRange('perseverance', {
+        fromDate: '2021-02-18',
+        toDate: '2021-03-01',
+      });
+
+      expect(pagination?.fromSol).toBe(0);
+      expect(pagination?.toSol).toBeGreaterThanOrEqual(10);
+      expect(pagination?.toSol).toBeLessThanOrEqual(11);
+    });
+
+    it('returns null without range parameters', () => {
+      expect(
+        WeatherService.resolveSolRange('curiosity', { historyDays: 7 })
+      ).toBeNull();
+    });
+
+    it('rejects empty ranges and out-of-range pages', () => {
+      expect(() =>
+        WeatherService.resolveSolRange('curiosity', {
+          fromSol: 200,
+          toSol: 100,
+        })
+      ).toThrow();
+      expect(() =>
+        WeatherService.resolveSolRange('curiosity', {
+          fromSol: 0,
+          toSol: 9,
+          page: 5,
+        })
+      ).toThrow('Page 5 is out of range');
+    });
+  });
+
+  describe('season annotation', () => {
+    it('adds Mars year, solar longitude and season to every sol', async () => {
+      const result = await WeatherService.getWeatherData('perseverance', {
+        historyDays: 3,
+      });
+
+      [result.data.latest, ...result.data.history].forEach((sol) => {
+        expect(sol.marsYear).toBeGreaterThanOrEqual(36);
+        expect(sol.solarLongitude).toBeGreaterThanOrEqual(0);
+        expect(sol.solarLongitude).toBeLessThan(360);
+        expect(sol.season).toMatch(/^northern-/);
+      });
+    });
+
+    it('annotates landing sols with the season at landing', () => {
+      // Perseverance landed in MY 36 at Ls ~5° (northern spring)
+      const [sol] = new SyntheticWeatherProvider().generateSolRange(
+        'perseverance',
+        0,
+        0
+      ).history;
+      const annotated = WeatherService.annotateSol(sol!);
+
+      expect(annotated.marsYear).toBe(36);
+      expect(annotated.solarLongitude).toBeGreaterThan(4);
+      expect(annotated.solarLongitude).toBeLessThan(7);
+      expect(annotated.season).toBe('northern-spring');
+    });
+
+    it('keeps provider-supplied season fields', () => {
+      const [sol] = new SyntheticWeatherProvider().generateSolRange(
+        'curiosity',
+        10,
+        10
+      ).history;
+      const annotated = WeatherService.annotateSol({
+        ...sol!,
+        solarLongitude: 42,
+      });
+
+      expect(annotated.solarLongitude).toBe(42);
+      expect(annotated.season).toBe('southern-autumn');
+    });
+  });
+
+  describe('createWeatherProviders', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('builds providers in the requested order', () => {
+      const names = createWeatherProviders('synthetic, nasa-photos').map(
+        (p) => p.name
+      );
+      expect(names).toEqual(['synthetic', 'nasa-photos']);
+    });
+
+    it('ignores unknown and unconfigured providers', () => {
+      process.env = { ...originalEnv };
+      delete process.env.WEATHER_FIXTURE_DIR;
+
+      const names = createWeatherProviders('bogus,fixture,synthetic').map(
+        (p) => p.name
+      );
+      expect(names).toEqual(['synthetic']);
+    });
+
+    it('does not treat inherited object properties as providers', () => {
+      const names = createWeatherProviders(
+        'constructor,toString,__proto__,synthetic'
+      ).map((p) => p.name);
+      expect(names).toEqual(['synthetic']);
+    });
+
+    it('includes the fixture provider when a directory is configured', () => {
+      process.env = { ...originalEnv, WEATHER_FIXTURE_DIR: '/tmp/fixtures' };
+
+      const [provider] = createWeatherProviders('fixture');
+      expect(provider).toBeInstanceOf(FixtureWeatherProvider);
+    });
+  });
+
+  describe('FixtureWeatherProvider', () => {
+    it('serves the most recent sols from <rover>.json', async () => {
+      const synthetic = new SyntheticWeatherProvider();
+      const sols = [3, 1, 2].map((sol) =>
+        synthetic.generateSolWeatherData('curiosity', sol, '2024-01-01')
+      );
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'weather-'));
+      fs.writeFileSync(
+        path.join(directory, 'curiosity.json'),
+        JSON.stringify(sols)
+      );
+
+      const provider = new FixtureWeatherProvider(directory);
+      const data = await provider.getWeatherData('curiosity', {
+        historyDays: 2,
+      });
+
+      expect(data.history.map((sol) => sol.sol)).toEqual([2, 3]);
+      expect(data.latest.sol).toBe(3);
+
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('rejects fixture entries that are not weather sols', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'weather-'));
+      fs.writeFileSync(
+        path.join(directory, 'curiosity.json'),
+        JSON.stringify([{ sol: 1, earthDate: '2024-01-01' }])
+      );
+
+      const provider = new FixtureWeatherProvider(directory);
+      await expect(provider.getWeatherData('curiosity', {})).rejects.toThrow(
+        'entry 0 is not a sol'
+      );
+
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('throws when the fixture file is missing', async () => {
+      const provider = new FixtureWeatherProvider('/nonexistent/fixtures');
+
+      await expect(provider.getWeatherData('curiosity', {})).rejects.toThrow();
+    });
+  });
+
+  describe('unit conversion', () => {
+    it('converts temperatures between celsius, fahrenheit and kelvin', () => {
+      expect(WeatherService.convertTemperature(-40, 'fahrenheit')).toBe(-40);
+      expect(WeatherService.convertTemperature(0, 'kelvin')).toBeCloseTo(
+        273.15
+      );
+      expect(
+        WeatherService.convertTemperature(212, 'celsius', 'fahrenheit')
+      ).toBeCloseTo(100);
+      expect(
+        WeatherService.convertTemperature(273.15, 'fahrenheit', 'kelvin')
+      ).toBeCloseTo(32);
+    });
+
+    it('converts pressure and wind speed from any source unit', () => {
+      expect(WeatherService.convertPressure(750, 'hpa')).toBe(7.5);
+      expect(WeatherService.convertPressure(7.5, 'pa', 'mbar')).toBe(750);
+      expect(WeatherService.convertWindSpeed(10, 'kph')).toBe(36);
+      expect(WeatherService.convertWindSpeed(36, 'mps', 'kph')).toBe(10);
+    });
+
+    it('converts every sol in history and latest to the requested units', async () => {
+      WeatherService.setProviders([new SyntheticWeatherProvider()]);
+
+      const base = await WeatherService.getWeatherData('curiosity', {
+        historyDays: 4,
+      });
+      const converted = await WeatherService.getWeatherData('curiosity', {
+        historyDays: 4,
+        temperatureUnit: 'fahrenheit',
+        pressureUnit: 'hpa',
+        windUnit: 'kph',
+      });
+
+      converted.data.history.forEach((sol, index) => {
+        const original = base.data.history[index]!;
+        expect(sol.temperature.unit).toBe('fahrenheit');
+        expect(sol.temperature.average).toBeCloseTo(
+          (original.temperature.average * 9) / 5 + 32
+        );
+        expect(sol.atmosphere.unit).toBe('hpa');
+        expect(sol.atmosphere.pressure).toBeCloseTo(
+          original.atmosphere.pressure / 100
+        );
+        if (sol.wind && original.wind) {
+          expect(sol.wind.unit).toBe('kph');
+          expect(sol.wind.speed).toBeCloseTo(original.wind.speed * 3.6);
+        }
+      });
+      expect(converted.data.latest.temperature.unit).toBe('fahrenheit');
+      expect(converted.data.latest.temperature.max).toBeCloseTo(
+        (base.data.latest.temperature.max * 9) / 5 + 32
+      );
+
+      WeatherService.setProviders(createWeatherProviders());
+    });
+  });
+});
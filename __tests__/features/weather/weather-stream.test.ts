@@ -0,0 +1,164 @@
+/**
+ * Tests for live weather events and the shared stream poller
+ */
+
+import { WeatherService } from '@/features/weather/weather-service';
+import { WeatherEvents } from '@/features/weather/weather-events';
+import { WeatherStreamService } from '@/features/weather/weather-stream';
+import {
+  WeatherProvider,
+  SyntheticWeatherProvider,
+  createWeatherProviders,
+} from '@/features/weather/weather-providers';
+import { MarsWeatherData, WeatherStreamEvent } from '@/types/weather';
+
+/** Provider whose latest sol can be advanced between fetches */
+function createAdvancingProvider(): WeatherProvider & { latestSol: number } {
+  const synthetic = new SyntheticWeatherProvider();
+  return {
+    name: 'advancing',
+    latestSol: 100,
+    async getWeatherData(rover): Promise<MarsWeatherData> {
+      return synthetic.generateSolRange(
+        rover,
+        this.latestSol - 6,
+        this.latestSol
+      );
+    },
+  };
+}
+
+describe('WeatherEvents', () => {
+  it('delivers events only to listeners for the same rover', () => {
+    const curiosity = jest.fn();
+    const perseverance = jest.fn();
+    const unsubscribe = WeatherEvents.subscribe('curiosity', curiosity);
+    WeatherEvents.subscribe('perseverance', perseverance)();
+
+    const event: WeatherStreamEvent = {
+      type: 'invalidate',
+      rover: 'curiosity',
+      reason: 'test',
+      timestamp: new Date().toISOString(),
+    };
+    WeatherEvents.publish(event);
+    unsubscribe();
+    WeatherEvents.publish(event);
+
+    expect(curiosity).toHaveBeenCalledTimes(1);
+    expect(curiosity).toHaveBeenCalledWith(event);
+    expect(perseverance).not.toHaveBeenCalled();
+    expect(WeatherEvents.listenerCount('curiosity')).toBe(0);
+  });
+
+  it('keeps delivering when a listener throws', () => {
+    const originalConsoleError = console.error;
+    console.error = jest.fn();
+    const failing = jest.fn(() => {
+      throw new Error('listener failed');
+    });
+    const healthy = jest.fn();
+    const unsubscribeFailing = WeatherEvents.subscribe('curiosity', failing);
+    const unsubscribeHealthy = WeatherEvents.subscribe('curiosity', healthy);
+
+    WeatherEvents.publish({
+      type: 'invalidate',
+      rover: 'curiosity',
+      reason: 'test',
+      timestamp: new Date().toISOString(),
+    });
+
+    expect(healthy).toHaveBeenCalled();
+    unsubscribeFailing();
+    unsubscribeHealthy();
+    console.error = originalConsoleError;
+  });
+});
+
+describe('WeatherService live events', () => {
+  const originalConsoleInfo = console.info;
+
+  beforeAll(() => {
+    console.info = jest.fn();
+  });
+
+  afterAll(() => {
+    console.info = originalConsoleInfo;
+    WeatherService.setProviders(createWeatherProviders());
+  });
+
+  it('publishes sols newer than the last fetch', async () => {
+    const provider = createAdvancingProvider();
+    WeatherService.setProviders([provider]);
+
+    // The first fetch only records the latest sol
+    await WeatherService.getWeatherData('curiosity');
+
+    const listener = jest.fn();
+    const unsubscribe = WeatherEvents.subscribe('curiosity', listener);
+
+    provider.latestSol = 102;
+    await WeatherService.invalidateCache('curiosity');
+    listener.mockClear();
+    await WeatherService.getWeatherData('curiosity');
+    unsubscribe();
+
+    const sols = listener.mock.calls.map(
+      ([event]: [WeatherStreamEvent]) => event.type === 'sol' && event.sol.sol
+    );
+    expect(sols).toEqual([101, 102]);
+    expect(listener.mock.calls[0][0].sol.season).toBeDefined();
+  });
+
+  it('publishes invalidations when the cache is cleared', async () => {
+    const listener = jest.fn();
+    const unsubscribe = WeatherEvents.subscribe('perseverance', listener);
+
+    await WeatherService.invalidateCache('perseverance', 'Archive reloaded');
+    await WeatherService.invalidateCache('curiosity');
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'invalidate',
+        rover: 'perseverance',
+        reason: 'Archive reloaded',
+      })
+    );
+  });
+});
+
+describe('WeatherStreamService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest
+      .spyOn(WeatherService, 'getWeatherData')
+      .mockResolvedValue(
+        {} as Awaited<ReturnType<typeof WeatherService.getWeatherData>>
+      );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('shares one poller per rover across subscribers', () => {
+    const first = WeatherStreamService.subscribe('curiosity', jest.fn());
+    const second = WeatherStreamService.subscribe('curiosity', jest.fn());
+
+    // One priming fetch, then one fetch per interval regardless of subscribers
+    expect(WeatherService.getWeatherData).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(WeatherStreamService.POLL_INTERVAL);
+    expect(WeatherService.getWeatherData).toHaveBeenCalledTimes(2);
+
+    first();
+    expect(WeatherStreamService.isPolling('curiosity')).toBe(true);
+    second();
+    expect(WeatherStreamService.isPolling('curiosity')).toBe(false);
+
+    jest.advanceTimersByTime(WeatherStreamService.POLL_INTERVAL);
+    expect(WeatherService.getWeatherData).toHaveBeenCalledTimes(2);
+  });
+});
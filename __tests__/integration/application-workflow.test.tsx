@@ -56,12 +56,13 @@ jest.mock('@/features/mars-time/time-conversion', () => ({
     calculateMarsTime: jest.fn().mockReturnValue({
       msd: 52543.123456,
       mtc: '14:25:30',
-      curiosityLTST: '15:10:45',
-      perseveranceLTST: '16:22:15',
-      curiositySol: 4123,
-      perseveranceSol: 1056,
+      rovers: [
+        { rover: 'curiosity', ltst: '15:10:45', sol: 4123, active: true },
+        { rover: 'perseverance', ltst: '16:22:15', sol: 1056, active: true },
+      ],
       earthTime: '12:34:56',
     }),
+    getRoverSol: jest.fn().mockReturnValue(4123),
   },
 }));
 
@@ -75,6 +76,7 @@ jest.mock('@/features/photos/photos-service', () => ({
   PhotosService: {
     getLatestPhotos: jest.fn(),
     transformForDisplay: jest.fn(),
+    findStereoPairs: jest.fn().mockReturnValue([]),
   },
 }));
 
@@ -86,6 +88,15 @@ jest.mock('@/features/weather/useWeatherData', () => ({
 // Mock the usePhotosData hook
 jest.mock('@/features/photos/usePhotosData', () => ({
   usePhotosData: jest.fn(),
+  useInfinitePhotos: jest.fn(() => ({
+    data: undefined,
+    isLoading: false,
+    error: null,
+    hasNextPage: false,
+    isFetchingNextPage: false,
+    fetchNextPage: jest.fn(),
+    refetch: jest.fn(),
+  })),
 }));
 
 // Mock HistoricalTrends component
@@ -101,6 +112,20 @@ jest.mock('@/features/weather/HistoricalTrends', () => ({
   ),
 }));
 
+// Mock SystemStatusPanel component
+jest.mock('@/features/system-status/SystemStatusPanel', () => ({
+  SystemStatusPanel: (): React.ReactElement => (
+    <div data-testid="system-status-panel">System Status</div>
+  ),
+}));
+
+// Mock SolCalendar component
+jest.mock('@/features/sol-calendar/SolCalendar', () => ({
+  SolCalendar: (): React.ReactElement => (
+    <div data-testid="sol-calendar">Sol Calendar</div>
+  ),
+}));
+
 // Mock TermTooltip to render children without tooltip functionality
 jest.mock('@/components/TermTooltip', () => ({
   TermTooltip: ({
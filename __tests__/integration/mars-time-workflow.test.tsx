@@ -36,16 +36,17 @@ jest.mock('@/features/mars-time/time-conversion', () => ({
     calculateMarsTime: jest.fn().mockReturnValue({
       msd: 52543.123456,
       mtc: '14:25:30',
-      curiosityLTST: '15:10:45',
-      perseveranceLTST: '16:22:15',
-      curiositySol: 4123,
-      perseveranceSol: 1056,
+      rovers: [
+        { rover: 'curiosity', ltst: '15:10:45', sol: 4123, active: true },
+        { rover: 'perseverance', ltst: '16:22:15', sol: 1056, active: true },
+      ],
       earthTime: '12:34:56',
     }),
   },
 }));
 
 import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+import { MarsTimeData } from '@/types/mars-time';
 
 const mockMarsTimeCalculator = MarsTimeCalculator as jest.Mocked<
   typeof MarsTimeCalculator
@@ -121,32 +122,32 @@ describe('Mars Time Workflow Integration', () => {
 
   it('handles time calculation updates with changing data', async () => {
     // Mock changing time data
-    const timeSequence = [
+    const timeSequence: MarsTimeData[] = [
       {
         msd: 52543.123456,
         mtc: '14:25:30',
-        curiosityLTST: '15:10:45',
-        perseveranceLTST: '16:22:15',
-        curiositySol: 4123,
-        perseveranceSol: 1056,
+        rovers: [
+          { rover: 'curiosity', ltst: '15:10:45', sol: 4123, active: true },
+          { rover: 'perseverance', ltst: '16:22:15', sol: 1056, active: true },
+        ],
         earthTime: '12:34:56',
       },
       {
         msd: 52543.123457,
         mtc: '14:25:31',
-        curiosityLTST: '15:10:46',
-        perseveranceLTST: '16:22:16',
-        curiositySol: 4123,
-        perseveranceSol: 1056,
+        rovers: [
+          { rover: 'curiosity', ltst: '15:10:46', sol: 4123, active: true },
+          { rover: 'perseverance', ltst: '16:22:16', sol: 1056, active: true },
+        ],
         earthTime: '12:34:57',
       },
       {
         msd: 52543.123458,
         mtc: '14:25:32',
-        curiosityLTST: '15:10:47',
-        perseveranceLTST: '16:22:17',
-        curiositySol: 4123,
-        perseveranceSol: 1056,
+        rovers: [
+          { rover: 'curiosity', ltst: '15:10:47', sol: 4123, active: true },
+          { rover: 'perseverance', ltst: '16:22:17', sol: 1056, active: true },
+        ],
         earthTime: '12:34:58',
       },
     ];
@@ -243,10 +244,10 @@ describe('Mars Time Workflow Integration', () => {
     mockMarsTimeCalculator.calculateMarsTime.mockReturnValue({
       msd: 52543.123457,
       mtc: '14:25:31',
-      curiosityLTST: '15:10:46',
-      perseveranceLTST: '16:22:16',
-      curiositySol: 4123,
-      perseveranceSol: 1056,
+      rovers: [
+        { rover: 'curiosity', ltst: '15:10:46', sol: 4123, active: true },
+        { rover: 'perseverance', ltst: '16:22:16', sol: 1056, active: true },
+      ],
       earthTime: '12:34:57',
     });
 
@@ -284,10 +285,10 @@ describe('Mars Time Workflow Integration', () => {
       .mockReturnValueOnce({
         msd: 52543.123456,
         mtc: '14:25:30',
-        curiosityLTST: '15:10:45',
-        perseveranceLTST: '16:22:15',
-        curiositySol: 4123,
-        perseveranceSol: 1056,
+        rovers: [
+          { rover: 'curiosity', ltst: '15:10:45', sol: 4123, active: true },
+          { rover: 'perseverance', ltst: '16:22:15', sol: 1056, active: true },
+        ],
         earthTime: '12:34:56',
       })
       .mockImplementationOnce(() => {
@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for admin request authorization
+ */
+
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+
+const request = (headers: Record<string, string> = {}): Request =>
+  new Request('http://localhost/api/admin/cache', { headers });
+
+describe('authorizeAdminRequest', () => {
+  test('disables admin access when no token is configured', () => {
+    expect(authorizeAdminRequest(request(), undefined)).toMatchObject({
+      authorized: false,
+      status: 503,
+      code: 'ADMIN_DISABLED',
+    });
+  });
+
+  test('accepts a matching bearer token or X-Admin-Token header', () => {
+    expect(
+      authorizeAdminRequest(
+        request({ Authorization: 'Bearer secret-token' }),
+        'secret-token'
+      )
+    ).toEqual({ authorized: true });
+    expect(
+      authorizeAdminRequest(
+        request({ 'X-Admin-Token': 'secret-token' }),
+        'secret-token'
+      )
+    ).toEqual({ authorized: true });
+  });
+
+  test('rejects missing and wrong tokens', () => {
+    expect(authorizeAdminRequest(request(), 'secret-token')).toMatchObject({
+      authorized: false,
+      status: 401,
+    });
+    expect(
+      authorizeAdminRequest(
+        request({ Authorization: 'Bearer wrong' }),
+        'secret-token'
+      )
+    ).toMatchObject({ authorized: false, status: 401, code: 'UNAUTHORIZED' });
+  });
+});
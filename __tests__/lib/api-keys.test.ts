@@ -0,0 +1,253 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for public API keys
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ApiKeyRateLimiter,
+  FileApiKeyStore,
+  USAGE_HISTORY_DAYS,
+  getApiKeyFromRequest,
+  getClientAddress,
+  getDefaultApiKeyRateLimit,
+  hashApiKey,
+} from '@/lib/api-keys';
+import { ApiKeyRecord } from '@/types/api-keys';
+
+describe('FileApiKeyStore', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+    file = path.join(directory, 'keys', 'api-keys.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('issues keys and stores only their hash', async () => {
+    const store = new FileApiKeyStore(file);
+    const { key, apiKey } = await store.issue('Example Embed', 50);
+
+    expect(key).toMatch(/^mwd_[A-Za-z0-9_-]{32}$/);
+    expect(apiKey).toMatchObject({
+      name: 'Example Embed',
+      rateLimitPerHour: 50,
+      revokedAt: null,
+      keyPrefix: key.slice(0, 10),
+    });
+    expect(apiKey).not.toHaveProperty('keyHash');
+
+    const stored = fs.readFileSync(file, 'utf8');
+    expect(stored).not.toContain(key);
+    expect(stored).toContain(hashApiKey(key));
+  });
+
+  test('authenticates active keys and rejects revoked or unknown ones', async () => {
+    const store = new FileApiKeyStore(file);
+    const { key, apiKey } = await store.issue('client', 10);
+
+    expect((await store.authenticate(key))?.id).toBe(apiKey.id);
+    expect(await store.authenticate('mwd_unknown')).toBeNull();
+
+    expect((await store.revoke(apiKey.id))?.revokedAt).not.toBeNull();
+    expect(await store.authenticate(key)).toBeNull();
+    expect(await store.revoke('missing')).toBeNull();
+  });
+
+  test('counts accepted and rejected requests per day', async () => {
+    const store = new FileApiKeyStore(file);
+    const { apiKey } = await store.issue('client', 10);
+    const day = new Date('2026-03-01T12:00:00Z');
+
+    store.recordUsage(apiKey.id, true, day);
+    store.recordUsage(apiKey.id, true, day);
+    store.recordUsage(apiKey.id, false, day);
+    await store.flush();
+
+    const [record] = await new FileApiKeyStore(file).list();
+    expect(record?.usage).toEqual({
+      totalRequests: 2,
+      rejectedRequests: 1,
+      lastUsedAt: day.toISOString(),
+      daily: { '2026-03-01': 2 },
+    });
+  });
+
+  test('keeps only the most recent days of usage', async () => {
+    const store = new FileApiKeyStore(file);
+    const { apiKey } = await store.issue('client', 10);
+
+    for (let offset = 0; offset <= USAGE_HISTORY_DAYS; offset++) {
+      store.recordUsage(
+        apiKey.id,
+        true,
+        new Date(Date.UTC(2026, 0, 1 + offset))
+      );
+    }
+    await store.flush();
+
+    const [record] = await store.list();
+    const days = Object.keys(record?.usage.daily ?? {});
+    expect(days).toHaveLength(USAGE_HISTORY_DAYS);
+    expect(days).not.toContain('2026-01-01');
+    expect(record?.usage.totalRequests).toBe(USAGE_HISTORY_DAYS + 1);
+  });
+
+  test('counts usage in memory and writes it in one batch later', async () => {
+    const store = new FileApiKeyStore(file, 1000);
+    const { apiKey } = await store.issue('client', 10);
+    const flush = jest.spyOn(store, 'flush');
+    jest.useFakeTimers();
+
+    try {
+      store.recordUsage(apiKey.id, true);
+      store.recordUsage(apiKey.id, false);
+
+      const [unwritten] = await new FileApiKeyStore(file).list();
+      expect(unwritten?.usage.totalRequests).toBe(0);
+      const [counted] = await store.list();
+      expect(counted?.usage).toMatchObject({
+        totalRequests: 1,
+        rejectedRequests: 1,
+      });
+
+      jest.advanceTimersByTime(1000);
+      expect(flush).toHaveBeenCalledTimes(1);
+      await flush.mock.results[0]?.value;
+    } finally {
+      jest.useRealTimers();
+    }
+
+    const [written] = await new FileApiKeyStore(file).list();
+    expect(written?.usage).toMatchObject({
+      totalRequests: 1,
+      rejectedRequests: 1,
+    });
+  });
+
+  test('sees keys issued by another store on the same file', async () => {
+    const server = new FileApiKeyStore(file);
+    expect(await server.list()).toEqual([]);
+
+    const { key } = await new FileApiKeyStore(file).issue('client', 10);
+    // Ensure the rewritten file gets a new modification time
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 1000));
+
+    expect(await server.authenticate(key)).not.toBeNull();
+  });
+});
+
+describe('ApiKeyRateLimiter', () => {
+  const record = (rateLimitPerHour: number): ApiKeyRecord => ({
+    id: 'key-1',
+    name: 'client',
+    keyHash: 'hash',
+    keyPrefix: 'mwd_abcdef',
+    rateLimitPerHour,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    revokedAt: null,
+    usage: {
+      totalRequests: 0,
+      rejectedRequests: 0,
+      lastUsedAt: null,
+      daily: {},
+    },
+  });
+
+  test('enforces each key hourly quota', () => {
+    const limiter = new ApiKeyRateLimiter();
+
+    expect(limiter.consume(record(2))).toMatchObject({
+      allowed: true,
+      limit: 2,
+      remaining: 1,
+    });
+    expect(limiter.consume(record(2)).allowed).toBe(true);
+
+    const rejected = limiter.consume(record(2));
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  test('applies a changed limit immediately', () => {
+    const limiter = new ApiKeyRateLimiter();
+    limiter.consume(record(1));
+    expect(limiter.consume(record(1)).allowed).toBe(false);
+
+    expect(limiter.consume(record(5))).toMatchObject({
+      allowed: true,
+      limit: 5,
+    });
+  });
+});
+
+describe('getApiKeyFromRequest', () => {
+  test('reads the X-API-Key header, a bearer token or api_key', () => {
+    const url = 'http://localhost/api/v1/weather/curiosity';
+
+    expect(
+      getApiKeyFromRequest(new Request(url, { headers: { 'X-API-Key': 'a' } }))
+    ).toBe('a');
+    expect(
+      getApiKeyFromRequest(
+        new Request(url, { headers: { Authorization: 'Bearer b' } })
+      )
+    ).toBe('b');
+    expect(getApiKeyFromRequest(new Request(`${url}?api_key=c`))).toBe('c');
+    expect(getApiKeyFromRequest(new Request(url))).toBeNull();
+  });
+});
+
+describe('getClientAddress', () => {
+  const from = (forwardedFor: string): Request =>
+    new Request('http://localhost/api/weather/curiosity', {
+      headers: { 'X-Forwarded-For': forwardedFor },
+    });
+
+  test('takes the address added by the trusted proxies', () => {
+    const spoofed = from('198.51.100.1, 203.0.113.5');
+
+    expect(getClientAddress(spoofed, {})).toBe('203.0.113.5');
+    expect(
+      getClientAddress(from('198.51.100.1, 203.0.113.5, 10.0.0.2'), {
+        TRUSTED_PROXY_HOPS: '2',
+      })
+    ).toBe('203.0.113.5');
+  });
+
+  test('falls back to one shared address without trusted proxies', () => {
+    expect(
+      getClientAddress(from('203.0.113.5'), { TRUSTED_PROXY_HOPS: '0' })
+    ).toBe('unknown');
+    expect(
+      getClientAddress(from('203.0.113.5'), { TRUSTED_PROXY_HOPS: '2' })
+    ).toBe('unknown');
+    expect(
+      getClientAddress(
+        new Request('http://localhost/api/weather/curiosity'),
+        {}
+      )
+    ).toBe('unknown');
+  });
+});
+
+describe('getDefaultApiKeyRateLimit', () => {
+  test('uses API_KEY_RATE_LIMIT_PER_HOUR when it is a positive integer', () => {
+    expect(getDefaultApiKeyRateLimit({})).toBe(100);
+    expect(
+      getDefaultApiKeyRateLimit({ API_KEY_RATE_LIMIT_PER_HOUR: '250' })
+    ).toBe(250);
+    expect(
+      getDefaultApiKeyRateLimit({ API_KEY_RATE_LIMIT_PER_HOUR: 'lots' })
+    ).toBe(100);
+  });
+});
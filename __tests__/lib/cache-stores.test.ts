@@ -0,0 +1,182 @@
+/**
+ * Tests for persistent cache stores
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileSystemCacheStore,
+  RedisCacheStore,
+  RedisCommandClient,
+  createCacheStoreFromEnv,
+  configureCacheFromEnv,
+} from '@/lib/cache-stores';
+import { CacheEntry, CacheManager, MemoryCacheStore } from '@/lib/cache';
+
+const entry = (value: string): CacheEntry<string> => ({
+  value,
+  storedAt: Date.now(),
+  expiresAt: Date.now() + 60_000,
+  staleUntil: Date.now() + 120_000,
+});
+
+/** In-memory stand-in for a Redis server */
+function createFakeRedis(): RedisCommandClient & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    async command([name, ...args]): Promise<unknown> {
+      switch (name) {
+        case 'GET':
+          return data.get(String(args[0])) ?? null;
+        case 'SET':
+          data.set(String(args[0]), String(args[1]));
+          return 'OK';
+        case 'DEL':
+          args.forEach((key) => data.delete(String(key)));
+          return args.length;
+        case 'SCAN': {
+          const pattern = String(args[2]).replace(/\*$/, '');
+          return [
+            '0',
+            [...data.keys()].filter((key) => key.startsWith(pattern)),
+          ];
+        }
+        default:
+          throw new Error(`Unsupported command ${name}`);
+      }
+    },
+  };
+}
+
+describe('FileSystemCacheStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('persists entries across store instances', async () => {
+    await new FileSystemCacheStore(directory).set('weather:k', entry('v'));
+
+    const reopened = new FileSystemCacheStore(directory);
+    expect((await reopened.get('weather:k'))?.value).toBe('v');
+  });
+
+  test('clears entries by key prefix', async () => {
+    const store = new FileSystemCacheStore(directory);
+    await store.set('weather:curiosity:a', entry('a'));
+    await store.set('photos:curiosity:b', entry('b'));
+
+    await store.clear('weather:');
+
+    expect(await store.get('weather:curiosity:a')).toBeNull();
+    expect((await store.get('photos:curiosity:b'))?.value).toBe('b');
+  });
+
+  test('lists stored keys', async () => {
+    const store = new FileSystemCacheStore(directory);
+    await store.set('weather:curiosity:', entry('a'));
+    await store.set('photos:curiosity:', entry('b'));
+
+    expect(await store.keys('photos:')).toEqual(['photos:curiosity:']);
+    expect((await store.keys()).sort()).toEqual([
+      'photos:curiosity:',
+      'weather:curiosity:',
+    ]);
+  });
+
+  test('returns null for missing keys and missing directories', async () => {
+    const store = new FileSystemCacheStore(path.join(directory, 'absent'));
+    expect(await store.get('missing')).toBeNull();
+    await expect(store.clear()).resolves.toBeUndefined();
+  });
+});
+
+describe('RedisCacheStore', () => {
+  test('namespaces keys and expires them after the stale window', async () => {
+    const redis = createFakeRedis();
+    const command = jest.spyOn(redis, 'command');
+    const store = new RedisCacheStore(redis);
+
+    await store.set('weather:k', entry('v'));
+
+    expect(command).toHaveBeenCalledWith([
+      'SET',
+      'mars-weather:weather:k',
+      expect.any(String),
+      'PX',
+      expect.any(Number),
+    ]);
+    expect((await store.get('weather:k'))?.value).toBe('v');
+  });
+
+  test('clears entries matching a prefix', async () => {
+    const redis = createFakeRedis();
+    const store = new RedisCacheStore(redis);
+    await store.set('weather:a', entry('a'));
+    await store.set('photos:b', entry('b'));
+
+    await store.clear('weather:');
+
+    expect([...redis.data.keys()]).toEqual(['mars-weather:photos:b']);
+  });
+
+  test('lists keys without the namespace', async () => {
+    const store = new RedisCacheStore(createFakeRedis());
+    await store.set('weather:a', entry('a'));
+
+    expect(await store.keys('weather:')).toEqual(['weather:a']);
+  });
+});
+
+describe('createCacheStoreFromEnv', () => {
+  const originalConsoleWarn = console.warn;
+
+  beforeEach(() => {
+    console.warn = jest.fn();
+  });
+
+  afterEach(() => {
+    console.warn = originalConsoleWarn;
+    CacheManager.reset();
+  });
+
+  test('selects the configured backend', () => {
+    expect(createCacheStoreFromEnv({}).name).toBe('memory');
+    expect(
+      createCacheStoreFromEnv({
+        CACHE_BACKEND: 'filesystem',
+        CACHE_DIR: '/tmp/x',
+      }).name
+    ).toBe('filesystem');
+    expect(
+      createCacheStoreFromEnv({
+        CACHE_BACKEND: 'redis',
+        REDIS_REST_URL: 'https://redis.example.com',
+        REDIS_REST_TOKEN: 'token',
+      }).name
+    ).toBe('redis');
+  });
+
+  test('falls back to memory when redis is not configured', () => {
+    const store = createCacheStoreFromEnv({ CACHE_BACKEND: 'redis' });
+
+    expect(store).toBeInstanceOf(MemoryCacheStore);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  test('reads per-type TTL overrides in seconds', () => {
+    configureCacheFromEnv({ CACHE_TTL_PHOTOS: '60', CACHE_SWR_PHOTOS: '0' });
+
+    expect(CacheManager.getPolicy('photos')).toEqual({
+      ttlMs: 60_000,
+      staleWhileRevalidateMs: 0,
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Tests for the shared cache layer
+ */
+
+import {
+  CacheEntry,
+  CacheManager,
+  CacheStore,
+  MemoryCacheStore,
+  createCacheKey,
+  DEFAULT_CACHE_POLICIES,
+} from '@/lib/cache';
+
+describe('createCacheKey', () => {
+  test('sorts parameters and drops empty values', () => {
+    expect(
+      createCacheKey(['weather', 'curiosity'], {
+        windUnit: 'mps',
+        historyDays: 7,
+        fromSol: undefined,
+        camera: null,
+      })
+    ).toBe(
+      createCacheKey(['weather', 'curiosity'], {
+        historyDays: 7,
+        windUnit: 'mps',
+      })
+    );
+    expect(createCacheKey(['weather', 'curiosity'], { b: 2, a: true })).toBe(
+      'weather:curiosity:a=true&b=2'
+    );
+  });
+
+  test('keeps the namespace prefix for parameterless keys', () => {
+    expect(createCacheKey(['manifest', 'perseverance'])).toBe(
+      'manifest:perseverance:'
+    );
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  const entry = (value: string, ttlMs = 1000): CacheEntry<string> => ({
+    value,
+    storedAt: Date.now(),
+    expiresAt: Date.now() + ttlMs,
+    staleUntil: Date.now() + ttlMs * 2,
+  });
+
+  test('stores and clears entries by prefix', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('weather:curiosity:a', entry('a'));
+    await store.set('weather:perseverance:b', entry('b'));
+
+    await store.clear('weather:curiosity:');
+
+    expect(await store.get('weather:curiosity:a')).toBeNull();
+    expect((await store.get('weather:perseverance:b'))?.value).toBe('b');
+  });
+
+  test('evicts the least recently used entry when full', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry('a'));
+    await store.set('b', entry('b'));
+    await store.get('a');
+    await store.set('c', entry('c'));
+
+    expect(await store.get('b')).toBeNull();
+    expect((await store.get('a'))?.value).toBe('a');
+    expect((await store.get('c'))?.value).toBe('c');
+  });
+
+  test('lists keys by prefix', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('photos:curiosity:', entry('a'));
+    await store.set('weather:curiosity:', entry('b'));
+
+    expect(await store.keys('photos:')).toEqual(['photos:curiosity:']);
+    expect(await store.keys()).toHaveLength(2);
+  });
+
+  test('forgets entries past their stale window', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('old', {
+      value: 'old',
+      storedAt: 0,
+      expiresAt: 1,
+      staleUntil: 2,
+    });
+
+    expect(await store.get('old')).toBeNull();
+  });
+});
+
+describe('CacheManager', () => {
+  const originalConsoleWarn = console.warn;
+
+  beforeEach(() => {
+    CacheManager.reset();
+    console.warn = jest.fn();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    console.warn = originalConsoleWarn;
+    jest.useRealTimers();
+  });
+
+  test('loads on a miss and serves hits from the cache', async () => {
+    const load = jest.fn().mockResolvedValue('fresh');
+
+    const first = await CacheManager.getOrLoad('weather', 'weather:k', load);
+    const second = await CacheManager.getOrLoad('weather', 'weather:k', load);
+
+    expect(first).toMatchObject({ value: 'fresh', status: 'miss' });
+    expect(second).toMatchObject({ value: 'fresh', status: 'hit' });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  test('serves stale values while revalidating once in the background', async () => {
+    const { ttlMs } = DEFAULT_CACHE_POLICIES.weather;
+    const load = jest
+      .fn()
+      .mockResolvedValueOnce('v1')
+      .mockResolvedValueOnce('v2');
+
+    await CacheManager.getOrLoad('weather', 'weather:k', load);
+    jest.advanceTimersByTime(ttlMs + 1000);
+
+    const [stale, staleAgain] = await Promise.all([
+      CacheManager.getOrLoad('weather', 'weather:k', load),
+      CacheManager.getOrLoad('weather', 'weather:k', load),
+    ]);
+    expect(stale).toMatchObject({ value: 'v1', status: 'stale' });
+    expect(staleAgain.value).toBe('v1');
+
+    // Let the background revalidation settle
+    await Promise.resolve();
+    await Promise.resolve();
+
+    const refreshed = await CacheManager.getOrLoad(
+      'weather',
+      'weather:k',
+      load
+    );
+    expect(refreshed).toMatchObject({ value: 'v2', status: 'hit' });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  test('shares one load between concurrent misses', async () => {
+    let resolveLoad: (value: string) => void = () => undefined;
+    const load = jest.fn(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveLoad = resolve;
+        })
+    );
+
+    const pending = Promise.all([
+      CacheManager.getOrLoad('weather', 'weather:k', load),
+      CacheManager.getOrLoad('weather', 'weather:k', load),
+    ]);
+    await Promise.resolve();
+    await Promise.resolve();
+    resolveLoad('value');
+    const [first, second] = await pending;
+
+    expect(first).toMatchObject({ value: 'value', status: 'miss' });
+    expect(second).toMatchObject({ value: 'value', status: 'miss' });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  test('reloads once the stale window has passed', async () => {
+    const { ttlMs, staleWhileRevalidateMs } = DEFAULT_CACHE_POLICIES.photos;
+    const load = jest.fn().mockResolvedValue('value');
+
+    await CacheManager.getOrLoad('photos', 'photos:k', load);
+    jest.advanceTimersByTime(ttlMs + staleWhileRevalidateMs + 1000);
+    const result = await CacheManager.getOrLoad('photos', 'photos:k', load);
+
+    expect(result.status).toBe('miss');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  test('applies per-type policy overrides', async () => {
+    CacheManager.configure({ policies: { manifest: { ttlMs: 1000 } } });
+
+    expect(CacheManager.getPolicy('manifest')).toEqual({
+      ttlMs: 1000,
+      staleWhileRevalidateMs:
+        DEFAULT_CACHE_POLICIES.manifest.staleWhileRevalidateMs,
+    });
+    expect(CacheManager.getPolicy('weather')).toEqual(
+      DEFAULT_CACHE_POLICIES.weather
+    );
+  });
+
+  test('does not store values rejected by shouldCache', async () => {
+    const load = jest.fn().mockResolvedValue({ status: 'error' });
+    const shouldCache = (value: { status: string }): boolean =>
+      value.status !== 'error';
+
+    await CacheManager.getOrLoad('photos', 'photos:k', load, { shouldCache });
+    await CacheManager.getOrLoad('photos', 'photos:k', load, { shouldCache });
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  test('keeps serving requests when the store fails', async () => {
+    const brokenStore: CacheStore = {
+      name: 'broken',
+      get: jest.fn().mockRejectedValue(new Error('store offline')),
+      set: jest.fn().mockRejectedValue(new Error('store offline')),
+      delete: jest.fn(),
+      clear: jest.fn().mockRejectedValue(new Error('store offline')),
+      keys: jest.fn().mockResolvedValue([]),
+    };
+    CacheManager.configure({ store: brokenStore });
+
+    const result = await CacheManager.getOrLoad('weather', 'weather:k', () =>
+      Promise.resolve('loaded')
+    );
+    await CacheManager.invalidate('weather:');
+
+    expect(result).toMatchObject({ value: 'loaded', status: 'miss' });
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  test('counts hits, stale reads and misses per type', async () => {
+    const load = jest.fn().mockResolvedValue('value');
+
+    await CacheManager.getOrLoad('weather', 'weather:k', load);
+    await CacheManager.getOrLoad('weather', 'weather:k', load);
+    await CacheManager.getOrLoad('weather', 'weather:k', load);
+    jest.advanceTimersByTime(DEFAULT_CACHE_POLICIES.weather.ttlMs + 1000);
+    await CacheManager.getOrLoad('weather', 'weather:k', load);
+    await CacheManager.getOrLoad('photos', 'photos:k', load);
+
+    const stats = CacheManager.getStats();
+    expect(stats.byType.weather).toEqual({ hits: 2, stale: 1, misses: 1 });
+    expect(stats.byType.photos).toEqual({ hits: 0, stale: 0, misses: 1 });
+    expect(stats).toMatchObject({ hits: 2, stale: 1, misses: 2 });
+    expect(stats.hitRate).toBeCloseTo(0.6);
+  });
+
+  test('lists and inspects entries without counting lookups', async () => {
+    await CacheManager.getOrLoad('weather', 'weather:curiosity:a=1', () =>
+      Promise.resolve({ temperature: -60 })
+    );
+    await CacheManager.getOrLoad('photos', 'photos:curiosity:', () =>
+      Promise.resolve([])
+    );
+
+    const { entries, total } = await CacheManager.listEntries('weather:');
+    expect(total).toBe(1);
+    expect(entries[0]).toMatchObject({
+      key: 'weather:curiosity:a=1',
+      type: 'weather',
+      state: 'fresh',
+    });
+
+    const inspected = await CacheManager.inspect('weather:curiosity:a=1');
+    expect(inspected?.value).toEqual({ temperature: -60 });
+    expect(await CacheManager.inspect('weather:missing:')).toBeNull();
+    expect(CacheManager.getStats().hits).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for structured HTTP errors
+ */
+
+import {
+  CircuitOpenError,
+  HttpError,
+  RateLimitExceededError,
+  TimeoutError,
+  isRetryableError,
+  parseRateLimitRemaining,
+  parseRetryAfter,
+} from '@/lib/http-errors';
+
+describe('HttpError', () => {
+  test('reads rate-limit headers from a response', () => {
+    const response = {
+      status: 429,
+      statusText: 'Too Many Requests',
+      url: '',
+      headers: new Headers({
+        'Retry-After': '120',
+        'X-RateLimit-Remaining': '0',
+      }),
+    } as Response;
+
+    const error = HttpError.fromResponse(
+      response,
+      'https://api.nasa.gov/mars-photos/api/v1/rovers/curiosity/latest_photos?api_key=SECRET&page=2'
+    );
+
+    expect(error.message).toBe('Client error: 429 Too Many Requests');
+    expect(error).toMatchObject({
+      status: 429,
+      retryAfterMs: 120000,
+      rateLimitRemaining: 0,
+      isRateLimited: true,
+      isRetryable: true,
+    });
+    expect(error.url).toContain('api_key=***&page=2');
+    expect(error.url).not.toContain('SECRET');
+  });
+
+  test('classifies retryable status codes', () => {
+    expect(new HttpError(503, 'Service Unavailable').isRetryable).toBe(true);
+    expect(new HttpError(408, 'Request Timeout').isRetryable).toBe(true);
+    expect(new HttpError(501, 'Not Implemented').isRetryable).toBe(false);
+    expect(new HttpError(404, 'Not Found').isRetryable).toBe(false);
+    expect(new HttpError(500, 'Internal Server Error').message).toBe(
+      'Server error: 500 Internal Server Error'
+    );
+  });
+});
+
+describe('parseRetryAfter', () => {
+  test('parses delay seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-15T12:00:00Z');
+
+    expect(parseRetryAfter('30')).toBe(30000);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 12:01:00 GMT', now)).toBe(60000);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 11:00:00 GMT', now)).toBe(0);
+  });
+
+  test('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('parseRateLimitRemaining', () => {
+  test('reads non-negative integers only', () => {
+    expect(
+      parseRateLimitRemaining(new Headers({ 'X-RateLimit-Remaining': '17' }))
+    ).toBe(17);
+    expect(
+      parseRateLimitRemaining(new Headers({ 'X-RateLimit-Remaining': '-1' }))
+    ).toBeNull();
+    expect(parseRateLimitRemaining(new Headers())).toBeNull();
+    expect(parseRateLimitRemaining(undefined)).toBeNull();
+  });
+});
+
+describe('isRetryableError', () => {
+  test('decides structured errors by type', () => {
+    expect(isRetryableError(new HttpError(429, 'Too Many Requests'))).toBe(
+      true
+    );
+    expect(isRetryableError(new HttpError(400, 'Bad Request'))).toBe(false);
+    expect(isRetryableError(new TimeoutError(1000))).toBe(true);
+    expect(isRetryableError(new CircuitOpenError('nasa', Date.now()))).toBe(
+      false
+    );
+    expect(isRetryableError(new RateLimitExceededError('nasa', 1000))).toBe(
+      false
+    );
+  });
+
+  test('falls back to message matching for unstructured errors', () => {
+    expect(isRetryableError(new TypeError('fetch failed'))).toBe(true);
+    expect(isRetryableError(new Error('Network error'))).toBe(true);
+    expect(isRetryableError(new Error('Invalid JSON'))).toBe(false);
+  });
+});
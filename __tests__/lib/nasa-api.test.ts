@@ -0,0 +1,77 @@
+import {
+  NASA_API_BASE,
+  buildNasaUrl,
+  fetchNasaApi,
+  getNasaCircuitName,
+} from '@/lib/nasa-api';
+import { nasaApiQuota } from '@/lib/rate-limiter';
+import { ApiResilience } from '@/lib/retry';
+
+global.fetch = jest.fn();
+const mockFetch = jest.mocked(fetch);
+
+const originalEnv = process.env;
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  ApiResilience.resetAllCircuits();
+  nasaApiQuota.reset();
+  process.env = { ...originalEnv, NASA_API_KEY: 'test-key' };
+});
+
+afterEach(() => {
+  process.env = originalEnv;
+});
+
+test('names one circuit per rover endpoint', () => {
+  expect(getNasaCircuitName('curiosity', 'latest_photos')).toBe(
+    'nasa-latest-photos-curiosity'
+  );
+  expect(getNasaCircuitName('perseverance', 'manifest')).toBe(
+    'nasa-manifest-perseverance'
+  );
+});
+
+test('builds endpoint URLs with the API key and defined parameters', () => {
+  expect(
+    buildNasaUrl('curiosity', 'photos', {
+      sol: 1000,
+      camera: 'MAST',
+      page: undefined,
+    })
+  ).toBe(
+    `${NASA_API_BASE}/rovers/curiosity/photos?api_key=test-key&sol=1000&camera=MAST`
+  );
+  expect(buildNasaUrl('perseverance', 'manifest')).toBe(
+    `${NASA_API_BASE}/manifests/perseverance?api_key=test-key`
+  );
+});
+
+test('falls back to DEMO_KEY when no key is configured', () => {
+  delete process.env.NASA_API_KEY;
+
+  expect(buildNasaUrl('curiosity', 'latest_photos')).toContain(
+    'api_key=DEMO_KEY'
+  );
+});
+
+test('tracks failures on the endpoint circuit', async () => {
+  mockFetch.mockResolvedValue({
+    ok: false,
+    status: 503,
+    statusText: 'Service Unavailable',
+  } as Response);
+
+  await expect(
+    fetchNasaApi('curiosity', 'manifest', { maxAttempts: 1 })
+  ).rejects.toThrow('Server error: 503 Service Unavailable');
+
+  const circuit = ApiResilience.getAllCircuits().find(
+    (status) => status.name === 'nasa-manifest-curiosity'
+  );
+  expect(circuit?.failureCount).toBe(1);
+  expect(mockFetch).toHaveBeenCalledWith(
+    expect.stringContaining('/manifests/curiosity?'),
+    expect.objectContaining({ signal: expect.any(Object) })
+  );
+});
@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for NASA fixture recording and replay
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  NasaFixtureMissingError,
+  configureNasaFixtures,
+  fetchNasaApi,
+  getNasaFixtureKey,
+  getNasaFixtureMode,
+} from '@/lib/nasa-api';
+import {
+  FileSystemNasaFixtureStore,
+  configureNasaFixturesFromEnv,
+} from '@/lib/nasa-fixtures';
+import { nasaApiQuota } from '@/lib/rate-limiter';
+import { ApiResilience } from '@/lib/retry';
+
+const originalFetch = global.fetch;
+let directory: string;
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'nasa-fixtures-'));
+  global.fetch = jest.fn();
+  ApiResilience.resetAllCircuits();
+  nasaApiQuota.reset();
+});
+
+afterEach(() => {
+  configureNasaFixtures({ mode: 'off' });
+  global.fetch = originalFetch;
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+test('drops the API key and parameter order from fixture keys', () => {
+  expect(
+    getNasaFixtureKey(
+      'https://api.nasa.gov/mars-photos/api/v1/rovers/curiosity/photos?api_key=SECRET&sol=5&camera=MAST'
+    )
+  ).toBe(
+    getNasaFixtureKey(
+      'https://api.nasa.gov/mars-photos/api/v1/rovers/curiosity/photos?camera=MAST&sol=5&api_key=DEMO_KEY'
+    )
+  );
+});
+
+test('records live responses and replays them offline', async () => {
+  const store = new FileSystemNasaFixtureStore(directory);
+  jest.mocked(global.fetch).mockResolvedValueOnce(
+    new Response(JSON.stringify({ photos: [{ id: 1 }] }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    })
+  );
+
+  configureNasaFixtures({ mode: 'record', store });
+  const live = await fetchNasaApi('curiosity', 'photos', {
+    params: { sol: 100 },
+  });
+  await expect(live.json()).resolves.toEqual({ photos: [{ id: 1 }] });
+  expect(fs.readdirSync(directory)).toEqual([
+    expect.stringMatching(/^rovers-curiosity-photos-[0-9a-f]{12}\.json$/),
+  ]);
+
+  configureNasaFixtures({ mode: 'replay', store });
+  const replayed = await fetchNasaApi('curiosity', 'photos', {
+    params: { sol: 100 },
+  });
+
+  await expect(replayed.json()).resolves.toEqual({ photos: [{ id: 1 }] });
+  expect(global.fetch).toHaveBeenCalledTimes(1);
+});
+
+test('fails unrecorded requests in replay mode without network access', async () => {
+  configureNasaFixtures({
+    mode: 'replay',
+    store: new FileSystemNasaFixtureStore(directory),
+  });
+
+  await expect(fetchNasaApi('perseverance', 'manifest')).rejects.toBeInstanceOf(
+    NasaFixtureMissingError
+  );
+  expect(global.fetch).not.toHaveBeenCalled();
+});
+
+test('selects the fixture mode from the environment', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+  expect(
+    configureNasaFixturesFromEnv({
+      NASA_FIXTURE_MODE: 'replay',
+      NASA_FIXTURE_DIR: directory,
+    })
+  ).toBe('replay');
+  expect(getNasaFixtureMode()).toBe('replay');
+
+  expect(configureNasaFixturesFromEnv({})).toBe('off');
+  expect(configureNasaFixturesFromEnv({ NASA_FIXTURE_MODE: 'bogus' })).toBe(
+    'off'
+  );
+  expect(getNasaFixtureMode()).toBe('off');
+  expect(warn).toHaveBeenCalledWith(expect.stringContaining('bogus'));
+  warn.mockRestore();
+});
@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for page sessions
+ */
+
+import {
+  PAGE_SESSION_MAX_AGE_SECONDS,
+  createPageSession,
+  getPageSessionSecret,
+  verifyPageSession,
+} from '@/lib/page-sessions';
+
+describe('page sessions', () => {
+  const secret = 'test-secret';
+  const now = Date.UTC(2026, 0, 1);
+
+  test('accepts sessions signed with the same secret', () => {
+    const token = createPageSession(secret, now);
+
+    expect(verifyPageSession(token, secret, now + 1000)).toBe(now);
+    expect(createPageSession(secret, now)).not.toBe(token);
+  });
+
+  test('rejects forged, tampered and malformed sessions', () => {
+    const token = createPageSession(secret, now);
+    const [issued, id, signature] = token.split('.');
+
+    expect(verifyPageSession(token, 'other-secret', now)).toBeNull();
+    expect(
+      verifyPageSession(
+        `${(now + 1).toString(36)}.${id}.${signature}`,
+        secret,
+        now
+      )
+    ).toBeNull();
+    expect(verifyPageSession(`${issued}.${id}`, secret, now)).toBeNull();
+    expect(verifyPageSession('', secret, now)).toBeNull();
+    expect(verifyPageSession(undefined, secret, now)).toBeNull();
+  });
+
+  test('rejects expired sessions', () => {
+    const token = createPageSession(secret, now);
+    const maxAgeMs = PAGE_SESSION_MAX_AGE_SECONDS * 1000;
+
+    expect(verifyPageSession(token, secret, now + maxAgeMs - 1)).toBe(now);
+    expect(verifyPageSession(token, secret, now + maxAgeMs)).toBeNull();
+  });
+
+  test('uses PAGE_SESSION_SECRET, else one random secret per process', () => {
+    expect(getPageSessionSecret({ PAGE_SESSION_SECRET: 'configured' })).toBe(
+      'configured'
+    );
+    expect(getPageSessionSecret({})).toBe(getPageSessionSecret({}));
+    expect(getPageSessionSecret({})).not.toBe('');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for seeded random utilities
+ */
+
+import { createSeededRandom, hashSeed } from '@/lib/random';
+
+describe('random utilities', () => {
+  describe('hashSeed', () => {
+    test('returns a stable 32-bit unsigned integer', () => {
+      const hash = hashSeed('curiosity-4000');
+
+      expect(hash).toBe(hashSeed('curiosity-4000'));
+      expect(Number.isInteger(hash)).toBe(true);
+      expect(hash).toBeGreaterThanOrEqual(0);
+      expect(hash).toBeLessThan(2 ** 32);
+    });
+
+    test('differs for different seeds', () => {
+      expect(hashSeed('curiosity-4000')).not.toBe(hashSeed('curiosity-4001'));
+      expect(hashSeed('curiosity-4000')).not.toBe(
+        hashSeed('perseverance-4000')
+      );
+    });
+  });
+
+  describe('createSeededRandom', () => {
+    test('produces identical sequences for the same seed', () => {
+      const a = createSeededRandom('curiosity-4000');
+      const b = createSeededRandom('curiosity-4000');
+
+      const sequenceA = Array.from({ length: 10 }, () => a());
+      const sequenceB = Array.from({ length: 10 }, () => b());
+
+      expect(sequenceA).toEqual(sequenceB);
+    });
+
+    test('produces different sequences for different seeds', () => {
+      const a = createSeededRandom('curiosity-4000');
+      const b = createSeededRandom('curiosity-4001');
+
+      expect(a()).not.toBe(b());
+    });
+
+    test('returns values in [0, 1)', () => {
+      const random = createSeededRandom('range-check');
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for request quota management
+ */
+
+import { TokenBucket, getNasaHourlyQuota } from '@/lib/rate-limiter';
+import { RateLimitExceededError } from '@/lib/http-errors';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const response = (
+  status: number,
+  headers: Record<string, string> = {}
+): Response => ({ status, headers: new Headers(headers) }) as Response;
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('allows up to capacity, then refills over time', () => {
+    const bucket = new TokenBucket({
+      name: 'test',
+      capacity: 2,
+      refillIntervalMs: HOUR_MS,
+    });
+
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.tryRemove()).toBe(false);
+    const waitMs = bucket.getWaitTime();
+    expect(waitMs).toBeCloseTo(HOUR_MS / 2, -1);
+
+    jest.advanceTimersByTime(waitMs);
+    expect(bucket.tryRemove()).toBe(true);
+  });
+
+  test('fails fast when no token arrives within the allowed wait', async () => {
+    const bucket = new TokenBucket({
+      name: 'nasa-api',
+      capacity: 1,
+      refillIntervalMs: HOUR_MS,
+    });
+
+    await bucket.acquire();
+    await expect(bucket.acquire()).rejects.toBeInstanceOf(
+      RateLimitExceededError
+    );
+  });
+
+  test('caps tokens at X-RateLimit-Remaining', () => {
+    const bucket = new TokenBucket({
+      name: 'test',
+      capacity: 1000,
+      refillIntervalMs: HOUR_MS,
+    });
+
+    bucket.syncFromResponse(response(200, { 'X-RateLimit-Remaining': '3' }));
+
+    expect(bucket.getStatus().remaining).toBe(3);
+  });
+
+  test('pauses for Retry-After after a 429', () => {
+    const bucket = new TokenBucket({
+      name: 'test',
+      capacity: 1000,
+      refillIntervalMs: HOUR_MS,
+    });
+
+    bucket.syncFromResponse(response(429, { 'Retry-After': '600' }));
+
+    expect(bucket.tryRemove()).toBe(false);
+    expect(bucket.getWaitTime()).toBe(600000);
+    expect(bucket.getStatus().blockedUntil).not.toBeNull();
+
+    bucket.reset();
+    expect(bucket.tryRemove()).toBe(true);
+  });
+
+  test('charges requests as usual once Retry-After has passed', () => {
+    const bucket = new TokenBucket({
+      name: 'test',
+      capacity: 1000,
+      refillIntervalMs: HOUR_MS,
+    });
+
+    bucket.syncFromResponse(response(429, { 'Retry-After': '600' }));
+    jest.advanceTimersByTime(600000);
+
+    expect(bucket.tryRemove()).toBe(true);
+    expect(bucket.getStatus().remaining).toBe(999);
+  });
+
+  test('empties the bucket after a 429 without Retry-After', () => {
+    const bucket = new TokenBucket({
+      name: 'test',
+      capacity: 1000,
+      refillIntervalMs: HOUR_MS,
+    });
+
+    bucket.syncFromResponse(response(429));
+
+    expect(bucket.getStatus().remaining).toBe(0);
+    expect(bucket.tryRemove()).toBe(false);
+  });
+});
+
+describe('getNasaHourlyQuota', () => {
+  test('uses the DEMO_KEY or registered key limits', () => {
+    expect(getNasaHourlyQuota({})).toBe(30);
+    expect(getNasaHourlyQuota({ NASA_API_KEY: 'DEMO_KEY' })).toBe(30);
+    expect(getNasaHourlyQuota({ NASA_API_KEY: 'abc123' })).toBe(1000);
+  });
+
+  test('honors NASA_RATE_LIMIT_PER_HOUR', () => {
+    expect(
+      getNasaHourlyQuota({
+        NASA_API_KEY: 'abc123',
+        NASA_RATE_LIMIT_PER_HOUR: '500',
+      })
+    ).toBe(500);
+  });
+});
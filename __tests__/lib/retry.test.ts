@@ -2,7 +2,9 @@
  * Tests for API resilience utilities
  */
 
-import { ApiResilience } from '@/lib/retry';
+import { ApiResilience, normalizeRequestUrl } from '@/lib/retry';
+import { HttpError, RateLimitExceededError } from '@/lib/http-errors';
+import { TokenBucket } from '@/lib/rate-limiter';
 
 // Mock Response constructor for Node.js environment
 class MockResponse {
@@ -10,12 +12,18 @@ class MockResponse {
   status: number;
   statusText: string;
   body: string;
+  headers: Headers;
 
   constructor(
     body: string,
-    init: { status?: number; statusText?: string } = {}
+    init: {
+      status?: number;
+      statusText?: string;
+      headers?: Record<string, string>;
+    } = {}
   ) {
     this.body = body;
+    this.headers = new Headers(init.headers);
     this.status = init.status || 200;
     this.statusText = init.statusText || 'OK';
     this.ok = this.status >= 200 && this.status < 300;
@@ -28,6 +36,14 @@ class MockResponse {
   async json(): Promise<unknown> {
     return JSON.parse(this.body);
   }
+
+  clone(): MockResponse {
+    return new MockResponse(this.body, {
+      status: this.status,
+      statusText: this.statusText,
+      headers: Object.fromEntries(this.headers.entries()),
+    });
+  }
 }
 
 // Assign to global for tests
@@ -179,6 +195,28 @@ describe('ApiResilience', () => {
       const status = ApiResilience.getCircuitStatus('reset-test-circuit');
       expect(status?.failureCount).toBe(0);
     });
+
+    test('does not count quota rejections or client errors', async () => {
+      for (const error of [
+        new RateLimitExceededError('test-quota', 1000),
+        new HttpError(404, 'Not Found'),
+      ]) {
+        for (let i = 0; i < 5; i++) {
+          await expect(
+            ApiResilience.withCircuitBreaker(
+              () => Promise.reject(error),
+              'client-error-circuit',
+              { failureThreshold: 2 }
+            )
+          ).rejects.toBe(error);
+        }
+      }
+
+      expect(
+        ApiResilience.getCircuitStatus('client-error-circuit')
+      ).toMatchObject({ isOpen: false, failureCount: 0 });
+      ApiResilience.resetCircuit('client-error-circuit');
+    });
   });
 
   describe('resilientFetch', () => {
@@ -204,7 +242,9 @@ describe('ApiResilience', () => {
       );
 
       expect(result.status).toBe(200);
-      expect(global.fetch).toHaveBeenCalledWith('https://api.example.com', {});
+      expect(global.fetch).toHaveBeenCalledWith('https://api.example.com', {
+        signal: expect.any(Object),
+      });
     });
 
     test('throws on 4xx client errors without retry', async () => {
@@ -240,6 +280,232 @@ describe('ApiResilience', () => {
 
       expect(global.fetch).toHaveBeenCalledTimes(2);
     }, 10000);
+
+    test('throws structured errors with rate-limit details', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new MockResponse('', {
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { 'Retry-After': '3600', 'X-RateLimit-Remaining': '0' },
+        })
+      );
+
+      const error = await ApiResilience.resilientFetch(
+        'https://api.example.com',
+        {},
+        { retryOptions: { maxAttempts: 3, initialDelayMs: 1 } }
+      ).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toMatchObject({
+        status: 429,
+        retryAfterMs: 3600000,
+        rateLimitRemaining: 0,
+      });
+      // An hour-long Retry-After fails immediately instead of waiting
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('waits for a short Retry-After before retrying', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(
+          new MockResponse('', {
+            status: 503,
+            statusText: 'Service Unavailable',
+            headers: { 'Retry-After': '1' },
+          })
+        )
+        .mockResolvedValueOnce(new MockResponse('{}', { status: 200 }));
+
+      const start = Date.now();
+      const result = await ApiResilience.resilientFetch(
+        'https://api.example.com',
+        {},
+        { retryOptions: { maxAttempts: 2, initialDelayMs: 1 } }
+      );
+
+      expect(result.status).toBe(200);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(1000);
+      expect(ApiResilience.getRecentRetries(1)[0]?.delayMs).toBe(1000);
+    }, 10000);
+
+    test('draws every attempt from the shared quota', async () => {
+      const quota = new TokenBucket({
+        name: 'test-quota',
+        capacity: 1,
+        refillIntervalMs: 60 * 60 * 1000,
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new MockResponse('{}', { status: 200 })
+      );
+
+      await ApiResilience.resilientFetch(
+        'https://api.example.com',
+        {},
+        {
+          quota,
+        }
+      );
+      await expect(
+        ApiResilience.resilientFetch('https://api.example.com', {}, { quota })
+      ).rejects.toBeInstanceOf(RateLimitExceededError);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('takes a quota token for the retry after Retry-After', async () => {
+      const quota = new TokenBucket({
+        name: 'test-quota',
+        capacity: 30,
+        refillIntervalMs: 60 * 60 * 1000,
+      });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(
+          new MockResponse('', {
+            status: 429,
+            statusText: 'Too Many Requests',
+            headers: { 'Retry-After': '1' },
+          })
+        )
+        .mockResolvedValueOnce(new MockResponse('{}', { status: 200 }));
+
+      const result = await ApiResilience.resilientFetch(
+        'https://api.example.com',
+        {},
+        {
+          circuitName: 'quota-retry-circuit',
+          retryOptions: { maxAttempts: 2, initialDelayMs: 1 },
+          quota,
+        }
+      );
+
+      expect(result.status).toBe(200);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(quota.getStatus().remaining).toBe(28);
+      ApiResilience.resetCircuit('quota-retry-circuit');
+    }, 10000);
+
+    test('does not retry a 429 once the quota is spent', async () => {
+      const quota = new TokenBucket({
+        name: 'test-quota',
+        capacity: 1,
+        refillIntervalMs: 60 * 60 * 1000,
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new MockResponse('', {
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { 'Retry-After': '1' },
+        })
+      );
+
+      await expect(
+        ApiResilience.resilientFetch(
+          'https://api.example.com',
+          {},
+          {
+            circuitName: 'quota-spent-circuit',
+            retryOptions: { maxAttempts: 2, initialDelayMs: 1 },
+            quota,
+          }
+        )
+      ).rejects.toThrow(RateLimitExceededError);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      ApiResilience.resetCircuit('quota-spent-circuit');
+    }, 10000);
+  });
+
+  describe('request coalescing', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      global.fetch = jest.fn();
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    test('normalizes host case, parameter order and fragments', () => {
+      expect(normalizeRequestUrl('https://API.example.com/a?b=2&a=1#top')).toBe(
+        normalizeRequestUrl('https://api.example.com/a?a=1&b=2')
+      );
+      expect(normalizeRequestUrl('https://api.example.com/a?a=1')).not.toBe(
+        normalizeRequestUrl('https://api.example.com/a?a=2')
+      );
+    });
+
+    test('shares one upstream request between concurrent callers', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        new MockResponse('{"data": "shared"}', { status: 200 })
+      );
+
+      const responses = await Promise.all([
+        ApiResilience.resilientFetch('https://api.example.com/x?a=1&b=2'),
+        ApiResilience.resilientFetch('https://api.example.com/x?b=2&a=1'),
+        ApiResilience.resilientFetch('https://api.example.com/x?a=1&b=2'),
+      ]);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(new Set(responses).size).toBe(3);
+      for (const response of responses) {
+        await expect(response.json()).resolves.toEqual({ data: 'shared' });
+      }
+      expect(ApiResilience.getInFlightCount()).toBe(0);
+    });
+
+    test('shares failures and starts fresh afterwards', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(
+          new MockResponse('', { status: 404, statusText: 'Not Found' })
+        )
+        .mockResolvedValueOnce(new MockResponse('{}', { status: 200 }));
+
+      const results = await Promise.allSettled([
+        ApiResilience.resilientFetch('https://api.example.com/y'),
+        ApiResilience.resilientFetch('https://api.example.com/y'),
+      ]);
+      expect(results.map((result) => result.status)).toEqual([
+        'rejected',
+        'rejected',
+      ]);
+
+      const retried = await ApiResilience.resilientFetch(
+        'https://api.example.com/y'
+      );
+      expect(retried.status).toBe(200);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('does not coalesce requests with a body or when disabled', async () => {
+      (global.fetch as jest.Mock).mockImplementation(
+        async () => new MockResponse('{}', { status: 200 })
+      );
+
+      await Promise.all([
+        ApiResilience.resilientFetch('https://api.example.com/z', {
+          method: 'POST',
+          body: '{}',
+        }),
+        ApiResilience.resilientFetch('https://api.example.com/z', {
+          method: 'POST',
+          body: '{}',
+        }),
+        ApiResilience.resilientFetch(
+          'https://api.example.com/z',
+          {},
+          { coalesce: false }
+        ),
+        ApiResilience.resilientFetch(
+          'https://api.example.com/z',
+          {},
+          { coalesce: false }
+        ),
+      ]);
+
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+    });
   });
 
   describe('getCircuitStatus', () => {
@@ -315,4 +581,69 @@ describe('ApiResilience', () => {
       expect(results[0]?.status).toBe('unhealthy');
     });
   });
+
+  describe('observability', () => {
+    test('reports circuit states with failure counts and next retry', async () => {
+      const failing = jest.fn().mockRejectedValue(new Error('Service error'));
+
+      for (let i = 0; i < 2; i++) {
+        await expect(
+          ApiResilience.withCircuitBreaker(failing, 'observed-circuit', {
+            failureThreshold: 2,
+          })
+        ).rejects.toThrow('Service error');
+      }
+
+      const circuit = ApiResilience.getAllCircuits().find(
+        ({ name }) => name === 'observed-circuit'
+      );
+      expect(circuit).toMatchObject({
+        state: 'open',
+        failureCount: 2,
+        failureThreshold: 2,
+      });
+      expect(circuit?.nextAttemptTime).not.toBeNull();
+
+      expect(ApiResilience.resetCircuit('observed-circuit')).toBe(true);
+      expect(ApiResilience.resetCircuit('observed-circuit')).toBe(false);
+    });
+
+    test('reports an open circuit past its reset timeout as half-open', async () => {
+      const failing = jest.fn().mockRejectedValue(new Error('Service error'));
+
+      await expect(
+        ApiResilience.withCircuitBreaker(failing, 'half-open-circuit', {
+          failureThreshold: 1,
+          resetTimeoutMs: 0,
+        })
+      ).rejects.toThrow('Service error');
+
+      const circuit = ApiResilience.getAllCircuits().find(
+        ({ name }) => name === 'half-open-circuit'
+      );
+      expect(circuit?.state).toBe('half-open');
+      ApiResilience.resetAllCircuits();
+      expect(ApiResilience.getAllCircuits()).toEqual([]);
+    });
+
+    test('records retry attempts under their circuit name', async () => {
+      const mockFn = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce('success');
+
+      await ApiResilience.withResiliencePattern(mockFn, 'retry-log-circuit', {
+        maxAttempts: 2,
+        initialDelayMs: 10,
+      });
+
+      expect(ApiResilience.getRecentRetries(1)[0]).toMatchObject({
+        circuitName: 'retry-log-circuit',
+        attempt: 1,
+        error: 'Network error',
+        delayMs: 10,
+      });
+      ApiResilience.resetCircuit('retry-log-circuit');
+    });
+  });
 });
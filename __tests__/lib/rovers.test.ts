@@ -0,0 +1,49 @@
+/**
+ * Tests for the rover registry
+ */
+
+import {
+  ROVERS,
+  ROVER_NAMES,
+  getActiveRovers,
+  getPhotoRovers,
+  isRoverName,
+} from '@/lib/rovers';
+
+describe('rover registry', () => {
+  test('lists every mission by registry key', () => {
+    expect(ROVER_NAMES).toEqual([
+      'curiosity',
+      'perseverance',
+      'spirit',
+      'opportunity',
+      'insight',
+    ]);
+  });
+
+  test('recognizes registered rover names only', () => {
+    expect(isRoverName('opportunity')).toBe(true);
+    expect(isRoverName('sojourner')).toBe(false);
+    expect(isRoverName('toString')).toBe(false);
+  });
+
+  test('separates active and completed missions', () => {
+    expect(getActiveRovers()).toEqual(['curiosity', 'perseverance']);
+    for (const rover of ROVER_NAMES) {
+      const { status, endDate, landingDate } = ROVERS[rover];
+      expect(endDate === null).toBe(status === 'active');
+      if (endDate) {
+        expect(endDate.getTime()).toBeGreaterThan(landingDate.getTime());
+      }
+    }
+  });
+
+  test('leaves InSight out of the photo archive', () => {
+    expect(getPhotoRovers()).toEqual([
+      'curiosity',
+      'perseverance',
+      'spirit',
+      'opportunity',
+    ]);
+  });
+});
@@ -2,7 +2,7 @@
  * Tests for validation utilities
  */
 
-import { ValidationUtils } from '@/lib/validation';
+import { QuerySchema, ValidationUtils } from '@/lib/validation';
 
 describe('ValidationUtils', () => {
   describe('validateRover', () => {
@@ -26,6 +26,14 @@ describe('ValidationUtils', () => {
       expect(result2.value).toBe('perseverance');
     });
 
+    test('accepts completed missions from the rover registry', () => {
+      const result = ValidationUtils.validateRover('Spirit');
+      expect(result.isValid).toBe(true);
+      expect(result.value).toBe('spirit');
+
+      expect(ValidationUtils.validateRover('insight').isValid).toBe(true);
+    });
+
     test('rejects invalid rover names', () => {
       const result = ValidationUtils.validateRover('invalid_rover');
       expect(result.isValid).toBe(false);
@@ -102,8 +110,14 @@ describe('ValidationUtils', () => {
       expect(result2.value).toBe('fahrenheit');
     });
 
+    test('accepts kelvin', () => {
+      const result = ValidationUtils.validateTemperatureUnit('Kelvin');
+      expect(result.isValid).toBe(true);
+      expect(result.value).toBe('kelvin');
+    });
+
     test('rejects invalid temperature units', () => {
-      const result = ValidationUtils.validateTemperatureUnit('kelvin');
+      const result = ValidationUtils.validateTemperatureUnit('rankine');
       expect(result.isValid).toBe(false);
       expect(result.code).toBe('INVALID_UNIT');
     });
@@ -147,6 +161,60 @@ describe('ValidationUtils', () => {
     });
   });
 
+  describe('validateSol', () => {
+    test('accepts whole sol numbers', () => {
+      expect(ValidationUtils.validateSol('0').value).toBe(0);
+      expect(ValidationUtils.validateSol(4200).value).toBe(4200);
+    });
+
+    test('rejects fractional, negative and non-numeric sols', () => {
+      expect(ValidationUtils.validateSol('12.5').code).toBe('INVALID_NUMBER');
+      expect(ValidationUtils.validateSol('abc').code).toBe('INVALID_NUMBER');
+      expect(ValidationUtils.validateSol('-1').code).toBe('OUT_OF_RANGE');
+    });
+  });
+
+  describe('validateEarthDate', () => {
+    test('accepts YYYY-MM-DD dates', () => {
+      const result = ValidationUtils.validateEarthDate(' 2021-02-18 ');
+      expect(result.isValid).toBe(true);
+      expect(result.value).toBe('2021-02-18');
+    });
+
+    test('rejects malformed and impossible dates', () => {
+      ['2021-2-18', '2021-02-30', 'yesterday'].forEach((date) => {
+        const result = ValidationUtils.validateEarthDate(date);
+        expect(result.isValid).toBe(false);
+        expect(result.code).toBe('INVALID_DATE');
+      });
+    });
+  });
+
+  describe('validatePositiveInteger', () => {
+    test('accepts integers within bounds', () => {
+      const result = ValidationUtils.validatePositiveInteger(
+        '25',
+        'pageSize',
+        500
+      );
+      expect(result.isValid).toBe(true);
+      expect(result.value).toBe(25);
+    });
+
+    test('rejects zero and values above the maximum', () => {
+      expect(ValidationUtils.validatePositiveInteger('0', 'page').code).toBe(
+        'OUT_OF_RANGE'
+      );
+      const result = ValidationUtils.validatePositiveInteger(
+        '501',
+        'pageSize',
+        500
+      );
+      expect(result.code).toBe('OUT_OF_RANGE');
+      expect(result.error).toContain('pageSize');
+    });
+  });
+
   describe('sanitizeString', () => {
     test('trims and normalizes whitespace', () => {
       const result = ValidationUtils.sanitizeString('  hello   world  ');
@@ -221,6 +289,117 @@ describe('ValidationUtils', () => {
     });
   });
 
+  describe('validateCamera', () => {
+    test('accepts known cameras case-insensitively', () => {
+      expect(ValidationUtils.validateCamera('navcam').value).toBe('NAVCAM');
+      expect(ValidationUtils.validateCamera('MCZCAM_LEFT').isValid).toBe(true);
+    });
+
+    test('rejects unknown cameras', () => {
+      const result = ValidationUtils.validateCamera('POLAROID');
+      expect(result.isValid).toBe(false);
+      expect(result.code).toBe('INVALID_CAMERA');
+    });
+
+    test('rejects cameras of another rover', () => {
+      expect(ValidationUtils.validateCamera('pancam', 'spirit').isValid).toBe(
+        true
+      );
+
+      const result = ValidationUtils.validateCamera('PIXL', 'spirit');
+      expect(result.isValid).toBe(false);
+      expect(result.code).toBe('INVALID_CAMERA');
+      expect(result.error).toContain('for Spirit');
+    });
+  });
+
+  describe('validateRoverList', () => {
+    test('accepts comma-separated rovers and drops duplicates', () => {
+      const result = ValidationUtils.validateRoverList(
+        'Curiosity, perseverance,curiosity'
+      );
+      expect(result.isValid).toBe(true);
+      expect(result.value).toEqual(['curiosity', 'perseverance']);
+    });
+
+    test('rejects unknown rovers and single-rover lists', () => {
+      expect(ValidationUtils.validateRoverList('curiosity,zhurong').code).toBe(
+        'INVALID_ROVER'
+      );
+      expect(
+        ValidationUtils.validateRoverList('curiosity,curiosity').code
+      ).toBe('TOO_FEW_ROVERS');
+    });
+  });
+
+  describe('parseQuery', () => {
+    const schema = {
+      sol: {
+        validate: ValidationUtils.validateSol,
+        description: 'Sol',
+        type: 'integer',
+      },
+      includeEstimated: {
+        validate: ValidationUtils.validateBoolean,
+        default: false,
+        description: 'Include estimated sols',
+        type: 'boolean',
+      },
+    } satisfies QuerySchema;
+
+    test('parses present values and defaults absent or empty ones', () => {
+      const { values, invalid } = ValidationUtils.parseQuery(
+        new URLSearchParams('sol=42&includeEstimated='),
+        schema
+      );
+
+      expect(invalid).toEqual([]);
+      expect(values).toEqual({ sol: 42, includeEstimated: false });
+    });
+
+    test('reports every invalid parameter', () => {
+      const { invalid } = ValidationUtils.parseQuery(
+        new URLSearchParams('sol=-1&includeEstimated=maybe'),
+        schema
+      );
+
+      expect(invalid).toEqual([
+        {
+          parameter: 'sol',
+          value: '-1',
+          error: 'Sol must be between 0 and 100000',
+          code: 'OUT_OF_RANGE',
+        },
+        {
+          parameter: 'includeEstimated',
+          value: 'maybe',
+          error: 'Value must be a boolean or convertible to boolean',
+          code: 'INVALID_BOOLEAN',
+        },
+      ]);
+    });
+
+    test('reports missing required parameters', () => {
+      const { invalid } = ValidationUtils.parseQuery(new URLSearchParams(''), {
+        rovers: {
+          validate: ValidationUtils.validateRoverList,
+          required: true,
+          description: 'Rovers',
+          type: 'string',
+        },
+      });
+
+      expect(invalid).toEqual([
+        {
+          parameter: 'rovers',
+          value: null,
+          error: 'rovers is required',
+          code: 'MISSING_PARAMETER',
+        },
+      ]);
+    });
+  });
+
   describe('validateQueryParams', () => {
     test('validates all parameters correctly', () => {
       const searchParams = new URLSearchParams({
@@ -257,7 +436,7 @@ describe('ValidationUtils', () => {
     test('accumulates validation errors', () => {
       const searchParams = new URLSearchParams({
         history: '50', // Out of range
-        tempUnit: 'kelvin', // Invalid unit
+        tempUnit: 'rankine', // Invalid unit
         windUnit: 'knots', // Invalid unit
       });
 
@@ -4,7 +4,7 @@
  */
 
 import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
-import { ROVER_LOCATIONS } from '@/lib/constants';
+import { ROVER_NAMES, ROVERS } from '@/lib/rovers';
 
 describe('MarsTimeCalculator', () => {
   describe('dateToJulian', () => {
@@ -109,7 +109,7 @@ describe('MarsTimeCalculator', () => {
       const testDate = new Date('2023-07-01T12:00:00.000Z');
       const ltst = MarsTimeCalculator.getLTST(
         testDate,
-        ROVER_LOCATIONS.curiosity?.longitude ?? 137.4417
+        ROVERS.curiosity.longitude
       );
 
       expect(ltst).toMatch(/^\d{2}:\d{2}:\d{2}$/);
@@ -119,7 +119,7 @@ describe('MarsTimeCalculator', () => {
       const testDate = new Date('2023-07-01T12:00:00.000Z');
       const ltst = MarsTimeCalculator.getLTST(
         testDate,
-        ROVER_LOCATIONS.perseverance?.longitude ?? 77.4509
+        ROVERS.perseverance.longitude
       );
 
       expect(ltst).toMatch(/^\d{2}:\d{2}:\d{2}$/);
@@ -148,27 +148,21 @@ describe('MarsTimeCalculator', () => {
 
   describe('getMissionSol', () => {
     test('calculates Curiosity sol correctly for landing date', () => {
-      const landingDate =
-        ROVER_LOCATIONS.curiosity?.landingDate ??
-        new Date('2012-08-06T05:17:57Z');
+      const landingDate = ROVERS.curiosity.landingDate;
       const sol = MarsTimeCalculator.getMissionSol(landingDate, landingDate);
 
       expect(sol).toBe(0);
     });
 
     test('calculates Perseverance sol correctly for landing date', () => {
-      const landingDate =
-        ROVER_LOCATIONS.perseverance?.landingDate ??
-        new Date('2021-02-18T20:55:00Z');
+      const landingDate = ROVERS.perseverance.landingDate;
       const sol = MarsTimeCalculator.getMissionSol(landingDate, landingDate);
 
       expect(sol).toBe(0);
     });
 
     test('calculates positive sol numbers for future dates', () => {
-      const landingDate =
-        ROVER_LOCATIONS.curiosity?.landingDate ??
-        new Date('2012-08-06T05:17:57Z');
+      const landingDate = ROVERS.curiosity.landingDate;
       const futureDate = new Date(
         landingDate.getTime() + 10 * 24 * 60 * 60 * 1000
       ); // 10 Earth days later
@@ -189,6 +183,135 @@ describe('MarsTimeCalculator', () => {
     });
   });
 
+  describe('getRoverSol', () => {
+    test('counts MER sols from 1 at landing', () => {
+      expect(
+        MarsTimeCalculator.getRoverSol(
+          'curiosity',
+          ROVERS.curiosity.landingDate
+        )
+      ).toBe(0);
+      expect(
+        MarsTimeCalculator.getRoverSol('spirit', ROVERS.spirit.landingDate)
+      ).toBe(1);
+    });
+
+    test('is the inverse of getRoverSolStartDate', () => {
+      [1, 500, 2000].forEach((sol) => {
+        const start = MarsTimeCalculator.getRoverSolStartDate(
+          'opportunity',
+          sol
+        );
+        const midSol = new Date(start.getTime() + 12 * 60 * 60 * 1000);
+
+        expect(MarsTimeCalculator.getRoverSol('opportunity', midSol)).toBe(sol);
+      });
+    });
+  });
+
+  describe('msdToEarth', () => {
+    test('inverts earthToMSD', () => {
+      const date = new Date('2024-03-15T12:34:56Z');
+      const roundTrip = MarsTimeCalculator.msdToEarth(
+        MarsTimeCalculator.earthToMSD(date)
+      );
+
+      expect(Math.abs(roundTrip.getTime() - date.getTime())).toBeLessThan(5);
+    });
+  });
+
+  describe('getSolStartDate', () => {
+    const landingDate = new Date('2012-08-06T05:17:57Z');
+
+    test('returns the landing date for sol 0', () => {
+      const start = MarsTimeCalculator.getSolStartDate(landingDate, 0);
+      expect(Math.abs(start.getTime() - landingDate.getTime())).toBeLessThan(5);
+    });
+
+    test('is consistent with getMissionSol', () => {
+      [1, 100, 1000, 4000].forEach((sol) => {
+        const start = MarsTimeCalculator.getSolStartDate(landingDate, sol);
+        const midSol = new Date(start.getTime() + 12 * 60 * 60 * 1000);
+
+        expect(MarsTimeCalculator.getMissionSol(landingDate, midSol)).toBe(sol);
+      });
+    });
+  });
+
+  describe('getMarsLs', () => {
+    test('crosses Ls 0 at the start of known Mars years', () => {
+      // MY 36 began 2021-02-07, MY 37 began 2022-12-26
+      ['2021-02-07T12:00:00Z', '2022-12-26T12:00:00Z'].forEach((date) => {
+        const msd = MarsTimeCalculator.earthToMSD(new Date(date));
+        const ls = MarsTimeCalculator.getMarsLs(msd);
+        expect(Math.min(ls, 360 - ls)).toBeLessThan(1);
+      });
+    });
+
+    test('returns values in the 0-360 range', () => {
+      for (let msd = 50000; msd < 50700; msd += 50) {
+        const ls = MarsTimeCalculator.getMarsLs(msd);
+        expect(ls).toBeGreaterThanOrEqual(0);
+        expect(ls).toBeLessThan(360);
+      }
+    });
+  });
+
+  describe('getMarsYear', () => {
+    test('numbers Mars years from 1955', () => {
+      const msd = (date: string): number =>
+        MarsTimeCalculator.earthToMSD(new Date(date));
+
+      expect(MarsTimeCalculator.getMarsYear(msd('1955-06-01T00:00:00Z'))).toBe(
+        1
+      );
+      expect(MarsTimeCalculator.getMarsYear(msd('2012-08-06T05:17:57Z'))).toBe(
+        31
+      );
+      expect(MarsTimeCalculator.getMarsYear(msd('2021-02-18T20:55:00Z'))).toBe(
+        36
+      );
+    });
+
+    test('switches year at the Ls 0 crossing', () => {
+      const start = MarsTimeCalculator.earthToMSD(
+        new Date('2022-12-26T12:00:00Z')
+      );
+      expect(MarsTimeCalculator.getMarsYear(start - 2)).toBe(36);
+      expect(MarsTimeCalculator.getMarsYear(start + 2)).toBe(37);
+    });
+  });
+
+  describe('getMarsSeason', () => {
+    test('names northern hemisphere seasons by Ls quarter', () => {
+      expect(MarsTimeCalculator.getMarsSeason(0, 18.4)).toBe('northern-spring');
+      expect(MarsTimeCalculator.getMarsSeason(135, 18.4)).toBe(
+        'northern-summer'
+      );
+      expect(MarsTimeCalculator.getMarsSeason(200, 18.4)).toBe(
+        'northern-autumn'
+      );
+      expect(MarsTimeCalculator.getMarsSeason(359.9, 18.4)).toBe(
+        'northern-winter'
+      );
+    });
+
+    test('reverses seasons in the southern hemisphere', () => {
+      expect(MarsTimeCalculator.getMarsSeason(45, -4.6)).toBe(
+        'southern-autumn'
+      );
+      expect(MarsTimeCalculator.getMarsSeason(120, -4.6)).toBe(
+        'southern-winter'
+      );
+      expect(MarsTimeCalculator.getMarsSeason(250, -4.6)).toBe(
+        'southern-spring'
+      );
+      expect(MarsTimeCalculator.getMarsSeason(300, -4.6)).toBe(
+        'southern-summer'
+      );
+    });
+  });
+
   describe('getEquationOfTime', () => {
     test('returns reasonable values', () => {
       const testMSD = 50000; // Arbitrary test MSD
@@ -272,18 +395,16 @@ describe('MarsTimeCalculator', () => {
 
       expect(marsTime).toHaveProperty('msd');
       expect(marsTime).toHaveProperty('mtc');
-      expect(marsTime).toHaveProperty('curiosityLTST');
-      expect(marsTime).toHaveProperty('perseveranceLTST');
-      expect(marsTime).toHaveProperty('curiositySol');
-      expect(marsTime).toHaveProperty('perseveranceSol');
+      expect(marsTime).toHaveProperty('rovers');
       expect(marsTime).toHaveProperty('earthTime');
 
       expect(typeof marsTime.msd).toBe('number');
       expect(marsTime.mtc).toMatch(/^\d{2}:\d{2}:\d{2}$/);
-      expect(marsTime.curiosityLTST).toMatch(/^\d{2}:\d{2}:\d{2}$/);
-      expect(marsTime.perseveranceLTST).toMatch(/^\d{2}:\d{2}:\d{2}$/);
-      expect(typeof marsTime.curiositySol).toBe('number');
-      expect(typeof marsTime.perseveranceSol).toBe('number');
+      expect(marsTime.rovers.map(({ rover }) => rover)).toEqual(ROVER_NAMES);
+      for (const { ltst, sol } of marsTime.rovers) {
+        expect(ltst).toMatch(/^\d{2}:\d{2}:\d{2}$/);
+        expect(typeof sol).toBe('number');
+      }
       expect(marsTime.earthTime).toMatch(/^\d{2}:\d{2}:\d{2}$/);
     });
 
@@ -303,11 +424,27 @@ describe('MarsTimeCalculator', () => {
       const currentDate = new Date();
       const marsTime = MarsTimeCalculator.calculateMarsTime(currentDate);
 
+      const sols = Object.fromEntries(
+        marsTime.rovers.map(({ rover, sol }) => [rover, sol])
+      );
+
       // As of 2023, Curiosity should have thousands of sols
-      expect(marsTime.curiositySol).toBeGreaterThan(3000);
+      expect(sols.curiosity).toBeGreaterThan(3000);
 
       // Perseverance started in 2021, should have hundreds of sols
-      expect(marsTime.perseveranceSol).toBeGreaterThan(800);
+      expect(sols.perseverance).toBeGreaterThan(800);
+    });
+
+    test('stops completed missions at their final sol', () => {
+      const marsTime = MarsTimeCalculator.calculateMarsTime(
+        new Date('2024-01-01T00:00:00Z')
+      );
+      const spirit = marsTime.rovers.find(({ rover }) => rover === 'spirit');
+
+      expect(spirit?.active).toBe(false);
+      // Last contact with Spirit was on sol 2210
+      expect(spirit?.sol).toBeGreaterThanOrEqual(2205);
+      expect(spirit?.sol).toBeLessThanOrEqual(2215);
     });
   });
 
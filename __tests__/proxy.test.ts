@@ -0,0 +1,206 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the versioned API gateway
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { proxy } from '@/proxy';
+import {
+  FileApiKeyStore,
+  anonymousRateLimiter,
+  apiKeyRateLimiter,
+  setApiKeyStore,
+} from '@/lib/api-keys';
+import {
+  PAGE_SESSION_COOKIE,
+  createPageSession,
+  verifyPageSession,
+} from '@/lib/page-sessions';
+
+describe('API gateway', () => {
+  let directory: string;
+  let store: FileApiKeyStore;
+
+  const request = (
+    pathAndQuery: string,
+    init: { method?: string; headers?: Record<string, string> } = {}
+  ): NextRequest => new NextRequest(`http://localhost${pathAndQuery}`, init);
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'api-gateway-'));
+    store = new FileApiKeyStore(path.join(directory, 'api-keys.json'));
+    setApiKeyStore(store);
+    apiKeyRateLimiter.reset();
+    anonymousRateLimiter.reset();
+  });
+
+  afterEach(async () => {
+    await store.flush();
+    delete process.env.ANONYMOUS_RATE_LIMIT_PER_HOUR;
+    setApiKeyStore(null);
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('answers CORS preflights without a key', async () => {
+    const response = await proxy(
+      request('/api/v1/weather/curiosity', { method: 'OPTIONS' })
+    );
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Headers')).toContain(
+      'X-API-Key'
+    );
+  });
+
+  test('rejects missing and unknown keys', async () => {
+    const missing = await proxy(request('/api/v1/weather/curiosity'));
+    const unknown = await proxy(
+      request('/api/v1/weather/curiosity', {
+        headers: { 'X-API-Key': 'mwd_unknown' },
+      })
+    );
+
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).code).toBe('API_KEY_REQUIRED');
+    expect(unknown.status).toBe(401);
+    expect((await unknown.json()).code).toBe('INVALID_API_KEY');
+  });
+
+  test('rewrites keyed requests to the API routes without the key', async () => {
+    const { key } = await store.issue('client', 10);
+
+    const response = await proxy(
+      request(`/api/v1/photos/curiosity?sol=100&api_key=${key}`)
+    );
+
+    expect(response.headers.get('x-middleware-rewrite')).toBe(
+      'http://localhost/api/photos/curiosity?sol=100'
+    );
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('10');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('9');
+  });
+
+  test('enforces the key quota and counts usage', async () => {
+    const { key, apiKey } = await store.issue('client', 1);
+    const keyed = (): NextRequest =>
+      request('/api/v1/weather/curiosity', { headers: { 'X-API-Key': key } });
+
+    expect((await proxy(keyed())).status).toBe(200);
+    const limited = await proxy(keyed());
+
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).code).toBe('RATE_LIMITED');
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    const [record] = await store.list();
+    expect(record?.id).toBe(apiKey.id);
+    expect(record?.usage).toMatchObject({
+      totalRequests: 1,
+      rejectedRequests: 1,
+    });
+  });
+
+  test('reports the calling key usage', async () => {
+    const { key } = await store.issue('client', 5);
+
+    const response = await proxy(
+      request('/api/v1/usage', { headers: { Authorization: `Bearer ${key}` } })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.apiKey.usage.totalRequests).toBe(1);
+    expect(body.quota).toEqual({ limitPerHour: 5, remaining: 4 });
+    expect(body.apiKey).not.toHaveProperty('keyHash');
+  });
+
+  test('does not expose unversioned or admin routes', async () => {
+    const { key } = await store.issue('client', 5);
+
+    const response = await proxy(
+      request('/api/v1/admin/cache', { headers: { 'X-API-Key': key } })
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  test('gives page visitors an HttpOnly session cookie', async () => {
+    const response = await proxy(request('/'));
+    const cookie = response.cookies.get(PAGE_SESSION_COOKIE);
+
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+    expect(verifyPageSession(cookie?.value)).not.toBeNull();
+    expect(cookie).toMatchObject({ httpOnly: true, sameSite: 'strict' });
+
+    const returning = await proxy(
+      request('/docs', {
+        headers: { Cookie: `${PAGE_SESSION_COOKIE}=${cookie?.value}` },
+      })
+    );
+    expect(returning.cookies.get(PAGE_SESSION_COOKIE)).toBeUndefined();
+  });
+
+  test('refuses keyless unversioned requests without a page session', async () => {
+    const direct = await proxy(request('/api/weather/curiosity'));
+    // Request headers are set by the caller and prove nothing
+    const spoofed = await proxy(
+      request('/api/weather/curiosity', {
+        headers: {
+          'Sec-Fetch-Site': 'same-origin',
+          Origin: 'http://localhost',
+          Referer: 'http://localhost/',
+        },
+      })
+    );
+    const forged = await proxy(
+      request('/api/photos/curiosity', {
+        headers: {
+          Cookie: `${PAGE_SESSION_COOKIE}=${createPageSession('other-secret')}`,
+        },
+      })
+    );
+
+    expect(direct.status).toBe(401);
+    expect(await direct.json()).toMatchObject({
+      code: 'API_KEY_REQUIRED',
+      details: { endpoint: '/api/v1/weather/curiosity' },
+    });
+    expect(direct.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(spoofed.status).toBe(401);
+    expect(forged.status).toBe(401);
+  });
+
+  test('throttles page session requests per client address', async () => {
+    process.env.ANONYMOUS_RATE_LIMIT_PER_HOUR = '2';
+    const session = createPageSession();
+    let spoofed = 0;
+    // The client sets the left entries; the platform appends the real address
+    const fromPage = (address: string): NextRequest =>
+      request('/api/weather/curiosity', {
+        headers: {
+          Cookie: `${PAGE_SESSION_COOKIE}=${session}`,
+          'X-Forwarded-For': `198.51.100.${++spoofed}, ${address}`,
+        },
+      });
+
+    const first = await proxy(fromPage('203.0.113.5'));
+    expect(first.headers.get('x-middleware-next')).toBe('1');
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('1');
+    await proxy(fromPage('203.0.113.5'));
+
+    const limited = await proxy(fromPage('203.0.113.5'));
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).code).toBe('RATE_LIMITED');
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    const otherClient = await proxy(fromPage('203.0.113.9'));
+    expect(otherClient.headers.get('x-middleware-next')).toBe('1');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Cache Administration API
+ * Lists, inspects and purges shared cache entries (requires ADMIN_API_TOKEN)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CacheDataType,
+  CacheManager,
+  DEFAULT_CACHE_POLICIES,
+} from '@/lib/cache';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+import { ValidationUtils } from '@/lib/validation';
+import { errorResponse } from '@/app/api/schemas/common';
+
+// Admin responses reflect live cache state and must never be cached
+export const dynamic = 'force-dynamic';
+
+/** Largest number of entries returned by one listing */
+const MAX_LIST_LIMIT = 1000;
+
+/**
+ * GET /api/admin/cache
+ * Without parameters: store, policies, hit/miss statistics and entries
+ * (filter with `prefix`, cap with `limit`). With `key`: one entry and its value.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const auth = authorizeAdminRequest(request);
+  if (!auth.authorized) {
+    return errorResponse(auth.status, auth.reason, auth.code);
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  const key = searchParams.get('key');
+  if (key !== null) {
+    const entry = await CacheManager.inspect(key);
+    if (!entry) {
+      return errorResponse(404, 'Cache entry not found', 'NOT_FOUND', { key });
+    }
+    return jsonResponse(entry);
+  }
+
+  let limit = 100;
+  const limitParam = searchParams.get('limit');
+  if (limitParam !== null) {
+    const result = ValidationUtils.validatePositiveInteger(
+      limitParam,
+      'limit',
+      MAX_LIST_LIMIT
+    );
+    if (!result.isValid || result.value === undefined) {
+      return errorResponse(400, 'Invalid limit', 'INVALID_PARAMETERS', {
+        limit: result.error,
+      });
+    }
+    limit = result.value;
+  }
+
+  const prefix = searchParams.get('prefix') ?? undefined;
+  const { entries, total } = await CacheManager.listEntries(prefix, limit);
+  const types = Object.keys(DEFAULT_CACHE_POLICIES) as CacheDataType[];
+
+  return jsonResponse({
+    store: CacheManager.getStore().name,
+    policies: Object.fromEntries(
+      types.map((type) => [type, CacheManager.getPolicy(type)])
+    ),
+    stats: CacheManager.getStats(),
+    total,
+    entries,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * DELETE /api/admin/cache
+ * Purges one entry (`key`), every entry under a `prefix`, or everything (`all=true`)
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  const auth = authorizeAdminRequest(request);
+  if (!auth.authorized) {
+    return errorResponse(auth.status, auth.reason, auth.code);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const key = searchParams.get('key');
+  const prefix = searchParams.get('prefix');
+  const purgeAll = searchParams.get('all') === 'true';
+
+  // Require an explicit target so a bare DELETE never wipes the cache
+  if (key === null && !prefix && !purgeAll) {
+    return errorResponse(400, 'Nothing to purge', 'MISSING_PARAMETERS', {
+      message: 'Provide key, prefix or all=true',
+    });
+  }
+
+  let purged: number;
+  if (key !== null) {
+    purged = (await CacheManager.inspect(key)) ? 1 : 0;
+    await CacheManager.delete(key);
+  } else {
+    const target = purgeAll ? undefined : (prefix ?? undefined);
+    purged = (await CacheManager.listEntries(target, MAX_LIST_LIMIT)).total;
+    await CacheManager.invalidate(target);
+  }
+
+  return jsonResponse({
+    purged,
+    ...(key !== null ? { key } : purgeAll ? { all: true } : { prefix }),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function jsonResponse(body: unknown): NextResponse {
+  return NextResponse.json(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
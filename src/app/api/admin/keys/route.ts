@@ -0,0 +1,128 @@
+/**
+ * API Key Administration
+ * Issues, lists and revokes client keys for /api/v1 (requires ADMIN_API_TOKEN)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+import {
+  getApiKeyStore,
+  getDefaultApiKeyRateLimit,
+  toApiKeySummary,
+} from '@/lib/api-keys';
+import { ValidationUtils } from '@/lib/validation';
+import { errorResponse } from '@/app/api/schemas/common';
+
+// Key listings include live usage counters and must never be cached
+export const dynamic = 'force-dynamic';
+
+/** Highest hourly quota that can be given to a key */
+const MAX_RATE_LIMIT_PER_HOUR = 100000;
+
+/** Longest key name */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * GET /api/admin/keys
+ * Every issued key with its quota and usage counters (never the secret)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const auth = authorizeAdminRequest(request);
+  if (!auth.authorized) {
+    return errorResponse(auth.status, auth.reason, auth.code);
+  }
+
+  const keys = await getApiKeyStore().list();
+
+  return jsonResponse({
+    keys: keys.map(toApiKeySummary),
+    total: keys.length,
+    active: keys.filter(({ revokedAt }) => revokedAt === null).length,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * POST /api/admin/keys
+ * Body `{ "name": "<client>", "rateLimitPerHour": 100 }` issues a key; the
+ * secret is returned once and only its hash is stored
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const auth = authorizeAdminRequest(request);
+  if (!auth.authorized) {
+    return errorResponse(auth.status, auth.reason, auth.code);
+  }
+
+  let body: { name?: unknown; rateLimitPerHour?: unknown };
+  try {
+    body = JSON.parse((await request.text()) || '{}');
+  } catch {
+    return errorResponse(400, 'Request body must be JSON', 'INVALID_BODY');
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return errorResponse(
+      400,
+      `name must be a string of 1 to ${MAX_NAME_LENGTH} characters`,
+      'INVALID_BODY'
+    );
+  }
+
+  let rateLimitPerHour = getDefaultApiKeyRateLimit();
+  if (body.rateLimitPerHour !== undefined) {
+    const result = ValidationUtils.validatePositiveInteger(
+      body.rateLimitPerHour,
+      'rateLimitPerHour',
+      MAX_RATE_LIMIT_PER_HOUR
+    );
+    if (!result.isValid || result.value === undefined) {
+      return errorResponse(400, 'Invalid rateLimitPerHour', 'INVALID_BODY', {
+        rateLimitPerHour: result.error,
+      });
+    }
+    rateLimitPerHour = result.value;
+  }
+
+  const issued = await getApiKeyStore().issue(name, rateLimitPerHour);
+
+  return jsonResponse({ ...issued, timestamp: new Date().toISOString() }, 201);
+}
+
+/**
+ * DELETE /api/admin/keys?id=<id>
+ * Revokes a key; later requests with it are rejected
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  const auth = authorizeAdminRequest(request);
+  if (!auth.authorized) {
+    return errorResponse(auth.status, auth.reason, auth.code);
+  }
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return errorResponse(400, 'Missing key id', 'MISSING_PARAMETERS', {
+      message: 'Provide the id of the key to revoke',
+    });
+  }
+
+  const revoked = await getApiKeyStore().revoke(id);
+  if (!revoked) {
+    return errorResponse(404, 'API key not found', 'NOT_FOUND', { id });
+  }
+
+  return jsonResponse({
+    apiKey: toApiKeySummary(revoked),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function jsonResponse(body: unknown, status = 200): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
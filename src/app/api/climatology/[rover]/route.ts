@@ -0,0 +1,107 @@
+/**
+ * Mars Seasonal Climatology API
+ * Returns temperature and pressure statistics binned by solar longitude
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ClimatologyService } from '@/features/weather/climatology-service';
+import { ValidationUtils } from '@/lib/validation';
+import { ROVER_NAMES, isRoverName } from '@/lib/rovers';
+import { WeatherApiError, ClimatologyOptions } from '@/types/weather';
+import { CLIMATOLOGY_QUERY } from '@/app/api/schemas/climatology';
+import {
+  invalidParametersResponse,
+  weatherApiError,
+} from '@/app/api/schemas/common';
+
+/**
+ * GET /api/climatology/[rover]
+ * Fetches per-Ls-bin min/avg/max statistics across Mars years
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ rover: string }> }
+): Promise<NextResponse> {
+  try {
+    const { rover } = await params;
+    const { searchParams } = new URL(request.url);
+
+    // Validate rover name
+    if (!isRoverName(rover)) {
+      const error: WeatherApiError = {
+        error: 'Invalid rover name',
+        code: 'INVALID_ROVER',
+        details: {
+          rover,
+          validRovers: ROVER_NAMES,
+          message: `Rover must be one of: ${ROVER_NAMES.join(', ')}`,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(error, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
+    // Validate every query parameter against the route schema
+    const { values, invalid } = ValidationUtils.parseQuery(
+      searchParams,
+      CLIMATOLOGY_QUERY
+    );
+
+    if (invalid.length > 0) {
+      return invalidParametersResponse(invalid, weatherApiError);
+    }
+
+    const options: ClimatologyOptions = {
+      includeEstimated: values.includeEstimated,
+      temperatureUnit: values.tempUnit,
+      pressureUnit: values.pressureUnit,
+      ...(values.binSize !== undefined && { binSize: values.binSize }),
+    };
+
+    const climatology = await ClimatologyService.getClimatology(rover, options);
+
+    return NextResponse.json(climatology, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        // Seasonal statistics change at most once per sol
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        'X-Rover': rover,
+      },
+    });
+  } catch (error) {
+    console.error('Climatology API Error:', error);
+
+    const apiError: WeatherApiError = {
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: {
+        message:
+          error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  }
+}
+
+/**
+ * Generate static params for supported rovers
+ */
+export function generateStaticParams(): Array<{ rover: string }> {
+  return ROVER_NAMES.map((rover) => ({ rover }));
+}
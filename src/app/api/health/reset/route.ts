@@ -0,0 +1,51 @@
+/**
+ * Circuit Breaker Reset API
+ * Manually closes tripped circuits (requires ADMIN_API_TOKEN)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResilience } from '@/lib/retry';
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+import { errorResponse } from '@/app/api/schemas/common';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/health/reset
+ * Body `{ "circuit": "<name>" }` resets one circuit; an empty body resets all
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const auth = authorizeAdminRequest(request);
+  if (!auth.authorized) {
+    return errorResponse(auth.status, auth.reason, auth.code);
+  }
+
+  let circuit: unknown;
+  try {
+    const text = await request.text();
+    circuit = text ? (JSON.parse(text) as { circuit?: unknown }).circuit : null;
+  } catch {
+    return errorResponse(400, 'Request body must be JSON', 'INVALID_BODY');
+  }
+
+  if (circuit !== null && circuit !== undefined) {
+    if (typeof circuit !== 'string' || circuit === '') {
+      return errorResponse(400, 'circuit must be a string', 'INVALID_BODY');
+    }
+    if (!ApiResilience.resetCircuit(circuit)) {
+      return errorResponse(404, 'Circuit not found', 'NOT_FOUND', { circuit });
+    }
+    return NextResponse.json(
+      { reset: [circuit], timestamp: new Date().toISOString() },
+      { status: 200, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+
+  const names = ApiResilience.getAllCircuits().map(({ name }) => name);
+  ApiResilience.resetAllCircuits();
+
+  return NextResponse.json(
+    { reset: names, timestamp: new Date().toISOString() },
+    { status: 200, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Service Health API
+ * Reports circuit breakers, recent retries and cache statistics
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResilience } from '@/lib/retry';
+import { CacheManager } from '@/lib/cache';
+import { nasaApiQuota } from '@/lib/rate-limiter';
+import { HealthApiResponse } from '@/types/health';
+
+// Health reflects live process state and must never be cached
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/health
+ * Returns "degraded" while any circuit is open or half-open
+ */
+export async function GET(): Promise<NextResponse> {
+  const circuits = ApiResilience.getAllCircuits();
+
+  const health: HealthApiResponse = {
+    status: circuits.some((circuit) => circuit.state !== 'closed')
+      ? 'degraded'
+      : 'ok',
+    circuits,
+    recentRetries: ApiResilience.getRecentRetries(),
+    quotas: [nasaApiQuota.getStatus()],
+    cache: {
+      store: CacheManager.getStore().name,
+      stats: CacheManager.getStats(),
+    },
+    uptimeSeconds: Math.round(process.uptime()),
+    timestamp: new Date().toISOString(),
+  };
+
+  return NextResponse.json(health, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
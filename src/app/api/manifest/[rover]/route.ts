@@ -0,0 +1,171 @@
+/**
+ * Mars Rover Photo Manifest API
+ * Returns mission totals and per-sol imagery so clients can see which sols
+ * have photos before browsing them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PhotosService } from '@/features/photos/photos-service';
+import { HttpError, RateLimitExceededError } from '@/lib/http-errors';
+import { ValidationUtils } from '@/lib/validation';
+import { ROVERS, ROVER_NAMES, getPhotoRovers, isRoverName } from '@/lib/rovers';
+import { PhotosApiError } from '@/types/photos';
+import { MANIFEST_QUERY } from '@/app/api/schemas/manifest';
+import {
+  invalidParametersResponse,
+  photosApiError,
+} from '@/app/api/schemas/common';
+
+/**
+ * GET /api/manifest/[rover]
+ * Fetches max sol, total photos and the cameras and photo count of every sol;
+ * fromSol/toSol limit the sols returned
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ rover: string }> }
+): Promise<NextResponse> {
+  const { rover } = await params;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate rover name
+    if (!isRoverName(rover)) {
+      const error: PhotosApiError = {
+        error: 'Invalid rover name',
+        code: 'INVALID_ROVER',
+        details: {
+          rover,
+          validRovers: ROVER_NAMES,
+          message: `Rover must be one of: ${ROVER_NAMES.join(', ')}`,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(error, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
+    if (ROVERS[rover].photoArchiveId === null) {
+      const error: PhotosApiError = {
+        error: 'No photo archive for rover',
+        code: 'NO_PHOTO_ARCHIVE',
+        details: {
+          rover,
+          photoRovers: getPhotoRovers(),
+          message: `${ROVERS[rover].name} imagery is not part of the Mars Rover Photos API`,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(error, {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
+    // Validate every query parameter against the route schema
+    const { values, invalid } = ValidationUtils.parseQuery(
+      searchParams,
+      MANIFEST_QUERY
+    );
+
+    if (
+      values.fromSol !== undefined &&
+      values.toSol !== undefined &&
+      values.fromSol > values.toSol
+    ) {
+      invalid.push({
+        parameter: 'toSol',
+        value: searchParams.get('toSol'),
+        error: 'toSol must not be before fromSol',
+        code: 'INVALID_RANGE',
+      });
+    }
+
+    if (invalid.length > 0) {
+      return invalidParametersResponse(invalid, photosApiError);
+    }
+
+    const range = {
+      ...(values.fromSol !== undefined && { fromSol: values.fromSol }),
+      ...(values.toSol !== undefined && { toSol: values.toSol }),
+    };
+
+    const manifest = await PhotosService.getManifest(rover, range);
+
+    return NextResponse.json(manifest, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        // Manifests gain at most one sol per day
+        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        'X-Rover': rover,
+        'X-Max-Sol': manifest.data.maxSol.toString(),
+      },
+    });
+  } catch (error) {
+    // Upstream rate limits are passed on so clients can back off
+    const retryAfterMs =
+      error instanceof RateLimitExceededError
+        ? error.retryAfterMs
+        : error instanceof HttpError && error.isRateLimited
+          ? (error.retryAfterMs ?? 60 * 1000)
+          : null;
+
+    if (retryAfterMs !== null) {
+      const apiError: PhotosApiError = {
+        error: 'NASA API rate limit reached',
+        code: 'RATE_LIMITED',
+        details: { rover, retryAfterSeconds: Math.ceil(retryAfterMs / 1000) },
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(apiError, {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache',
+          'Retry-After': Math.ceil(retryAfterMs / 1000).toString(),
+        },
+      });
+    }
+
+    console.error('Manifest API Error:', error);
+
+    const apiError: PhotosApiError = {
+      error: 'Manifest unavailable',
+      code: 'UPSTREAM_ERROR',
+      details: {
+        rover,
+        message:
+          error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, {
+      status: 502,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  }
+}
+
+/**
+ * Generate static params for supported rovers
+ */
+export function generateStaticParams(): Array<{ rover: string }> {
+  return getPhotoRovers().map((rover) => ({ rover }));
+}
@@ -0,0 +1,25 @@
+/**
+ * OpenAPI Document
+ * Machine-readable contract of the public API
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/app/api/openapi';
+
+/**
+ * GET /api/openapi.json
+ * Returns the OpenAPI 3 document, served from the requesting origin
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const { origin } = new URL(request.url);
+
+  return NextResponse.json(buildOpenApiDocument(origin), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      // The contract only changes with a deploy
+      'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
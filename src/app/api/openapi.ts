@@ -0,0 +1,835 @@
+/**
+ * OpenAPI 3 document for the public API
+ * Query parameters come from the route schemas; response schemas are typed
+ * against the response interfaces so a renamed or added field fails the build
+ * until the contract is updated
+ */
+
+import { QuerySchema } from '@/lib/validation';
+import {
+  ApiKeySummary,
+  ApiKeyUsage,
+  ApiKeyUsageResponse,
+} from '@/types/api-keys';
+import {
+  JsonSchema,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+} from '@/types/openapi';
+import { MarsSeason } from '@/types/mars-time';
+import {
+  CameraInfo,
+  LatestPhotosData,
+  ManifestApiResponse,
+  ManifestSol,
+  MarsPhoto,
+  PhotosApiResponse,
+  RoverInfo,
+  RoverManifest,
+} from '@/types/photos';
+import {
+  AtmosphericData,
+  ClimatologyApiResponse,
+  ClimatologyBin,
+  ClimatologyStats,
+  ClimatologyYearStats,
+  DataQuality,
+  EarthDateComparisonPoint,
+  LsComparisonPoint,
+  MarsClimatology,
+  MarsWeatherData,
+  MarsWeatherSol,
+  RoverLocation,
+  TemperatureData,
+  UVData,
+  WeatherApiResponse,
+  WeatherComparison,
+  WeatherComparisonApiResponse,
+  WeatherComparisonReading,
+  WeatherPagination,
+  WeatherProviderHealth,
+  WindData,
+} from '@/types/weather';
+import { CLIMATOLOGY_QUERY } from '@/app/api/schemas/climatology';
+import { ApiError } from '@/app/api/schemas/common';
+import { MANIFEST_QUERY } from '@/app/api/schemas/manifest';
+import { PHOTOS_QUERY } from '@/app/api/schemas/photos';
+import { STREAM_QUERY } from '@/app/api/schemas/stream';
+import { WEATHER_QUERY } from '@/app/api/schemas/weather';
+import { WEATHER_COMPARE_QUERY } from '@/app/api/schemas/weather-compare';
+import { ROVER_NAMES } from '@/lib/rovers';
+
+/** Keys of T that are not optional */
+type RequiredKeys<T> = {
+  [K in keyof T]-?: Partial<Pick<T, K>> extends Pick<T, K> ? never : K;
+}[keyof T];
+
+/** Object schema that must describe every property of T */
+type ObjectSchema<T> = JsonSchema & {
+  type: 'object';
+  properties: { [K in keyof T]-?: JsonSchema };
+  required: readonly RequiredKeys<T>[];
+};
+
+const DATA_QUALITIES = [
+  'complete',
+  'partial',
+  'estimated',
+  'unavailable',
+] as const satisfies DataQuality[];
+const SEASONS = [
+  'northern-spring',
+  'northern-summer',
+  'northern-autumn',
+  'northern-winter',
+  'southern-spring',
+  'southern-summer',
+  'southern-autumn',
+  'southern-winter',
+] as const satisfies MarsSeason[];
+
+/**
+ * Reference to a component schema
+ */
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const string: JsonSchema = { type: 'string' };
+const number: JsonSchema = { type: 'number' };
+const integer: JsonSchema = { type: 'integer' };
+const boolean: JsonSchema = { type: 'boolean' };
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+const date: JsonSchema = { type: 'string', format: 'date' };
+const rover: JsonSchema = { type: 'string', enum: ROVER_NAMES };
+const quality: JsonSchema = { type: 'string', enum: DATA_QUALITIES };
+const apiStatus: JsonSchema = {
+  type: 'string',
+  enum: ['success', 'partial', 'error'],
+};
+
+const temperatureData: ObjectSchema<TemperatureData> = {
+  type: 'object',
+  properties: {
+    min: number,
+    max: number,
+    average: number,
+    unit: { type: 'string', enum: ['celsius', 'fahrenheit', 'kelvin'] },
+    quality,
+  },
+  required: ['min', 'max', 'average', 'unit', 'quality'],
+};
+
+const atmosphericData: ObjectSchema<AtmosphericData> = {
+  type: 'object',
+  properties: {
+    pressure: number,
+    unit: { type: 'string', enum: ['pa', 'hpa', 'mbar'] },
+    humidity: number,
+    quality,
+  },
+  required: ['pressure', 'unit', 'quality'],
+};
+
+const windData: ObjectSchema<WindData> = {
+  type: 'object',
+  properties: {
+    speed: number,
+    direction: { type: 'number', minimum: 0, maximum: 360 },
+    unit: { type: 'string', enum: ['mps', 'kph', 'mph'] },
+    quality,
+  },
+  required: ['speed', 'unit', 'quality'],
+};
+
+const uvData: ObjectSchema<UVData> = {
+  type: 'object',
+  properties: { level: number, unit: string, quality },
+  required: ['level', 'unit', 'quality'],
+};
+
+const roverLocation: ObjectSchema<RoverLocation> = {
+  type: 'object',
+  properties: {
+    latitude: number,
+    longitude: number,
+    landingDate: date,
+    locationName: string,
+  },
+  required: ['latitude', 'longitude', 'landingDate', 'locationName'],
+};
+
+const marsWeatherSol: ObjectSchema<MarsWeatherSol> = {
+  type: 'object',
+  description: 'Weather of one sol',
+  properties: {
+    sol: integer,
+    earthDate: date,
+    marsYear: integer,
+    solarLongitude: { type: 'number', minimum: 0, maximum: 360 },
+    season: { type: 'string', enum: SEASONS },
+    temperature: ref('TemperatureData'),
+    atmosphere: ref('AtmosphericData'),
+    wind: ref('WindData'),
+    uv: ref('UVData'),
+    rover,
+    instrument: { type: 'string', enum: ['REMS', 'MEDA', 'TWINS', 'MINITES'] },
+    dataQuality: quality,
+    location: ref('RoverLocation'),
+    lastUpdated: dateTime,
+  },
+  required: [
+    'sol',
+    'earthDate',
+    'temperature',
+    'atmosphere',
+    'rover',
+    'instrument',
+    'dataQuality',
+    'location',
+    'lastUpdated',
+  ],
+};
+
+const marsWeatherData: ObjectSchema<MarsWeatherData> = {
+  type: 'object',
+  properties: {
+    latest: ref('MarsWeatherSol'),
+    history: { type: 'array', items: ref('MarsWeatherSol') },
+    rover,
+    lastFetch: dateTime,
+    status: apiStatus,
+  },
+  required: ['latest', 'history', 'rover', 'lastFetch', 'status'],
+};
+
+const providerHealth: ObjectSchema<WeatherProviderHealth> = {
+  type: 'object',
+  properties: {
+    name: string,
+    status: { type: 'string', enum: ['ok', 'failed', 'skipped'] },
+    responseTimeMs: number,
+    error: string,
+  },
+  required: ['name', 'status', 'responseTimeMs'],
+};
+
+const weatherPagination: ObjectSchema<WeatherPagination> = {
+  type: 'object',
+  properties: {
+    page: integer,
+    pageSize: integer,
+    totalPages: integer,
+    totalSols: integer,
+    fromSol: integer,
+    toSol: integer,
+  },
+  required: ['page', 'pageSize', 'totalPages', 'totalSols', 'fromSol', 'toSol'],
+};
+
+const weatherApiResponse: ObjectSchema<WeatherApiResponse> = {
+  type: 'object',
+  properties: {
+    data: ref('MarsWeatherData'),
+    meta: {
+      type: 'object',
+      properties: {
+        totalSols: integer,
+        requestTime: dateTime,
+        cached: boolean,
+        cacheExpiry: dateTime,
+        source: string,
+        providers: { type: 'array', items: ref('WeatherProviderHealth') },
+        pagination: ref('WeatherPagination'),
+      },
+      required: ['totalSols', 'requestTime', 'cached'],
+    } satisfies ObjectSchema<WeatherApiResponse['meta']>,
+  },
+  required: ['data', 'meta'],
+};
+
+const cameraInfo: ObjectSchema<CameraInfo> = {
+  type: 'object',
+  properties: { id: integer, name: string, fullName: string, roverId: integer },
+  required: ['id', 'name', 'fullName', 'roverId'],
+};
+
+const roverInfo: ObjectSchema<RoverInfo> = {
+  type: 'object',
+  properties: {
+    id: integer,
+    name: rover,
+    landingDate: date,
+    launchDate: date,
+    status: { type: 'string', enum: ['active', 'complete', 'inactive'] },
+    maxSol: integer,
+    maxDate: date,
+    totalPhotos: integer,
+  },
+  required: [
+    'id',
+    'name',
+    'landingDate',
+    'launchDate',
+    'status',
+    'maxSol',
+    'maxDate',
+    'totalPhotos',
+  ],
+};
+
+const marsPhoto: ObjectSchema<MarsPhoto> = {
+  type: 'object',
+  properties: {
+    id: integer,
+    sol: integer,
+    earthDate: date,
+    camera: ref('CameraInfo'),
+    imgSrc: { type: 'string', format: 'uri' },
+    rover: ref('RoverInfo'),
+    lastUpdated: dateTime,
+  },
+  required: ['id', 'sol', 'earthDate', 'camera', 'imgSrc', 'rover'],
+};
+
+const latestPhotosData: ObjectSchema<LatestPhotosData> = {
+  type: 'object',
+  properties: {
+    photos: { type: 'array', items: ref('MarsPhoto') },
+    totalPhotos: integer,
+    rover,
+    lastFetch: dateTime,
+    status: apiStatus,
+    nextPage: {
+      type: 'integer',
+      description: 'Next page to request; absent on the last page',
+    },
+  },
+  required: ['photos', 'totalPhotos', 'rover', 'lastFetch', 'status'],
+};
+
+const photosApiResponse: ObjectSchema<PhotosApiResponse> = {
+  type: 'object',
+  properties: {
+    data: ref('LatestPhotosData'),
+    meta: {
+      type: 'object',
+      properties: {
+        count: integer,
+        requestTime: dateTime,
+        cached: boolean,
+        cacheExpiry: dateTime,
+      },
+      required: ['count', 'requestTime', 'cached'],
+    } satisfies ObjectSchema<PhotosApiResponse['meta']>,
+  },
+  required: ['data', 'meta'],
+};
+
+const manifestSol: ObjectSchema<ManifestSol> = {
+  type: 'object',
+  properties: {
+    sol: integer,
+    earthDate: date,
+    totalPhotos: integer,
+    cameras: { type: 'array', items: string },
+  },
+  required: ['sol', 'earthDate', 'totalPhotos', 'cameras'],
+};
+
+const roverManifest: ObjectSchema<RoverManifest> = {
+  type: 'object',
+  properties: {
+    rover,
+    status: { type: 'string', enum: ['active', 'complete', 'inactive'] },
+    landingDate: date,
+    launchDate: date,
+    maxSol: integer,
+    maxDate: date,
+    totalPhotos: integer,
+    cameraSols: {
+      type: 'object',
+      description: 'Number of sols with imagery, per camera',
+      additionalProperties: integer,
+    },
+    sols: { type: 'array', items: ref('ManifestSol') },
+  },
+  required: [
+    'rover',
+    'status',
+    'landingDate',
+    'launchDate',
+    'maxSol',
+    'maxDate',
+    'totalPhotos',
+    'cameraSols',
+    'sols',
+  ],
+};
+
+const manifestApiResponse: ObjectSchema<ManifestApiResponse> = {
+  type: 'object',
+  properties: {
+    data: ref('RoverManifest'),
+    meta: {
+      type: 'object',
+      properties: {
+        solCount: integer,
+        requestTime: dateTime,
+        cached: boolean,
+        cacheExpiry: dateTime,
+      },
+      required: ['solCount', 'requestTime', 'cached'],
+    } satisfies ObjectSchema<ManifestApiResponse['meta']>,
+  },
+  required: ['data', 'meta'],
+};
+
+const climatologyStats: ObjectSchema<ClimatologyStats> = {
+  type: 'object',
+  properties: { min: number, average: number, max: number },
+  required: ['min', 'average', 'max'],
+};
+
+const climatologyYearStats: ObjectSchema<ClimatologyYearStats> = {
+  type: 'object',
+  properties: {
+    marsYear: integer,
+    sols: integer,
+    temperature: ref('ClimatologyStats'),
+    pressure: ref('ClimatologyStats'),
+  },
+  required: ['marsYear', 'sols', 'temperature', 'pressure'],
+};
+
+const climatologyBin: ObjectSchema<ClimatologyBin> = {
+  type: 'object',
+  properties: {
+    lsStart: number,
+    lsEnd: number,
+    sols: integer,
+    temperature: { ...ref('ClimatologyStats'), nullable: true },
+    pressure: { ...ref('ClimatologyStats'), nullable: true },
+    years: { type: 'array', items: ref('ClimatologyYearStats') },
+  },
+  required: ['lsStart', 'lsEnd', 'sols', 'temperature', 'pressure', 'years'],
+};
+
+const marsClimatology: ObjectSchema<MarsClimatology> = {
+  type: 'object',
+  properties: {
+    rover,
+    binSize: integer,
+    temperatureUnit: temperatureData.properties.unit,
+    pressureUnit: atmosphericData.properties.unit,
+    marsYears: { type: 'array', items: integer },
+    currentMarsYear: integer,
+    currentLs: number,
+    bins: { type: 'array', items: ref('ClimatologyBin') },
+  },
+  required: [
+    'rover',
+    'binSize',
+    'temperatureUnit',
+    'pressureUnit',
+    'marsYears',
+    'currentMarsYear',
+    'currentLs',
+    'bins',
+  ],
+};
+
+const climatologyApiResponse: ObjectSchema<ClimatologyApiResponse> = {
+  type: 'object',
+  properties: {
+    data: ref('MarsClimatology'),
+    meta: {
+      type: 'object',
+      properties: {
+        totalSols: integer,
+        requestTime: dateTime,
+        cached: boolean,
+        source: string,
+      },
+      required: ['totalSols', 'requestTime', 'cached'],
+    } satisfies ObjectSchema<ClimatologyApiResponse['meta']>,
+  },
+  required: ['data', 'meta'],
+};
+
+/** Object keyed by rover name */
+function byRover(value: JsonSchema, description: string): JsonSchema {
+  return { type: 'object', description, additionalProperties: value };
+}
+
+const comparisonReading: ObjectSchema<WeatherComparisonReading> = {
+  type: 'object',
+  properties: {
+    sols: { type: 'array', items: integer },
+    temperature: ref('ClimatologyStats'),
+    pressure: number,
+    windSpeed: { ...number, nullable: true },
+  },
+  required: ['sols', 'temperature', 'pressure', 'windSpeed'],
+};
+
+const readings = byRover(
+  ref('WeatherComparisonReading'),
+  'Readings keyed by rover; rovers without sols at this point are left out'
+);
+
+const earthDateComparisonPoint: ObjectSchema<EarthDateComparisonPoint> = {
+  type: 'object',
+  properties: { earthDate: date, solarLongitude: number, readings },
+  required: ['earthDate', 'solarLongitude', 'readings'],
+};
+
+const lsComparisonPoint: ObjectSchema<LsComparisonPoint> = {
+  type: 'object',
+  properties: { lsStart: number, lsEnd: number, readings },
+  required: ['lsStart', 'lsEnd', 'readings'],
+};
+
+const weatherComparison: ObjectSchema<WeatherComparison> = {
+  type: 'object',
+  properties: {
+    rovers: { type: 'array', items: rover },
+    temperatureUnit: temperatureData.properties.unit,
+    pressureUnit: atmosphericData.properties.unit,
+    windUnit: windData.properties.unit,
+    lsBinSize: integer,
+    byEarthDate: { type: 'array', items: ref('EarthDateComparisonPoint') },
+    byLs: { type: 'array', items: ref('LsComparisonPoint') },
+  },
+  required: [
+    'rovers',
+    'temperatureUnit',
+    'pressureUnit',
+    'windUnit',
+    'lsBinSize',
+    'byEarthDate',
+    'byLs',
+  ],
+};
+
+const weatherComparisonApiResponse: ObjectSchema<WeatherComparisonApiResponse> =
+  {
+    type: 'object',
+    properties: {
+      data: ref('WeatherComparison'),
+      meta: {
+        type: 'object',
+        properties: {
+          requestTime: dateTime,
+          cached: boolean,
+          sources: byRover(string, "Provider of each rover's data"),
+        },
+        required: ['requestTime', 'cached', 'sources'],
+      } satisfies ObjectSchema<WeatherComparisonApiResponse['meta']>,
+    },
+    required: ['data', 'meta'],
+  };
+
+const apiKeyUsage: ObjectSchema<ApiKeyUsage> = {
+  type: 'object',
+  properties: {
+    totalRequests: integer,
+    rejectedRequests: integer,
+    lastUsedAt: { ...dateTime, nullable: true },
+    daily: {
+      type: 'object',
+      description: 'Accepted requests per UTC day (YYYY-MM-DD)',
+      additionalProperties: integer,
+    },
+  },
+  required: ['totalRequests', 'rejectedRequests', 'lastUsedAt', 'daily'],
+};
+
+const apiKeySummary: ObjectSchema<ApiKeySummary> = {
+  type: 'object',
+  properties: {
+    id: string,
+    name: string,
+    keyPrefix: string,
+    rateLimitPerHour: integer,
+    createdAt: dateTime,
+    revokedAt: { ...dateTime, nullable: true },
+    usage: ref('ApiKeyUsage'),
+  },
+  required: [
+    'id',
+    'name',
+    'keyPrefix',
+    'rateLimitPerHour',
+    'createdAt',
+    'revokedAt',
+    'usage',
+  ],
+};
+
+const apiKeyUsageResponse: ObjectSchema<ApiKeyUsageResponse> = {
+  type: 'object',
+  properties: {
+    apiKey: ref('ApiKeySummary'),
+    quota: {
+      type: 'object',
+      properties: { limitPerHour: integer, remaining: integer },
+      required: ['limitPerHour', 'remaining'],
+    } satisfies ObjectSchema<ApiKeyUsageResponse['quota']>,
+    timestamp: dateTime,
+  },
+  required: ['apiKey', 'quota', 'timestamp'],
+};
+
+const apiError: ObjectSchema<ApiError> = {
+  type: 'object',
+  description:
+    'Error response; INVALID_PARAMETERS errors list every rejected parameter in details.invalidParameters',
+  properties: {
+    error: string,
+    code: string,
+    details: { type: 'object', additionalProperties: true },
+    timestamp: dateTime,
+  },
+  required: ['error', 'code', 'timestamp'],
+};
+
+/**
+ * Query parameters of a route schema
+ */
+function queryParameters(schema: QuerySchema): OpenApiParameter[] {
+  return Object.entries(schema).map(([name, rule]) => ({
+    name,
+    in: 'query',
+    required: rule.required ?? false,
+    description: rule.description,
+    schema: {
+      type: rule.type,
+      ...(rule.enum && { enum: rule.enum }),
+      ...(rule.format && { format: rule.format }),
+      ...(rule.minimum !== undefined && { minimum: rule.minimum }),
+      ...(rule.maximum !== undefined && { maximum: rule.maximum }),
+      ...(rule.default !== undefined && { default: rule.default }),
+    },
+  }));
+}
+
+const roverParameter: OpenApiParameter = {
+  name: 'rover',
+  in: 'path',
+  required: true,
+  description: 'Rover name',
+  schema: rover,
+};
+
+/**
+ * JSON response entry
+ */
+function json(
+  description: string,
+  schema: string
+): { description: string; content: Record<string, { schema: JsonSchema }> } {
+  return {
+    description,
+    content: { 'application/json': { schema: ref(schema) } },
+  };
+}
+
+/** Responses every keyed operation can return */
+const KEYED_RESPONSES = {
+  '401': json('Missing, invalid or revoked API key', 'ApiError'),
+  '429': json(
+    'Hourly API key quota reached; retry after the Retry-After header',
+    'ApiError'
+  ),
+};
+
+/**
+ * GET operation on a rover path
+ */
+function roverOperation(
+  operationId: string,
+  summary: string,
+  tag: string,
+  query: QuerySchema,
+  responseSchema: string,
+  description?: string
+): { get: OpenApiOperation } {
+  return {
+    get: {
+      operationId,
+      summary,
+      ...(description && { description }),
+      tags: [tag],
+      parameters: [roverParameter, ...queryParameters(query)],
+      responses: {
+        '200': json('Success', responseSchema),
+        '400': json('Unknown rover or invalid query parameters', 'ApiError'),
+        ...KEYED_RESPONSES,
+      },
+    },
+  };
+}
+
+/**
+ * Builds the OpenAPI document
+ * @param serverUrl - Base URL the API is served from
+ */
+export function buildOpenApiDocument(serverUrl = '/'): OpenApiDocument {
+  const weather = roverOperation(
+    'getWeather',
+    'Latest weather and recent history',
+    'Weather',
+    WEATHER_QUERY,
+    'WeatherApiResponse',
+    'Returns the latest sol and recent history, or a paginated sol range when fromSol/toSol or fromDate/toDate are given.'
+  );
+  const photos = roverOperation(
+    'getPhotos',
+    'Rover photos',
+    'Photos',
+    PHOTOS_QUERY,
+    'PhotosApiResponse',
+    'Latest photos by default; sol or earth_date select a day, paged 25 photos at a time.'
+  );
+  const manifest = roverOperation(
+    'getManifest',
+    'Photo manifest with per-sol cameras and counts',
+    'Photos',
+    MANIFEST_QUERY,
+    'ManifestApiResponse'
+  );
+  const climatology = roverOperation(
+    'getClimatology',
+    'Seasonal statistics binned by solar longitude',
+    'Weather',
+    CLIMATOLOGY_QUERY,
+    'ClimatologyApiResponse'
+  );
+  const stream = roverOperation(
+    'streamWeather',
+    'Live stream of new sols and cache invalidations',
+    'Weather',
+    STREAM_QUERY,
+    'ApiError'
+  );
+  stream.get.responses['200'] = {
+    description: 'Server-sent events named `sol` and `invalidate`',
+    content: { 'text/event-stream': { schema: string } },
+  };
+
+  for (const operation of [weather, photos, manifest]) {
+    operation.get.responses['429'] = json(
+      'API key quota or NASA rate limit reached; retry after the Retry-After header',
+      'ApiError'
+    );
+  }
+  for (const operation of [photos, manifest]) {
+    operation.get.responses['404'] = json(
+      'Rover has no imagery in the Mars Rover Photos API',
+      'ApiError'
+    );
+  }
+  const compare: { get: OpenApiOperation } = {
+    get: {
+      operationId: 'compareWeather',
+      summary: 'Compare rovers on shared Earth date and Ls axes',
+      description:
+        'Aligns the recent history of each rover (or the same Earth dates with fromDate/toDate) by Earth date and into solar longitude bins.',
+      tags: ['Weather'],
+      parameters: queryParameters(WEATHER_COMPARE_QUERY),
+      responses: {
+        '200': json('Success', 'WeatherComparisonApiResponse'),
+        '400': json('Invalid rovers or query parameters', 'ApiError'),
+        ...KEYED_RESPONSES,
+      },
+    },
+  };
+  const usage: { get: OpenApiOperation } = {
+    get: {
+      operationId: 'getUsage',
+      summary: 'Usage and remaining quota of your API key',
+      tags: ['Account'],
+      parameters: [],
+      responses: {
+        '200': json('Success', 'ApiKeyUsageResponse'),
+        ...KEYED_RESPONSES,
+      },
+    },
+  };
+  manifest.get.responses['502'] = json('NASA unavailable', 'ApiError');
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Mars Weather Dashboard API',
+      version: '1.0.0',
+      description:
+        "Normalized Mars rover weather, photos and climatology proxied from NASA. Every request needs an issued API key and counts toward that key's hourly quota.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ ApiKeyHeader: [] }, { ApiKeyQuery: [] }],
+    paths: {
+      '/api/v1/weather/compare': compare,
+      '/api/v1/weather/{rover}': weather,
+      '/api/v1/photos/{rover}': photos,
+      '/api/v1/manifest/{rover}': manifest,
+      '/api/v1/climatology/{rover}': climatology,
+      '/api/v1/stream/{rover}': stream,
+      '/api/v1/usage': usage,
+    },
+    components: {
+      schemas: {
+        WeatherApiResponse: weatherApiResponse,
+        MarsWeatherData: marsWeatherData,
+        MarsWeatherSol: marsWeatherSol,
+        TemperatureData: temperatureData,
+        AtmosphericData: atmosphericData,
+        WindData: windData,
+        UVData: uvData,
+        RoverLocation: roverLocation,
+        WeatherProviderHealth: providerHealth,
+        WeatherPagination: weatherPagination,
+        PhotosApiResponse: photosApiResponse,
+        LatestPhotosData: latestPhotosData,
+        MarsPhoto: marsPhoto,
+        CameraInfo: cameraInfo,
+        RoverInfo: roverInfo,
+        ManifestApiResponse: manifestApiResponse,
+        RoverManifest: roverManifest,
+        ManifestSol: manifestSol,
+        WeatherComparisonApiResponse: weatherComparisonApiResponse,
+        WeatherComparison: weatherComparison,
+        EarthDateComparisonPoint: earthDateComparisonPoint,
+        LsComparisonPoint: lsComparisonPoint,
+        WeatherComparisonReading: comparisonReading,
+        ClimatologyApiResponse: climatologyApiResponse,
+        MarsClimatology: marsClimatology,
+        ClimatologyBin: climatologyBin,
+        ClimatologyYearStats: climatologyYearStats,
+        ClimatologyStats: climatologyStats,
+        ApiKeyUsageResponse: apiKeyUsageResponse,
+        ApiKeySummary: apiKeySummary,
+        ApiKeyUsage: apiKeyUsage,
+        ApiError: apiError,
+      },
+      securitySchemes: {
+        ApiKeyHeader: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description:
+            'Issued API key (`Authorization: Bearer <key>` also works)',
+        },
+        ApiKeyQuery: {
+          type: 'apiKey',
+          in: 'query',
+          name: 'api_key',
+          description:
+            'Issued API key, for clients that cannot send headers such as EventSource',
+        },
+      },
+    },
+  };
+}
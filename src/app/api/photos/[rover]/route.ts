@@ -5,8 +5,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { PhotosService } from '@/features/photos/photos-service';
-import { RoverName } from '@/types/weather';
-import { PhotosApiError, PhotosDataOptions, CameraName } from '@/types/photos';
+import { ValidationUtils } from '@/lib/validation';
+import { ROVERS, ROVER_NAMES, getPhotoRovers, isRoverName } from '@/lib/rovers';
+import { PhotosApiError, PhotosDataOptions } from '@/types/photos';
+import { getPhotosQuery } from '@/app/api/schemas/photos';
+import {
+  invalidParametersResponse,
+  photosApiError,
+} from '@/app/api/schemas/common';
 
 /**
  * GET /api/photos/[rover]
@@ -21,15 +27,14 @@ export async function GET(
     const { searchParams } = new URL(request.url);
 
     // Validate rover name
-    const validRovers: RoverName[] = ['curiosity', 'perseverance'];
-    if (!validRovers.includes(rover as RoverName)) {
+    if (!isRoverName(rover)) {
       const error: PhotosApiError = {
         error: 'Invalid rover name',
         code: 'INVALID_ROVER',
         details: {
           rover,
-          validRovers,
-          message: 'Rover must be one of: curiosity, perseverance',
+          validRovers: ROVER_NAMES,
+          message: `Rover must be one of: ${ROVER_NAMES.join(', ')}`,
         },
         timestamp: new Date().toISOString(),
       };
@@ -43,45 +48,20 @@ export async function GET(
       });
     }
 
-    // Parse optional query parameters
-    const options: PhotosDataOptions = {
-      limit: Math.min(parseInt(searchParams.get('limit') ?? '12', 10), 50), // Max 50 photos
-    };
-
-    const solParam = searchParams.get('sol');
-    if (solParam) {
-      options.sol = parseInt(solParam, 10);
-    }
-
-    const earthDateParam = searchParams.get('earth_date');
-    if (earthDateParam) {
-      options.earthDate = earthDateParam;
-    }
-
-    const cameraParam = searchParams.get('camera');
-    if (cameraParam) {
-      options.camera = cameraParam as CameraName; // Camera validation happens in the service layer
-    }
-
-    const pageParam = searchParams.get('page');
-    if (pageParam) {
-      options.page = Math.max(parseInt(pageParam, 10), 1);
-    }
-
-    // Validate parameters
-    if (options.sol !== undefined && (options.sol < 0 || options.sol > 10000)) {
+    if (ROVERS[rover].photoArchiveId === null) {
       const error: PhotosApiError = {
-        error: 'Invalid sol parameter',
-        code: 'INVALID_SOL',
+        error: 'No photo archive for rover',
+        code: 'NO_PHOTO_ARCHIVE',
         details: {
-          sol: options.sol,
-          message: 'Sol must be between 0 and 10000',
+          rover,
+          photoRovers: getPhotoRovers(),
+          message: `${ROVERS[rover].name} imagery is not part of the Mars Rover Photos API`,
         },
         timestamp: new Date().toISOString(),
       };
 
       return NextResponse.json(error, {
-        status: 400,
+        status: 404,
         headers: {
           'Content-Type': 'application/json',
           'Cache-Control': 'no-cache',
@@ -89,12 +69,36 @@ export async function GET(
       });
     }
 
-    // Fetch photos data through service layer
-    const photosData = await PhotosService.getLatestPhotos(
-      rover as RoverName,
-      options
+    // Validate every query parameter against the route schema
+    const { values, invalid } = ValidationUtils.parseQuery(
+      searchParams,
+      getPhotosQuery(rover)
     );
 
+    if (values.sol !== undefined && values.earth_date !== undefined) {
+      invalid.push({
+        parameter: 'earth_date',
+        value: searchParams.get('earth_date'),
+        error: 'Use either sol or earth_date, not both',
+        code: 'CONFLICTING_PARAMETERS',
+      });
+    }
+
+    if (invalid.length > 0) {
+      return invalidParametersResponse(invalid, photosApiError);
+    }
+
+    const options: PhotosDataOptions = {
+      limit: values.limit,
+      ...(values.sol !== undefined && { sol: values.sol }),
+      ...(values.earth_date !== undefined && { earthDate: values.earth_date }),
+      ...(values.camera !== undefined && { camera: values.camera }),
+      ...(values.page !== undefined && { page: values.page }),
+    };
+
+    // Fetch photos data through service layer
+    const photosData = await PhotosService.getLatestPhotos(rover, options);
+
     // Set appropriate cache headers based on data freshness
     const cacheControl =
       photosData.data.status === 'success'
@@ -136,26 +140,10 @@ export async function GET(
   }
 }
 
-/**
- * OPTIONS /api/photos/[rover]
- * CORS preflight response
- */
-export async function OPTIONS(): Promise<NextResponse> {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      'Access-Control-Max-Age': '86400',
-    },
-  });
-}
-
 /**
  * Generate static params for supported rovers
  * Enables static generation of API routes
  */
 export function generateStaticParams(): Array<{ rover: string }> {
-  return [{ rover: 'curiosity' }, { rover: 'perseverance' }];
+  return getPhotoRovers().map((rover) => ({ rover }));
 }
@@ -0,0 +1,20 @@
+/**
+ * Climatology route query schema
+ * Query parameters of GET /api/climatology/[rover]
+ */
+
+import { ClimatologyService } from '@/features/weather/climatology-service';
+import { QuerySchema, WEATHER_DISPLAY_QUERY } from '@/lib/validation';
+import { positiveIntegerParam } from './common';
+
+/** GET /api/climatology/[rover] */
+export const CLIMATOLOGY_QUERY = {
+  binSize: positiveIntegerParam(
+    'binSize',
+    ClimatologyService.MAX_BIN_SIZE,
+    'Bin width in degrees of solar longitude (default 10)'
+  ),
+  tempUnit: WEATHER_DISPLAY_QUERY.tempUnit,
+  pressureUnit: WEATHER_DISPLAY_QUERY.pressureUnit,
+  includeEstimated: WEATHER_DISPLAY_QUERY.includeEstimated,
+} satisfies QuerySchema;
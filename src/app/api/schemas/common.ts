@@ -0,0 +1,157 @@
+/**
+ * Shared request schema rules
+ * Parameter rules used by several routes, and the error responses they share
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  InvalidParameter,
+  QueryParam,
+  ValidationResult,
+  ValidationUtils,
+} from '@/lib/validation';
+import { PhotosApiError } from '@/types/photos';
+import { WeatherApiError } from '@/types/weather';
+
+/**
+ * Error body of responses without a route-specific error type
+ * (admin, authentication and quota errors)
+ */
+export interface ApiError {
+  /** Error message */
+  error: string;
+  /** Error code */
+  code: string;
+  /** Detailed error information */
+  details?: Record<string, unknown>;
+  /** Timestamp of error */
+  timestamp: string;
+}
+
+/** Highest page number accepted by paginated routes */
+export const MAX_PAGE = 100000;
+
+/**
+ * Sol parameter rule
+ */
+export function solParam(description: string): QueryParam<number> {
+  return {
+    validate: ValidationUtils.validateSol,
+    description,
+    type: 'integer',
+    minimum: 0,
+    maximum: 100000,
+  };
+}
+
+/**
+ * Earth date (YYYY-MM-DD) parameter rule
+ */
+export function dateParam(description: string): QueryParam<string> {
+  return {
+    validate: ValidationUtils.validateEarthDate,
+    description,
+    type: 'string',
+    format: 'date',
+  };
+}
+
+/**
+ * Whole number parameter rule with an upper bound
+ */
+export function positiveIntegerParam(
+  name: string,
+  max: number,
+  description: string
+): QueryParam<number> {
+  return {
+    validate: (value: string): ValidationResult<number> =>
+      ValidationUtils.validatePositiveInteger(value, name, max),
+    description,
+    type: 'integer',
+    minimum: 1,
+    maximum: max,
+  };
+}
+
+/**
+ * WeatherApiError with the current timestamp
+ */
+export function weatherApiError(
+  error: string,
+  code: string,
+  details: Record<string, unknown>
+): WeatherApiError {
+  return { error, code, details, timestamp: new Date().toISOString() };
+}
+
+/**
+ * PhotosApiError with the current timestamp
+ */
+export function photosApiError(
+  error: string,
+  code: string,
+  details: Record<string, unknown>
+): PhotosApiError {
+  return { error, code, details, timestamp: new Date().toISOString() };
+}
+
+/**
+ * 400 response listing every invalid parameter of a request
+ * @param invalid - Parameters that failed validation
+ * @param createError - Builds the route's error type
+ */
+export function invalidParametersResponse<
+  T extends WeatherApiError | PhotosApiError,
+>(
+  invalid: InvalidParameter[],
+  createError: (
+    error: string,
+    code: string,
+    details: Record<string, unknown>
+  ) => T
+): NextResponse<T> {
+  const error = createError(
+    `Invalid request parameters: ${invalid
+      .map(({ parameter }) => parameter)
+      .join(', ')}`,
+    'INVALID_PARAMETERS',
+    { invalidParameters: invalid }
+  );
+
+  return NextResponse.json(error, {
+    status: 400,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+/**
+ * Uncached JSON error response
+ * @param headers - Extra response headers, e.g. CORS or Retry-After
+ */
+export function errorResponse(
+  status: number,
+  message: string,
+  code: string,
+  details?: Record<string, unknown>,
+  headers: Record<string, string> = {}
+): NextResponse<ApiError> {
+  const error: ApiError = {
+    error: message,
+    code,
+    ...(details && { details }),
+    timestamp: new Date().toISOString(),
+  };
+
+  return NextResponse.json(error, {
+    status,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,13 @@
+/**
+ * Manifest route query schema
+ * Query parameters of GET /api/manifest/[rover]
+ */
+
+import { QuerySchema } from '@/lib/validation';
+import { solParam } from './common';
+
+/** GET /api/manifest/[rover] */
+export const MANIFEST_QUERY = {
+  fromSol: solParam('First sol to include'),
+  toSol: solParam('Last sol to include'),
+} satisfies QuerySchema;
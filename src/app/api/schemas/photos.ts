@@ -0,0 +1,45 @@
+/**
+ * Photos route query schema
+ * Query parameters of GET /api/photos/[rover]
+ */
+
+import { getRover } from '@/lib/rovers';
+import { CAMERA_NAMES, QuerySchema, ValidationUtils } from '@/lib/validation';
+import { RoverName } from '@/types/rovers';
+import { MAX_PAGE, dateParam, positiveIntegerParam, solParam } from './common';
+
+/** GET /api/photos/[rover] */
+export const PHOTOS_QUERY = {
+  limit: {
+    ...positiveIntegerParam('limit', 50, 'Maximum number of photos'),
+    default: 12,
+  },
+  sol: solParam('Sol to fetch photos from (default: latest sol)'),
+  earth_date: dateParam('Earth date to fetch photos from'),
+  camera: {
+    validate: ValidationUtils.validateCamera,
+    description: 'Only photos from this camera',
+    type: 'string',
+    enum: CAMERA_NAMES,
+  },
+  page: positiveIntegerParam(
+    'page',
+    MAX_PAGE,
+    'Page of sol or date results (25 photos per page)'
+  ),
+} satisfies QuerySchema;
+
+/**
+ * PHOTOS_QUERY accepting only the cameras of one rover
+ */
+export function getPhotosQuery(rover: RoverName): typeof PHOTOS_QUERY {
+  return {
+    ...PHOTOS_QUERY,
+    camera: {
+      ...PHOTOS_QUERY.camera,
+      validate: (camera: unknown) =>
+        ValidationUtils.validateCamera(camera, rover),
+      enum: getRover(rover).cameras,
+    },
+  };
+}
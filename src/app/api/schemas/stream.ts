@@ -0,0 +1,13 @@
+/**
+ * Stream route query schema
+ * Query parameters of GET /api/stream/[rover]
+ */
+
+import { QuerySchema, WEATHER_DISPLAY_QUERY } from '@/lib/validation';
+
+/** GET /api/stream/[rover] */
+export const STREAM_QUERY = {
+  tempUnit: WEATHER_DISPLAY_QUERY.tempUnit,
+  pressureUnit: WEATHER_DISPLAY_QUERY.pressureUnit,
+  windUnit: WEATHER_DISPLAY_QUERY.windUnit,
+} satisfies QuerySchema;
@@ -0,0 +1,31 @@
+/**
+ * Weather comparison route query schema
+ * Query parameters of GET /api/weather/compare
+ */
+
+import { WeatherComparisonService } from '@/features/weather/comparison-service';
+import {
+  QuerySchema,
+  ValidationUtils,
+  WEATHER_DISPLAY_QUERY,
+} from '@/lib/validation';
+import { dateParam, positiveIntegerParam } from './common';
+
+/** GET /api/weather/compare */
+export const WEATHER_COMPARE_QUERY = {
+  rovers: {
+    validate: ValidationUtils.validateRoverList,
+    required: true,
+    description:
+      'Comma-separated rovers to compare (at least two), e.g. curiosity,perseverance',
+    type: 'string',
+  },
+  ...WEATHER_DISPLAY_QUERY,
+  fromDate: dateParam('First Earth date to compare (instead of history)'),
+  toDate: dateParam('Last Earth date to compare'),
+  lsBinSize: positiveIntegerParam(
+    'lsBinSize',
+    WeatherComparisonService.MAX_LS_BIN_SIZE,
+    'Width of the solar longitude bins in degrees (default 1)'
+  ),
+} satisfies QuerySchema;
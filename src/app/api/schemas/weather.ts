@@ -0,0 +1,23 @@
+/**
+ * Weather route query schema
+ * Query parameters of GET /api/weather/[rover]
+ */
+
+import { WeatherService } from '@/features/weather/weather-service';
+import { QuerySchema, WEATHER_DISPLAY_QUERY } from '@/lib/validation';
+import { MAX_PAGE, dateParam, positiveIntegerParam, solParam } from './common';
+
+/** GET /api/weather/[rover] */
+export const WEATHER_QUERY = {
+  ...WEATHER_DISPLAY_QUERY,
+  fromSol: solParam('First sol of a sol range'),
+  toSol: solParam('Last sol of a sol range'),
+  fromDate: dateParam('First Earth date of a date range'),
+  toDate: dateParam('Last Earth date of a date range'),
+  page: positiveIntegerParam('page', MAX_PAGE, 'Page of a sol range'),
+  pageSize: positiveIntegerParam(
+    'pageSize',
+    WeatherService.MAX_PAGE_SIZE,
+    'Sols per page of a sol range'
+  ),
+} satisfies QuerySchema;
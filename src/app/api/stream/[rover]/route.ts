@@ -0,0 +1,162 @@
+/**
+ * Live Mars Weather Stream
+ * Server-sent events for new sols and cache invalidations
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WeatherService } from '@/features/weather/weather-service';
+import { WeatherStreamService } from '@/features/weather/weather-stream';
+import { ValidationUtils } from '@/lib/validation';
+import { ROVER_NAMES, isRoverName } from '@/lib/rovers';
+import {
+  WeatherApiError,
+  WeatherDataOptions,
+  WeatherStreamEvent,
+} from '@/types/weather';
+import { STREAM_QUERY } from '@/app/api/schemas/stream';
+import {
+  invalidParametersResponse,
+  weatherApiError,
+} from '@/app/api/schemas/common';
+
+// Streams must never be statically rendered or cached
+export const dynamic = 'force-dynamic';
+
+/** Keep-alive comment interval so proxies don't close idle connections */
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+/** Client reconnect delay sent in the stream's retry field */
+const RECONNECT_DELAY = 10 * 1000;
+
+/**
+ * GET /api/stream/[rover]
+ * Opens an event stream of `sol` and `invalidate` events for the rover
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ rover: string }> }
+): Promise<Response> {
+  const { rover } = await params;
+  const { searchParams } = new URL(request.url);
+
+  // Validate rover name
+  if (!isRoverName(rover)) {
+    const error: WeatherApiError = {
+      error: 'Invalid rover name',
+      code: 'INVALID_ROVER',
+      details: {
+        rover,
+        validRovers: ROVER_NAMES,
+        message: `Rover must be one of: ${ROVER_NAMES.join(', ')}`,
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(error, {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  }
+
+  // Pushed sols are converted to the subscriber's units
+  const { values, invalid } = ValidationUtils.parseQuery(
+    searchParams,
+    STREAM_QUERY
+  );
+
+  if (invalid.length > 0) {
+    return invalidParametersResponse(invalid, weatherApiError);
+  }
+
+  const units: Pick<
+    WeatherDataOptions,
+    'temperatureUnit' | 'pressureUnit' | 'windUnit'
+  > = {
+    temperatureUnit: values.tempUnit,
+    pressureUnit: values.pressureUnit,
+    windUnit: values.windUnit,
+  };
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller): void {
+      let eventId = 0;
+
+      const write = (chunk: string): void => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed by the client
+          cleanup?.();
+        }
+      };
+
+      const send = (event: string, data: unknown): void => {
+        eventId++;
+        write(
+          `id: ${eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+        );
+      };
+
+      write(`retry: ${RECONNECT_DELAY}\n\n`);
+      send('ready', {
+        rover,
+        pollInterval: WeatherStreamService.POLL_INTERVAL,
+        timestamp: new Date().toISOString(),
+      });
+
+      const unsubscribe = WeatherStreamService.subscribe(
+        rover,
+        (event: WeatherStreamEvent) => {
+          if (event.type === 'sol') {
+            send('sol', {
+              ...event,
+              sol: WeatherService.convertSolUnits(event.sol, units),
+            });
+          } else {
+            send(event.type, event);
+          }
+        }
+      );
+
+      const heartbeat = setInterval(
+        () => write(': heartbeat\n\n'),
+        HEARTBEAT_INTERVAL
+      );
+
+      cleanup = (): void => {
+        cleanup = null;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel(): void {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'X-Rover': rover,
+    },
+  });
+}
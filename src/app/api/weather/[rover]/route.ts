@@ -5,11 +5,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { WeatherService } from '@/features/weather/weather-service';
-import { RoverName, WeatherApiError } from '@/types/weather';
+import { WeatherApiError, WeatherDataOptions } from '@/types/weather';
+import { ValidationUtils } from '@/lib/validation';
+import { ROVER_NAMES, isRoverName } from '@/lib/rovers';
+import { WEATHER_QUERY } from '@/app/api/schemas/weather';
+import {
+  invalidParametersResponse,
+  weatherApiError,
+} from '@/app/api/schemas/common';
 
 /**
  * GET /api/weather/[rover]
- * Fetches latest weather data for specified rover
+ * Fetches latest weather data for specified rover, or a paginated
+ * sol range when fromSol/toSol or fromDate/toDate are given
  */
 export async function GET(
   request: NextRequest,
@@ -19,67 +27,58 @@ export async function GET(
     const { rover } = await params;
     const { searchParams } = new URL(request.url);
 
-    // Validate rover name
-    const validRovers: RoverName[] = ['curiosity', 'perseverance'];
-    if (!validRovers.includes(rover as RoverName)) {
-      const error: WeatherApiError = {
-        error: 'Invalid rover name',
-        code: 'INVALID_ROVER',
-        details: {
-          rover,
-          validRovers,
-          message: 'Rover must be one of: curiosity, perseverance',
-        },
-        timestamp: new Date().toISOString(),
-      };
+    // Validate every query parameter against the route schema
+    const { values, invalid } = ValidationUtils.parseQuery(
+      searchParams,
+      WEATHER_QUERY
+    );
 
-      return NextResponse.json(error, {
-        status: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Cache-Control': 'no-cache',
-        },
+    // The rover path segment is reported alongside the query parameters
+    const roverName = isRoverName(rover) ? rover : null;
+    if (roverName === null) {
+      invalid.unshift({
+        parameter: 'rover',
+        value: rover,
+        error: `Rover must be one of: ${ROVER_NAMES.join(', ')}`,
+        code: 'INVALID_ROVER',
       });
     }
 
-    // Parse optional query parameters
-    const options = {
-      historyDays: parseInt(searchParams.get('history') ?? '7', 10),
-      temperatureUnit:
-        (searchParams.get('tempUnit') as 'celsius' | 'fahrenheit') ?? 'celsius',
-      pressureUnit:
-        (searchParams.get('pressureUnit') as 'pa' | 'hpa' | 'mbar') ?? 'pa',
-      windUnit:
-        (searchParams.get('windUnit') as 'mps' | 'kph' | 'mph') ?? 'mps',
-      includeEstimated: searchParams.get('includeEstimated') === 'true',
+    const options: WeatherDataOptions = {
+      historyDays: values.history,
+      temperatureUnit: values.tempUnit,
+      pressureUnit: values.pressureUnit,
+      windUnit: values.windUnit,
+      includeEstimated: values.includeEstimated,
+      ...(values.fromSol !== undefined && { fromSol: values.fromSol }),
+      ...(values.toSol !== undefined && { toSol: values.toSol }),
+      ...(values.fromDate !== undefined && { fromDate: values.fromDate }),
+      ...(values.toDate !== undefined && { toDate: values.toDate }),
+      ...(values.page !== undefined && { page: values.page }),
+      ...(values.pageSize !== undefined && { pageSize: values.pageSize }),
     };
 
-    // Validate history days parameter
-    if (options.historyDays < 1 || options.historyDays > 30) {
-      const error: WeatherApiError = {
-        error: 'Invalid history parameter',
-        code: 'INVALID_HISTORY',
-        details: {
-          historyDays: options.historyDays,
-          message: 'History days must be between 1 and 30',
-        },
-        timestamp: new Date().toISOString(),
-      };
+    // The range must make sense as a whole once each bound is valid
+    if (roverName !== null && invalid.length === 0) {
+      try {
+        WeatherService.resolveSolRange(roverName, options);
+      } catch (rangeError) {
+        invalid.push({
+          parameter: 'range',
+          value: null,
+          error:
+            rangeError instanceof Error ? rangeError.message : 'Invalid range',
+          code: 'INVALID_RANGE',
+        });
+      }
+    }
 
-      return NextResponse.json(error, {
-        status: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Cache-Control': 'no-cache',
-        },
-      });
+    if (roverName === null || invalid.length > 0) {
+      return invalidParametersResponse(invalid, weatherApiError);
     }
 
     // Fetch weather data through service layer
-    const weatherData = await WeatherService.getWeatherData(
-      rover as RoverName,
-      options
-    );
+    const weatherData = await WeatherService.getWeatherData(roverName, options);
 
     // Set appropriate cache headers based on data freshness
     const cacheControl =
@@ -92,7 +91,7 @@ export async function GET(
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': cacheControl,
-        'X-Rover': rover,
+        'X-Rover': roverName,
         'X-Data-Quality': weatherData.data.latest.dataQuality,
         'X-Last-Updated': weatherData.data.lastFetch,
       },
@@ -122,26 +121,10 @@ export async function GET(
   }
 }
 
-/**
- * OPTIONS /api/weather/[rover]
- * CORS preflight response
- */
-export async function OPTIONS(): Promise<NextResponse> {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      'Access-Control-Max-Age': '86400',
-    },
-  });
-}
-
 /**
  * Generate static params for supported rovers
  * Enables static generation of API routes
  */
 export function generateStaticParams(): Array<{ rover: string }> {
-  return [{ rover: 'curiosity' }, { rover: 'perseverance' }];
+  return ROVER_NAMES.map((rover) => ({ rover }));
 }
@@ -0,0 +1,96 @@
+/**
+ * Mars Weather Comparison API
+ * Returns several rovers' weather aligned by Earth date and by solar longitude
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WeatherComparisonService } from '@/features/weather/comparison-service';
+import { ValidationUtils } from '@/lib/validation';
+import { WeatherApiError, WeatherComparisonOptions } from '@/types/weather';
+import { WEATHER_COMPARE_QUERY } from '@/app/api/schemas/weather-compare';
+import {
+  invalidParametersResponse,
+  weatherApiError,
+} from '@/app/api/schemas/common';
+
+/**
+ * GET /api/weather/compare?rovers=curiosity,perseverance
+ * Compares the rovers' recent history, or the same Earth dates when
+ * fromDate/toDate are given
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate every query parameter against the route schema
+    const { values, invalid } = ValidationUtils.parseQuery(
+      searchParams,
+      WEATHER_COMPARE_QUERY
+    );
+    const options: WeatherComparisonOptions = {
+      historyDays: values.history,
+      temperatureUnit: values.tempUnit,
+      pressureUnit: values.pressureUnit,
+      windUnit: values.windUnit,
+      includeEstimated: values.includeEstimated,
+      ...(values.fromDate !== undefined && { fromDate: values.fromDate }),
+      ...(values.toDate !== undefined && { toDate: values.toDate }),
+      ...(values.lsBinSize !== undefined && { lsBinSize: values.lsBinSize }),
+    };
+
+    // The date range must hold sols of every rover once each bound is valid
+    if (invalid.length === 0) {
+      const rangeError = WeatherComparisonService.validateRange(
+        values.rovers,
+        options
+      );
+      if (rangeError) {
+        invalid.push({
+          parameter: 'range',
+          value: null,
+          error: rangeError,
+          code: 'INVALID_RANGE',
+        });
+      }
+    }
+
+    if (invalid.length > 0) {
+      return invalidParametersResponse(invalid, weatherApiError);
+    }
+
+    const comparison = await WeatherComparisonService.compareWeather(
+      values.rovers,
+      options
+    );
+
+    return NextResponse.json(comparison, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        // Same freshness as the per-rover weather it is built from
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+        'X-Rovers': values.rovers.join(','),
+      },
+    });
+  } catch (error) {
+    console.error('Weather Comparison API Error:', error);
+
+    const apiError: WeatherApiError = {
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+      details: {
+        message:
+          error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  }
+}
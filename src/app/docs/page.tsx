@@ -0,0 +1,33 @@
+/**
+ * API documentation page
+ * Renders the OpenAPI document served at /api/openapi.json
+ */
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { buildOpenApiDocument } from '@/app/api/openapi';
+import { ApiExplorer } from '@/features/api-docs';
+
+export const metadata: Metadata = {
+  title: 'API Reference | Mars Weather Dashboard',
+  description:
+    'Endpoints, parameters and response schemas of the Mars Weather Dashboard API',
+};
+
+export default function DocsPage(): React.ReactElement {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-red-950">
+      <main className="container mx-auto px-4 py-8">
+        <Link
+          href="/"
+          className="mb-6 inline-flex items-center gap-2 text-sm text-slate-300 hover:text-white"
+        >
+          <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+          Back to dashboard
+        </Link>
+        <ApiExplorer document={buildOpenApiDocument()} />
+      </main>
+    </div>
+  );
+}
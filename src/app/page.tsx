@@ -1,11 +1,25 @@
 'use client';
 
+import { useState } from 'react';
 import { MartianClock } from '@/features/mars-time';
 import { WeatherDashboard, HistoricalTrends } from '@/features/weather';
 import { LatestImages } from '@/features/photos';
 import { RoverMaps } from '@/features/rover-maps';
+import { SystemStatusPanel } from '@/features/system-status';
+import { SolCalendar } from '@/features/sol-calendar';
+import { SolSelection } from '@/types/weather';
 
 export default function HomePage(): React.ReactElement {
+  // Sol picked in the calendar, opened in the weather and image views
+  const [focusSol, setFocusSol] = useState<SolSelection | null>(null);
+
+  const handleSelectSol = (selection: SolSelection): void => {
+    setFocusSol(selection);
+    document
+      .getElementById('weather-dashboard')
+      ?.scrollIntoView({ behavior: 'smooth' });
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-red-950">
       {/* Background stars effect */}
@@ -36,8 +50,8 @@ export default function HomePage(): React.ReactElement {
 
           {/* Right column - Weather Dashboard + Rover Maps */}
           <div className="space-y-8 lg:col-span-2">
-            <section aria-label="Mars weather data">
-              <WeatherDashboard />
+            <section id="weather-dashboard" aria-label="Mars weather data">
+              <WeatherDashboard focusSol={focusSol} />
             </section>
             <section aria-label="Rover location maps">
               <RoverMaps />
@@ -52,6 +66,15 @@ export default function HomePage(): React.ReactElement {
           </div>
         </div>
 
+        {/* Sol Calendar Section */}
+        <div className="mt-12">
+          <SolCalendar
+            initialRover="curiosity"
+            selected={focusSol}
+            onSelectSol={handleSelectSol}
+          />
+        </div>
+
         {/* Latest Images Section */}
         <div className="mt-12">
           <div className="rounded-lg border border-slate-700 bg-slate-800/30 p-6 backdrop-blur">
@@ -60,10 +83,16 @@ export default function HomePage(): React.ReactElement {
               limit={8}
               showRoverSelector={true}
               showCameraFilter={true}
+              focusSol={focusSol}
             />
           </div>
         </div>
 
+        {/* System Status Section */}
+        <div className="mt-12">
+          <SystemStatusPanel />
+        </div>
+
         {/* Technical note */}
         <div className="mt-12 text-center">
           <div className="inline-block rounded-lg border border-slate-600 bg-slate-800/50 px-6 py-4 backdrop-blur">
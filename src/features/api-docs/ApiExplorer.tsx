@@ -0,0 +1,347 @@
+'use client';
+
+/**
+ * API Explorer Component
+ * Interactive reference for the OpenAPI document with live requests
+ */
+
+import React, { useState } from 'react';
+import { FileJson, Play } from 'lucide-react';
+import {
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+} from '@/types/openapi';
+
+/** Component props */
+export interface ApiExplorerProps {
+  /** Document to render */
+  document: OpenApiDocument;
+  /** Where the raw document is served */
+  specUrl?: string;
+}
+
+/** Result of a request sent from the explorer */
+interface TryResult {
+  url: string;
+  status: number;
+  body: string;
+}
+
+/**
+ * Request URL for a path template and parameter values
+ * Empty values are left out so the route applies its defaults
+ */
+export function buildRequestUrl(
+  path: string,
+  parameters: OpenApiParameter[],
+  values: Record<string, string>
+): string {
+  const query = new URLSearchParams();
+  let url = path;
+
+  for (const parameter of parameters) {
+    const value = values[parameter.name]?.trim() ?? '';
+    if (parameter.in === 'path') {
+      url = url.replace(`{${parameter.name}}`, encodeURIComponent(value));
+    } else if (parameter.in === 'query' && value !== '') {
+      query.append(parameter.name, value);
+    }
+  }
+
+  const search = query.toString();
+  return search ? `${url}?${search}` : url;
+}
+
+/**
+ * Short type label for a parameter (e.g. "integer 1–30", "celsius | kelvin")
+ */
+function describeType(parameter: OpenApiParameter): string {
+  const { schema } = parameter;
+  if (schema.enum) return schema.enum.join(' | ');
+  if (schema.minimum !== undefined && schema.maximum !== undefined) {
+    return `${schema.type} ${schema.minimum}–${schema.maximum}`;
+  }
+  return schema.format ?? schema.type ?? 'string';
+}
+
+/**
+ * One documented operation with a request form
+ */
+const OperationCard: React.FC<{
+  path: string;
+  operation: OpenApiOperation;
+  /** Key sent with requests, if entered */
+  apiKey: string;
+}> = ({ path, operation, apiKey }) => {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      operation.parameters
+        .filter((parameter) => parameter.in === 'path')
+        .map((parameter) => [
+          parameter.name,
+          String(parameter.schema.enum?.[0] ?? ''),
+        ])
+    )
+  );
+  const [result, setResult] = useState<TryResult | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const url = buildRequestUrl(path, operation.parameters, values);
+  // Event streams never finish, so they are opened instead of fetched
+  const isStream = Object.values(operation.responses).some(
+    (response) => response.content?.['text/event-stream']
+  );
+  // Opened streams cannot send headers, so the key goes in the query
+  const streamUrl = apiKey
+    ? `${url}${url.includes('?') ? '&' : '?'}api_key=${encodeURIComponent(apiKey)}`
+    : url;
+
+  const send = async (): Promise<void> => {
+    setIsSending(true);
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Accept: 'application/json',
+          ...(apiKey && { 'X-API-Key': apiKey }),
+        },
+      });
+      const text = await response.text();
+      let body = text;
+      try {
+        body = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON; show as received
+      }
+      setResult({ url, status: response.status, body });
+    } catch (error) {
+      setResult({
+        url,
+        status: 0,
+        body: error instanceof Error ? error.message : 'Request failed',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <section
+      id={operation.operationId}
+      className="rounded-lg border border-slate-700 bg-slate-800/50 p-6"
+      aria-labelledby={`${operation.operationId}-title`}
+    >
+      <div className="mb-2 flex flex-wrap items-center gap-3">
+        <span className="rounded bg-green-700 px-2 py-0.5 font-mono text-xs font-bold text-white">
+          GET
+        </span>
+        <code className="text-white">{path}</code>
+      </div>
+      <h2
+        id={`${operation.operationId}-title`}
+        className="text-lg font-semibold text-white"
+      >
+        {operation.summary}
+      </h2>
+      {operation.description && (
+        <p className="mt-1 text-sm text-slate-400">{operation.description}</p>
+      )}
+
+      <form
+        className="mt-4"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void send();
+        }}
+      >
+        {operation.parameters.length > 0 && (
+          <table className="w-full text-left text-sm">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="py-1 pr-4 font-medium">Parameter</th>
+                <th className="py-1 pr-4 font-medium">Type</th>
+                <th className="py-1 pr-4 font-medium">Description</th>
+                <th className="py-1 font-medium">Value</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-200">
+              {operation.parameters.map((parameter) => {
+                const inputId = `${operation.operationId}-${parameter.name}`;
+                const value = values[parameter.name] ?? '';
+                const onChange = (next: string): void =>
+                  setValues((current) => ({
+                    ...current,
+                    [parameter.name]: next,
+                  }));
+
+                return (
+                  <tr
+                    key={parameter.name}
+                    className="border-t border-slate-700/60"
+                  >
+                    <td className="py-2 pr-4 font-mono">
+                      <label htmlFor={inputId}>{parameter.name}</label>
+                      {parameter.required && (
+                        <span className="ml-1 text-red-400">*</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs text-slate-400">
+                      {describeType(parameter)}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-300">
+                      {parameter.description}
+                      {parameter.schema.default !== undefined &&
+                        ` (default ${String(parameter.schema.default)})`}
+                    </td>
+                    <td className="py-2">
+                      {parameter.schema.enum ||
+                      parameter.schema.type === 'boolean' ? (
+                        <select
+                          id={inputId}
+                          value={value}
+                          onChange={(event) => onChange(event.target.value)}
+                          className="rounded border border-slate-600 bg-slate-900 px-2 py-1 text-white"
+                        >
+                          {!parameter.required && <option value="">—</option>}
+                          {(parameter.schema.enum ?? ['true', 'false']).map(
+                            (option) => (
+                              <option key={option} value={option}>
+                                {option}
+                              </option>
+                            )
+                          )}
+                        </select>
+                      ) : (
+                        <input
+                          id={inputId}
+                          value={value}
+                          onChange={(event) => onChange(event.target.value)}
+                          placeholder={
+                            parameter.schema.default !== undefined
+                              ? String(parameter.schema.default)
+                              : ''
+                          }
+                          className="w-40 rounded border border-slate-600 bg-slate-900 px-2 py-1 text-white"
+                        />
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          {isStream ? (
+            <a
+              href={streamUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              <Play className="h-4 w-4" aria-hidden="true" />
+              Open stream
+            </a>
+          ) : (
+            <button
+              type="submit"
+              disabled={isSending}
+              className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Play className="h-4 w-4" aria-hidden="true" />
+              {isSending ? 'Sending…' : 'Send request'}
+            </button>
+          )}
+          <code className="text-xs break-all text-slate-400">{url}</code>
+        </div>
+      </form>
+
+      {result && (
+        <div className="mt-4" data-testid={`${operation.operationId}-result`}>
+          <p className="mb-1 text-sm text-slate-300">
+            Status{' '}
+            <span
+              className={
+                result.status >= 200 && result.status < 300
+                  ? 'text-green-400'
+                  : 'text-red-400'
+              }
+            >
+              {result.status || 'network error'}
+            </span>
+          </p>
+          <pre className="max-h-96 overflow-auto rounded bg-slate-950 p-3 text-xs text-slate-200">
+            {result.body}
+          </pre>
+        </div>
+      )}
+    </section>
+  );
+};
+
+/**
+ * API Explorer
+ * Lists every operation with its parameters and lets readers try them
+ */
+export const ApiExplorer: React.FC<ApiExplorerProps> = ({
+  document,
+  specUrl = '/api/openapi.json',
+}) => {
+  const operations = Object.entries(document.paths);
+  const [apiKey, setApiKey] = useState('');
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">
+            {document.info.title}
+          </h1>
+          <p className="mt-1 text-slate-400">{document.info.description}</p>
+        </div>
+        <a
+          href={specUrl}
+          className="flex items-center gap-2 text-sm text-blue-300 hover:text-blue-200 hover:underline"
+        >
+          <FileJson className="h-4 w-4" aria-hidden="true" />
+          OpenAPI {document.openapi} document
+        </a>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label htmlFor="api-explorer-key" className="text-slate-300">
+          API key
+        </label>
+        <input
+          id="api-explorer-key"
+          type="password"
+          autoComplete="off"
+          value={apiKey}
+          onChange={(event) => setApiKey(event.target.value.trim())}
+          placeholder="mwd_…"
+          className="w-72 rounded border border-slate-600 bg-slate-900 px-2 py-1 font-mono text-white"
+        />
+        <span className="text-slate-400">
+          Sent as <code>X-API-Key</code> with every request
+        </span>
+      </div>
+
+      <nav aria-label="Endpoints" className="flex flex-wrap gap-2 text-sm">
+        {operations.map(([path, { get }]) => (
+          <a
+            key={path}
+            href={`#${get.operationId}`}
+            className="rounded bg-slate-800 px-3 py-1 font-mono text-slate-300 hover:text-white"
+          >
+            {path}
+          </a>
+        ))}
+      </nav>
+
+      {operations.map(([path, { get }]) => (
+        <OperationCard key={path} path={path} operation={get} apiKey={apiKey} />
+      ))}
+    </div>
+  );
+};
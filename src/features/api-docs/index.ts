@@ -0,0 +1,6 @@
+/**
+ * API docs feature exports
+ */
+
+export { ApiExplorer, buildRequestUrl } from './ApiExplorer';
+export type { ApiExplorerProps } from './ApiExplorer';
@@ -1,6 +1,6 @@
 /**
  * Real-time Martian Clock Component
- * Displays current Mars time for both rover locations
+ * Displays current Mars time at every rover and lander site
  */
 
 'use client';
@@ -9,14 +9,22 @@ import { useMartianTime } from './useMartianTime';
 import { Clock, MapPin, Calendar } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { TermTooltip } from '@/components/TermTooltip';
+import { ROVERS } from '@/lib/rovers';
+
+/** Icon and label colors for the operating missions, in order */
+const ACCENTS = [
+  { icon: 'text-blue-400', label: 'text-blue-300' },
+  { icon: 'text-orange-400', label: 'text-orange-300' },
+  { icon: 'text-emerald-400', label: 'text-emerald-300' },
+] as const;
 
 /**
- * Real-time Martian Clock component displaying current Mars time for both rover locations
+ * Real-time Martian Clock component displaying current Mars time at every mission site
  *
  * Features:
  * - Coordinated Mars Time (MTC) - universal Mars time
  * - Local True Solar Time (LTST) for each rover location
- * - Mission sol numbers for each rover
+ * - Mission sol numbers for each rover, and the final sol of completed missions
  * - Real-time updates every second
  * - Accessible with ARIA live regions
  * - Smooth animations with Framer Motion
@@ -43,6 +51,9 @@ export function MartianClock(): React.ReactElement {
     );
   }
 
+  const activeRovers = marsTime.rovers.filter(({ active }) => active);
+  const pastRovers = marsTime.rovers.filter(({ active }) => !active);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -76,61 +87,72 @@ export function MartianClock(): React.ReactElement {
           </p>
         </motion.div>
 
-        {/* Curiosity Local Time */}
-        <motion.div
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          transition={{ delay: 0.2 }}
-          className="border-t border-slate-700 pt-4"
-        >
-          <div className="mb-2 flex items-center gap-2">
-            <MapPin className="h-4 w-4 text-blue-400" />
-            <p className="text-sm font-medium text-blue-300">
-              Curiosity (Gale Crater)
-            </p>
-          </div>
-          <p className="mb-1 font-mono text-lg text-white" aria-live="polite">
-            {marsTime.curiosityLTST}
-          </p>
-          <div className="flex items-center gap-2 text-xs text-slate-400">
-            <Calendar className="h-3 w-3" />
-            <span aria-live="polite">
-              <TermTooltip term="Sol">Sol</TermTooltip>{' '}
-              {marsTime.curiositySol.toLocaleString()}
-            </span>
-          </div>
-        </motion.div>
+        {/* Local time at each operating mission */}
+        {activeRovers.map(({ rover, ltst, sol }, index) => {
+          const { name, siteName } = ROVERS[rover];
+          const accent = ACCENTS[index % ACCENTS.length] ?? ACCENTS[0];
+          return (
+            <motion.div
+              key={rover}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.2 + index * 0.1 }}
+              className="border-t border-slate-700 pt-4"
+            >
+              <div className="mb-2 flex items-center gap-2">
+                <MapPin className={`h-4 w-4 ${accent.icon}`} />
+                <p className={`text-sm font-medium ${accent.label}`}>
+                  {name} ({siteName})
+                </p>
+              </div>
+              <p
+                className="mb-1 font-mono text-lg text-white"
+                aria-live="polite"
+              >
+                {ltst}
+              </p>
+              <div className="flex items-center gap-2 text-xs text-slate-400">
+                <Calendar className="h-3 w-3" />
+                <span aria-live="polite">
+                  <TermTooltip term="Sol">Sol</TermTooltip>{' '}
+                  {sol.toLocaleString()}
+                </span>
+              </div>
+            </motion.div>
+          );
+        })}
 
-        {/* Perseverance Local Time */}
-        <motion.div
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          transition={{ delay: 0.3 }}
-          className="border-t border-slate-700 pt-4"
-        >
-          <div className="mb-2 flex items-center gap-2">
-            <MapPin className="h-4 w-4 text-orange-400" />
-            <p className="text-sm font-medium text-orange-300">
-              Perseverance (Jezero Crater)
+        {/* Completed missions: site time and final sol */}
+        {pastRovers.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.2 + activeRovers.length * 0.1 }}
+            className="border-t border-slate-700 pt-4"
+          >
+            <p className="mb-2 text-sm font-medium text-slate-300">
+              Past missions
             </p>
-          </div>
-          <p className="mb-1 font-mono text-lg text-white" aria-live="polite">
-            {marsTime.perseveranceLTST}
-          </p>
-          <div className="flex items-center gap-2 text-xs text-slate-400">
-            <Calendar className="h-3 w-3" />
-            <span aria-live="polite">
-              <TermTooltip term="Sol">Sol</TermTooltip>{' '}
-              {marsTime.perseveranceSol.toLocaleString()}
-            </span>
-          </div>
-        </motion.div>
+            <ul className="space-y-1 text-xs text-slate-400">
+              {pastRovers.map(({ rover, ltst, sol }) => (
+                <li key={rover} className="flex items-center justify-between">
+                  <span>
+                    {ROVERS[rover].name} ({ROVERS[rover].siteName})
+                  </span>
+                  <span className="font-mono">
+                    {ltst} · final sol {sol.toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </motion.div>
+        )}
 
         {/* Earth Time Reference */}
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
-          transition={{ delay: 0.4 }}
+          transition={{ delay: 0.3 + activeRovers.length * 0.1 }}
           className="border-t border-slate-700 pt-4"
         >
           <p className="mb-1 text-xs text-slate-500">
@@ -5,8 +5,10 @@
  * All functions are pure and extensively tested for accuracy
  */
 
-import { MARS_CONSTANTS, ROVER_LOCATIONS } from '@/lib/constants';
-import { MarsTimeData } from '@/types/mars-time';
+import { MARS_CONSTANTS } from '@/lib/constants';
+import { ROVER_NAMES, getRover } from '@/lib/rovers';
+import { MarsTimeData, MarsSeason } from '@/types/mars-time';
+import { RoverName } from '@/types/rovers';
 
 /**
  * Mars Time Calculator - Pure functions for planetary time conversion
@@ -104,46 +106,170 @@ export const MarsTimeCalculator = {
     return Math.floor(currentMSD - landingMSD);
   },
 
+  /**
+   * Convert Mars Sol Date back to an Earth date
+   * @param msd - Mars Sol Date
+   * @returns Earth date
+   */
+  msdToEarth(msd: number): Date {
+    const julianDate =
+      (msd - MARS_CONSTANTS.MSD_EPOCH_OFFSET) *
+        MARS_CONSTANTS.EARTH_TO_MARS_DAY_RATIO +
+      4.5 +
+      MARS_CONSTANTS.J2000_EPOCH;
+
+    // Julian date 2440587.5 is the Unix epoch
+    return new Date((julianDate - 2440587.5) * 86400000);
+  },
+
+  /**
+   * Calculate the Earth date on which a mission sol begins
+   * Inverse of getMissionSol
+   * @param landingDate - Rover landing date
+   * @param sol - Mission sol number
+   * @returns Earth date at the start of the sol
+   */
+  getSolStartDate(landingDate: Date, sol: number): Date {
+    return this.msdToEarth(this.earthToMSD(landingDate) + sol);
+  },
+
+  /**
+   * Calculate a registered rover's mission sol, counted as the mission does
+   * Completed missions stop at the sol of their last contact
+   * @param rover - Rover name
+   * @param date - Earth date (defaults to current time)
+   * @returns Mission sol number
+   */
+  getRoverSol(rover: RoverName, date: Date = new Date()): number {
+    const { landingDate, landingSol, endDate } = getRover(rover);
+    const until = endDate && endDate < date ? endDate : date;
+
+    return landingSol + this.getMissionSol(landingDate, until);
+  },
+
+  /**
+   * Calculate the Mars Sol Date at which a rover's mission sol begins
+   * Inverse of getRoverSol
+   * @param rover - Rover name
+   * @param sol - Mission sol number
+   * @returns Mars Sol Date at the start of the sol
+   */
+  getRoverSolMSD(rover: RoverName, sol: number): number {
+    const { landingDate, landingSol } = getRover(rover);
+
+    return this.earthToMSD(landingDate) + sol - landingSol;
+  },
+
+  /**
+   * Calculate the Earth date on which a rover's mission sol begins
+   * @param rover - Rover name
+   * @param sol - Mission sol number
+   * @returns Earth date at the start of the sol
+   */
+  getRoverSolStartDate(rover: RoverName, sol: number): Date {
+    return this.msdToEarth(this.getRoverSolMSD(rover, sol));
+  },
+
   /**
    * Calculate Mars equation of time correction
    * @param msd - Mars Sol Date
    * @returns Equation of time in hours
    */
   getEquationOfTime(msd: number): number {
-    // Mars orbital parameters
-    const ls = this.getMarsLs(msd);
-    const eot =
-      2.861 * Math.sin(2 * this.degreesToRadians(ls)) -
-      0.071 * Math.sin(4 * this.degreesToRadians(ls)) +
-      0.002 * Math.sin(6 * this.degreesToRadians(ls)) -
-      this.degreesToRadians(ls - 248);
+    const ls = this.degreesToRadians(this.getMarsLs(msd));
+    const eotDegrees =
+      2.861 * Math.sin(2 * ls) -
+      0.071 * Math.sin(4 * ls) +
+      0.002 * Math.sin(6 * ls) -
+      this.getEquationOfCenter(msd);
 
-    return this.radiansToDegrees(eot) / 15; // Convert to hours
+    return eotDegrees / 15; // Convert to hours
   },
 
   /**
-   * Calculate Mars solar longitude (Ls)
+   * Calculate Mars equation of center (true minus mean anomaly)
    * @param msd - Mars Sol Date
-   * @returns Solar longitude in degrees
+   * @returns Equation of center in degrees
    */
-  getMarsLs(msd: number): number {
-    const m = (19.387 + 0.52402075 * msd) % 360;
-    const alpha = (270.3863 + 0.5240384 * msd) % 360;
+  getEquationOfCenter(msd: number): number {
+    const days = this.msdToJ2000Days(msd);
+    const m = (19.387 + 0.52402075 * days) % 360;
     const pbs =
-      0.0071 * Math.cos(this.degreesToRadians((0.985626 * msd + 25.37) % 360)) +
-      0.0057 * Math.cos(this.degreesToRadians((0.985626 * msd + 195.8) % 360)) +
-      0.0039 * Math.cos(this.degreesToRadians((0.985626 * msd + 53.5) % 360));
+      0.0071 *
+        Math.cos(this.degreesToRadians((0.985626 * days + 25.37) % 360)) +
+      0.0057 *
+        Math.cos(this.degreesToRadians((0.985626 * days + 195.8) % 360)) +
+      0.0039 * Math.cos(this.degreesToRadians((0.985626 * days + 53.5) % 360));
 
-    const nu =
-      alpha +
+    return (
       10.691 * Math.sin(this.degreesToRadians(m)) +
       0.623 * Math.sin(this.degreesToRadians(2 * m)) +
       0.05 * Math.sin(this.degreesToRadians(3 * m)) +
       0.005 * Math.sin(this.degreesToRadians(4 * m)) +
       0.0005 * Math.sin(this.degreesToRadians(5 * m)) +
-      pbs;
+      pbs
+    );
+  },
+
+  /**
+   * Calculate Mars solar longitude (Ls)
+   * @param msd - Mars Sol Date
+   * @returns Solar longitude in degrees (0-360)
+   */
+  getMarsLs(msd: number): number {
+    const days = this.msdToJ2000Days(msd);
+    const alpha = (270.3863 + 0.5240384 * days) % 360;
+    const ls = alpha + this.getEquationOfCenter(msd);
+
+    return ((ls % 360) + 360) % 360;
+  },
+
+  /**
+   * Calculate Mars year number (Clancy et al. convention, MY 1 began 1955-04-11)
+   * @param msd - Mars Sol Date
+   * @returns Mars year number
+   */
+  getMarsYear(msd: number): number {
+    const elapsed =
+      (msd - MARS_CONSTANTS.MARS_YEAR_ONE_MSD) / MARS_CONSTANTS.MARS_YEAR_SOLS;
+    const year = Math.floor(elapsed) + 1;
+    const fraction = elapsed - Math.floor(elapsed);
+    const ls = this.getMarsLs(msd);
+
+    // The mean year length drifts slightly from the true Ls = 0 crossing
+    if (fraction < 0.25 && ls > 270) return year - 1;
+    if (fraction > 0.75 && ls < 90) return year + 1;
+    return year;
+  },
+
+  /**
+   * Name the season at a latitude for a given solar longitude
+   * Ls 0° is the northern spring equinox; seasons are reversed in the south
+   * @param ls - Solar longitude in degrees
+   * @param latitude - Planetocentric latitude in degrees (negative for south)
+   * @returns Season in the latitude's hemisphere
+   */
+  getMarsSeason(ls: number, latitude: number): MarsSeason {
+    const northernSeasons = ['spring', 'summer', 'autumn', 'winter'] as const;
+    const quarter = Math.floor((((ls % 360) + 360) % 360) / 90);
 
-    return nu % 360;
+    if (latitude >= 0) {
+      return `northern-${northernSeasons[quarter]!}`;
+    }
+    return `southern-${northernSeasons[(quarter + 2) % 4]!}`;
+  },
+
+  /**
+   * Convert Mars Sol Date to Earth days since J2000 (Mars24 orbital time base)
+   * @param msd - Mars Sol Date
+   * @returns Earth days since J2000 epoch
+   */
+  msdToJ2000Days(msd: number): number {
+    return (
+      (msd - MARS_CONSTANTS.MSD_EPOCH_OFFSET) *
+        MARS_CONSTANTS.EARTH_TO_MARS_DAY_RATIO +
+      4.5
+    );
   },
 
   /**
@@ -177,46 +303,30 @@ export const MarsTimeCalculator = {
   /**
    * Calculate comprehensive Mars time data
    * @param date - Earth date (defaults to current time)
-   * @param roverLongitudes - Optional custom rover longitudes
-   * @returns Complete Mars time information
+   * @param roverLongitudes - Optional custom longitudes per rover
+   * @returns Complete Mars time information, with every registered rover
    */
   calculateMarsTime(
     date: Date = new Date(),
-    roverLongitudes?: { curiosity?: number; perseverance?: number }
+    roverLongitudes: Partial<Record<RoverName, number>> = {}
   ): MarsTimeData {
     const msd = this.earthToMSD(date);
     const mtc = this.getMTC(date);
 
-    const curiosityLong =
-      roverLongitudes?.curiosity ??
-      ROVER_LOCATIONS.curiosity?.longitude ??
-      137.4417;
-    const perseveranceLong =
-      roverLongitudes?.perseverance ??
-      ROVER_LOCATIONS.perseverance?.longitude ??
-      77.4509;
-
-    const curiosityLTST = this.getLTST(date, curiosityLong);
-    const perseveranceLTST = this.getLTST(date, perseveranceLong);
-
-    const curiositySol = this.getMissionSol(
-      ROVER_LOCATIONS.curiosity?.landingDate ??
-        new Date('2012-08-06T05:17:57Z'),
-      date
-    );
-    const perseveranceSol = this.getMissionSol(
-      ROVER_LOCATIONS.perseverance?.landingDate ??
-        new Date('2021-02-18T20:55:00Z'),
-      date
-    );
+    const rovers = ROVER_NAMES.map((rover) => {
+      const { longitude, status } = getRover(rover);
+      return {
+        rover,
+        ltst: this.getLTST(date, roverLongitudes[rover] ?? longitude),
+        sol: this.getRoverSol(rover, date),
+        active: status === 'active',
+      };
+    });
 
     return {
       msd,
       mtc,
-      curiosityLTST,
-      perseveranceLTST,
-      curiositySol,
-      perseveranceSol,
+      rovers,
       earthTime: date.toISOString().slice(11, 19), // HH:MM:SS format
     };
   },
@@ -5,7 +5,7 @@
  * Displays a gallery of the most recent photos from Mars rovers
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Image from 'next/image';
 import {
@@ -18,10 +18,21 @@ import {
   X,
   ExternalLink,
 } from 'lucide-react';
-import { usePhotosData } from './usePhotosData';
+import { useInfinitePhotos, usePhotosData } from './usePhotosData';
 import { useCameraData } from './useCameraData';
 import { PhotosService } from './photos-service';
-import { RoverName, PhotoDisplayData, CameraInfo } from '@/types/photos';
+import { StereoViewer, StereoViewMode } from './StereoViewer';
+import { PanoramaBuilder } from './PanoramaBuilder';
+import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+import { ROVERS, getPhotoRovers } from '@/lib/rovers';
+import {
+  RoverName,
+  PhotoDisplayData,
+  CameraInfo,
+  MarsPhoto,
+  StereoPair,
+} from '@/types/photos';
+import { SolSelection } from '@/types/weather';
 
 interface LatestImagesProps {
   /** Initial rover to display */
@@ -32,6 +43,8 @@ interface LatestImagesProps {
   showRoverSelector?: boolean;
   /** Show camera filter */
   showCameraFilter?: boolean;
+  /** Show photos from this rover sol (e.g. from the sol calendar) */
+  focusSol?: SolSelection | null;
 }
 
 interface PhotoModalProps {
@@ -42,8 +55,16 @@ interface PhotoModalProps {
   onPrevious: () => void;
   canGoNext: boolean;
   canGoPrevious: boolean;
+  /** Stereo pair the photo belongs to, if any */
+  stereoPair?: StereoPair | undefined;
 }
 
+const VIEW_MODES: Array<[StereoViewMode | 'photo', string]> = [
+  ['photo', 'Photo'],
+  ['anaglyph', 'Anaglyph 3D'],
+  ['side-by-side', 'Side by side'],
+];
+
 const PhotoModal: React.FC<PhotoModalProps> = ({
   photo,
   isOpen,
@@ -52,7 +73,10 @@ const PhotoModal: React.FC<PhotoModalProps> = ({
   onPrevious,
   canGoNext,
   canGoPrevious,
+  stereoPair,
 }) => {
+  const [viewMode, setViewMode] = useState<StereoViewMode | 'photo'>('photo');
+
   if (!photo || !isOpen) return null;
 
   return (
@@ -98,23 +122,52 @@ const PhotoModal: React.FC<PhotoModalProps> = ({
             <X size={20} />
           </button>
 
+          {/* Stereo view selector */}
+          {stereoPair && (
+            <div
+              className="mb-2 flex justify-center gap-1"
+              role="group"
+              aria-label="Stereo view"
+            >
+              {VIEW_MODES.map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setViewMode(mode)}
+                  aria-pressed={viewMode === mode}
+                  className={`rounded-md px-3 py-1 text-sm font-medium transition-colors ${
+                    viewMode === mode
+                      ? 'bg-red-600 text-white'
+                      : 'bg-black/50 text-slate-200 hover:bg-black/70'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Main image */}
-          <motion.div
-            initial={{ scale: 0.9, opacity: 0 }}
-            animate={{ scale: 1, opacity: 1 }}
-            exit={{ scale: 0.9, opacity: 0 }}
-            className="relative max-h-[80vh] max-w-full overflow-hidden rounded-lg"
-            style={{ aspectRatio: '16/9' }}
-          >
-            <Image
-              src={photo.imgSrc}
-              alt={photo.altText}
-              fill
-              className="object-contain"
-              priority
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 90vw, 80vw"
-            />
-          </motion.div>
+          {stereoPair && viewMode !== 'photo' ? (
+            <StereoViewer pair={stereoPair} mode={viewMode} />
+          ) : (
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="relative max-h-[80vh] max-w-full overflow-hidden rounded-lg"
+              style={{ aspectRatio: '16/9' }}
+            >
+              <Image
+                src={photo.imgSrc}
+                alt={photo.altText}
+                fill
+                className="object-contain"
+                priority
+                sizes="(max-width: 768px) 100vw, (max-width: 1200px) 90vw, 80vw"
+              />
+            </motion.div>
+          )}
 
           {/* Photo information */}
           <motion.div
@@ -162,30 +215,101 @@ export const LatestImages: React.FC<LatestImagesProps> = ({
   limit = 12,
   showRoverSelector = true,
   showCameraFilter = true,
+  focusSol = null,
 }) => {
   const [selectedRover, setSelectedRover] = useState<RoverName>(initialRover);
   const [selectedCamera, setSelectedCamera] = useState<string>('');
+  // Sol or Earth date being browsed; neither shows the latest photos
+  const [selectedSol, setSelectedSol] = useState<number | undefined>();
+  const [selectedDate, setSelectedDate] = useState<string | undefined>();
   const [selectedPhotoIndex, setSelectedPhotoIndex] = useState<number | null>(
     null
   );
 
-  // Always fetch photos without camera filter to get available cameras
-  const photosOptions = useMemo(() => ({ limit }), [limit]);
+  // Follow a newly focused sol (adjusting state during render, not in an effect)
+  const [appliedFocus, setAppliedFocus] = useState<SolSelection | null>(null);
+  if (focusSol !== appliedFocus) {
+    setAppliedFocus(focusSol);
+    if (focusSol) {
+      setSelectedRover(focusSol.rover);
+      setSelectedSol(focusSol.sol);
+      setSelectedDate(undefined);
+      setSelectedCamera('');
+      setSelectedPhotoIndex(null);
+    }
+  }
+
+  const isBrowsing = selectedSol !== undefined || selectedDate !== undefined;
 
-  const { data, isLoading, error, refetch } = usePhotosData(
+  // Sols and dates the rover can have photographed
+  const { landingSol, landingDate, endDate } = ROVERS[selectedRover];
+  const currentSol = useMemo(
+    () => MarsTimeCalculator.getRoverSol(selectedRover),
+    [selectedRover]
+  );
+  const landingDay = landingDate.toISOString().slice(0, 10);
+  const lastDay = (endDate ?? new Date()).toISOString().slice(0, 10);
+
+  // Always fetch photos without camera filter to get available cameras
+  const latest = usePhotosData(
     selectedRover,
-    photosOptions
+    { limit },
+    { enabled: !isBrowsing }
   );
 
+  // A browsed sol or date is paged through in full NASA pages
+  const browseOptions = useMemo(
+    () =>
+      selectedSol !== undefined
+        ? { sol: selectedSol }
+        : selectedDate !== undefined
+          ? { earthDate: selectedDate }
+          : {},
+    [selectedSol, selectedDate]
+  );
+  const browse = useInfinitePhotos(selectedRover, browseOptions, {
+    enabled: isBrowsing,
+  });
+
+  const { isLoading, error, refetch } = isBrowsing ? browse : latest;
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = browse;
+
+  const photos = useMemo((): MarsPhoto[] => {
+    if (isBrowsing) {
+      return browse.data?.pages.flatMap((page) => page.data.photos) ?? [];
+    }
+    return latest.data?.data.photos ?? [];
+  }, [isBrowsing, browse.data, latest.data]);
+
+  // Load the next page when the end of the gallery scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (
+      !sentinel ||
+      !hasNextPage ||
+      typeof IntersectionObserver === 'undefined'
+    ) {
+      return undefined;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        void fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return (): void => observer.disconnect();
+  }, [hasNextPage, fetchNextPage]);
+
   // Get all possible cameras for the rover from manifest
   const { data: allCamerasData = [] } = useCameraData(selectedRover);
 
   // Get cameras that actually have photos in current data
-  const camerasWithPhotos = useMemo(() => {
-    if (!data?.data.photos) return new Set<string>();
-    const cameraNames = data.data.photos.map((photo) => photo.camera.name);
-    return new Set(cameraNames);
-  }, [data]);
+  const camerasWithPhotos = useMemo(
+    () => new Set<string>(photos.map((photo) => photo.camera.name)),
+    [photos]
+  );
 
   // Combine all cameras with availability info
   const cameraOptions = useMemo(() => {
@@ -198,17 +322,52 @@ export const LatestImages: React.FC<LatestImagesProps> = ({
 
   // Transform and filter photos for display
   const displayPhotos = useMemo(() => {
-    if (!data?.data.photos) return [];
-
-    let photos = data.data.photos;
-
     // Apply camera filter if selected
-    if (selectedCamera) {
-      photos = photos.filter((photo) => photo.camera.name === selectedCamera);
+    const filtered = selectedCamera
+      ? photos.filter((photo) => photo.camera.name === selectedCamera)
+      : photos;
+
+    return filtered.map(PhotosService.transformForDisplay);
+  }, [photos, selectedCamera]);
+
+  // Stereo pair of each paired photo, looked up by either eye
+  const stereoPairs = useMemo(() => {
+    const byPhoto = new Map<number, StereoPair>();
+    for (const pair of PhotosService.findStereoPairs(photos)) {
+      byPhoto.set(pair.left.id, pair);
+      byPhoto.set(pair.right.id, pair);
     }
+    return byPhoto;
+  }, [photos]);
 
-    return photos.map(PhotosService.transformForDisplay);
-  }, [data, selectedCamera]);
+  // Sol that previous/next navigate from
+  const viewedSol = selectedSol ?? photos[0]?.sol;
+
+  const browseSol = (sol: number): void => {
+    setSelectedSol(Math.min(Math.max(sol, landingSol), currentSol));
+    setSelectedDate(undefined);
+    setSelectedPhotoIndex(null);
+  };
+
+  const browseDate = (date: string): void => {
+    setSelectedDate(date || undefined);
+    setSelectedSol(undefined);
+    setSelectedPhotoIndex(null);
+  };
+
+  const showLatest = (): void => {
+    setSelectedSol(undefined);
+    setSelectedDate(undefined);
+    setSelectedPhotoIndex(null);
+  };
+
+  const handleSolSubmit = (event: React.FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    const sol = Number(new FormData(event.currentTarget).get('sol'));
+    if (Number.isInteger(sol) && sol >= 0) {
+      browseSol(sol);
+    }
+  };
 
   const handlePhotoClick = (index: number): void => {
     setSelectedPhotoIndex(index);
@@ -271,9 +430,25 @@ export const LatestImages: React.FC<LatestImagesProps> = ({
       {/* Header with controls */}
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <div>
-          <h2 className="text-2xl font-bold text-white">Latest Images</h2>
+          <h2 className="text-2xl font-bold text-white">
+            {selectedSol !== undefined
+              ? `Images from Sol ${selectedSol}`
+              : selectedDate !== undefined
+                ? `Images from ${selectedDate}`
+                : 'Latest Images'}
+          </h2>
           <p className="text-sm text-slate-300">
-            Recent photos from Mars rovers
+            {!isBrowsing ? (
+              'Recent photos from Mars rovers'
+            ) : (
+              <button
+                type="button"
+                onClick={showLatest}
+                className="text-blue-300 hover:text-blue-200 hover:underline"
+              >
+                Back to latest photos
+              </button>
+            )}
           </p>
         </div>
 
@@ -285,11 +460,15 @@ export const LatestImages: React.FC<LatestImagesProps> = ({
               onChange={(e) => {
                 setSelectedRover(e.target.value as RoverName);
                 setSelectedCamera(''); // Clear camera filter when switching rovers
+                showLatest();
               }}
               className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:outline-none"
             >
-              <option value="curiosity">Curiosity</option>
-              <option value="perseverance">Perseverance</option>
+              {getPhotoRovers().map((rover) => (
+                <option key={rover} value={rover}>
+                  {ROVERS[rover].name}
+                </option>
+              ))}
             </select>
           )}
 
@@ -317,6 +496,59 @@ export const LatestImages: React.FC<LatestImagesProps> = ({
         </div>
       </div>
 
+      {/* Sol and Earth date browsing */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          type="button"
+          onClick={() => viewedSol !== undefined && browseSol(viewedSol - 1)}
+          disabled={viewedSol === undefined || viewedSol <= landingSol}
+          className="flex items-center gap-1 rounded-lg bg-slate-700 px-3 py-2 text-slate-200 transition-colors hover:bg-slate-600 disabled:opacity-40"
+        >
+          <ChevronLeft size={16} aria-hidden="true" />
+          Previous sol
+        </button>
+        <form onSubmit={handleSolSubmit} className="flex items-center gap-2">
+          <input
+            key={`${selectedRover}-${selectedSol ?? 'latest'}`}
+            name="sol"
+            type="number"
+            min={landingSol}
+            max={currentSol}
+            defaultValue={selectedSol ?? ''}
+            placeholder="Sol"
+            aria-label="Sol"
+            className="w-24 rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            className="rounded-lg bg-blue-600 px-3 py-2 font-medium text-white transition-colors hover:bg-blue-700"
+          >
+            Go
+          </button>
+        </form>
+        <button
+          type="button"
+          onClick={() => viewedSol !== undefined && browseSol(viewedSol + 1)}
+          disabled={viewedSol === undefined || viewedSol >= currentSol}
+          className="flex items-center gap-1 rounded-lg bg-slate-700 px-3 py-2 text-slate-200 transition-colors hover:bg-slate-600 disabled:opacity-40"
+        >
+          Next sol
+          <ChevronRight size={16} aria-hidden="true" />
+        </button>
+        <input
+          type="date"
+          value={selectedDate ?? ''}
+          onChange={(e) => browseDate(e.target.value)}
+          min={landingDay}
+          max={lastDay}
+          aria-label="Earth date"
+          className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        />
+      </div>
+
+      {/* Mastcam sequences among the loaded photos */}
+      {!isLoading && <PanoramaBuilder photos={photos} />}
+
       {/* Photo gallery */}
       <div className="relative">
         {isLoading && (
@@ -357,7 +589,7 @@ export const LatestImages: React.FC<LatestImagesProps> = ({
                 className="group relative cursor-pointer overflow-hidden rounded-lg bg-gray-100 shadow-sm transition-all hover:shadow-lg"
                 onClick={() => handlePhotoClick(index)}
               >
-                <div className="aspect-square relative overflow-hidden">
+                <div className="relative aspect-square overflow-hidden">
                   <Image
                     src={photo.imgSrc}
                     alt={photo.altText}
@@ -365,6 +597,14 @@ export const LatestImages: React.FC<LatestImagesProps> = ({
                     className="object-cover transition-transform group-hover:scale-105"
                     sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 25vw"
                   />
+                  {stereoPairs.has(photo.id) && (
+                    <span
+                      className="absolute top-2 right-2 rounded bg-red-600/90 px-1.5 py-0.5 text-xs font-bold text-white"
+                      title="Part of a stereo pair"
+                    >
+                      3D
+                    </span>
+                  )}
                 </div>
 
                 {/* Overlay with photo info */}
@@ -391,6 +631,9 @@ export const LatestImages: React.FC<LatestImagesProps> = ({
         onPrevious={handleModalPrevious}
         canGoNext={canGoNext}
         canGoPrevious={canGoPrevious}
+        stereoPair={
+          selectedPhoto ? stereoPairs.get(selectedPhoto.id) : undefined
+        }
       />
 
       {/* Photo count indicator */}
@@ -399,13 +642,28 @@ export const LatestImages: React.FC<LatestImagesProps> = ({
           <p className="text-sm text-gray-500">
             Showing {displayPhotos.length} image
             {displayPhotos.length !== 1 ? 's' : ''}
-            {data?.data.totalPhotos &&
-              data.data.totalPhotos > displayPhotos.length && (
-                <span> of {data.data.totalPhotos} available</span>
+            {!isBrowsing &&
+              latest.data?.data.totalPhotos &&
+              latest.data.data.totalPhotos > displayPhotos.length && (
+                <span> of {latest.data.data.totalPhotos} available</span>
               )}
           </p>
         </div>
       )}
+
+      {/* Infinite scroll sentinel for browsed sols and dates */}
+      {isBrowsing && hasNextPage && (
+        <div ref={loadMoreRef} className="text-center">
+          <button
+            type="button"
+            onClick={() => void fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="rounded-lg bg-slate-700 px-4 py-2 text-sm font-medium text-slate-200 transition-colors hover:bg-slate-600 disabled:opacity-40"
+          >
+            {isFetchingNextPage ? 'Loading more…' : 'Load more'}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,81 @@
+'use client';
+
+/**
+ * Panorama Builder Component
+ * Lays out Mastcam imaging sequences as horizontally scrollable mosaics
+ */
+
+import React, { useMemo, useState } from 'react';
+import Image from 'next/image';
+import { GalleryHorizontal } from 'lucide-react';
+import { findPanoramas } from './photo-groups';
+import { MarsPhoto } from '@/types/photos';
+
+interface PanoramaBuilderProps {
+  /** Photos to find sequences in */
+  photos: MarsPhoto[];
+}
+
+export const PanoramaBuilder: React.FC<PanoramaBuilderProps> = ({ photos }) => {
+  const panoramas = useMemo(() => findPanoramas(photos), [photos]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = panoramas.find((panorama) => panorama.id === openId);
+
+  if (panoramas.length === 0) return null;
+
+  return (
+    <div
+      className="rounded-lg border border-slate-700 bg-slate-800/50 p-4"
+      data-testid="panorama-builder"
+    >
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <GalleryHorizontal
+          className="h-5 w-5 text-red-400"
+          aria-hidden="true"
+        />
+        <h3 className="mr-2 font-semibold text-white">Panoramas</h3>
+        {panoramas.map((panorama) => (
+          <button
+            key={panorama.id}
+            type="button"
+            onClick={() =>
+              setOpenId(openId === panorama.id ? null : panorama.id)
+            }
+            aria-pressed={openId === panorama.id}
+            className={`rounded-md px-3 py-1 text-sm transition-colors ${
+              openId === panorama.id
+                ? 'bg-red-600 text-white'
+                : 'bg-slate-700 text-slate-200 hover:bg-slate-600'
+            }`}
+          >
+            Sol {panorama.sol} · {panorama.camera.name} ·{' '}
+            {panorama.frames.length} frames
+          </button>
+        ))}
+      </div>
+
+      {open && (
+        <div
+          className="flex overflow-x-auto rounded bg-black"
+          role="region"
+          aria-label={`${open.camera.fullName} panorama from Sol ${open.sol}`}
+          tabIndex={0}
+          data-testid="panorama-strip"
+        >
+          {open.frames.map((frame, index) => (
+            // Sized as a full Mastcam frame; w-auto keeps each frame's own aspect ratio
+            <Image
+              key={frame.id}
+              src={frame.imgSrc}
+              alt={`Frame ${index + 1} of ${open.frames.length}`}
+              width={1344}
+              height={1200}
+              className="h-64 w-auto flex-none"
+              sizes="320px"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
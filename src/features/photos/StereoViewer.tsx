@@ -0,0 +1,86 @@
+'use client';
+
+/**
+ * Stereo Viewer Component
+ * Shows a left/right photo pair as a red/cyan anaglyph or side by side
+ */
+
+import React, { useId } from 'react';
+import Image from 'next/image';
+import { StereoPair } from '@/types/photos';
+
+/** How a stereo pair is shown */
+export type StereoViewMode = 'anaglyph' | 'side-by-side';
+
+interface StereoViewerProps {
+  /** Pair to show */
+  pair: StereoPair;
+  /** Anaglyph or side-by-side view */
+  mode: StereoViewMode;
+}
+
+// Luminance of each eye goes to red (left) or green and blue (right);
+// screen blending then adds the two images together
+const LEFT_TO_RED = '0.299 0.587 0.114 0 0  0 0 0 0 0  0 0 0 0 0  0 0 0 1 0';
+const RIGHT_TO_CYAN =
+  '0 0 0 0 0  0.299 0.587 0.114 0 0  0.299 0.587 0.114 0 0  0 0 0 1 0';
+
+export const StereoViewer: React.FC<StereoViewerProps> = ({ pair, mode }) => {
+  // useId output contains characters that are not valid in url(#...) references
+  const filterId = `stereo${useId().replace(/[^a-zA-Z0-9-]/g, '')}`;
+  const description = `${pair.instrument} stereo pair from ${pair.left.rover.name} on Sol ${pair.sol}`;
+
+  if (mode === 'side-by-side') {
+    return (
+      <div className="grid grid-cols-2 gap-1" data-testid="stereo-side-by-side">
+        {[pair.left, pair.right].map((photo, index) => (
+          <figure key={photo.id} className="relative">
+            <Image
+              src={photo.imgSrc}
+              alt={`${index === 0 ? 'Left' : 'Right'} eye: ${description}`}
+              width={1024}
+              height={1024}
+              className="h-auto max-h-[70vh] w-full object-contain"
+              sizes="(max-width: 768px) 50vw, 40vw"
+            />
+            <figcaption className="absolute top-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+              {index === 0 ? 'L' : 'R'}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <svg
+      viewBox="0 0 1024 1024"
+      className="max-h-[70vh] w-full bg-black"
+      role="img"
+      aria-label={`Red/cyan anaglyph: ${description}`}
+      data-testid="stereo-anaglyph"
+    >
+      <defs>
+        <filter id={`${filterId}-left`}>
+          <feColorMatrix type="matrix" values={LEFT_TO_RED} />
+        </filter>
+        <filter id={`${filterId}-right`}>
+          <feColorMatrix type="matrix" values={RIGHT_TO_CYAN} />
+        </filter>
+      </defs>
+      <image
+        href={pair.left.imgSrc}
+        width="1024"
+        height="1024"
+        filter={`url(#${filterId}-left)`}
+      />
+      <image
+        href={pair.right.imgSrc}
+        width="1024"
+        height="1024"
+        filter={`url(#${filterId}-right)`}
+        style={{ mixBlendMode: 'screen' }}
+      />
+    </svg>
+  );
+};
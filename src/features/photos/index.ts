@@ -3,10 +3,14 @@
  */
 
 export { LatestImages } from './LatestImages';
+export { StereoViewer } from './StereoViewer';
+export { PanoramaBuilder } from './PanoramaBuilder';
+export type { StereoViewMode } from './StereoViewer';
 export {
   usePhotosData,
   usePhotosBySol,
   usePhotosByDate,
   usePhotosByCamera,
+  useInfinitePhotos,
 } from './usePhotosData';
 export { PhotosService } from './photos-service';
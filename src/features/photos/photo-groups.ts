@@ -0,0 +1,165 @@
+/**
+ * Photo grouping helpers
+ * Pair stereo frames and group panorama sequences; free of server
+ * dependencies so client components can import them
+ */
+
+import {
+  MarsPhoto,
+  PanoramaSequence,
+  StereoEye,
+  StereoPair,
+} from '@/types/photos';
+
+/** Photos per page of NASA photo results */
+export const PHOTOS_PAGE_SIZE = 25;
+
+/** Maximum clock offset between the two exposures of a stereo pair */
+export const STEREO_TOLERANCE_SECONDS = 2;
+
+/** Fewest frames grouped into a panorama */
+export const MIN_PANORAMA_FRAMES = 3;
+
+/** Cameras that shoot left/right stereo pairs */
+const STEREO_INSTRUMENTS = ['NAVCAM', 'HAZ', 'MCZ'];
+
+/** Cameras whose imaging sequences are shot as panorama mosaics */
+const PANORAMA_INSTRUMENTS = ['MAST', 'MCZ'];
+
+/**
+ * Reads the stereo instrument, eye and exposure time of a photo
+ * NASA image names start with camera, eye and spacecraft clock, e.g.
+ * NLB_486264973EDR... (Curiosity) or NRF_0123_0678901234... (Perseverance)
+ * @returns null when the photo is not part of a stereo camera
+ */
+export function getStereoFrame(
+  photo: MarsPhoto
+): { instrument: string; eye: StereoEye; sclk: number } | null {
+  const filename = photo.imgSrc.split('/').pop() ?? '';
+  const match = /^[A-Z]([LR])[A-Z0-9_]_(?:\d{4}_)?(\d{9,10})/.exec(filename);
+  if (!match?.[1] || !match[2]) return null;
+
+  const instrument = photo.camera.name.replace(/_(LEFT|RIGHT)(_[A-Z])?$/, '');
+  if (!STEREO_INSTRUMENTS.some((name) => instrument.includes(name))) {
+    return null;
+  }
+
+  return {
+    instrument,
+    eye: match[1] === 'L' ? 'left' : 'right',
+    sclk: Number(match[2]),
+  };
+}
+
+/**
+ * Pairs left and right photos taken by the same instrument on the same sol
+ * within STEREO_TOLERANCE_SECONDS of each other
+ * @returns Pairs in the order of their left photos
+ */
+export function findStereoPairs(photos: MarsPhoto[]): StereoPair[] {
+  const frames = photos.flatMap((photo) => {
+    const frame = getStereoFrame(photo);
+    return frame ? [{ photo, ...frame }] : [];
+  });
+  const unmatched = frames.filter((frame) => frame.eye === 'right');
+  const pairs: StereoPair[] = [];
+
+  for (const left of frames) {
+    if (left.eye !== 'left') continue;
+
+    let best: (typeof unmatched)[number] | undefined;
+    for (const right of unmatched) {
+      const offset = Math.abs(right.sclk - left.sclk);
+      if (
+        right.photo.sol === left.photo.sol &&
+        right.instrument === left.instrument &&
+        offset <= STEREO_TOLERANCE_SECONDS &&
+        (!best || offset < Math.abs(best.sclk - left.sclk))
+      ) {
+        best = right;
+      }
+    }
+    if (!best) continue;
+
+    unmatched.splice(unmatched.indexOf(best), 1);
+    pairs.push({
+      id: `${left.photo.id}-${best.photo.id}`,
+      sol: left.photo.sol,
+      instrument: left.instrument,
+      sclk: left.sclk,
+      left: left.photo,
+      right: best.photo,
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Reads the imaging sequence and frame position of a Mastcam photo
+ * Curiosity names hold sol, eye, sequence and frame counter
+ * (1000ML0044630000403745E01...); Perseverance names hold the clock and a
+ * ZCAM sequence ID (ZL0_1000_0752452230_..._N0480000ZCAM05123_...)
+ * @returns null for other cameras or unrecognized image names
+ */
+export function getSequenceFrame(
+  photo: MarsPhoto
+): { sequence: string; order: number } | null {
+  if (!PANORAMA_INSTRUMENTS.some((name) => photo.camera.name.includes(name))) {
+    return null;
+  }
+
+  const filename = photo.imgSrc.split('/').pop() ?? '';
+  const curiosity = /^\d{4}M[LR](\d{6})(\d+)/.exec(filename);
+  if (curiosity?.[1] && curiosity[2]) {
+    return { sequence: curiosity[1], order: Number(curiosity[2]) };
+  }
+
+  const perseverance = /^Z[LR]\d_\d{4}_(\d{10})_.*?([A-Z]{4}\d{5})_/.exec(
+    filename
+  );
+  if (perseverance?.[1] && perseverance[2]) {
+    return { sequence: perseverance[2], order: Number(perseverance[1]) };
+  }
+
+  return null;
+}
+
+/**
+ * Groups Mastcam frames of the same camera, sol and imaging sequence
+ * @returns Sequences of at least MIN_PANORAMA_FRAMES frames, largest first
+ */
+export function findPanoramas(photos: MarsPhoto[]): PanoramaSequence[] {
+  const groups = new Map<
+    string,
+    { sequence: string; frames: Array<{ photo: MarsPhoto; order: number }> }
+  >();
+
+  for (const photo of photos) {
+    const frame = getSequenceFrame(photo);
+    if (!frame) continue;
+
+    const id = `${photo.sol}-${photo.camera.name}-${frame.sequence}`;
+    const group = groups.get(id) ?? { sequence: frame.sequence, frames: [] };
+    group.frames.push({ photo, order: frame.order });
+    groups.set(id, group);
+  }
+
+  const panoramas: PanoramaSequence[] = [];
+  for (const [id, { sequence, frames }] of groups) {
+    const [first] = frames;
+    if (!first || frames.length < MIN_PANORAMA_FRAMES) continue;
+
+    panoramas.push({
+      id,
+      sol: first.photo.sol,
+      camera: first.photo.camera,
+      sequence,
+      frames: frames
+        .sort((a, b) => a.order - b.order)
+        .map(({ photo }) => photo),
+    });
+  }
+
+  return panoramas.sort((a, b) => b.frames.length - a.frames.length);
+}
@@ -12,12 +12,23 @@ import {
   RoverInfo,
   PhotoDisplayData,
   CameraName,
+  ManifestApiResponse,
+  ManifestSol,
+  RoverManifest,
+  RoverStatus,
+  StereoPair,
+  PanoramaSequence,
 } from '@/types/photos';
 import { RoverName } from '@/types/weather';
-
-// NASA API Configuration
-const NASA_API_BASE = 'https://api.nasa.gov/mars-photos/api/v1';
-const NASA_API_KEY = process.env.NASA_API_KEY || 'DEMO_KEY';
+import { CacheManager, CacheResult, createCacheKey } from '@/lib/cache';
+import { HttpError, RateLimitExceededError } from '@/lib/http-errors';
+import { ROVERS } from '@/lib/rovers';
+import { fetchNasaApi } from '@/lib/nasa-api';
+import {
+  PHOTOS_PAGE_SIZE,
+  findPanoramas,
+  findStereoPairs,
+} from './photo-groups';
 
 /**
  * Raw NASA Photo API response structure
@@ -79,72 +90,70 @@ export class PhotosService {
     rover: RoverName,
     options: PhotosDataOptions = {}
   ): Promise<PhotosApiResponse> {
-    const cached = false;
-
     try {
-      // Build NASA API URL
-      const params = new URLSearchParams({
-        api_key: NASA_API_KEY,
-      });
-
-      // Add optional parameters
-      if (options.sol !== undefined) {
-        params.append('sol', options.sol.toString());
-      }
-      if (options.earthDate) {
-        params.append('earth_date', options.earthDate);
-      }
-      if (options.camera) {
-        params.append('camera', options.camera);
-      }
-      if (options.page && options.page > 1) {
-        params.append('page', options.page.toString());
-      }
-
       // Determine endpoint based on parameters
       const endpoint =
         options.sol !== undefined || options.earthDate
-          ? `rovers/${rover}/photos`
-          : `rovers/${rover}/latest_photos`;
-
-      const url = `${NASA_API_BASE}/${endpoint}?${params.toString()}`;
-
-      // Make API request with timeout and retries
-      const response = await this.fetchWithRetry(url, {
-        timeout: 15000, // 15 second timeout
-        retries: 2,
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          `NASA API responded with ${response.status}: ${response.statusText}`
-        );
-      }
-
-      const rawData: NASAPhotosResponse = await response.json();
-      const photos = rawData.latest_photos || rawData.photos || [];
-
-      // Apply limit if specified
-      const limitedPhotos = options.limit
-        ? photos.slice(0, options.limit)
-        : photos;
-
-      // Transform raw data to our normalized format
-      const normalizedData: LatestPhotosData = {
-        photos: limitedPhotos.map(this.transformPhoto),
-        totalPhotos: limitedPhotos.length,
-        rover,
-        lastFetch: new Date().toISOString(),
-        status: 'success',
-      };
+          ? 'photos'
+          : 'latest_photos';
+      const page = options.page && options.page > 1 ? options.page : undefined;
+
+      const {
+        value: normalizedData,
+        status,
+        expiresAt,
+      } = await CacheManager.getOrLoad(
+        'photos',
+        createCacheKey(['photos', rover], {
+          sol: options.sol,
+          earthDate: options.earthDate,
+          camera: options.camera,
+          page,
+          limit: options.limit,
+        }),
+        async () => {
+          // Shared circuit, quota, retries and timeout for this endpoint
+          const response = await fetchNasaApi(rover, endpoint, {
+            params: {
+              sol: options.sol,
+              earth_date: options.earthDate,
+              camera: options.camera,
+              page,
+            },
+          });
+
+          const rawData: NASAPhotosResponse = await response.json();
+          const photos = rawData.latest_photos || rawData.photos || [];
+
+          // Apply limit if specified
+          const limitedPhotos = options.limit
+            ? photos.slice(0, options.limit)
+            : photos;
+
+          // Transform raw data to our normalized format
+          const data: LatestPhotosData = {
+            photos: limitedPhotos.map(this.transformPhoto),
+            totalPhotos: limitedPhotos.length,
+            rover,
+            lastFetch: new Date().toISOString(),
+            status: 'success',
+            // A full page of sol/date results may be followed by more
+            ...(endpoint === 'photos' &&
+              photos.length >= PHOTOS_PAGE_SIZE && {
+                nextPage: (options.page ?? 1) + 1,
+              }),
+          };
+          return data;
+        }
+      );
 
       return {
         data: normalizedData,
         meta: {
-          count: limitedPhotos.length,
+          count: normalizedData.photos.length,
           requestTime: new Date().toISOString(),
-          cached,
-          cacheExpiry: new Date(Date.now() + 30 * 60 * 1000).toISOString(), // 30 minutes
+          cached: status !== 'miss',
+          cacheExpiry: new Date(expiresAt).toISOString(),
         },
       };
     } catch (error) {
@@ -222,42 +231,21 @@ export class PhotosService {
   }
 
   /**
-   * Fetch with retry logic and timeout
+   * Pairs left and right photos taken by the same instrument on the same sol
+   * within STEREO_TOLERANCE_SECONDS of each other (see photo-groups)
+   * @returns Pairs in the order of their left photos
    */
-  private static async fetchWithRetry(
-    url: string,
-    options: { timeout: number; retries: number }
-  ): Promise<Response> {
-    const { timeout, retries } = options;
-
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-        const response = await fetch(url, {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': 'Mars Weather Dashboard/1.0',
-            Accept: 'application/json',
-          },
-        });
-
-        clearTimeout(timeoutId);
-        return response;
-      } catch (error) {
-        if (attempt === retries) {
-          throw error;
-        }
-
-        // Wait before retry (exponential backoff)
-        await new Promise((resolve) =>
-          setTimeout(resolve, Math.pow(2, attempt) * 1000)
-        );
-      }
-    }
+  static findStereoPairs(photos: MarsPhoto[]): StereoPair[] {
+    return findStereoPairs(photos);
+  }
 
-    throw new Error('Max retries exceeded');
+  /**
+   * Groups Mastcam frames of the same camera, sol and imaging sequence
+   * (see photo-groups)
+   * @returns Sequences of at least MIN_PANORAMA_FRAMES frames, largest first
+   */
+  static findPanoramas(photos: MarsPhoto[]): PanoramaSequence[] {
+    return findPanoramas(photos);
   }
 
   /**
@@ -282,9 +270,37 @@ export class PhotosService {
     return this.getLatestPhotos(rover, { ...options, earthDate });
   }
 
+  /**
+   * Fetches the full photo manifest for a rover
+   * @param range - Only include sols within fromSol..toSol (inclusive)
+   * @throws When NASA is unavailable; callers decide how to fall back
+   */
+  static async getManifest(
+    rover: RoverName,
+    range: { fromSol?: number; toSol?: number } = {}
+  ): Promise<ManifestApiResponse> {
+    const { value, status, expiresAt } = await this.loadManifest(rover);
+    const fromSol = range.fromSol ?? 0;
+    const toSol = range.toSol ?? Infinity;
+    const sols = value.sols.filter(
+      (entry) => entry.sol >= fromSol && entry.sol <= toSol
+    );
+
+    return {
+      data: { ...value, sols },
+      meta: {
+        solCount: sols.length,
+        requestTime: new Date().toISOString(),
+        cached: status !== 'miss',
+        cacheExpiry: new Date(expiresAt).toISOString(),
+      },
+    };
+  }
+
   /**
    * Get mission manifest for a rover
-   * Returns all available cameras and mission details
+   * Returns all available cameras and mission details, falling back to the
+   * known camera list when NASA is unavailable
    */
   static async getRoverManifest(rover: RoverName): Promise<{
     cameras: CameraInfo[];
@@ -292,62 +308,29 @@ export class PhotosService {
     status: string;
   }> {
     try {
-      const params = new URLSearchParams({
-        api_key: NASA_API_KEY,
-      });
-
-      const url = `${NASA_API_BASE}/manifests/${rover}?${params.toString()}`;
-
-      const response = await this.fetchWithRetry(url, {
-        timeout: 15000,
-        retries: 0, // Don't retry manifest requests to avoid more rate limiting
-      });
-
-      if (!response.ok) {
-        // For rate limiting (429) or other API issues, fall back to predefined cameras
-        if (response.status === 429) {
-          console.warn(
-            `NASA API rate limited (429). Using fallback cameras for ${rover}`
-          );
-          return {
-            cameras: this.getFallbackCameras(rover),
-            maxSol: 0,
-            status: 'active',
-          };
-        }
-
-        throw new Error(
-          `NASA Manifest API responded with ${response.status}: ${response.statusText}`
-        );
-      }
-
-      const data: NASAManifestResponse = await response.json();
-      const manifest = data.photo_manifest;
-
-      // Extract unique cameras from all sols
-      const allCameraNames = new Set<string>();
-      manifest.photos.forEach((photoGroup) => {
-        photoGroup.cameras.forEach((camera) => allCameraNames.add(camera));
-      });
+      const { value: manifest } = await this.loadManifest(rover);
 
       // Convert to CameraInfo objects with mock data for cameras not in types
-      const cameras: CameraInfo[] = Array.from(allCameraNames).map(
-        (cameraName, index) => ({
-          id: index + 1,
-          name: cameraName as CameraName,
-          fullName: this.getCameraFullName(cameraName as CameraName),
-          roverId: rover === 'curiosity' ? 5 : 8, // Approximated rover IDs
-        })
-      );
+      const cameras: CameraInfo[] = (
+        Object.keys(manifest.cameraSols) as CameraName[]
+      ).map((cameraName, index) => ({
+        id: index + 1,
+        name: cameraName,
+        fullName: this.getCameraFullName(cameraName),
+        roverId: ROVERS[rover].photoArchiveId ?? 0,
+      }));
 
       return {
         cameras,
-        maxSol: manifest.max_sol,
+        maxSol: manifest.maxSol,
         status: manifest.status,
       };
     } catch (error) {
       // Check if it's a rate limiting error
-      if (error instanceof Error && error.message.includes('429')) {
+      if (
+        (error instanceof HttpError && error.isRateLimited) ||
+        error instanceof RateLimitExceededError
+      ) {
         console.warn(
           `NASA API rate limited for ${rover}. Using fallback cameras.`
         );
@@ -364,6 +347,63 @@ export class PhotosService {
     }
   }
 
+  /**
+   * Load the normalized manifest through the cache
+   * Manifests change at most once per sol, so they are cached for long
+   */
+  private static loadManifest(
+    rover: RoverName
+  ): Promise<CacheResult<RoverManifest>> {
+    return CacheManager.getOrLoad(
+      'manifest',
+      createCacheKey(['manifest', rover, 'full']),
+      async () => {
+        const response = await fetchNasaApi(rover, 'manifest', {
+          maxAttempts: 1, // Don't retry manifest requests to avoid more rate limiting
+        });
+
+        const data: NASAManifestResponse = await response.json();
+        return this.transformManifest(rover, data.photo_manifest);
+      }
+    );
+  }
+
+  /**
+   * Transforms a raw NASA manifest to our normalized format
+   */
+  private static transformManifest(
+    rover: RoverName,
+    manifest: NASAManifestResponse['photo_manifest']
+  ): RoverManifest {
+    const cameraSols: Partial<Record<CameraName, number>> = {};
+    const sols: ManifestSol[] = manifest.photos
+      .map((entry) => {
+        const cameras = entry.cameras as CameraName[];
+        cameras.forEach((camera) => {
+          cameraSols[camera] = (cameraSols[camera] ?? 0) + 1;
+        });
+        return {
+          sol: entry.sol,
+          earthDate: entry.earth_date,
+          totalPhotos: entry.total_photos,
+          cameras,
+        };
+      })
+      .sort((a, b) => a.sol - b.sol);
+
+    return {
+      rover,
+      status: manifest.status as RoverStatus,
+      landingDate: manifest.landing_date,
+      launchDate: manifest.launch_date,
+      maxSol: manifest.max_sol,
+      maxDate: manifest.max_date,
+      totalPhotos: manifest.total_photos,
+      cameraSols,
+      sols,
+    };
+  }
+
   /**
    * Get camera full name from camera abbreviation
    */
@@ -380,6 +420,9 @@ export class PhotosService {
       NAVCAM_RIGHT: 'Navigation Camera - Right',
       PANCAM: 'Panoramic Camera',
       MINITES: 'Miniature Thermal Emission Spectrometer',
+      ENTRY: 'Entry, Descent, and Landing Camera',
+      IDC: 'Instrument Deployment Camera',
+      ICC: 'Instrument Context Camera',
       EDL_RUCAM: 'Entry, Descent, and Landing - Rover Up-Look Camera',
       EDL_RDCAM: 'Entry, Descent, and Landing - Rover Down-Look Camera',
       EDL_DDCAM: 'Entry, Descent, and Landing - Descent Stage Down-Look Camera',
@@ -402,108 +445,13 @@ export class PhotosService {
    * Get fallback cameras for rover if API fails
    */
   private static getFallbackCameras(rover: RoverName): CameraInfo[] {
-    const curiosityCameras: CameraInfo[] = [
-      {
-        id: 1,
-        name: 'FHAZ' as CameraName,
-        fullName: 'Front Hazard Avoidance Camera',
-        roverId: 5,
-      },
-      {
-        id: 2,
-        name: 'RHAZ' as CameraName,
-        fullName: 'Rear Hazard Avoidance Camera',
-        roverId: 5,
-      },
-      {
-        id: 3,
-        name: 'MAST' as CameraName,
-        fullName: 'Mast Camera',
-        roverId: 5,
-      },
-      {
-        id: 4,
-        name: 'CHEMCAM_RMI' as CameraName,
-        fullName: 'ChemCam Remote Micro-Imager',
-        roverId: 5,
-      },
-      {
-        id: 5,
-        name: 'MAHLI' as CameraName,
-        fullName: 'Mars Hand Lens Imager',
-        roverId: 5,
-      },
-      {
-        id: 6,
-        name: 'MARDI' as CameraName,
-        fullName: 'Mars Descent Imager',
-        roverId: 5,
-      },
-      {
-        id: 7,
-        name: 'NAVCAM' as CameraName,
-        fullName: 'Navigation Camera',
-        roverId: 5,
-      },
-    ];
-
-    const perseveranceCameras: CameraInfo[] = [
-      {
-        id: 1,
-        name: 'FHAZ' as CameraName,
-        fullName: 'Front Hazard Avoidance Camera',
-        roverId: 8,
-      },
-      {
-        id: 2,
-        name: 'RHAZ' as CameraName,
-        fullName: 'Rear Hazard Avoidance Camera',
-        roverId: 8,
-      },
-      {
-        id: 3,
-        name: 'NAVCAM_LEFT' as CameraName,
-        fullName: 'Navigation Camera - Left',
-        roverId: 8,
-      },
-      {
-        id: 4,
-        name: 'NAVCAM_RIGHT' as CameraName,
-        fullName: 'Navigation Camera - Right',
-        roverId: 8,
-      },
-      {
-        id: 5,
-        name: 'MCZCAM' as CameraName,
-        fullName: 'Mast Camera Zoom',
-        roverId: 8,
-      },
-      {
-        id: 6,
-        name: 'MCZCAM_LEFT' as CameraName,
-        fullName: 'Mast Camera Zoom - Left',
-        roverId: 8,
-      },
-      {
-        id: 7,
-        name: 'MCZCAM_RIGHT' as CameraName,
-        fullName: 'Mast Camera Zoom - Right',
-        roverId: 8,
-      },
-      {
-        id: 8,
-        name: 'SUPERCAM_RMI' as CameraName,
-        fullName: 'SuperCam Remote Micro-Imager',
-        roverId: 8,
-      },
-      {
-        id: 9,
-        name: 'PIXL' as CameraName,
-        fullName: 'Planetary Instrument for X-ray Lithochemistry',
-        roverId: 8,
-      },
-    ];
-
-    return rover === 'curiosity' ? curiosityCameras : perseveranceCameras;
+    const { cameras, photoArchiveId } = ROVERS[rover];
+
+    return cameras.map((cameraName, index) => ({
+      id: index + 1,
+      name: cameraName,
+      fullName: this.getCameraFullName(cameraName),
+      roverId: photoArchiveId ?? 0,
+    }));
   }
 }
@@ -4,6 +4,7 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { RoverName } from '@/types/weather';
+import { HttpError, RateLimitExceededError } from '@/lib/http-errors';
 import { PhotosService } from './photos-service';
 
 /**
@@ -22,7 +23,10 @@ export function useCameraData(rover: RoverName): ReturnType<typeof useQuery> {
     gcTime: 1000 * 60 * 60 * 24 * 14, // 14 days - keep in cache longer (within 32-bit limit)
     retry: (failureCount, error) => {
       // Don't retry on rate limiting, just use fallback
-      if (error instanceof Error && error.message.includes('429')) {
+      if (
+        (error instanceof HttpError && error.isRateLimited) ||
+        error instanceof RateLimitExceededError
+      ) {
         return false;
       }
       return failureCount < 1; // Only retry once for other errors
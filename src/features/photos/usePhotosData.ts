@@ -3,13 +3,20 @@
  * Provides photos fetching with TanStack Query integration
  */
 
-import { useQuery, UseQueryResult } from '@tanstack/react-query';
+import {
+  InfiniteData,
+  useInfiniteQuery,
+  UseInfiniteQueryResult,
+  useQuery,
+  UseQueryResult,
+} from '@tanstack/react-query';
 import {
   PhotosApiResponse,
   PhotosDataOptions,
   CameraName,
 } from '@/types/photos';
 import { RoverName } from '@/types/weather';
+import { PHOTOS_PAGE_SIZE } from './photo-groups';
 
 /**
  * Fetches photos data from our API proxy
@@ -50,10 +57,12 @@ async function fetchPhotosData(
  */
 export function usePhotosData(
   rover: RoverName,
-  options: PhotosDataOptions = {}
+  options: PhotosDataOptions = {},
+  { enabled = true }: { enabled?: boolean } = {}
 ): UseQueryResult<PhotosApiResponse, Error> {
   return useQuery({
     queryKey: ['photos', rover, options],
+    enabled,
     queryFn: () => fetchPhotosData(rover, options),
     staleTime: 30 * 60 * 1000, // 30 minutes
     gcTime: 60 * 60 * 1000, // 1 hour (formerly cacheTime)
@@ -96,3 +105,31 @@ export function usePhotosByCamera(
 ): UseQueryResult<PhotosApiResponse, Error> {
   return usePhotosData(rover, { ...options, camera });
 }
+
+/**
+ * Hook for paging through photos (e.g. of one sol) with infinite scroll
+ * Requests whole NASA pages so no photos are skipped between pages
+ */
+export function useInfinitePhotos(
+  rover: RoverName,
+  options: Omit<PhotosDataOptions, 'page' | 'limit'> = {},
+  { enabled = true }: { enabled?: boolean } = {}
+): UseInfiniteQueryResult<InfiniteData<PhotosApiResponse, number>, Error> {
+  return useInfiniteQuery({
+    queryKey: ['photos', rover, 'pages', options],
+    queryFn: ({ pageParam }) =>
+      fetchPhotosData(rover, {
+        ...options,
+        page: pageParam,
+        limit: PHOTOS_PAGE_SIZE,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => lastPage.data.nextPage,
+    enabled,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: 2,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    refetchOnWindowFocus: false,
+  });
+}
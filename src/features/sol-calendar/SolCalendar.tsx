@@ -0,0 +1,322 @@
+/**
+ * Sol Calendar Component
+ * Heatmap of photo and weather coverage by sol or by Earth date
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+import { ROVERS, ROVER_NAMES } from '@/lib/rovers';
+import { DataQuality, RoverName, SolSelection } from '@/types/weather';
+import {
+  PHOTO_INTENSITY_THRESHOLDS,
+  SolCoverageCell,
+  getPhotoIntensity,
+  groupByEarthWeek,
+} from './sol-coverage';
+import { useSolCoverage } from './useSolCoverage';
+
+/** Sols shown per window */
+export const SOL_WINDOW_SIZE = 100;
+
+/** What cell colors represent */
+type ColorMode = 'photos' | 'weather';
+
+/** How cells are arranged */
+type LayoutMode = 'sol' | 'earth';
+
+/** Component props */
+export interface SolCalendarProps {
+  /** Initial rover selection */
+  initialRover?: RoverName;
+  /** Currently opened sol, highlighted in the calendar */
+  selected?: SolSelection | null;
+  /** Called when a sol is clicked */
+  onSelectSol?: (selection: SolSelection) => void;
+  /** Component CSS class name */
+  className?: string;
+}
+
+const PHOTO_STYLES = [
+  'bg-slate-700/40',
+  'bg-red-900/70',
+  'bg-red-700/80',
+  'bg-red-500/90',
+  'bg-red-400',
+];
+
+const QUALITY_STYLES: Record<DataQuality, string> = {
+  complete: 'bg-green-600/80',
+  partial: 'bg-yellow-500/80',
+  estimated: 'bg-blue-500/60',
+  unavailable: 'bg-slate-700/40',
+};
+
+/**
+ * Describe a cell for screen readers and tooltips
+ */
+function describeCell(cell: SolCoverageCell): string {
+  const date = cell.earthDate ? ` (${cell.earthDate})` : '';
+  const photos = `${cell.photoCount} photo${cell.photoCount === 1 ? '' : 's'}`;
+  const cameras =
+    cell.cameras.length > 0 ? ` from ${cell.cameras.join(', ')}` : '';
+  return `Sol ${cell.sol}${date}: ${photos}${cameras}, ${cell.dataQuality} weather data`;
+}
+
+/**
+ * Sol Calendar
+ * Lets users find sols with imagery and good weather data before browsing
+ */
+export function SolCalendar({
+  initialRover = 'curiosity',
+  selected = null,
+  onSelectSol,
+  className = '',
+}: SolCalendarProps): React.ReactElement {
+  const [rover, setRover] = useState<RoverName>(initialRover);
+  const [colorMode, setColorMode] = useState<ColorMode>('photos');
+  const [layout, setLayout] = useState<LayoutMode>('sol');
+  // Last sol of the window; null follows the current sol
+  const [windowEnd, setWindowEnd] = useState<number | null>(null);
+
+  const { landingSol } = ROVERS[rover];
+  const currentSol = useMemo(
+    () => MarsTimeCalculator.getRoverSol(rover),
+    [rover]
+  );
+
+  const toSol = Math.min(windowEnd ?? currentSol, currentSol);
+  const fromSol = Math.max(landingSol, toSol - SOL_WINDOW_SIZE + 1);
+  const { cells, maxPhotoSol, isLoading, error } = useSolCoverage(
+    rover,
+    fromSol,
+    toSol
+  );
+  const weeks = useMemo(
+    () => (layout === 'earth' ? groupByEarthWeek(cells) : []),
+    [cells, layout]
+  );
+
+  const handleRoverChange = (next: RoverName): void => {
+    setRover(next);
+    setWindowEnd(null);
+  };
+
+  const renderCell = (cell: SolCoverageCell): React.ReactElement => {
+    const color =
+      colorMode === 'photos'
+        ? PHOTO_STYLES[getPhotoIntensity(cell.photoCount)]
+        : QUALITY_STYLES[cell.dataQuality];
+    const isSelected = selected?.rover === rover && selected.sol === cell.sol;
+
+    return (
+      <button
+        key={cell.sol}
+        type="button"
+        onClick={() => onSelectSol?.({ rover, sol: cell.sol })}
+        className={`h-6 w-full rounded-sm transition-transform hover:scale-110 focus:ring-2 focus:ring-white focus:outline-none ${color} ${
+          isSelected ? 'ring-2 ring-white' : ''
+        }`}
+        title={describeCell(cell)}
+        aria-label={describeCell(cell)}
+        aria-pressed={isSelected}
+        data-testid={`sol-cell-${cell.sol}`}
+      />
+    );
+  };
+
+  return (
+    <div
+      className={`rounded-lg border border-slate-700 bg-slate-800/50 p-6 backdrop-blur ${className}`}
+      data-testid="sol-calendar"
+    >
+      {/* Header */}
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <CalendarDays className="h-6 w-6 text-red-400" aria-hidden="true" />
+          <div>
+            <h2 className="text-2xl font-bold text-white">Sol Calendar</h2>
+            <p className="text-sm text-slate-400">
+              Sols {fromSol}–{toSol}
+              {maxPhotoSol !== null && ` · photos through sol ${maxPhotoSol}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <div className="flex rounded-lg bg-slate-700 p-1">
+            {ROVER_NAMES.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleRoverChange(option)}
+                className={`rounded-md px-3 py-1 text-sm font-medium transition-all ${
+                  rover === option
+                    ? 'bg-blue-600 text-white'
+                    : 'text-slate-300 hover:text-white'
+                }`}
+              >
+                {ROVERS[option].name}
+              </button>
+            ))}
+          </div>
+          <div
+            className="flex rounded-lg bg-slate-700 p-1"
+            role="group"
+            aria-label="Color by"
+          >
+            {(['photos', 'weather'] as ColorMode[]).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setColorMode(mode)}
+                aria-pressed={colorMode === mode}
+                className={`rounded-md px-3 py-1 text-sm font-medium capitalize transition-all ${
+                  colorMode === mode
+                    ? 'bg-red-600 text-white'
+                    : 'text-slate-300 hover:text-white'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <div
+            className="flex rounded-lg bg-slate-700 p-1"
+            role="group"
+            aria-label="Arrange by"
+          >
+            {(
+              [
+                ['sol', 'By sol'],
+                ['earth', 'By Earth date'],
+              ] as Array<[LayoutMode, string]>
+            ).map(([mode, label]) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setLayout(mode)}
+                aria-pressed={layout === mode}
+                className={`rounded-md px-3 py-1 text-sm font-medium transition-all ${
+                  layout === mode
+                    ? 'bg-red-600 text-white'
+                    : 'text-slate-300 hover:text-white'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Window navigation */}
+      <div className="mb-4 flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => setWindowEnd(fromSol - 1)}
+          disabled={fromSol <= landingSol}
+          className="flex items-center gap-1 text-slate-300 transition-colors hover:text-white disabled:opacity-40"
+        >
+          <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          Earlier sols
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            setWindowEnd(
+              toSol + SOL_WINDOW_SIZE >= currentSol
+                ? null
+                : toSol + SOL_WINDOW_SIZE
+            )
+          }
+          disabled={toSol >= currentSol}
+          className="flex items-center gap-1 text-slate-300 transition-colors hover:text-white disabled:opacity-40"
+        >
+          Later sols
+          <ChevronRight className="h-4 w-4" aria-hidden="true" />
+        </button>
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-300" role="alert">
+          Unable to load coverage: {error.message}
+        </p>
+      )}
+
+      {/* Heatmap */}
+      <div className={isLoading ? 'animate-pulse' : ''}>
+        {layout === 'sol' ? (
+          <div className="grid grid-cols-10 gap-1 sm:grid-cols-20">
+            {cells.map(renderCell)}
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <div className="grid grid-cols-7 gap-1 text-center text-xs text-slate-500">
+              {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
+                <span key={day}>{day}</span>
+              ))}
+            </div>
+            {weeks.map((week) => (
+              <div key={week[0]?.date} className="grid grid-cols-7 gap-1">
+                {week.map(({ date, cell }) =>
+                  cell ? (
+                    renderCell(cell)
+                  ) : (
+                    <div
+                      key={date}
+                      className="h-6 rounded-sm bg-slate-900/30"
+                      title={date}
+                    />
+                  )
+                )}
+              </div>
+            ))}
+            {weeks.length === 0 && !isLoading && (
+              <p className="text-sm text-slate-400">
+                No Earth dates known for these sols.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div
+        className="mt-4 flex flex-wrap items-center gap-3 text-xs text-slate-400"
+        data-testid="sol-calendar-legend"
+      >
+        {colorMode === 'photos' ? (
+          <>
+            <span>Photos:</span>
+            {PHOTO_STYLES.map((style, level) => (
+              <span key={style} className="flex items-center gap-1">
+                <span className={`h-3 w-3 rounded-sm ${style}`} />
+                {level === 0
+                  ? 'none'
+                  : `${PHOTO_INTENSITY_THRESHOLDS[level - 1]}+`}
+              </span>
+            ))}
+          </>
+        ) : (
+          <>
+            <span>Weather data:</span>
+            {(Object.keys(QUALITY_STYLES) as DataQuality[]).map((quality) => (
+              <span key={quality} className="flex items-center gap-1">
+                <span
+                  className={`h-3 w-3 rounded-sm ${QUALITY_STYLES[quality]}`}
+                />
+                {quality}
+              </span>
+            ))}
+          </>
+        )}
+        <span className="ml-auto">
+          Click a sol to open its images and weather
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * Sol calendar feature exports
+ */
+
+export { SolCalendar, SOL_WINDOW_SIZE } from './SolCalendar';
+export type { SolCalendarProps } from './SolCalendar';
+export { useSolCoverage } from './useSolCoverage';
@@ -0,0 +1,97 @@
+/**
+ * Sol coverage helpers
+ * Merge manifest photo counts and weather data quality into calendar cells
+ */
+
+import { CameraName, ManifestSol } from '@/types/photos';
+import { DataQuality, MarsWeatherSol } from '@/types/weather';
+
+/** Photo and weather availability for one sol */
+export interface SolCoverageCell {
+  sol: number;
+  /** Earth date of the sol, if known from photos or weather */
+  earthDate: string | null;
+  /** Photos taken on this sol */
+  photoCount: number;
+  /** Cameras that took photos on this sol */
+  cameras: CameraName[];
+  /** Weather data quality ('unavailable' when the sol has no weather) */
+  dataQuality: DataQuality;
+}
+
+/** Photo count thresholds for heatmap intensity levels 1-4 */
+export const PHOTO_INTENSITY_THRESHOLDS = [1, 50, 200, 500] as const;
+
+/**
+ * Build one cell per sol in fromSol..toSol
+ */
+export function buildSolCoverage(
+  fromSol: number,
+  toSol: number,
+  manifestSols: ManifestSol[] = [],
+  weatherSols: MarsWeatherSol[] = []
+): SolCoverageCell[] {
+  const photosBySol = new Map(manifestSols.map((entry) => [entry.sol, entry]));
+  const weatherBySol = new Map(weatherSols.map((entry) => [entry.sol, entry]));
+  const cells: SolCoverageCell[] = [];
+
+  for (let sol = fromSol; sol <= toSol; sol++) {
+    const photos = photosBySol.get(sol);
+    const weather = weatherBySol.get(sol);
+    cells.push({
+      sol,
+      earthDate: photos?.earthDate ?? weather?.earthDate ?? null,
+      photoCount: photos?.totalPhotos ?? 0,
+      cameras: photos?.cameras ?? [],
+      dataQuality: weather?.dataQuality ?? 'unavailable',
+    });
+  }
+
+  return cells;
+}
+
+/**
+ * Heatmap intensity (0-4) for a photo count
+ */
+export function getPhotoIntensity(photoCount: number): number {
+  return PHOTO_INTENSITY_THRESHOLDS.filter(
+    (threshold) => photoCount >= threshold
+  ).length;
+}
+
+/**
+ * Arrange cells into Sunday-first weeks of Earth dates
+ * Each date shows the first sol that started on it; days without a sol are null
+ */
+export function groupByEarthWeek(
+  cells: SolCoverageCell[]
+): Array<{ date: string; cell: SolCoverageCell | null }[]> {
+  const byDate = new Map<string, SolCoverageCell>();
+  for (const cell of cells) {
+    if (cell.earthDate && !byDate.has(cell.earthDate)) {
+      byDate.set(cell.earthDate, cell);
+    }
+  }
+
+  const dates = [...byDate.keys()].sort();
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  if (!first || !last) return [];
+
+  const day = new Date(`${first}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - day.getUTCDay());
+  const end = new Date(`${last}T00:00:00Z`);
+
+  const weeks: Array<{ date: string; cell: SolCoverageCell | null }[]> = [];
+  while (day <= end) {
+    const week: { date: string; cell: SolCoverageCell | null }[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const date = day.toISOString().slice(0, 10);
+      week.push({ date, cell: byDate.get(date) ?? null });
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+    weeks.push(week);
+  }
+
+  return weeks;
+}
@@ -0,0 +1,117 @@
+/**
+ * React hook for sol coverage data
+ * Combines the rover manifest with weather data for a window of sols
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ROVERS } from '@/lib/rovers';
+import { ManifestApiResponse } from '@/types/photos';
+import { RoverName, WeatherApiResponse } from '@/types/weather';
+import { buildSolCoverage, SolCoverageCell } from './sol-coverage';
+
+/** Hook return type */
+export interface UseSolCoverageReturn {
+  /** One cell per sol in the window */
+  cells: SolCoverageCell[];
+  /** Latest sol with photos, once the manifest has loaded */
+  maxPhotoSol: number | null;
+  isLoading: boolean;
+  /** Set when both photo and weather data failed to load */
+  error: Error | null;
+}
+
+/**
+ * Fetches the full rover manifest from our API
+ */
+async function fetchManifest(rover: RoverName): Promise<ManifestApiResponse> {
+  const response = await fetch(`/api/manifest/${rover}`, {
+    headers: {
+      Accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch manifest: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetches weather (including estimated sols) for a sol window
+ */
+async function fetchWeatherWindow(
+  rover: RoverName,
+  fromSol: number,
+  toSol: number
+): Promise<WeatherApiResponse> {
+  const params = new URLSearchParams({
+    fromSol: fromSol.toString(),
+    toSol: toSol.toString(),
+    pageSize: (toSol - fromSol + 1).toString(),
+    includeEstimated: 'true',
+  });
+  const response = await fetch(`/api/weather/${rover}?${params.toString()}`, {
+    headers: {
+      Accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch weather: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook for photo and weather coverage of fromSol..toSol
+ * Either source may fail; its cells then show no photos or no weather
+ */
+export function useSolCoverage(
+  rover: RoverName,
+  fromSol: number,
+  toSol: number
+): UseSolCoverageReturn {
+  const manifest = useQuery({
+    queryKey: ['manifest', rover],
+    queryFn: () => fetchManifest(rover),
+    // Rovers outside the photo archive have no manifest
+    enabled: ROVERS[rover].photoArchiveId !== null,
+    staleTime: 60 * 60 * 1000, // 1 hour
+    gcTime: 24 * 60 * 60 * 1000, // 1 day
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const weather = useQuery({
+    queryKey: ['weather-coverage', rover, fromSol, toSol],
+    queryFn: () => fetchWeatherWindow(rover, fromSol, toSol),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  const cells = useMemo(
+    () =>
+      buildSolCoverage(
+        fromSol,
+        toSol,
+        manifest.data?.data.sols,
+        weather.data?.data.history
+      ),
+    [fromSol, toSol, manifest.data, weather.data]
+  );
+
+  return {
+    cells,
+    maxPhotoSol: manifest.data?.data.maxSol ?? null,
+    isLoading: manifest.isLoading || weather.isLoading,
+    error: manifest.error && weather.error ? manifest.error : null,
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * System Status Panel Component
+ * Shows circuit breaker states, recent retries and cache statistics
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Activity,
+  RefreshCw,
+  RotateCcw,
+  ShieldAlert,
+  ShieldCheck,
+} from 'lucide-react';
+import { CircuitState } from '@/types/health';
+import { useResetCircuit, useSystemHealth } from './useSystemHealth';
+
+/** Session storage key for the admin token used by reset actions */
+const ADMIN_TOKEN_STORAGE_KEY = 'mars-weather-admin-token';
+
+/** Component props */
+export interface SystemStatusPanelProps {
+  /** Health polling interval in milliseconds */
+  refetchInterval?: number;
+  /** Component CSS class name */
+  className?: string;
+}
+
+const STATE_STYLES: Record<CircuitState, string> = {
+  closed: 'bg-green-900/50 text-green-300 border-green-700/50',
+  open: 'bg-red-900/50 text-red-300 border-red-700/50',
+  'half-open': 'bg-yellow-900/50 text-yellow-300 border-yellow-700/50',
+};
+
+/**
+ * Format an ISO time relative to now (e.g. "in 42s", "3m ago")
+ */
+function formatRelativeTime(iso: string, now: number): string {
+  const diffSeconds = Math.round((new Date(iso).getTime() - now) / 1000);
+  const magnitude = Math.abs(diffSeconds);
+  const text =
+    magnitude < 60
+      ? `${magnitude}s`
+      : magnitude < 3600
+        ? `${Math.floor(magnitude / 60)}m`
+        : `${Math.floor(magnitude / 3600)}h`;
+
+  if (magnitude === 0) return 'now';
+  return diffSeconds > 0 ? `in ${text}` : `${text} ago`;
+}
+
+/**
+ * System Status Panel
+ * Lets operators see which circuit tripped and reset it without server logs
+ */
+export function SystemStatusPanel({
+  refetchInterval = 15 * 1000,
+  className = '',
+}: SystemStatusPanelProps): React.ReactElement {
+  const { data, error, isLoading, isFetching, refetch } =
+    useSystemHealth(refetchInterval);
+  const resetCircuit = useResetCircuit();
+  const [adminToken, setAdminToken] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setAdminToken(sessionStorage.getItem(ADMIN_TOKEN_STORAGE_KEY) ?? '');
+  }, []);
+
+  // Tick once a second so next-retry countdowns stay current
+  const hasOpenCircuit = data?.circuits.some(
+    (circuit) => circuit.state !== 'closed'
+  );
+  useEffect(() => {
+    setNow(Date.now());
+    if (!hasOpenCircuit) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return (): void => clearInterval(interval);
+  }, [hasOpenCircuit, data]);
+
+  const handleTokenChange = (value: string): void => {
+    setAdminToken(value);
+    sessionStorage.setItem(ADMIN_TOKEN_STORAGE_KEY, value);
+  };
+
+  const handleReset = (circuit?: string): void => {
+    resetCircuit.mutate({
+      token: adminToken,
+      ...(circuit !== undefined && { circuit }),
+    });
+  };
+
+  return (
+    <div
+      className={`rounded-lg border border-slate-700 bg-slate-800/50 p-6 backdrop-blur ${className}`}
+      data-testid="system-status-panel"
+    >
+      {/* Header */}
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Activity className="h-6 w-6 text-red-400" aria-hidden="true" />
+          <h2 className="text-2xl font-bold text-white">System Status</h2>
+          {data && (
+            <span
+              className={`rounded-full border px-3 py-1 text-xs font-semibold uppercase ${
+                data.status === 'ok'
+                  ? STATE_STYLES.closed
+                  : STATE_STYLES['half-open']
+              }`}
+              data-testid="health-status"
+            >
+              {data.status}
+            </span>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => void refetch()}
+          className="flex items-center gap-2 rounded-lg bg-slate-700 px-3 py-2 text-sm text-slate-200 transition-colors hover:bg-slate-600"
+          aria-label="Refresh system status"
+        >
+          <RefreshCw
+            className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`}
+            aria-hidden="true"
+          />
+          Refresh
+        </button>
+      </div>
+
+      {isLoading && <p className="text-slate-400">Checking services...</p>}
+
+      {error && (
+        <p className="text-red-300" role="alert">
+          Unable to load system status: {error.message}
+        </p>
+      )}
+
+      {data && (
+        <div className="space-y-6">
+          {/* Circuits */}
+          <section aria-label="Circuit breakers">
+            <div className="mb-3 flex items-center justify-between">
+              <h3 className="font-semibold text-slate-200">Circuit Breakers</h3>
+              {data.circuits.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => handleReset()}
+                  disabled={resetCircuit.isPending}
+                  className="flex items-center gap-1 text-sm text-slate-400 transition-colors hover:text-white disabled:opacity-50"
+                >
+                  <RotateCcw className="h-3 w-3" aria-hidden="true" />
+                  Reset all
+                </button>
+              )}
+            </div>
+
+            {data.circuits.length === 0 ? (
+              <p className="text-sm text-slate-400">
+                No upstream requests have gone through a circuit yet.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {data.circuits.map((circuit) => (
+                  <li
+                    key={circuit.name}
+                    className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-slate-700/50 p-3"
+                    data-testid={`circuit-${circuit.name}`}
+                  >
+                    <div className="flex items-center gap-3">
+                      {circuit.state === 'closed' ? (
+                        <ShieldCheck
+                          className="h-5 w-5 text-green-400"
+                          aria-hidden="true"
+                        />
+                      ) : (
+                        <ShieldAlert
+                          className="h-5 w-5 text-red-400"
+                          aria-hidden="true"
+                        />
+                      )}
+                      <span className="font-mono text-sm text-white">
+                        {circuit.name}
+                      </span>
+                      <span
+                        className={`rounded border px-2 py-0.5 text-xs ${STATE_STYLES[circuit.state]}`}
+                      >
+                        {circuit.state}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-4 text-sm text-slate-300">
+                      <span>
+                        {circuit.failureCount}/{circuit.failureThreshold}{' '}
+                        failures
+                      </span>
+                      {circuit.nextAttemptTime && (
+                        <span>
+                          Next retry{' '}
+                          {formatRelativeTime(circuit.nextAttemptTime, now)}
+                        </span>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleReset(circuit.name)}
+                        disabled={resetCircuit.isPending}
+                        className="rounded bg-slate-600 px-2 py-1 text-xs text-white transition-colors hover:bg-slate-500 disabled:opacity-50"
+                        aria-label={`Reset circuit ${circuit.name}`}
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <label htmlFor="admin-token" className="text-xs text-slate-400">
+                Admin token
+              </label>
+              <input
+                id="admin-token"
+                type="password"
+                value={adminToken}
+                onChange={(event) => handleTokenChange(event.target.value)}
+                className="rounded border border-slate-600 bg-slate-900/50 px-2 py-1 text-xs text-white"
+                autoComplete="off"
+              />
+              {resetCircuit.error && (
+                <span className="text-xs text-red-300" role="alert">
+                  {resetCircuit.error.message}
+                </span>
+              )}
+            </div>
+          </section>
+
+          {/* Recent retries */}
+          <section aria-label="Recent retries">
+            <h3 className="mb-3 font-semibold text-slate-200">
+              Recent Retries
+            </h3>
+            {data.recentRetries.length === 0 ? (
+              <p className="text-sm text-slate-400">No recent retries.</p>
+            ) : (
+              <ul className="space-y-1 text-sm" data-testid="recent-retries">
+                {data.recentRetries.map((retry) => (
+                  <li
+                    key={`${retry.timestamp}-${retry.circuitName}-${retry.attempt}`}
+                    className="flex flex-wrap gap-x-3 text-slate-300"
+                  >
+                    <span className="text-slate-500">
+                      {formatRelativeTime(retry.timestamp, now)}
+                    </span>
+                    <span className="font-mono">
+                      {retry.circuitName ?? 'unnamed'}
+                    </span>
+                    <span>attempt {retry.attempt}</span>
+                    <span className="text-red-300">{retry.error}</span>
+                    <span className="text-slate-500">
+                      retried after {(retry.delayMs / 1000).toFixed(1)}s
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Quotas */}
+          <section aria-label="API quotas">
+            <h3 className="mb-3 font-semibold text-slate-200">API Quotas</h3>
+            <ul className="space-y-1 text-sm text-slate-300">
+              {data.quotas.map((quota) => (
+                <li key={quota.name} data-testid={`quota-${quota.name}`}>
+                  <span className="font-mono">{quota.name}</span>:{' '}
+                  {quota.remaining}/{quota.capacity} requests left (refills{' '}
+                  {quota.refillPerHour}/hour)
+                  {quota.blockedUntil && (
+                    <span className="text-red-300">
+                      {' '}
+                      · paused by upstream, resumes{' '}
+                      {formatRelativeTime(quota.blockedUntil, now)}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          {/* Cache */}
+          <p className="text-xs text-slate-400" data-testid="cache-summary">
+            Cache ({data.cache.store}):{' '}
+            {Math.round(data.cache.stats.hitRate * 100)}% hit rate ·{' '}
+            {data.cache.stats.hits} hits · {data.cache.stats.stale} stale ·{' '}
+            {data.cache.stats.misses} misses
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * System status feature exports
+ */
+
+export { SystemStatusPanel } from './SystemStatusPanel';
+export { useSystemHealth, useResetCircuit } from './useSystemHealth';
@@ -0,0 +1,110 @@
+/**
+ * React hooks for service health monitoring
+ * Polls /api/health and resets circuit breakers through the admin API
+ */
+
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseMutationResult,
+  UseQueryResult,
+} from '@tanstack/react-query';
+import { HealthApiResponse } from '@/types/health';
+
+/** Options for resetting circuits */
+export interface ResetCircuitVariables {
+  /** Circuit to reset (all circuits if omitted) */
+  circuit?: string;
+  /** Admin API token */
+  token: string;
+}
+
+/** Response of POST /api/health/reset */
+export interface ResetCircuitResponse {
+  /** Names of the circuits that were reset */
+  reset: string[];
+  timestamp: string;
+}
+
+/**
+ * Fetches the health report from our API
+ */
+async function fetchHealth(): Promise<HealthApiResponse> {
+  const response = await fetch('/api/health', {
+    headers: {
+      Accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch health: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Resets one or all circuit breakers
+ */
+async function resetCircuits({
+  circuit,
+  token,
+}: ResetCircuitVariables): Promise<ResetCircuitResponse> {
+  const response = await fetch('/api/health/reset', {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(circuit ? { circuit } : {}),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error ||
+        `Failed to reset circuit: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook for polling service health
+ * @param refetchInterval - Polling interval in milliseconds
+ */
+export function useSystemHealth(
+  refetchInterval = 15 * 1000
+): UseQueryResult<HealthApiResponse, Error> {
+  return useQuery({
+    queryKey: ['health'],
+    queryFn: fetchHealth,
+    staleTime: 5 * 1000,
+    retry: 1,
+    refetchInterval,
+  });
+}
+
+/**
+ * Hook for manually resetting circuit breakers
+ * Refreshes the health report once the reset succeeds
+ */
+export function useResetCircuit(): UseMutationResult<
+  ResetCircuitResponse,
+  Error,
+  ResetCircuitVariables
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: resetCircuits,
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['health'] });
+    },
+  });
+}
@@ -15,6 +15,7 @@ import {
   Wind,
   BarChart3,
   LineChart,
+  GitCompare,
 } from 'lucide-react';
 import {
   ResponsiveContainer,
@@ -28,8 +29,10 @@ import {
   AreaChart,
   Area,
 } from 'recharts';
-import { RoverName } from '@/types/weather';
+import { ROVERS, ROVER_NAMES, getActiveRovers } from '@/lib/rovers';
+import { RoverName, WeatherComparisonReading } from '@/types/weather';
 import { useWeatherData } from './useWeatherData';
+import { useWeatherComparison } from './useWeatherComparison';
 
 /** Chart type options */
 type ChartType = 'line' | 'area';
@@ -40,6 +43,47 @@ type MetricType = 'temperature' | 'pressure' | 'wind';
 /** Time range options */
 type TimeRange = '7d' | '14d' | '30d';
 
+/** Shared axis of a rover comparison */
+type Alignment = 'earthDate' | 'ls';
+
+/** Sols per time range */
+const TIME_RANGE_DAYS: Record<TimeRange, number> = {
+  '7d': 7,
+  '14d': 14,
+  '30d': 30,
+};
+
+/** Rovers overlaid in comparison mode */
+const COMPARED_ROVERS = getActiveRovers();
+
+/** One series color per rover in comparison mode */
+const ROVER_COLORS: Record<RoverName, string> = {
+  curiosity: '#f59e0b', // amber
+  perseverance: '#06b6d4', // cyan
+  spirit: '#a855f7', // purple
+  opportunity: '#22c55e', // green
+  insight: '#ec4899', // pink
+};
+
+/** Value of a metric in one rover's comparison reading */
+function getComparisonValue(
+  reading: WeatherComparisonReading | undefined,
+  metric: MetricType
+): number | null {
+  if (!reading) return null;
+
+  switch (metric) {
+    case 'temperature':
+      return Math.round(reading.temperature.average * 10) / 10;
+    case 'pressure':
+      return Math.round((reading.pressure / 100) * 10) / 10;
+    case 'wind':
+      return reading.windSpeed === null
+        ? null
+        : Math.round(reading.windSpeed * 10) / 10;
+  }
+}
+
 /** Component props */
 export interface HistoricalTrendsProps {
   /** Initial rover selection */
@@ -90,6 +134,8 @@ export function HistoricalTrends({
     useState<MetricType>('temperature');
   const [chartType, setChartType] = useState<ChartType>('line');
   const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+  const [compareMode, setCompareMode] = useState(false);
+  const [alignment, setAlignment] = useState<Alignment>('earthDate');
 
   // Fetch historical data for the selected rover
   const { data, isLoading } = useWeatherData(selectedRover, {
@@ -97,6 +143,13 @@ export function HistoricalTrends({
     autoRefetch: false, // Don't auto-refresh for trends
   });
 
+  // Both rovers on shared axes, fetched only in comparison mode
+  const { data: comparison, isLoading: isComparisonLoading } =
+    useWeatherComparison(COMPARED_ROVERS, {
+      historyDays: TIME_RANGE_DAYS[timeRange],
+      enabled: compareMode,
+    });
+
   // Filter data based on time range
   const filteredData = useMemo(() => {
     if (!data?.history?.length) return [];
@@ -151,6 +204,39 @@ export function HistoricalTrends({
     });
   }, [filteredData, selectedMetric]);
 
+  // One point per Earth date or Ls bin, with a value per rover
+  const comparisonData = useMemo(() => {
+    if (!comparison) return [];
+
+    const unit = { temperature: '°C', pressure: 'hPa', wind: 'm/s' }[
+      selectedMetric
+    ];
+    const points =
+      alignment === 'ls'
+        ? comparison.byLs.map(({ lsStart, lsEnd, readings }) => ({
+            label: `Ls ${lsStart}°`,
+            range: `Ls ${lsStart}°–${lsEnd}°`,
+            readings,
+          }))
+        : comparison.byEarthDate.map(({ earthDate, readings }) => ({
+            label: earthDate,
+            range: earthDate,
+            readings,
+          }));
+
+    return points.map(({ label, range, readings }) => ({
+      label,
+      range,
+      unit,
+      ...Object.fromEntries(
+        comparison.rovers.map((rover) => [
+          rover,
+          getComparisonValue(readings[rover], selectedMetric),
+        ])
+      ),
+    }));
+  }, [comparison, alignment, selectedMetric]);
+
   // Get metric configuration
   const getMetricConfig = (
     metric: MetricType
@@ -191,8 +277,11 @@ export function HistoricalTrends({
 
   const metricConfig = getMetricConfig(selectedMetric);
 
+  const displayData = compareMode ? comparisonData : chartData;
+  const xAxisKey = compareMode ? 'label' : 'sol';
+
   // Loading state
-  if (isLoading) {
+  if (isLoading || (compareMode && isComparisonLoading)) {
     return (
       <div
         className={`rounded-lg border border-slate-700 bg-slate-800/50 p-6 backdrop-blur ${className}`}
@@ -211,7 +300,7 @@ export function HistoricalTrends({
   }
 
   // No data state
-  if (!data?.history?.length) {
+  if (compareMode ? !comparisonData.length : !data?.history?.length) {
     return (
       <div
         className={`rounded-lg border border-slate-700 bg-slate-800/50 p-6 backdrop-blur ${className}`}
@@ -249,22 +338,57 @@ export function HistoricalTrends({
         {/* Controls */}
         <div className="flex flex-wrap gap-2">
           {/* Rover selector */}
-          <div className="flex rounded-lg bg-slate-700 p-1">
-            {(['curiosity', 'perseverance'] as RoverName[]).map((rover) => (
+          <div className="flex flex-wrap rounded-lg bg-slate-700 p-1">
+            {ROVER_NAMES.map((rover) => (
               <button
                 key={rover}
-                onClick={() => setSelectedRover(rover)}
+                onClick={() => {
+                  setSelectedRover(rover);
+                  setCompareMode(false);
+                }}
                 className={`rounded-md px-3 py-1 text-sm font-medium transition-all ${
-                  selectedRover === rover
+                  !compareMode && selectedRover === rover
                     ? 'bg-red-600 text-white'
                     : 'text-slate-300 hover:text-white'
                 }`}
               >
-                {rover === 'curiosity' ? 'Curiosity' : 'Perseverance'}
+                {ROVERS[rover].name}
               </button>
             ))}
+            <button
+              onClick={() => setCompareMode(true)}
+              aria-pressed={compareMode}
+              className={`flex items-center gap-1 rounded-md px-3 py-1 text-sm font-medium transition-all ${
+                compareMode
+                  ? 'bg-red-600 text-white'
+                  : 'text-slate-300 hover:text-white'
+              }`}
+            >
+              <GitCompare className="h-3 w-3" />
+              Compare
+            </button>
           </div>
 
+          {/* Comparison axis selector */}
+          {compareMode && (
+            <div className="flex rounded-lg bg-slate-700 p-1">
+              {(['earthDate', 'ls'] as Alignment[]).map((axis) => (
+                <button
+                  key={axis}
+                  onClick={() => setAlignment(axis)}
+                  aria-pressed={alignment === axis}
+                  className={`rounded-md px-3 py-1 text-sm font-medium transition-all ${
+                    alignment === axis
+                      ? 'bg-cyan-600 text-white'
+                      : 'text-slate-300 hover:text-white'
+                  }`}
+                >
+                  {axis === 'ls' ? 'Ls' : 'Earth date'}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Metric selector */}
           <div className="flex rounded-lg bg-slate-700 p-1">
             {(['temperature', 'pressure', 'wind'] as MetricType[]).map(
@@ -331,7 +455,7 @@ export function HistoricalTrends({
       <div className="h-80">
         <ResponsiveContainer width="100%" height="100%">
           {chartType === 'area' ? (
-            <AreaChart data={chartData}>
+            <AreaChart data={displayData}>
               <defs>
                 {selectedMetric === 'temperature' && (
                   <>
@@ -434,7 +558,7 @@ export function HistoricalTrends({
               </defs>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
               <XAxis
-                dataKey="sol"
+                dataKey={xAxisKey}
                 stroke="#9ca3af"
                 fontSize={12}
                 tickLine={false}
@@ -443,7 +567,21 @@ export function HistoricalTrends({
               <Tooltip content={<CustomTooltip />} />
               <Legend />
 
-              {selectedMetric === 'temperature' && (
+              {compareMode &&
+                COMPARED_ROVERS.map((rover) => (
+                  <Area
+                    key={rover}
+                    type="monotone"
+                    dataKey={rover}
+                    stroke={ROVER_COLORS[rover]}
+                    fill={ROVER_COLORS[rover]}
+                    fillOpacity={0.15}
+                    connectNulls
+                    name={ROVERS[rover].name}
+                  />
+                ))}
+
+              {!compareMode && selectedMetric === 'temperature' && (
                 <>
                   <Area
                     type="monotone"
@@ -472,7 +610,7 @@ export function HistoricalTrends({
                 </>
               )}
 
-              {selectedMetric === 'pressure' && (
+              {!compareMode && selectedMetric === 'pressure' && (
                 <Area
                   type="monotone"
                   dataKey="pressure"
@@ -482,7 +620,7 @@ export function HistoricalTrends({
                 />
               )}
 
-              {selectedMetric === 'wind' && (
+              {!compareMode && selectedMetric === 'wind' && (
                 <Area
                   type="monotone"
                   dataKey="speed"
@@ -493,10 +631,10 @@ export function HistoricalTrends({
               )}
             </AreaChart>
           ) : (
-            <RechartsLineChart data={chartData}>
+            <RechartsLineChart data={displayData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
               <XAxis
-                dataKey="sol"
+                dataKey={xAxisKey}
                 stroke="#9ca3af"
                 fontSize={12}
                 tickLine={false}
@@ -505,7 +643,21 @@ export function HistoricalTrends({
               <Tooltip content={<CustomTooltip />} />
               <Legend />
 
-              {selectedMetric === 'temperature' && (
+              {compareMode &&
+                COMPARED_ROVERS.map((rover) => (
+                  <Line
+                    key={rover}
+                    type="monotone"
+                    dataKey={rover}
+                    stroke={ROVER_COLORS[rover]}
+                    strokeWidth={2}
+                    dot={{ r: 4 }}
+                    connectNulls
+                    name={ROVERS[rover].name}
+                  />
+                ))}
+
+              {!compareMode && selectedMetric === 'temperature' && (
                 <>
                   <Line
                     type="monotone"
@@ -534,7 +686,7 @@ export function HistoricalTrends({
                 </>
               )}
 
-              {selectedMetric === 'pressure' && (
+              {!compareMode && selectedMetric === 'pressure' && (
                 <Line
                   type="monotone"
                   dataKey="pressure"
@@ -545,7 +697,7 @@ export function HistoricalTrends({
                 />
               )}
 
-              {selectedMetric === 'wind' && (
+              {!compareMode && selectedMetric === 'wind' && (
                 <Line
                   type="monotone"
                   dataKey="speed"
@@ -563,12 +715,18 @@ export function HistoricalTrends({
       {/* Chart info */}
       <div className="mt-4 text-xs text-slate-400">
         <div className="flex items-center justify-between">
-          <span>Showing {chartData.length} sols of data</span>
+          <span>
+            {compareMode
+              ? `Comparing ${comparisonData.length} ${alignment === 'ls' ? 'Ls bins' : 'Earth dates'}`
+              : `Showing ${chartData.length} sols of data`}
+          </span>
           <div className="flex items-center gap-1">
             <Calendar className="h-3 w-3" />
             <span>
-              {filteredData.length > 0 &&
-                `${filteredData[0]?.earthDate} - ${filteredData[filteredData.length - 1]?.earthDate}`}
+              {compareMode
+                ? `${comparisonData[0]?.range} - ${comparisonData[comparisonData.length - 1]?.range}`
+                : filteredData.length > 0 &&
+                  `${filteredData[0]?.earthDate} - ${filteredData[filteredData.length - 1]?.earthDate}`}
             </span>
           </div>
         </div>
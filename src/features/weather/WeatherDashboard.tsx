@@ -16,7 +16,9 @@ import {
   RefreshCw,
 } from 'lucide-react';
 import { useWeatherData } from './useWeatherData';
-import { RoverName, MarsWeatherData } from '@/types/weather';
+import { ROVERS, ROVER_NAMES } from '@/lib/rovers';
+import { RoverName, MarsWeatherData, SolSelection } from '@/types/weather';
+import { MarsSeason } from '@/types/mars-time';
 import { TermTooltip } from '@/components/TermTooltip';
 
 /** Component props */
@@ -25,6 +27,18 @@ export interface WeatherDashboardProps {
   initialData?: MarsWeatherData | null;
   /** Initial rover selection */
   initialRover?: RoverName;
+  /** Receive new sols from the live stream instead of polling */
+  live?: boolean;
+  /** Show this rover sol instead of the latest (e.g. from the sol calendar) */
+  focusSol?: SolSelection | null;
+}
+
+/**
+ * Format a season identifier for display (e.g. "Southern winter")
+ */
+function formatSeason(season: MarsSeason): string {
+  const [hemisphere = '', name = ''] = season.split('-');
+  return `${hemisphere.charAt(0).toUpperCase()}${hemisphere.slice(1)} ${name}`;
 }
 
 /**
@@ -34,15 +48,36 @@ export interface WeatherDashboardProps {
 export function WeatherDashboard({
   initialData = null,
   initialRover = 'curiosity',
+  live = false,
+  focusSol = null,
 }: WeatherDashboardProps): React.ReactElement {
   const [selectedRover, setSelectedRover] = useState<RoverName>(initialRover);
+  // Sol being viewed; null shows the latest sol
+  const [viewedSol, setViewedSol] = useState<number | null>(null);
+
+  // Follow a newly focused sol (adjusting state during render, not in an effect)
+  const [appliedFocus, setAppliedFocus] = useState<SolSelection | null>(null);
+  if (focusSol !== appliedFocus) {
+    setAppliedFocus(focusSol);
+    if (focusSol) {
+      setSelectedRover(focusSol.rover);
+      setViewedSol(focusSol.sol);
+    }
+  }
+
   const { data, isLoading, error, refetch, lastFetch } = useWeatherData(
     selectedRover,
     {
       initialData,
       historyDays: 7,
-      autoRefetch: true,
+      autoRefetch: viewedSol === null,
       updateInterval: 5 * 60 * 1000, // 5 minutes
+      live,
+      ...(viewedSol !== null && {
+        fromSol: viewedSol,
+        toSol: viewedSol,
+        includeEstimated: true,
+      }),
     }
   );
 
@@ -120,7 +155,7 @@ export function WeatherDashboard({
       className="rounded-lg border border-slate-700 bg-slate-800/50 p-6 backdrop-blur"
     >
       {/* Header with rover selector */}
-      <div className="mb-6 flex items-center justify-between">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-2">
         <div className="flex items-center gap-2">
           <Cloud className="h-5 w-5 text-blue-400" />
           <h3 className="text-lg font-semibold text-white">Mars Weather</h3>
@@ -130,18 +165,21 @@ export function WeatherDashboard({
         </div>
 
         {/* Rover selector */}
-        <div className="flex rounded-lg bg-slate-700 p-1">
-          {(['curiosity', 'perseverance'] as RoverName[]).map((rover) => (
+        <div className="flex flex-wrap rounded-lg bg-slate-700 p-1">
+          {ROVER_NAMES.map((rover) => (
             <button
               key={rover}
-              onClick={() => setSelectedRover(rover)}
+              onClick={() => {
+                setSelectedRover(rover);
+                setViewedSol(null);
+              }}
               className={`rounded-md px-3 py-1 text-sm font-medium transition-all ${
                 selectedRover === rover
                   ? 'bg-blue-600 text-white'
                   : 'text-slate-300 hover:text-white'
               }`}
             >
-              {rover === 'curiosity' ? 'Curiosity' : 'Perseverance'}
+              {ROVERS[rover].name}
             </button>
           ))}
         </div>
@@ -161,6 +199,28 @@ export function WeatherDashboard({
                 <TermTooltip term="Sol">Sol</TermTooltip> {latest.sol}
               </p>
               <p className="font-medium text-white">{latest.earthDate}</p>
+              {viewedSol !== null && (
+                <button
+                  type="button"
+                  onClick={() => setViewedSol(null)}
+                  className="text-xs text-blue-300 hover:text-blue-200 hover:underline"
+                >
+                  Back to latest sol
+                </button>
+              )}
+              {latest.solarLongitude !== undefined && (
+                <p className="text-xs text-slate-500" data-testid="mars-season">
+                  {latest.marsYear !== undefined && (
+                    <>
+                      <TermTooltip term="Mars Year">MY</TermTooltip>{' '}
+                      {latest.marsYear} ·{' '}
+                    </>
+                  )}
+                  <TermTooltip term="Ls">Ls</TermTooltip>{' '}
+                  {latest.solarLongitude.toFixed(1)}°
+                  {latest.season && <> · {formatSeason(latest.season)}</>}
+                </p>
+              )}
             </div>
             <div className="text-right">
               <p className="text-sm text-slate-400">
@@ -0,0 +1,402 @@
+/**
+ * REMS/MEDA/TWINS Archive Parser
+ * Normalizes PDS-style REMS (Curiosity), MEDA (Perseverance) and TWINS
+ * (InSight) CSV/TAB products into MarsWeatherSol records
+ */
+
+import { RoverName, MarsWeatherSol, DataQuality } from '@/types/weather';
+import { ROVERS } from '@/lib/rovers';
+import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+
+/** A parsed archive table: column names plus raw string rows */
+export interface ArchiveTable {
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Column aliases used by REMS, MEDA and TWINS PDS products
+ * Temperatures are archived in kelvin, pressure in pascals, wind in m/s
+ */
+const COLUMN_ALIASES = {
+  sol: ['SOL', 'SOL_NUMBER'],
+  lmst: ['LMST', 'LOCAL_MEAN_SOLAR_TIME'],
+  utc: ['UTC', 'SCET', 'SCET_UTC', 'EARTH_DATE'],
+  temperature: [
+    'AMBIENT_TEMP',
+    'AMB_TEMP',
+    'AIR_TEMPERATURE',
+    'ATS_LOCAL_TEMP1',
+    'ATS_LOCAL_TEMP2',
+    'ATS_LOCAL_TEMP3',
+    'ATS_LOCAL_TEMP4',
+    'ATS_LOCAL_TEMP5',
+    'BMY_AIR_TEMP',
+    'BPY_AIR_TEMP',
+  ],
+  pressure: ['PRESSURE', 'PS_PRESSURE'],
+  humidity: ['RELATIVE_HUMIDITY', 'RH', 'HS_RELATIVE_HUMIDITY'],
+  windSpeed: ['HORIZONTAL_WIND_SPEED', 'WIND_SPEED'],
+  windDirection: ['WIND_DIRECTION'],
+} as const;
+
+type ColumnKey = keyof typeof COLUMN_ALIASES;
+
+/** Placeholder values PDS products use for missing samples */
+const MISSING_VALUES = new Set(['', 'UNK', 'NULL', 'N/A', 'NAN', 'NONE']);
+
+/** Sentinel magnitude at or above which numeric samples are treated as missing */
+const SENTINEL_MAGNITUDE = 9999;
+
+/** Share of valid samples required for a measurement to count as complete */
+const COMPLETE_COVERAGE = 0.9;
+
+const KELVIN_OFFSET = 273.15;
+
+/**
+ * Extract column names from a PDS3 label (.LBL)
+ * @param label - Label file contents
+ * @returns Column names in table order
+ */
+export function parseLabelColumns(label: string): string[] {
+  const columns: string[] = [];
+  const columnBlocks = label.split(/OBJECT\s*=\s*COLUMN/i).slice(1);
+
+  for (const block of columnBlocks) {
+    const body = block.split(/END_OBJECT\s*=\s*COLUMN/i)[0] ?? '';
+    const match = body.match(/^\s*NAME\s*=\s*"?([A-Z0-9_ ]+?)"?\s*$/im);
+    if (match?.[1]) {
+      columns.push(match[1].trim().replace(/\s+/g, '_').toUpperCase());
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Split a single archive line into trimmed fields
+ * Comma-delimited when commas are present, whitespace-delimited otherwise
+ */
+function splitLine(line: string): string[] {
+  const fields = line.includes(',')
+    ? line.split(',')
+    : line.trim().split(/\s+/);
+  return fields.map((field) => field.trim().replace(/^"|"$/g, '').trim());
+}
+
+/**
+ * Parse a CSV/TAB archive product
+ * @param text - File contents
+ * @param labelColumns - Column names from a PDS label, for headerless TAB files
+ * @returns Parsed table
+ */
+export function parseArchiveTable(
+  text: string,
+  labelColumns: string[] = []
+): ArchiveTable {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    return { columns: labelColumns, rows: [] };
+  }
+
+  const firstFields = splitLine(lines[0] ?? '');
+  const hasHeader = firstFields.every((field) =>
+    /^[A-Za-z_][\w ]*$/.test(field)
+  );
+
+  if (hasHeader) {
+    return {
+      columns: firstFields.map((field) =>
+        field.replace(/\s+/g, '_').toUpperCase()
+      ),
+      rows: lines.slice(1).map(splitLine),
+    };
+  }
+
+  if (labelColumns.length === 0) {
+    throw new Error('Archive table has no header row and no label columns');
+  }
+
+  return { columns: labelColumns, rows: lines.map(splitLine) };
+}
+
+/**
+ * Parse a numeric sample, treating PDS placeholders and sentinels as missing
+ */
+function parseSample(raw: string | undefined): number | null {
+  if (raw === undefined || MISSING_VALUES.has(raw.toUpperCase())) {
+    return null;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || Math.abs(value) >= SENTINEL_MAGNITUDE) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Read the sol number from an explicit SOL column or an LMST string
+ * (e.g. "SOL 00012 14:02:11" or "00012M14:02:11.000")
+ */
+function parseSol(
+  row: string[],
+  indices: Record<ColumnKey, number[]>
+): number | null {
+  const solIndex = indices.sol[0];
+  if (solIndex !== undefined) {
+    const sol = parseSample(row[solIndex]);
+    if (sol !== null) return Math.trunc(sol);
+  }
+
+  const lmstIndex = indices.lmst[0];
+  if (lmstIndex !== undefined) {
+    const match = row[lmstIndex]?.match(/^\s*(?:SOL\s*)?(\d+)(?:M|\s)/i);
+    if (match?.[1]) return parseInt(match[1], 10);
+  }
+
+  return null;
+}
+
+/**
+ * Running statistics for one measurement on one sol
+ * Kept incremental so full-rate archives never hold every sample in memory
+ */
+interface SampleSeries {
+  /** Rows that carried this measurement's columns */
+  expected: number;
+  /** Rows with a valid sample */
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  /** Vector sums for circular (direction) averages */
+  sinSum: number;
+  cosSum: number;
+}
+
+/** Per-sol accumulator across all rows and files */
+interface SolAccumulator {
+  sol: number;
+  earthDate: string | null;
+  temperature: SampleSeries;
+  pressure: SampleSeries;
+  humidity: SampleSeries;
+  windSpeed: SampleSeries;
+  windDirection: SampleSeries;
+}
+
+const MEASUREMENTS = [
+  'temperature',
+  'pressure',
+  'humidity',
+  'windSpeed',
+  'windDirection',
+] as const;
+
+function emptySeries(): SampleSeries {
+  return {
+    expected: 0,
+    count: 0,
+    sum: 0,
+    min: Infinity,
+    max: -Infinity,
+    sinSum: 0,
+    cosSum: 0,
+  };
+}
+
+function addSample(series: SampleSeries, value: number): void {
+  const radians = (value * Math.PI) / 180;
+  series.count++;
+  series.sum += value;
+  series.min = Math.min(series.min, value);
+  series.max = Math.max(series.max, value);
+  series.sinSum += Math.sin(radians);
+  series.cosSum += Math.cos(radians);
+}
+
+/**
+ * Archive accumulator that merges tables (possibly one file per sensor)
+ * into per-sol statistics
+ */
+export class ArchiveAccumulator {
+  private readonly sols = new Map<number, SolAccumulator>();
+
+  /**
+   * Add every row of a parsed table
+   * @param table - Parsed archive table
+   */
+  addTable(table: ArchiveTable): void {
+    const indices = Object.fromEntries(
+      (Object.keys(COLUMN_ALIASES) as ColumnKey[]).map((key) => [
+        key,
+        (COLUMN_ALIASES[key] as readonly string[])
+          .map((alias) => table.columns.indexOf(alias))
+          .filter((index) => index >= 0),
+      ])
+    ) as Record<ColumnKey, number[]>;
+
+    for (const row of table.rows) {
+      const sol = parseSol(row, indices);
+      if (sol === null) continue;
+
+      let accumulator = this.sols.get(sol);
+      if (!accumulator) {
+        accumulator = {
+          sol,
+          earthDate: null,
+          temperature: emptySeries(),
+          pressure: emptySeries(),
+          humidity: emptySeries(),
+          windSpeed: emptySeries(),
+          windDirection: emptySeries(),
+        };
+        this.sols.set(sol, accumulator);
+      }
+
+      const utcIndex = indices.utc[0];
+      if (!accumulator.earthDate && utcIndex !== undefined) {
+        const date = row[utcIndex]?.match(/^(\d{4}-\d{2}-\d{2})/)?.[1];
+        if (date) accumulator.earthDate = date;
+      }
+
+      for (const measurement of MEASUREMENTS) {
+        const columnIndices = indices[measurement];
+        if (columnIndices.length === 0) continue;
+
+        // Multiple sensor columns (e.g. MEDA ATS 1-5) are averaged per row
+        const samples = columnIndices
+          .map((index) => parseSample(row[index]))
+          .filter((value): value is number => value !== null);
+
+        const series = accumulator[measurement];
+        series.expected++;
+        if (samples.length > 0) {
+          addSample(
+            series,
+            samples.reduce((sum, value) => sum + value, 0) / samples.length
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Build normalized weather records for every sol with temperature and pressure
+   * @param rover - Rover the archive belongs to
+   * @returns Sols sorted ascending
+   */
+  toWeatherSols(rover: RoverName): MarsWeatherSol[] {
+    const roverInfo = ROVERS[rover];
+    const instrument = roverInfo.weatherInstrument;
+    const lastUpdated = new Date().toISOString();
+    const results: MarsWeatherSol[] = [];
+
+    for (const accumulator of [...this.sols.values()].sort(
+      (a, b) => a.sol - b.sol
+    )) {
+      const { temperature, pressure, humidity, windSpeed, windDirection } =
+        accumulator;
+      if (temperature.count === 0 || pressure.count === 0) {
+        continue;
+      }
+
+      const temperatureQuality = seriesQuality(temperature);
+      const pressureQuality = seriesQuality(pressure);
+      const windQuality = seriesQuality(windSpeed);
+
+      const result: MarsWeatherSol = {
+        sol: accumulator.sol,
+        earthDate:
+          accumulator.earthDate ?? estimateEarthDate(rover, accumulator.sol),
+        temperature: {
+          min: temperature.min - KELVIN_OFFSET,
+          max: temperature.max - KELVIN_OFFSET,
+          average: mean(temperature) - KELVIN_OFFSET,
+          unit: 'celsius',
+          quality: temperatureQuality,
+        },
+        atmosphere: {
+          pressure: mean(pressure),
+          unit: 'pa',
+          quality: pressureQuality,
+        },
+        rover,
+        instrument,
+        dataQuality: combineQuality([
+          temperatureQuality,
+          pressureQuality,
+          ...(windSpeed.expected > 0 ? [windQuality] : []),
+        ]),
+        location: {
+          latitude: roverInfo.latitude,
+          longitude: roverInfo.longitude,
+          landingDate: roverInfo.landingDate.toISOString(),
+          locationName: roverInfo.siteName,
+        },
+        lastUpdated,
+      };
+
+      if (humidity.count > 0) {
+        result.atmosphere.humidity = mean(humidity);
+      }
+
+      if (windSpeed.count > 0) {
+        result.wind = {
+          speed: mean(windSpeed),
+          unit: 'mps',
+          quality: windQuality,
+        };
+        if (windDirection.count > 0) {
+          result.wind.direction = Math.round(circularMean(windDirection));
+        }
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Derive a measurement's quality from its sample coverage
+ */
+function seriesQuality(series: SampleSeries): DataQuality {
+  if (series.expected === 0 || series.count === 0) {
+    return 'unavailable';
+  }
+  return series.count / series.expected >= COMPLETE_COVERAGE
+    ? 'complete'
+    : 'partial';
+}
+
+/**
+ * Combine measurement qualities into an overall sol quality
+ */
+function combineQuality(qualities: DataQuality[]): DataQuality {
+  return qualities.every((quality) => quality === 'complete')
+    ? 'complete'
+    : 'partial';
+}
+
+function mean(series: SampleSeries): number {
+  return series.sum / series.count;
+}
+
+/**
+ * Mean of angles in degrees, handling wrap-around at 0/360
+ */
+function circularMean(series: SampleSeries): number {
+  const angle = (Math.atan2(series.sinSum, series.cosSum) * 180) / Math.PI;
+  return (angle + 360) % 360;
+}
+
+/**
+ * Estimate the Earth date of a mission sol from the landing date
+ */
+function estimateEarthDate(rover: RoverName, sol: number): string {
+  return MarsTimeCalculator.getRoverSolStartDate(rover, sol)
+    .toISOString()
+    .slice(0, 10);
+}
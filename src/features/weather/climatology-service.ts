@@ -0,0 +1,263 @@
+/**
+ * Mars Climatology Service
+ * Aggregates weather history into seasonal statistics by solar longitude
+ */
+
+import {
+  RoverName,
+  MarsWeatherSol,
+  ClimatologyBin,
+  ClimatologyOptions,
+  ClimatologyStats,
+  ClimatologyYearStats,
+  ClimatologyApiResponse,
+  MarsClimatology,
+  TemperatureUnit,
+  PressureUnit,
+} from '@/types/weather';
+import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+import { CacheManager, createCacheKey } from '@/lib/cache';
+import { WeatherService } from './weather-service';
+
+/** Running min/sum/max accumulator for one measurement */
+interface StatsAccumulator {
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+}
+
+/** Accumulated temperature and pressure for one bin or bin-year */
+interface BinAccumulator {
+  sols: number;
+  temperature: StatsAccumulator;
+  pressure: StatsAccumulator;
+}
+
+/**
+ * Climatology Service Class
+ * Computes per-Ls-bin statistics across Mars years from the configured weather providers
+ */
+export class ClimatologyService {
+  static readonly DEFAULT_BIN_SIZE = 10;
+  static readonly MAX_BIN_SIZE = 90;
+
+  /**
+   * Get seasonal climatology for a rover
+   */
+  static async getClimatology(
+    rover: RoverName,
+    options: ClimatologyOptions = {}
+  ): Promise<ClimatologyApiResponse> {
+    const binSize = options.binSize ?? this.DEFAULT_BIN_SIZE;
+    if (
+      !Number.isInteger(binSize) ||
+      binSize < 1 ||
+      binSize > this.MAX_BIN_SIZE
+    ) {
+      throw new Error(
+        `Bin size must be a whole number between 1 and ${this.MAX_BIN_SIZE}`
+      );
+    }
+
+    // Climatology changes at most once per sol, so it is cached for long
+    const cacheKey = createCacheKey(['climatology', rover], {
+      binSize,
+      includeEstimated: options.includeEstimated ?? false,
+      temperatureUnit: options.temperatureUnit ?? 'celsius',
+      pressureUnit: options.pressureUnit ?? 'pa',
+    });
+    const { value, status } = await CacheManager.getOrLoad(
+      'climatology',
+      cacheKey,
+      async () => {
+        const { sols, source } = await this.fetchMissionHistory(
+          rover,
+          options.includeEstimated ?? false
+        );
+        return {
+          data: this.computeClimatology(rover, sols, { ...options, binSize }),
+          totalSols: sols.length,
+          source,
+        };
+      }
+    );
+
+    return {
+      data: value.data,
+      meta: {
+        totalSols: value.totalSols,
+        requestTime: new Date().toISOString(),
+        cached: status !== 'miss',
+        ...(value.source && { source: value.source }),
+      },
+    };
+  }
+
+  /**
+   * Bin weather sols by solar longitude and Mars year
+   * Sols must be in base units (celsius, pa)
+   */
+  static computeClimatology(
+    rover: RoverName,
+    sols: MarsWeatherSol[],
+    options: ClimatologyOptions = {}
+  ): MarsClimatology {
+    const binSize = options.binSize ?? this.DEFAULT_BIN_SIZE;
+    const temperatureUnit = options.temperatureUnit ?? 'celsius';
+    const pressureUnit = options.pressureUnit ?? 'pa';
+    const binCount = Math.ceil(360 / binSize);
+
+    const totals: BinAccumulator[] = Array.from(
+      { length: binCount },
+      createBinAccumulator
+    );
+    const byYear: Array<Map<number, BinAccumulator>> = Array.from(
+      { length: binCount },
+      () => new Map()
+    );
+    const marsYears = new Set<number>();
+
+    for (const sol of sols) {
+      // Prefer WeatherService annotations; otherwise evaluate at mid-sol
+      const msd = MarsTimeCalculator.getRoverSolMSD(rover, sol.sol) + 0.5;
+      const ls = sol.solarLongitude ?? MarsTimeCalculator.getMarsLs(msd);
+      const marsYear = sol.marsYear ?? MarsTimeCalculator.getMarsYear(msd);
+      const binIndex = Math.min(Math.floor(ls / binSize), binCount - 1);
+
+      let yearBin = byYear[binIndex]!.get(marsYear);
+      if (!yearBin) {
+        yearBin = createBinAccumulator();
+        byYear[binIndex]!.set(marsYear, yearBin);
+      }
+
+      addSol(totals[binIndex]!, sol);
+      addSol(yearBin, sol);
+      marsYears.add(marsYear);
+    }
+
+    const bins: ClimatologyBin[] = totals.map((total, index) => {
+      const years: ClimatologyYearStats[] = [...byYear[index]!.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([marsYear, accumulator]) => ({
+          marsYear,
+          sols: accumulator.sols,
+          temperature: this.toTemperatureStats(
+            accumulator.temperature,
+            temperatureUnit
+          )!,
+          pressure: this.toPressureStats(accumulator.pressure, pressureUnit)!,
+        }));
+
+      return {
+        lsStart: index * binSize,
+        lsEnd: Math.min((index + 1) * binSize, 360),
+        sols: total.sols,
+        temperature: this.toTemperatureStats(
+          total.temperature,
+          temperatureUnit
+        ),
+        pressure: this.toPressureStats(total.pressure, pressureUnit),
+        years,
+      };
+    });
+
+    const nowMSD = MarsTimeCalculator.earthToMSD(new Date());
+
+    return {
+      rover,
+      binSize,
+      temperatureUnit,
+      pressureUnit,
+      marsYears: [...marsYears].sort((a, b) => a - b),
+      currentMarsYear: MarsTimeCalculator.getMarsYear(nowMSD),
+      currentLs: Math.round(MarsTimeCalculator.getMarsLs(nowMSD) * 10) / 10,
+      bins,
+    };
+  }
+
+  /**
+   * Fetch every sol of the mission through the weather provider chain
+   */
+  private static async fetchMissionHistory(
+    rover: RoverName,
+    includeEstimated: boolean
+  ): Promise<{ sols: MarsWeatherSol[]; source: string | undefined }> {
+    const sols: MarsWeatherSol[] = [];
+    let source: string | undefined;
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await WeatherService.getWeatherData(rover, {
+        fromSol: 0,
+        page,
+        pageSize: WeatherService.MAX_PAGE_SIZE,
+        includeEstimated,
+      });
+
+      sols.push(...response.data.history);
+      source ??= response.meta.source;
+      totalPages = response.meta.pagination?.totalPages ?? page;
+      page++;
+    } while (page <= totalPages);
+
+    return { sols, source };
+  }
+
+  private static toTemperatureStats(
+    stats: StatsAccumulator,
+    unit: TemperatureUnit
+  ): ClimatologyStats | null {
+    if (stats.count === 0) return null;
+    const convert = (value: number): number =>
+      round(WeatherService.convertTemperature(value, unit));
+    return {
+      min: convert(stats.min),
+      average: convert(stats.sum / stats.count),
+      max: convert(stats.max),
+    };
+  }
+
+  private static toPressureStats(
+    stats: StatsAccumulator,
+    unit: PressureUnit
+  ): ClimatologyStats | null {
+    if (stats.count === 0) return null;
+    const convert = (value: number): number =>
+      round(WeatherService.convertPressure(value, unit));
+    return {
+      min: convert(stats.min),
+      average: convert(stats.sum / stats.count),
+      max: convert(stats.max),
+    };
+  }
+}
+
+function createBinAccumulator(): BinAccumulator {
+  return {
+    sols: 0,
+    temperature: { min: Infinity, max: -Infinity, sum: 0, count: 0 },
+    pressure: { min: Infinity, max: -Infinity, sum: 0, count: 0 },
+  };
+}
+
+/** Add one sol: daily min/max feed the extremes, daily average feeds the mean */
+function addSol(accumulator: BinAccumulator, sol: MarsWeatherSol): void {
+  accumulator.sols++;
+
+  const { temperature, pressure } = accumulator;
+  temperature.min = Math.min(temperature.min, sol.temperature.min);
+  temperature.max = Math.max(temperature.max, sol.temperature.max);
+  temperature.sum += sol.temperature.average;
+  temperature.count++;
+
+  pressure.min = Math.min(pressure.min, sol.atmosphere.pressure);
+  pressure.max = Math.max(pressure.max, sol.atmosphere.pressure);
+  pressure.sum += sol.atmosphere.pressure;
+  pressure.count++;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,224 @@
+/**
+ * Mars Weather Comparison Service
+ * Aligns the weather of several rovers by Earth date and by solar longitude
+ */
+
+import {
+  RoverName,
+  MarsWeatherSol,
+  WeatherDataOptions,
+  WeatherComparison,
+  WeatherComparisonApiResponse,
+  WeatherComparisonOptions,
+  WeatherComparisonReading,
+  EarthDateComparisonPoint,
+  LsComparisonPoint,
+} from '@/types/weather';
+import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+import { WeatherService } from './weather-service';
+
+/**
+ * Weather Comparison Service Class
+ * Fetches each rover through WeatherService (and its cache) and aligns the results
+ */
+export class WeatherComparisonService {
+  static readonly DEFAULT_LS_BIN_SIZE = 1;
+  static readonly MAX_LS_BIN_SIZE = 90;
+
+  /**
+   * Compare the weather of several rovers
+   * With fromDate/toDate every rover covers the same Earth dates; otherwise
+   * each rover contributes its most recent historyDays sols
+   */
+  static async compareWeather(
+    rovers: RoverName[],
+    options: WeatherComparisonOptions = {}
+  ): Promise<WeatherComparisonApiResponse> {
+    const responses = await Promise.all(
+      rovers.map((rover) =>
+        WeatherService.getWeatherData(rover, this.getRoverOptions(options))
+      )
+    );
+
+    const history: Partial<Record<RoverName, MarsWeatherSol[]>> = {};
+    const sources: Partial<Record<RoverName, string>> = {};
+    rovers.forEach((rover, index) => {
+      const response = responses[index];
+      if (!response) return;
+      history[rover] = response.data.history;
+      if (response.meta.source) sources[rover] = response.meta.source;
+    });
+
+    return {
+      data: this.alignWeather(rovers, history, options),
+      meta: {
+        requestTime: new Date().toISOString(),
+        cached: responses.every(({ meta }) => meta.cached),
+        sources,
+      },
+    };
+  }
+
+  /**
+   * Check that a date range fits in one weather page for every rover
+   * @returns Error message, or null when the range is usable
+   */
+  static validateRange(
+    rovers: RoverName[],
+    options: WeatherComparisonOptions
+  ): string | null {
+    for (const rover of rovers) {
+      try {
+        const pagination = WeatherService.resolveSolRange(
+          rover,
+          this.getRoverOptions(options)
+        );
+        if (pagination && pagination.totalPages > 1) {
+          return `Date range covers ${pagination.totalSols} ${rover} sols; compare at most ${WeatherService.MAX_PAGE_SIZE}`;
+        }
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid range';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Align rover histories by Earth date and by solar longitude
+   * Sols must already be in the requested units
+   */
+  static alignWeather(
+    rovers: RoverName[],
+    history: Partial<Record<RoverName, MarsWeatherSol[]>>,
+    options: WeatherComparisonOptions = {}
+  ): WeatherComparison {
+    const lsBinSize = options.lsBinSize ?? this.DEFAULT_LS_BIN_SIZE;
+    if (
+      !Number.isInteger(lsBinSize) ||
+      lsBinSize < 1 ||
+      lsBinSize > this.MAX_LS_BIN_SIZE
+    ) {
+      throw new Error(
+        `Ls bin size must be a whole number between 1 and ${this.MAX_LS_BIN_SIZE}`
+      );
+    }
+
+    const byDate = new Map<string, Map<RoverName, MarsWeatherSol[]>>();
+    const byBin = new Map<number, Map<RoverName, MarsWeatherSol[]>>();
+
+    for (const rover of rovers) {
+      for (const sol of history[rover] ?? []) {
+        addSol(byDate, sol.earthDate, rover, sol);
+        if (sol.solarLongitude !== undefined) {
+          const bin =
+            Math.floor((sol.solarLongitude % 360) / lsBinSize) * lsBinSize;
+          addSol(byBin, bin, rover, sol);
+        }
+      }
+    }
+
+    const byEarthDate: EarthDateComparisonPoint[] = [...byDate.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([earthDate, sols]) => ({
+        earthDate,
+        solarLongitude: round(
+          MarsTimeCalculator.getMarsLs(
+            MarsTimeCalculator.earthToMSD(new Date(`${earthDate}T12:00:00Z`))
+          )
+        ),
+        readings: toReadings(sols),
+      }));
+
+    const byLs: LsComparisonPoint[] = [...byBin.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([lsStart, sols]) => ({
+        lsStart,
+        lsEnd: Math.min(360, lsStart + lsBinSize),
+        readings: toReadings(sols),
+      }));
+
+    return {
+      rovers,
+      temperatureUnit: options.temperatureUnit ?? 'celsius',
+      pressureUnit: options.pressureUnit ?? 'pa',
+      windUnit: options.windUnit ?? 'mps',
+      lsBinSize,
+      byEarthDate,
+      byLs,
+    };
+  }
+
+  /**
+   * WeatherService options for one rover of a comparison
+   * A date range is fetched as a single page so no sols are left out
+   */
+  private static getRoverOptions(
+    options: WeatherComparisonOptions
+  ): WeatherDataOptions {
+    const isRange =
+      options.fromDate !== undefined || options.toDate !== undefined;
+
+    return {
+      ...(options.historyDays !== undefined && {
+        historyDays: options.historyDays,
+      }),
+      ...(options.temperatureUnit && {
+        temperatureUnit: options.temperatureUnit,
+      }),
+      ...(options.pressureUnit && { pressureUnit: options.pressureUnit }),
+      ...(options.windUnit && { windUnit: options.windUnit }),
+      ...(options.includeEstimated !== undefined && {
+        includeEstimated: options.includeEstimated,
+      }),
+      ...(options.fromDate && { fromDate: options.fromDate }),
+      ...(options.toDate && { toDate: options.toDate }),
+      ...(isRange && { pageSize: WeatherService.MAX_PAGE_SIZE }),
+    };
+  }
+}
+
+function addSol<K>(
+  groups: Map<K, Map<RoverName, MarsWeatherSol[]>>,
+  key: K,
+  rover: RoverName,
+  sol: MarsWeatherSol
+): void {
+  const group = groups.get(key) ?? new Map<RoverName, MarsWeatherSol[]>();
+  group.set(rover, [...(group.get(rover) ?? []), sol]);
+  groups.set(key, group);
+}
+
+function toReadings(
+  sols: Map<RoverName, MarsWeatherSol[]>
+): Partial<Record<RoverName, WeatherComparisonReading>> {
+  return Object.fromEntries(
+    [...sols.entries()].map(([rover, roverSols]) => [
+      rover,
+      toReading(roverSols),
+    ])
+  );
+}
+
+/** Combine one rover's sols at a comparison point into a single reading */
+function toReading(sols: MarsWeatherSol[]): WeatherComparisonReading {
+  const winds = sols.flatMap((sol) => (sol.wind ? [sol.wind.speed] : []));
+
+  return {
+    sols: sols.map(({ sol }) => sol).sort((a, b) => a - b),
+    temperature: {
+      min: round(Math.min(...sols.map(({ temperature }) => temperature.min))),
+      average: round(mean(sols.map(({ temperature }) => temperature.average))),
+      max: round(Math.max(...sols.map(({ temperature }) => temperature.max))),
+    },
+    pressure: round(mean(sols.map(({ atmosphere }) => atmosphere.pressure))),
+    windSpeed: winds.length > 0 ? round(mean(winds)) : null,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -15,6 +15,12 @@ export type {
   UseWeatherDataOptions,
   UseWeatherDataReturn,
 } from './useWeatherData';
+export { useWeatherComparison } from './useWeatherComparison';
+export type {
+  UseWeatherComparisonOptions,
+  UseWeatherComparisonReturn,
+} from './useWeatherComparison';
 
-// Services
-export { WeatherService } from './weather-service';
+// Server-only services (WeatherService, ClimatologyService, weather providers)
+// read from the filesystem and must be imported directly from their modules
+// so they stay out of client bundles
@@ -0,0 +1,84 @@
+/**
+ * React hook for multi-rover weather comparisons
+ * Fetches rovers' weather aligned by Earth date and by solar longitude
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import {
+  RoverName,
+  WeatherComparison,
+  WeatherComparisonApiResponse,
+} from '@/types/weather';
+
+/** Hook options */
+export interface UseWeatherComparisonOptions {
+  /** Recent sols per rover */
+  historyDays?: number;
+  /** Width of the Ls bins in degrees */
+  lsBinSize?: number;
+  /** Skip fetching, e.g. while comparison mode is off */
+  enabled?: boolean;
+}
+
+/** Hook return type */
+export interface UseWeatherComparisonReturn {
+  data: WeatherComparison | undefined;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Fetches a weather comparison from our API
+ */
+async function fetchWeatherComparison(
+  rovers: RoverName[],
+  historyDays: number,
+  lsBinSize: number | undefined
+): Promise<WeatherComparisonApiResponse> {
+  const params = new URLSearchParams({
+    rovers: rovers.join(','),
+    history: historyDays.toString(),
+  });
+  if (lsBinSize !== undefined) {
+    params.set('lsBinSize', lsBinSize.toString());
+  }
+
+  const response = await fetch(`/api/weather/compare?${params.toString()}`, {
+    headers: {
+      Accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch weather comparison: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook for the recent weather of several rovers on shared axes
+ */
+export function useWeatherComparison(
+  rovers: RoverName[],
+  options: UseWeatherComparisonOptions = {}
+): UseWeatherComparisonReturn {
+  const { historyDays = 30, lsBinSize, enabled = true } = options;
+
+  const query = useQuery({
+    queryKey: ['weather-comparison', rovers, historyDays, lsBinSize],
+    queryFn: () => fetchWeatherComparison(rovers, historyDays, lsBinSize),
+    enabled: enabled && rovers.length > 1,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    data: query.data?.data,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -5,11 +5,13 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   RoverName,
   MarsWeatherData,
+  MarsWeatherSol,
   WeatherDataOptions,
+  WeatherPagination,
 } from '@/types/weather';
 
 /** Hook options for weather data fetching */
@@ -20,6 +22,8 @@ export interface UseWeatherDataOptions extends WeatherDataOptions {
   autoRefetch?: boolean;
   /** Initial data for SSR hydration */
   initialData?: MarsWeatherData | null;
+  /** Subscribe to the live weather stream instead of polling */
+  live?: boolean;
 }
 
 /** Hook return type */
@@ -34,6 +38,8 @@ export interface UseWeatherDataReturn {
   refetch: () => Promise<void>;
   /** Last fetch timestamp */
   lastFetch: string | null;
+  /** Pagination details when a sol/date range was requested */
+  pagination?: WeatherPagination;
 }
 
 /**
@@ -48,13 +54,23 @@ export function useWeatherData(
     updateInterval = 5 * 60 * 1000, // 5 minutes default
     autoRefetch = true,
     initialData = null,
+    live = false,
     ...weatherOptions
   } = options;
 
+  // Range queries are fixed windows, so only latest-sol views go live
+  const isRangeQuery =
+    weatherOptions.fromSol !== undefined ||
+    weatherOptions.toSol !== undefined ||
+    weatherOptions.fromDate !== undefined ||
+    weatherOptions.toDate !== undefined;
+  const isLive = live && !isRangeQuery && typeof EventSource !== 'undefined';
+
   const [data, setData] = useState<MarsWeatherData | null>(initialData);
   const [isLoading, setIsLoading] = useState(!initialData);
   const [error, setError] = useState<string | null>(null);
   const [lastFetch, setLastFetch] = useState<string | null>(null);
+  const [pagination, setPagination] = useState<WeatherPagination | null>(null);
 
   /**
    * Fetch weather data from API
@@ -81,6 +97,24 @@ export function useWeatherData(
       if (weatherOptions.includeEstimated) {
         params.append('includeEstimated', 'true');
       }
+      if (weatherOptions.fromSol !== undefined) {
+        params.append('fromSol', weatherOptions.fromSol.toString());
+      }
+      if (weatherOptions.toSol !== undefined) {
+        params.append('toSol', weatherOptions.toSol.toString());
+      }
+      if (weatherOptions.fromDate) {
+        params.append('fromDate', weatherOptions.fromDate);
+      }
+      if (weatherOptions.toDate) {
+        params.append('toDate', weatherOptions.toDate);
+      }
+      if (weatherOptions.page) {
+        params.append('page', weatherOptions.page.toString());
+      }
+      if (weatherOptions.pageSize) {
+        params.append('pageSize', weatherOptions.pageSize.toString());
+      }
 
       const queryString = params.toString();
       const url = `/api/weather/${rover}${queryString ? `?${queryString}` : ''}`;
@@ -120,6 +154,7 @@ export function useWeatherData(
       const weatherData = responseData.data || responseData;
 
       setData(weatherData);
+      setPagination(responseData.meta?.pagination ?? null);
       setLastFetch(new Date().toISOString());
       setError(null);
     } catch (err) {
@@ -148,10 +183,10 @@ export function useWeatherData(
       fetchWeatherData();
     }
 
-    // Set up auto-refetch interval if enabled
+    // Set up auto-refetch interval if enabled (live streams push instead)
     let intervalId: NodeJS.Timeout | null = null;
 
-    if (autoRefetch && updateInterval > 0) {
+    if (autoRefetch && updateInterval > 0 && !isLive) {
       intervalId = setInterval(fetchWeatherData, updateInterval);
     }
 
@@ -166,11 +201,80 @@ export function useWeatherData(
     rover,
     autoRefetch,
     updateInterval,
+    isLive,
     weatherOptions.historyDays,
     weatherOptions.temperatureUnit,
     weatherOptions.pressureUnit,
     weatherOptions.windUnit,
     weatherOptions.includeEstimated,
+    weatherOptions.fromSol,
+    weatherOptions.toSol,
+    weatherOptions.fromDate,
+    weatherOptions.toDate,
+    weatherOptions.page,
+    weatherOptions.pageSize,
+  ]);
+
+  // Latest fetcher for stream events, so the subscription survives re-renders
+  const fetchWeatherDataRef = useRef(fetchWeatherData);
+  useEffect(() => {
+    fetchWeatherDataRef.current = fetchWeatherData;
+  });
+
+  /**
+   * Subscribe to the live weather stream
+   * New sols are merged in place; invalidations trigger a refetch
+   */
+  useEffect(() => {
+    if (!isLive) return;
+
+    const params = new URLSearchParams();
+    if (weatherOptions.temperatureUnit) {
+      params.append('tempUnit', weatherOptions.temperatureUnit);
+    }
+    if (weatherOptions.pressureUnit) {
+      params.append('pressureUnit', weatherOptions.pressureUnit);
+    }
+    if (weatherOptions.windUnit) {
+      params.append('windUnit', weatherOptions.windUnit);
+    }
+
+    const queryString = params.toString();
+    const source = new EventSource(
+      `/api/stream/${rover}${queryString ? `?${queryString}` : ''}`
+    );
+
+    const handleSol = (event: MessageEvent<string>): void => {
+      try {
+        const { sol } = JSON.parse(event.data) as { sol: MarsWeatherSol };
+        setData((previous) =>
+          mergeLiveSol(previous, sol, weatherOptions.historyDays ?? 7)
+        );
+        setLastFetch(new Date().toISOString());
+      } catch (err) {
+        console.error('Weather stream parse error:', err);
+      }
+    };
+
+    const handleInvalidate = (): void => {
+      fetchWeatherDataRef.current();
+    };
+
+    source.addEventListener('sol', handleSol);
+    source.addEventListener('invalidate', handleInvalidate);
+
+    return (): void => {
+      source.removeEventListener('sol', handleSol);
+      source.removeEventListener('invalidate', handleInvalidate);
+      source.close();
+    };
+  }, [
+    rover,
+    isLive,
+    weatherOptions.historyDays,
+    weatherOptions.temperatureUnit,
+    weatherOptions.pressureUnit,
+    weatherOptions.windUnit,
   ]);
 
   /**
@@ -206,5 +310,32 @@ export function useWeatherData(
     error,
     refetch,
     lastFetch,
+    ...(pagination && { pagination }),
+  };
+}
+
+/**
+ * Merge a pushed sol into the current data
+ * Keeps history sorted and trimmed to the requested number of sols
+ */
+function mergeLiveSol(
+  data: MarsWeatherData | null,
+  sol: MarsWeatherSol,
+  historyDays: number
+): MarsWeatherData | null {
+  if (!data || sol.rover !== data.rover) return data;
+
+  const history = [
+    ...data.history.filter((entry) => entry.sol !== sol.sol),
+    sol,
+  ]
+    .sort((a, b) => a.sol - b.sol)
+    .slice(-Math.max(historyDays, data.history.length));
+
+  return {
+    ...data,
+    latest: sol.sol >= data.latest.sol ? sol : data.latest,
+    history,
+    lastFetch: new Date().toISOString(),
   };
 }
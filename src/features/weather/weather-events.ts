@@ -0,0 +1,67 @@
+/**
+ * Weather event bus
+ * In-process publish/subscribe for new sols and cache invalidations
+ */
+
+import { RoverName, WeatherStreamEvent } from '@/types/weather';
+
+/** Callback receiving weather events for one rover */
+export type WeatherEventListener = (event: WeatherStreamEvent) => void;
+
+/**
+ * Weather Events Class
+ * Fans weather events out to per-rover listeners
+ */
+export class WeatherEvents {
+  private static listeners = new Map<RoverName, Set<WeatherEventListener>>();
+
+  /**
+   * Listen for events about a rover
+   * @returns Function that removes the listener
+   */
+  static subscribe(
+    rover: RoverName,
+    listener: WeatherEventListener
+  ): () => void {
+    let roverListeners = this.listeners.get(rover);
+    if (!roverListeners) {
+      roverListeners = new Set();
+      this.listeners.set(rover, roverListeners);
+    }
+    roverListeners.add(listener);
+
+    return (): void => {
+      roverListeners.delete(listener);
+      if (roverListeners.size === 0) {
+        this.listeners.delete(rover);
+      }
+    };
+  }
+
+  /**
+   * Deliver an event to every listener for its rover
+   * A failing listener never prevents delivery to the others
+   */
+  static publish(event: WeatherStreamEvent): void {
+    const roverListeners = this.listeners.get(event.rover);
+    if (!roverListeners) return;
+
+    for (const listener of [...roverListeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(
+          `Weather event listener failed for ${event.rover}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Number of listeners currently subscribed to a rover
+   */
+  static listenerCount(rover: RoverName): number {
+    return this.listeners.get(rover)?.size ?? 0;
+  }
+}
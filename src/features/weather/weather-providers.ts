@@ -0,0 +1,582 @@
+/**
+ * Mars Weather Providers
+ * Pluggable data sources consulted in order by WeatherService
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  RoverName,
+  MarsWeatherData,
+  MarsWeatherSol,
+  WeatherDataOptions,
+  NASAPhotoApiResponse,
+  TemperatureData,
+  AtmosphericData,
+  WindData,
+  DataQuality,
+} from '@/types/weather';
+import { ROVERS } from '@/lib/rovers';
+import { fetchNasaApi } from '@/lib/nasa-api';
+import { createSeededRandom } from '@/lib/random';
+import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+import {
+  ArchiveAccumulator,
+  parseArchiveTable,
+  parseLabelColumns,
+} from './archive-parser';
+
+/**
+ * Weather provider contract
+ * Implementations return normalized weather data or throw to pass to the next provider
+ */
+export interface WeatherProvider {
+  /** Unique provider name, reported in response metadata */
+  readonly name: string;
+  /** Whether this provider can serve the given rover (defaults to true) */
+  supports?(rover: RoverName): boolean;
+  /** Fetch weather data for a rover */
+  getWeatherData(
+    rover: RoverName,
+    options: WeatherDataOptions
+  ): Promise<MarsWeatherData>;
+}
+
+/** Synthetic model baselines per landing site (celsius, pa) */
+const SITE_BASELINES: Record<
+  RoverName,
+  { temperature: number; pressure: number }
+> = {
+  curiosity: { temperature: -63, pressure: 750 }, // Gale Crater
+  perseverance: { temperature: -77, pressure: 850 }, // Jezero Crater, lower
+  spirit: { temperature: -70, pressure: 700 }, // Gusev Crater
+  opportunity: { temperature: -58, pressure: 650 }, // Meridiani Planum
+  insight: { temperature: -62, pressure: 710 }, // Elysium Planitia
+};
+
+/**
+ * Synthetic weather model
+ * Generates realistic, seeded weather data from sol number and rover location
+ */
+export class SyntheticWeatherProvider implements WeatherProvider {
+  readonly name = 'synthetic';
+
+  /**
+   * Generate weather data ending at the rover's approximate current sol
+   */
+  async getWeatherData(
+    rover: RoverName,
+    options: WeatherDataOptions
+  ): Promise<MarsWeatherData> {
+    if (options.fromSol !== undefined && options.toSol !== undefined) {
+      return this.generateSolRange(rover, options.fromSol, options.toSol);
+    }
+
+    console.info(`Generating mock weather data for ${rover}`);
+
+    // End at the current sol, or at the last sol of a completed mission
+    const now = new Date();
+    const { endDate } = ROVERS[rover];
+    const anchorDate = endDate && endDate < now ? endDate : now;
+    const earthDateStr = anchorDate.toISOString().split('T')[0];
+    if (!earthDateStr) {
+      throw new Error('Invalid current date format');
+    }
+
+    return this.generateWeatherFromSolData(
+      rover,
+      MarsTimeCalculator.getRoverSol(rover, anchorDate),
+      earthDateStr,
+      options
+    );
+  }
+
+  /**
+   * Generate realistic weather data based on sol number and rover location
+   */
+  generateWeatherFromSolData(
+    rover: RoverName,
+    currentSol: number,
+    earthDate: string,
+    options: WeatherDataOptions
+  ): MarsWeatherData {
+    const historyDays = options.historyDays ?? 7;
+    const history: MarsWeatherSol[] = [];
+
+    // Generate historical data
+    for (let i = historyDays - 1; i >= 0; i--) {
+      const sol = currentSol - i;
+      const solDate = new Date(earthDate);
+      solDate.setDate(solDate.getDate() - i);
+
+      const dateStr = solDate.toISOString().split('T')[0];
+      if (!dateStr) {
+        throw new Error('Invalid date format');
+      }
+      history.push(this.generateSolWeatherData(rover, sol, dateStr));
+    }
+
+    const latest = history[history.length - 1];
+    if (!latest) {
+      throw new Error('Failed to generate weather history data');
+    }
+
+    return {
+      latest,
+      history,
+      rover,
+      lastFetch: new Date().toISOString(),
+      status: 'success',
+    };
+  }
+
+  /**
+   * Generate weather data for an explicit sol range (inclusive)
+   * Earth dates are derived from each sol's start via the Mars24 calculator
+   */
+  generateSolRange(
+    rover: RoverName,
+    fromSol: number,
+    toSol: number
+  ): MarsWeatherData {
+    const history: MarsWeatherSol[] = [];
+    for (let sol = fromSol; sol <= toSol; sol++) {
+      const earthDate = MarsTimeCalculator.getRoverSolStartDate(rover, sol)
+        .toISOString()
+        .split('T')[0];
+      if (!earthDate) {
+        throw new Error('Invalid date format');
+      }
+      history.push(this.generateSolWeatherData(rover, sol, earthDate));
+    }
+
+    const latest = history[history.length - 1];
+    if (!latest) {
+      throw new Error(`Empty sol range ${fromSol}-${toSol}`);
+    }
+
+    return {
+      latest,
+      history,
+      rover,
+      lastFetch: new Date().toISOString(),
+      status: 'success',
+    };
+  }
+
+  /**
+   * Generate realistic weather data for a specific sol
+   * Seeded by rover and sol so the same sol always yields identical values
+   * Values are in base units (celsius, pa, mps); WeatherService converts them
+   */
+  generateSolWeatherData(
+    rover: RoverName,
+    sol: number,
+    earthDate: string
+  ): MarsWeatherSol {
+    const roverInfo = ROVERS[rover];
+    const baseline = SITE_BASELINES[rover];
+
+    const random = createSeededRandom(`${rover}-${sol}`);
+
+    // Seasonal variations based on solar longitude at mid-sol
+    // Warmest and highest pressure near perihelion (Ls ~251°)
+    const ls = MarsTimeCalculator.getMarsLs(
+      MarsTimeCalculator.getRoverSolMSD(rover, sol) + 0.5
+    );
+    const seasonFactor = Math.cos(
+      MarsTimeCalculator.degreesToRadians(ls - 251)
+    );
+
+    // Latitude-based temperature adjustments (for future enhancement)
+    // const latitudeFactor = Math.cos((roverInfo.latitude * Math.PI) / 180);
+
+    // Daily variations (deterministic per rover + sol)
+    const dailyVariation = (random() - 0.5) * 10;
+
+    const seasonalTemp =
+      baseline.temperature + seasonFactor * 15 + dailyVariation;
+
+    const temperature: TemperatureData = {
+      min: seasonalTemp - 25 + random() * 5,
+      max: seasonalTemp + 15 + random() * 5,
+      average: seasonalTemp + random() * 5,
+      unit: 'celsius',
+      quality: 'complete' as DataQuality,
+    };
+
+    // Mars atmospheric pressure varies with season
+    const pressureVariation = seasonFactor * 100 + (random() - 0.5) * 50;
+
+    const atmosphere: AtmosphericData = {
+      pressure: baseline.pressure + pressureVariation,
+      unit: 'pa',
+      quality: 'complete' as DataQuality,
+    };
+
+    // Wind data (not always available)
+    const wind: WindData | undefined =
+      random() > 0.3
+        ? {
+            speed: random() * 15 + 2, // 2-17 m/s typical for Mars
+            direction: Math.floor(random() * 360),
+            unit: 'mps',
+            quality: random() > 0.8 ? 'partial' : 'complete',
+          }
+        : undefined;
+
+    const result: MarsWeatherSol = {
+      sol,
+      earthDate,
+      temperature,
+      atmosphere,
+      rover,
+      instrument: roverInfo.weatherInstrument,
+      dataQuality: wind?.quality === 'partial' ? 'partial' : 'complete',
+      location: {
+        latitude: roverInfo.latitude,
+        longitude: roverInfo.longitude,
+        landingDate: roverInfo.landingDate.toISOString(),
+        locationName: roverInfo.siteName,
+      },
+      lastUpdated: new Date().toISOString(),
+    };
+
+    // Add wind data if available
+    if (wind) {
+      result.wind = wind;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * NASA Photos API provider
+ * Uses the latest photo sol and Earth date to anchor the synthetic model
+ */
+export class NasaPhotosWeatherProvider implements WeatherProvider {
+  readonly name = 'nasa-photos';
+
+  constructor(
+    private readonly synthetic: SyntheticWeatherProvider = new SyntheticWeatherProvider()
+  ) {}
+
+  /** Only missions in the Mars Rover Photos API have a photo anchor */
+  supports(rover: RoverName): boolean {
+    return ROVERS[rover].photoArchiveId !== null;
+  }
+
+  /**
+   * Fetch weather data from NASA Photos API
+   * Extracts sol information and generates realistic weather data
+   */
+  async getWeatherData(
+    rover: RoverName,
+    options: WeatherDataOptions
+  ): Promise<MarsWeatherData> {
+    // Historical windows need no anchor: sol dates are computed, not fetched
+    if (options.fromSol !== undefined && options.toSol !== undefined) {
+      return this.synthetic.generateSolRange(
+        rover,
+        options.fromSol,
+        options.toSol
+      );
+    }
+
+    // Shares the latest_photos circuit and quota with PhotosService
+    const response = await fetchNasaApi(rover, 'latest_photos', {
+      init: { next: { revalidate: 300 } }, // 5 minute cache
+      onRetry: (attempt, error) => {
+        console.warn(
+          `Retrying NASA Photos API (attempt ${attempt}) for ${rover}: ${error.message}`
+        );
+      },
+    });
+
+    // Additional response validation
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(
+        `NASA API error: ${response.status} ${response.statusText} - ${errorText}`
+      );
+    }
+
+    const data: NASAPhotoApiResponse = await response.json();
+
+    if (!data.latest_photos || data.latest_photos.length === 0) {
+      throw new Error('No photo data available from NASA API');
+    }
+
+    // Extract sol information from latest photos
+    const latestPhoto = data.latest_photos[0];
+    if (!latestPhoto) {
+      throw new Error('No photo data available in NASA API response');
+    }
+
+    // Generate weather data based on sol information
+    return this.synthetic.generateWeatherFromSolData(
+      rover,
+      latestPhoto.sol,
+      latestPhoto.earth_date,
+      options
+    );
+  }
+}
+
+/**
+ * Local JSON fixture provider
+ * Reads `<directory>/<rover>.json` containing an array of MarsWeatherSol records
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture';
+
+  constructor(private readonly directory: string) {}
+
+  async getWeatherData(
+    rover: RoverName,
+    options: WeatherDataOptions
+  ): Promise<MarsWeatherData> {
+    const filePath = path.join(this.directory, `${rover}.json`);
+    const contents = await fs.readFile(filePath, 'utf-8');
+    const parsed: unknown = JSON.parse(contents);
+
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new Error(`Fixture ${filePath} contains no sols`);
+    }
+
+    const invalid = parsed.findIndex((entry) => !isWeatherSol(entry));
+    if (invalid !== -1) {
+      throw new Error(`Fixture ${filePath} entry ${invalid} is not a sol`);
+    }
+
+    return selectSols(rover, parsed, options);
+  }
+}
+
+/**
+ * Whether a fixture entry has the sol fields weather consumers read
+ */
+function isWeatherSol(value: unknown): value is MarsWeatherSol {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const { sol, earthDate, temperature, atmosphere, dataQuality } =
+    value as Record<string, unknown>;
+  return (
+    Number.isInteger(sol) &&
+    typeof earthDate === 'string' &&
+    typeof dataQuality === 'string' &&
+    hasNumber(temperature, 'average') &&
+    hasNumber(atmosphere, 'pressure')
+  );
+}
+
+function hasNumber(value: unknown, key: string): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<string, unknown>)[key] === 'number'
+  );
+}
+
+/**
+ * REMS/MEDA archive provider
+ * Reads PDS CSV/TAB products from `<directory>/<rover>/` (searched recursively)
+ * and normalizes real instrument measurements
+ */
+export class ArchiveWeatherProvider implements WeatherProvider {
+  readonly name = 'archive';
+
+  private static readonly PRODUCT_EXTENSIONS = new Set(['.csv', '.tab']);
+
+  // Parsed sols per rover, reused until the archive's file set changes
+  private readonly parsed = new Map<
+    RoverName,
+    { signature: string; sols: MarsWeatherSol[] }
+  >();
+
+  constructor(private readonly directory: string) {}
+
+  async getWeatherData(
+    rover: RoverName,
+    options: WeatherDataOptions
+  ): Promise<MarsWeatherData> {
+    const sols = await this.loadSols(rover);
+    return selectSols(rover, sols, options);
+  }
+
+  /**
+   * Parse every archive product for a rover, reusing results when unchanged
+   */
+  private async loadSols(rover: RoverName): Promise<MarsWeatherSol[]> {
+    const roverDirectory = path.join(this.directory, rover);
+    const files = await this.listProducts(roverDirectory);
+
+    if (files.length === 0) {
+      throw new Error(`No REMS/MEDA archive products in ${roverDirectory}`);
+    }
+
+    const signature = files
+      .map((file) => `${file.path}:${file.mtimeMs}`)
+      .join('|');
+    const cached = this.parsed.get(rover);
+    if (cached && cached.signature === signature) {
+      return cached.sols;
+    }
+
+    const accumulator = new ArchiveAccumulator();
+    for (const file of files) {
+      const text = await fs.readFile(file.path, 'utf-8');
+      const labelColumns = file.labelPath
+        ? parseLabelColumns(await fs.readFile(file.labelPath, 'utf-8'))
+        : [];
+      accumulator.addTable(parseArchiveTable(text, labelColumns));
+    }
+
+    const sols = accumulator.toWeatherSols(rover);
+    this.parsed.set(rover, { signature, sols });
+    return sols;
+  }
+
+  /**
+   * Recursively list CSV/TAB products along with any PDS3 label beside them
+   */
+  private async listProducts(
+    directory: string
+  ): Promise<Array<{ path: string; mtimeMs: number; labelPath?: string }>> {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const names = new Set(entries.map((entry) => entry.name));
+    const products: Array<{
+      path: string;
+      mtimeMs: number;
+      labelPath?: string;
+    }> = [];
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        products.push(...(await this.listProducts(entryPath)));
+        continue;
+      }
+
+      const extension = path.extname(entry.name);
+      if (
+        !ArchiveWeatherProvider.PRODUCT_EXTENSIONS.has(extension.toLowerCase())
+      ) {
+        continue;
+      }
+
+      const { mtimeMs } = await fs.stat(entryPath);
+      const baseName = entry.name.slice(0, -extension.length);
+      const labelName = [`${baseName}.LBL`, `${baseName}.lbl`].find((name) =>
+        names.has(name)
+      );
+
+      products.push(
+        labelName
+          ? {
+              path: entryPath,
+              mtimeMs,
+              labelPath: path.join(directory, labelName),
+            }
+          : { path: entryPath, mtimeMs }
+      );
+    }
+
+    return products;
+  }
+}
+
+/**
+ * Build weather data from a normalized series: the requested sol range when
+ * given, otherwise the most recent sols
+ * Estimated sols are dropped unless explicitly requested
+ */
+function selectSols(
+  rover: RoverName,
+  allSols: MarsWeatherSol[],
+  options: WeatherDataOptions
+): MarsWeatherData {
+  const sols = allSols
+    .filter(
+      (sol) => options.includeEstimated || sol.dataQuality !== 'estimated'
+    )
+    .sort((a, b) => a.sol - b.sol);
+  const { fromSol, toSol } = options;
+  const history =
+    fromSol !== undefined && toSol !== undefined
+      ? sols.filter((sol) => sol.sol >= fromSol && sol.sol <= toSol)
+      : sols.slice(-(options.historyDays ?? 7));
+  const latest = history[history.length - 1];
+
+  if (!latest) {
+    throw new Error(`No usable weather sols for ${rover}`);
+  }
+
+  return {
+    latest,
+    history,
+    rover,
+    lastFetch: new Date().toISOString(),
+    status: history.every((sol) => sol.dataQuality === 'complete')
+      ? 'success'
+      : 'partial',
+  };
+}
+
+/**
+ * Factories for built-in providers, keyed by the names accepted in WEATHER_PROVIDERS
+ * Returns null when a provider is not configured in this environment
+ */
+const BUILT_IN_PROVIDERS: Record<string, () => WeatherProvider | null> = {
+  'nasa-photos': () => new NasaPhotosWeatherProvider(),
+  synthetic: () => new SyntheticWeatherProvider(),
+  fixture: () =>
+    process.env.WEATHER_FIXTURE_DIR
+      ? new FixtureWeatherProvider(process.env.WEATHER_FIXTURE_DIR)
+      : null,
+  archive: () =>
+    process.env.WEATHER_ARCHIVE_DIR
+      ? new ArchiveWeatherProvider(process.env.WEATHER_ARCHIVE_DIR)
+      : null,
+};
+
+/** Default provider order when WEATHER_PROVIDERS is unset */
+const DEFAULT_PROVIDER_ORDER = 'nasa-photos,synthetic';
+
+/**
+ * Build the provider chain from a comma-separated list of provider names
+ * @param spec - Provider names in priority order (defaults to WEATHER_PROVIDERS)
+ * @returns Ordered list of configured providers
+ */
+export function createWeatherProviders(
+  spec: string = process.env.WEATHER_PROVIDERS ?? DEFAULT_PROVIDER_ORDER
+): WeatherProvider[] {
+  const providers: WeatherProvider[] = [];
+
+  for (const rawName of spec.split(',')) {
+    const name = rawName.trim().toLowerCase();
+    if (!name) continue;
+
+    // Own keys only, so names like "constructor" stay unknown
+    const factory = Object.hasOwn(BUILT_IN_PROVIDERS, name)
+      ? BUILT_IN_PROVIDERS[name]
+      : undefined;
+    if (!factory) {
+      console.warn(`Unknown weather provider "${name}" ignored`);
+      continue;
+    }
+
+    const provider = factory();
+    if (provider) {
+      providers.push(provider);
+    } else {
+      console.warn(
+        `Weather provider "${name}" is not configured and was skipped`
+      );
+    }
+  }
+
+  return providers;
+}
@@ -1,6 +1,6 @@
 /**
  * Mars Weather Service
- * Handles NASA API integration, data normalization, and fallback strategies
+ * Orchestrates weather providers, caching, and fallback strategies
  */
 
 import {
@@ -8,35 +8,99 @@ import {
   MarsWeatherData,
   MarsWeatherSol,
   WeatherDataOptions,
+  TemperatureUnit,
+  PressureUnit,
+  WindUnit,
   WeatherApiResponse,
-  NASAPhotoApiResponse,
-  TemperatureData,
-  AtmosphericData,
-  WindData,
-  DataQuality,
+  WeatherProviderHealth,
+  WeatherPagination,
 } from '@/types/weather';
-import { ROVER_LOCATIONS } from '@/lib/constants';
-import { ApiResilience } from '@/lib/retry';
+import { ROVERS, ROVER_NAMES } from '@/lib/rovers';
+import { MarsTimeCalculator } from '@/features/mars-time/time-conversion';
+import {
+  WeatherProvider,
+  SyntheticWeatherProvider,
+  createWeatherProviders,
+} from './weather-providers';
+import { WeatherEvents } from './weather-events';
+import { CacheManager, createCacheKey } from '@/lib/cache';
 import * as Sentry from '@sentry/nextjs';
 
 /**
  * Weather Service Class
- * Implements NASA API integration with intelligent fallback strategies
+ * Consults an ordered chain of weather providers with intelligent fallback
  */
 export class WeatherService {
-  // NASA API endpoints
-  private static readonly NASA_API_KEY = process.env.NASA_API_KEY ?? 'DEMO_KEY';
-  private static readonly CURIOSITY_PHOTOS_URL =
-    'https://api.nasa.gov/mars-photos/api/v1/rovers/curiosity/latest_photos';
-  private static readonly PERSEVERANCE_PHOTOS_URL =
-    'https://api.nasa.gov/mars-photos/api/v1/rovers/perseverance/latest_photos';
-
-  // Cache duration in milliseconds
-  private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-  private static weatherCache = new Map<
-    string,
-    { data: MarsWeatherData; timestamp: number }
-  >();
+  // Sol-range pagination limits
+  static readonly DEFAULT_PAGE_SIZE = 100;
+  static readonly MAX_PAGE_SIZE = 500;
+
+  // Newest sol seen per rover, used to detect new sols for live subscribers
+  private static latestSols = new Map<RoverName, number>();
+
+  // Ordered provider chain, built lazily from WEATHER_PROVIDERS
+  private static providers: WeatherProvider[] | null = null;
+  private static readonly fallbackProvider = new SyntheticWeatherProvider();
+
+  /**
+   * Get the ordered provider chain
+   */
+  static getProviders(): WeatherProvider[] {
+    if (!this.providers) {
+      this.providers = createWeatherProviders();
+    }
+    return [...this.providers];
+  }
+
+  /**
+   * Replace the provider chain
+   * @param providers - Providers in priority order
+   */
+  static setProviders(providers: WeatherProvider[]): void {
+    this.providers = [...providers];
+    void this.invalidateCache(undefined, 'Weather providers changed');
+  }
+
+  /**
+   * Drop cached weather data and notify live subscribers
+   * @param rover - Rover to invalidate (defaults to all rovers)
+   * @param reason - Reason reported to subscribers
+   */
+  static async invalidateCache(
+    rover?: RoverName,
+    reason = 'Cache invalidated'
+  ): Promise<void> {
+    const rovers = rover ? [rover] : ROVER_NAMES;
+
+    await Promise.all(
+      rovers.map((name) =>
+        CacheManager.invalidate(createCacheKey(['weather', name]))
+      )
+    );
+
+    const timestamp = new Date().toISOString();
+    rovers.forEach((name) =>
+      WeatherEvents.publish({
+        type: 'invalidate',
+        rover: name,
+        reason,
+        timestamp,
+      })
+    );
+  }
+
+  /**
+   * Add a provider to the chain
+   * @param provider - Provider to add (replaces any provider with the same name)
+   * @param position - Index to insert at (defaults to highest priority)
+   */
+  static registerProvider(provider: WeatherProvider, position = 0): void {
+    const providers = this.getProviders().filter(
+      (existing) => existing.name !== provider.name
+    );
+    providers.splice(position, 0, provider);
+    this.setProviders(providers);
+  }
 
   /**
    * Main method to get weather data for a rover
@@ -45,43 +109,50 @@ export class WeatherService {
     rover: RoverName,
     options: WeatherDataOptions = {}
   ): Promise<WeatherApiResponse> {
-    const cacheKey = `${rover}-${JSON.stringify(options)}`;
-    const cached = this.getCachedData(cacheKey);
-
-    if (cached) {
-      return {
-        data: cached,
-        meta: {
-          totalSols: cached.history.length,
-          requestTime: new Date().toISOString(),
-          cached: true,
-          cacheExpiry: new Date(Date.now() + this.CACHE_DURATION).toISOString(),
-        },
-      };
-    }
+    // Resolve range queries up front so invalid ranges reach the caller
+    const pagination = this.resolveSolRange(rover, options);
+    const providerOptions: WeatherDataOptions = pagination
+      ? {
+          ...options,
+          ...this.getPageWindow(pagination),
+        }
+      : options;
+
+    const cacheKey = this.getCacheKey(rover, options, pagination);
+    const providerHealth: WeatherProviderHealth[] = [];
 
     try {
-      let weatherData: MarsWeatherData;
-
-      // Primary strategy: NASA Photos API (most reliable)
-      try {
-        weatherData = await this.fetchFromPhotosAPI(rover, options);
-      } catch (error) {
-        console.warn(`Photos API failed for ${rover}:`, error);
-
-        // Fallback to mock data for demo purposes
-        weatherData = this.generateMockWeatherData(rover, options);
-      }
-
-      // Cache the result
-      this.setCachedData(cacheKey, weatherData);
+      const { value, status, expiresAt } = await CacheManager.getOrLoad(
+        'weather',
+        cacheKey,
+        async () => {
+          const { data: rawData, source } = await this.fetchFromProviders(
+            rover,
+            providerOptions,
+            providerHealth
+          );
+          const annotatedData = this.annotateSeasons(rawData);
+          if (!pagination) {
+            this.publishNewSols(rover, annotatedData);
+          }
+          return {
+            data: this.applyUnits(annotatedData, options),
+            source,
+            providers: [...providerHealth],
+          };
+        }
+      );
 
       return {
-        data: weatherData,
+        data: value.data,
         meta: {
-          totalSols: weatherData.history.length,
+          totalSols: value.data.history.length,
           requestTime: new Date().toISOString(),
-          cached: false,
+          cached: status !== 'miss',
+          cacheExpiry: new Date(expiresAt).toISOString(),
+          source: value.source,
+          providers: value.providers,
+          ...(pagination && { pagination }),
         },
       };
     } catch (error) {
@@ -96,12 +167,18 @@ export class WeatherService {
           temperatureUnit: options.temperatureUnit || 'celsius',
           includeEstimated: options.includeEstimated || false,
         });
+        scope.setContext('providers', { health: providerHealth });
         scope.setLevel('error');
         Sentry.captureException(error as Error);
       });
 
       // Ultimate fallback: generate mock data
-      const fallbackData = this.generateMockWeatherData(rover, options);
+      const fallbackData = this.applyUnits(
+        this.annotateSeasons(
+          await this.fallbackProvider.getWeatherData(rover, providerOptions)
+        ),
+        options
+      );
 
       return {
         data: fallbackData,
@@ -109,316 +186,363 @@ export class WeatherService {
           totalSols: fallbackData.history.length,
           requestTime: new Date().toISOString(),
           cached: false,
+          source: this.fallbackProvider.name,
+          providers: providerHealth,
+          ...(pagination && { pagination }),
         },
       };
     }
   }
 
   /**
-   * Fetch weather data from NASA Photos API
-   * Extracts sol information and generates realistic weather data
+   * Resolve fromSol/toSol/fromDate/toDate into a paginated sol range
+   * Ranges are clamped to the mission (sol 0 to the current sol)
+   * @param rover - Rover the range applies to
+   * @param options - Weather data options
+   * @returns Pagination for the range, or null when no range was requested
+   * @throws Error when the range or page contains no sols
    */
-  private static async fetchFromPhotosAPI(
+  static resolveSolRange(
     rover: RoverName,
     options: WeatherDataOptions
-  ): Promise<MarsWeatherData> {
-    const apiUrl =
-      rover === 'curiosity'
-        ? this.CURIOSITY_PHOTOS_URL
-        : this.PERSEVERANCE_PHOTOS_URL;
-
-    // Use resilient fetch with retry logic and circuit breaker
-    const response = await ApiResilience.resilientFetch(
-      `${apiUrl}?api_key=${this.NASA_API_KEY}`,
-      {
-        next: { revalidate: 300 }, // 5 minute cache
-        headers: {
-          Accept: 'application/json',
-          'User-Agent': 'Mars-Weather-Dashboard/1.0',
-        },
-      },
-      {
-        circuitName: `nasa-photos-${rover}`,
-        retryOptions: {
-          maxAttempts: 3,
-          initialDelayMs: 1000,
-          maxDelayMs: 5000,
-          shouldRetry: (error) => {
-            const message = error.message.toLowerCase();
-            return (
-              message.includes('timeout') ||
-              message.includes('network') ||
-              message.includes('500') ||
-              message.includes('502') ||
-              message.includes('503')
-            );
-          },
-          onRetry: (attempt, error) => {
-            console.warn(
-              `Retrying NASA Photos API (attempt ${attempt}) for ${rover}: ${error.message}`
-            );
-          },
-        },
-        circuitOptions: {
-          failureThreshold: 5,
-          resetTimeoutMs: 120000, // 2 minutes
-        },
-      }
+  ): WeatherPagination | null {
+    const { fromSol, toSol, fromDate, toDate } = options;
+    if (
+      fromSol === undefined &&
+      toSol === undefined &&
+      fromDate === undefined &&
+      toDate === undefined
+    ) {
+      return null;
+    }
+
+    // Completed missions stop at their final sol
+    const { landingSol } = ROVERS[rover];
+    const currentSol = MarsTimeCalculator.getRoverSol(rover);
+    const solForDate = (date: string, time: string): number =>
+      MarsTimeCalculator.getRoverSol(rover, new Date(`${date}T${time}Z`));
+
+    const start = Math.max(
+      landingSol,
+      fromSol ?? (fromDate ? solForDate(fromDate, '00:00:00') : landingSol)
+    );
+    const end = Math.min(
+      currentSol,
+      toSol ?? (toDate ? solForDate(toDate, '23:59:59') : currentSol)
     );
 
-    // Additional response validation
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unknown error');
+    if (start > end) {
       throw new Error(
-        `NASA API error: ${response.status} ${response.statusText} - ${errorText}`
+        `Sol range ${start}-${end} is empty for ${rover} (current sol ${currentSol})`
       );
     }
 
-    const data: NASAPhotoApiResponse = await response.json();
-
-    if (!data.latest_photos || data.latest_photos.length === 0) {
-      throw new Error('No photo data available from NASA API');
-    }
+    const pageSize = Math.min(
+      options.pageSize ?? this.DEFAULT_PAGE_SIZE,
+      this.MAX_PAGE_SIZE
+    );
+    const totalSols = end - start + 1;
+    const totalPages = Math.ceil(totalSols / pageSize);
+    const page = options.page ?? 1;
 
-    // Extract sol information from latest photos
-    const latestPhoto = data.latest_photos[0];
-    if (!latestPhoto) {
-      throw new Error('No photo data available in NASA API response');
+    if (page < 1 || page > totalPages) {
+      throw new Error(`Page ${page} is out of range (1-${totalPages})`);
     }
 
-    const currentSol = latestPhoto.sol;
-    const earthDate = latestPhoto.earth_date;
-
-    // Generate weather data based on sol information
-    return this.generateWeatherFromSolData(
-      rover,
-      currentSol,
-      earthDate,
-      options
-    );
+    return {
+      page,
+      pageSize,
+      totalPages,
+      totalSols,
+      fromSol: start,
+      toSol: end,
+    };
   }
 
   /**
-   * Generate realistic weather data based on sol number and rover location
+   * Canonical cache key for a weather request
+   * Defaults are applied and ranges resolved so equivalent requests share an entry
    */
-  private static generateWeatherFromSolData(
+  static getCacheKey(
     rover: RoverName,
-    currentSol: number,
-    earthDate: string,
-    options: WeatherDataOptions
-  ): MarsWeatherData {
-    const historyDays = options.historyDays ?? 7;
-    const history: MarsWeatherSol[] = [];
-
-    // Generate historical data
-    for (let i = historyDays - 1; i >= 0; i--) {
-      const sol = currentSol - i;
-      const solDate = new Date(earthDate);
-      solDate.setDate(solDate.getDate() - i);
-
-      const dateStr = solDate.toISOString().split('T')[0];
-      if (!dateStr) {
-        throw new Error('Invalid date format');
-      }
-      history.push(this.generateSolWeatherData(rover, sol, dateStr, options));
-    }
-
-    const latest = history[history.length - 1];
-    if (!latest) {
-      throw new Error('Failed to generate weather history data');
-    }
+    options: WeatherDataOptions,
+    pagination: WeatherPagination | null = this.resolveSolRange(rover, options)
+  ): string {
+    return createCacheKey(['weather', rover], {
+      temperatureUnit: options.temperatureUnit ?? 'celsius',
+      pressureUnit: options.pressureUnit ?? 'pa',
+      windUnit: options.windUnit ?? 'mps',
+      includeEstimated: options.includeEstimated ?? false,
+      ...(pagination
+        ? {
+            fromSol: pagination.fromSol,
+            toSol: pagination.toSol,
+            page: pagination.page,
+            pageSize: pagination.pageSize,
+          }
+        : { historyDays: options.historyDays ?? 7 }),
+    });
+  }
 
+  /**
+   * Sol window covered by the current page of a range
+   */
+  private static getPageWindow(pagination: WeatherPagination): {
+    fromSol: number;
+    toSol: number;
+  } {
+    const fromSol =
+      pagination.fromSol + (pagination.page - 1) * pagination.pageSize;
     return {
-      latest,
-      history,
-      rover,
-      lastFetch: new Date().toISOString(),
-      status: 'success',
+      fromSol,
+      toSol: Math.min(pagination.toSol, fromSol + pagination.pageSize - 1),
     };
   }
 
   /**
-   * Generate realistic weather data for a specific sol
+   * Try each provider in order until one returns data
+   * Records the outcome of every provider in the supplied health list
    */
-  private static generateSolWeatherData(
+  private static async fetchFromProviders(
     rover: RoverName,
-    sol: number,
-    earthDate: string,
-    options: WeatherDataOptions
-  ): MarsWeatherSol {
-    const roverInfo = ROVER_LOCATIONS[rover];
-    if (!roverInfo) {
-      throw new Error(`Unknown rover: ${rover}`);
-    }
-
-    // Seasonal variations based on sol number
-    const marsYear = 687; // Mars sols per year
-    const seasonFactor = Math.sin((sol / marsYear) * 2 * Math.PI);
+    options: WeatherDataOptions,
+    health: WeatherProviderHealth[]
+  ): Promise<{ data: MarsWeatherData; source: string }> {
+    for (const provider of this.getProviders()) {
+      if (provider.supports && !provider.supports(rover)) {
+        health.push({
+          name: provider.name,
+          status: 'skipped',
+          responseTimeMs: 0,
+          error: `Rover ${rover} not supported`,
+        });
+        continue;
+      }
 
-    // Latitude-based temperature adjustments (for future enhancement)
-    // const latitudeFactor = Math.cos((roverInfo.latitude * Math.PI) / 180);
+      const startTime = Date.now();
+      try {
+        const data = await provider.getWeatherData(rover, options);
+        health.push({
+          name: provider.name,
+          status: 'ok',
+          responseTimeMs: Date.now() - startTime,
+        });
+        return { data, source: provider.name };
+      } catch (error) {
+        console.warn(
+          `Weather provider ${provider.name} failed for ${rover}:`,
+          error
+        );
+        health.push({
+          name: provider.name,
+          status: 'failed',
+          responseTimeMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
 
-    // Random daily variations
-    const dailyVariation = (Math.random() - 0.5) * 10;
+    throw new Error(`All weather providers failed for ${rover}`);
+  }
 
-    // Base temperatures for each rover location (Celsius)
-    const baseTemp = rover === 'curiosity' ? -63 : -77; // Gale vs Jezero crater
-    const seasonalTemp = baseTemp + seasonFactor * 15 + dailyVariation;
+  /**
+   * Publish sols newer than the last one seen for the rover
+   * The first fetch for a rover only records its latest sol
+   */
+  private static publishNewSols(rover: RoverName, data: MarsWeatherData): void {
+    const previous = this.latestSols.get(rover);
+    if (previous !== undefined && data.latest.sol <= previous) return;
+
+    this.latestSols.set(rover, data.latest.sol);
+    if (previous === undefined) return;
+
+    const newSols = new Map<number, MarsWeatherSol>();
+    [...data.history, data.latest]
+      .filter((sol) => sol.sol > previous)
+      .forEach((sol) => newSols.set(sol.sol, sol));
+
+    const timestamp = new Date().toISOString();
+    [...newSols.values()]
+      .sort((a, b) => a.sol - b.sol)
+      .forEach((sol) =>
+        WeatherEvents.publish({ type: 'sol', rover, sol, timestamp })
+      );
+  }
 
-    const temperature: TemperatureData = {
-      min: seasonalTemp - 25 + Math.random() * 5,
-      max: seasonalTemp + 15 + Math.random() * 5,
-      average: seasonalTemp + Math.random() * 5,
-      unit: options.temperatureUnit ?? 'celsius',
-      quality: 'complete' as DataQuality,
+  /**
+   * Add Mars year, solar longitude and season to every sol
+   */
+  private static annotateSeasons(data: MarsWeatherData): MarsWeatherData {
+    return {
+      ...data,
+      latest: this.annotateSol(data.latest),
+      history: data.history.map((sol) => this.annotateSol(sol)),
     };
+  }
 
-    // Mars atmospheric pressure varies with season
-    const basePressure = rover === 'curiosity' ? 750 : 850; // Different altitudes
-    const pressureVariation = seasonFactor * 100 + (Math.random() - 0.5) * 50;
+  /**
+   * Annotate a sol with its Mars year, solar longitude and local season
+   * Values already supplied by a provider are kept
+   * @param sol - Sol data
+   * @returns New sol with marsYear, solarLongitude and season
+   */
+  static annotateSol(sol: MarsWeatherSol): MarsWeatherSol {
+    const roverInfo = ROVERS[sol.rover];
 
-    const atmosphere: AtmosphericData = {
-      pressure: basePressure + pressureVariation,
-      unit: options.pressureUnit ?? 'pa',
-      quality: 'complete' as DataQuality,
-    };
+    // Evaluate at mid-sol so the whole sol maps to one season
+    const msd = MarsTimeCalculator.getRoverSolMSD(sol.rover, sol.sol) + 0.5;
+    const solarLongitude =
+      sol.solarLongitude ??
+      Math.round(MarsTimeCalculator.getMarsLs(msd) * 10) / 10;
 
-    // Wind data (not always available)
-    const wind: WindData | undefined =
-      Math.random() > 0.3
-        ? {
-            speed: Math.random() * 15 + 2, // 2-17 m/s typical for Mars
-            direction: Math.floor(Math.random() * 360),
-            unit: options.windUnit ?? 'mps',
-            quality: Math.random() > 0.8 ? 'partial' : 'complete',
-          }
-        : undefined;
-
-    const result: MarsWeatherSol = {
-      sol,
-      earthDate,
-      temperature,
-      atmosphere,
-      rover,
-      instrument: rover === 'curiosity' ? 'REMS' : 'MEDA',
-      dataQuality: wind?.quality === 'partial' ? 'partial' : 'complete',
-      location: {
-        latitude: roverInfo.latitude,
-        longitude: roverInfo.longitude,
-        landingDate: roverInfo.landingDate.toISOString(),
-        locationName: rover === 'curiosity' ? 'Gale Crater' : 'Jezero Crater',
-      },
-      lastUpdated: new Date().toISOString(),
+    return {
+      ...sol,
+      marsYear: sol.marsYear ?? MarsTimeCalculator.getMarsYear(msd),
+      solarLongitude,
+      season:
+        sol.season ??
+        MarsTimeCalculator.getMarsSeason(solarLongitude, roverInfo.latitude),
     };
-
-    // Add wind data if available
-    if (wind) {
-      result.wind = wind;
-    }
-
-    return result;
   }
 
   /**
-   * Generate mock weather data for demo purposes
+   * Convert every sol (latest and history) to the requested units
    */
-  private static generateMockWeatherData(
-    rover: RoverName,
+  private static applyUnits(
+    data: MarsWeatherData,
     options: WeatherDataOptions
   ): MarsWeatherData {
-    console.info(`Generating mock weather data for ${rover}`);
-
-    // Use current date and approximate sol number
-    const currentDate = new Date();
-    const earthDateStr = currentDate.toISOString().split('T')[0];
-    if (!earthDateStr) {
-      throw new Error('Invalid current date format');
-    }
-
-    // Approximate sol calculation (simplified)
-    const landingDate =
-      ROVER_LOCATIONS[rover]?.landingDate ?? new Date('2012-08-06');
-    const daysSinceLanding = Math.floor(
-      (currentDate.getTime() - landingDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-    const approximateSol = Math.floor(daysSinceLanding / 1.027); // Mars day is ~1.027 Earth days
-
-    return this.generateWeatherFromSolData(
-      rover,
-      approximateSol,
-      earthDateStr,
-      options
-    );
+    return {
+      ...data,
+      latest: this.convertSolUnits(data.latest, options),
+      history: data.history.map((sol) => this.convertSolUnits(sol, options)),
+    };
   }
 
   /**
-   * Cache management methods
+   * Convert a single sol's measurements to the requested units
+   * @param sol - Sol data in any supported units
+   * @param units - Target units (defaults to celsius, pa, mps)
+   * @returns New sol with converted values and unit labels
    */
-  private static getCachedData(key: string): MarsWeatherData | null {
-    const cached = this.weatherCache.get(key);
-    if (!cached) return null;
+  static convertSolUnits(
+    sol: MarsWeatherSol,
+    units: Pick<
+      WeatherDataOptions,
+      'temperatureUnit' | 'pressureUnit' | 'windUnit'
+    > = {}
+  ): MarsWeatherSol {
+    const temperatureUnit = units.temperatureUnit ?? 'celsius';
+    const pressureUnit = units.pressureUnit ?? 'pa';
+    const windUnit = units.windUnit ?? 'mps';
+    const { temperature, atmosphere, wind } = sol;
+
+    const converted: MarsWeatherSol = {
+      ...sol,
+      temperature: {
+        ...temperature,
+        min: this.convertTemperature(
+          temperature.min,
+          temperatureUnit,
+          temperature.unit
+        ),
+        max: this.convertTemperature(
+          temperature.max,
+          temperatureUnit,
+          temperature.unit
+        ),
+        average: this.convertTemperature(
+          temperature.average,
+          temperatureUnit,
+          temperature.unit
+        ),
+        unit: temperatureUnit,
+      },
+      atmosphere: {
+        ...atmosphere,
+        pressure: this.convertPressure(
+          atmosphere.pressure,
+          pressureUnit,
+          atmosphere.unit
+        ),
+        unit: pressureUnit,
+      },
+    };
 
-    const isExpired = Date.now() - cached.timestamp > this.CACHE_DURATION;
-    if (isExpired) {
-      this.weatherCache.delete(key);
-      return null;
+    if (wind) {
+      converted.wind = {
+        ...wind,
+        speed: this.convertWindSpeed(wind.speed, windUnit, wind.unit),
+        unit: windUnit,
+      };
     }
 
-    return cached.data;
-  }
-
-  private static setCachedData(key: string, data: MarsWeatherData): void {
-    this.weatherCache.set(key, {
-      data,
-      timestamp: Date.now(),
-    });
-
-    // Clean up old cache entries periodically
-    if (this.weatherCache.size > 50) {
-      const oldestKey = this.weatherCache.keys().next().value;
-      if (oldestKey) {
-        this.weatherCache.delete(oldestKey);
-      }
-    }
+    return converted;
   }
 
   /**
    * Utility method to convert temperature units
    */
   static convertTemperature(
-    celsius: number,
-    targetUnit: 'celsius' | 'fahrenheit'
+    value: number,
+    targetUnit: TemperatureUnit,
+    sourceUnit: TemperatureUnit = 'celsius'
   ): number {
-    if (targetUnit === 'fahrenheit') {
-      return (celsius * 9) / 5 + 32;
+    let celsius: number;
+    switch (sourceUnit) {
+      case 'fahrenheit':
+        celsius = ((value - 32) * 5) / 9;
+        break;
+      case 'kelvin':
+        celsius = value - 273.15;
+        break;
+      default:
+        celsius = value;
+    }
+
+    switch (targetUnit) {
+      case 'fahrenheit':
+        return (celsius * 9) / 5 + 32;
+      case 'kelvin':
+        return celsius + 273.15;
+      default:
+        return celsius;
     }
-    return celsius;
   }
 
   /**
    * Utility method to convert pressure units
    */
   static convertPressure(
-    pa: number,
-    targetUnit: 'pa' | 'hpa' | 'mbar'
+    value: number,
+    targetUnit: PressureUnit,
+    sourceUnit: PressureUnit = 'pa'
   ): number {
-    switch (targetUnit) {
-      case 'hpa':
-        return pa / 100;
-      case 'mbar':
-        return pa / 100;
-      default:
-        return pa;
-    }
+    // hPa and mbar are the same magnitude (100 Pa)
+    const pa = sourceUnit === 'pa' ? value : value * 100;
+    return targetUnit === 'pa' ? pa : pa / 100;
   }
 
   /**
    * Utility method to convert wind speed units
    */
   static convertWindSpeed(
-    mps: number,
-    targetUnit: 'mps' | 'kph' | 'mph'
+    value: number,
+    targetUnit: WindUnit,
+    sourceUnit: WindUnit = 'mps'
   ): number {
+    let mps: number;
+    switch (sourceUnit) {
+      case 'kph':
+        mps = value / 3.6;
+        break;
+      case 'mph':
+        mps = value / 2.237;
+        break;
+      default:
+        mps = value;
+    }
+
     switch (targetUnit) {
       case 'kph':
         return mps * 3.6;
@@ -0,0 +1,72 @@
+/**
+ * Live weather stream service
+ * Shares one upstream poll per rover across all live subscribers
+ */
+
+import { RoverName } from '@/types/weather';
+import { WeatherService } from './weather-service';
+import { WeatherEvents, WeatherEventListener } from './weather-events';
+
+/**
+ * Weather Stream Service Class
+ * Polls WeatherService while a rover has subscribers so new sols are published once
+ */
+export class WeatherStreamService {
+  // Matches the WeatherService cache duration so each poll can see new data
+  static readonly POLL_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+  private static pollers = new Map<RoverName, ReturnType<typeof setInterval>>();
+
+  /**
+   * Subscribe to new sols and cache invalidations for a rover
+   * @returns Function that ends the subscription
+   */
+  static subscribe(
+    rover: RoverName,
+    listener: WeatherEventListener
+  ): () => void {
+    const unsubscribe = WeatherEvents.subscribe(rover, listener);
+
+    if (!this.pollers.has(rover)) {
+      // Prime the latest known sol so the next poll can detect new ones
+      void this.poll(rover);
+      this.pollers.set(
+        rover,
+        setInterval(() => void this.poll(rover), this.POLL_INTERVAL)
+      );
+    }
+
+    return (): void => {
+      unsubscribe();
+      if (WeatherEvents.listenerCount(rover) === 0) {
+        this.stopPolling(rover);
+      }
+    };
+  }
+
+  /**
+   * Whether a shared poller is running for a rover
+   */
+  static isPolling(rover: RoverName): boolean {
+    return this.pollers.has(rover);
+  }
+
+  /**
+   * Fetch the latest weather; WeatherService publishes any new sols
+   */
+  static async poll(rover: RoverName): Promise<void> {
+    try {
+      await WeatherService.getWeatherData(rover);
+    } catch (error) {
+      console.error(`Weather stream poll failed for ${rover}:`, error);
+    }
+  }
+
+  private static stopPolling(rover: RoverName): void {
+    const poller = this.pollers.get(rover);
+    if (poller) {
+      clearInterval(poller);
+      this.pollers.delete(rover);
+    }
+  }
+}
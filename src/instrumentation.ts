@@ -1,6 +1,8 @@
 /**
  * Next.js Instrumentation File
  * This file is used to initialize Sentry for server-side and edge runtime
+ * and to configure the shared cache backend and NASA fixture mode on the
+ * Node.js runtime
  * @see https://nextjs.org/docs/app/building-your-application/optimizing/instrumentation
  */
 
@@ -11,7 +13,18 @@ const SENTRY_DSN = process.env.SENTRY_DSN;
 // Export request error handler for nested React Server Components
 export const onRequestError = Sentry.captureRequestError;
 
-export function register(): void {
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Select the shared cache backend (memory, filesystem or redis)
+    const { configureCacheFromEnv } = await import('@/lib/cache-stores');
+    configureCacheFromEnv();
+
+    // Record or replay NASA responses (NASA_FIXTURE_MODE)
+    const { configureNasaFixturesFromEnv } =
+      await import('@/lib/nasa-fixtures');
+    configureNasaFixturesFromEnv();
+  }
+
   if (process.env.NEXT_RUNTIME === 'nodejs' && SENTRY_DSN) {
     // Server-side initialization
     Sentry.init({
@@ -0,0 +1,62 @@
+/**
+ * Admin request authorization (server-only)
+ * Admin routes are disabled unless ADMIN_API_TOKEN is set
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Outcome of checking an admin request
+ */
+export type AdminAuthResult =
+  | { authorized: true }
+  | {
+      authorized: false;
+      /** 401 for a missing or wrong token, 503 when admin access is disabled */
+      status: 401 | 503;
+      code: 'UNAUTHORIZED' | 'ADMIN_DISABLED';
+      reason: string;
+    };
+
+/**
+ * Check an admin request's token
+ * Accepts `Authorization: Bearer <token>` or an `X-Admin-Token` header
+ * @param request - Incoming request
+ * @param token - Expected token (defaults to ADMIN_API_TOKEN)
+ */
+export function authorizeAdminRequest(
+  request: Request,
+  token: string | undefined = process.env.ADMIN_API_TOKEN
+): AdminAuthResult {
+  if (!token) {
+    return {
+      authorized: false,
+      status: 503,
+      code: 'ADMIN_DISABLED',
+      reason: 'Admin API is disabled; set ADMIN_API_TOKEN to enable it',
+    };
+  }
+
+  const authorization = request.headers.get('authorization') ?? '';
+  const supplied = authorization.toLowerCase().startsWith('bearer ')
+    ? authorization.slice('bearer '.length).trim()
+    : request.headers.get('x-admin-token');
+
+  if (!supplied || !tokensMatch(supplied, token)) {
+    return {
+      authorized: false,
+      status: 401,
+      code: 'UNAUTHORIZED',
+      reason: 'Missing or invalid admin token',
+    };
+  }
+
+  return { authorized: true };
+}
+
+/** Constant-time comparison; hashing first makes the lengths equal */
+function tokensMatch(supplied: string, expected: string): boolean {
+  const digest = (value: string): Buffer =>
+    createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(supplied), digest(expected));
+}
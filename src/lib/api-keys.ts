@@ -0,0 +1,472 @@
+/**
+ * Public API keys (server-only)
+ * Issued client keys, their per-key hourly quotas and usage counters, and
+ * the per-address quotas of keyless first-party callers
+ */
+
+import { promises as fs } from 'fs';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import path from 'path';
+import { TokenBucket, TokenBucketStatus } from './rate-limiter';
+import {
+  ApiKeyRecord,
+  ApiKeySummary,
+  ApiKeyUsage,
+  IssuedApiKey,
+} from '@/types/api-keys';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Quota buckets kept before full (idle) ones are dropped */
+const MAX_TRACKED_BUCKETS = 10_000;
+
+/** Issued keys start with this so they are easy to spot in logs and configs */
+export const API_KEY_PREFIX = 'mwd_';
+
+/** Days of daily usage kept per key */
+export const USAGE_HISTORY_DAYS = 30;
+
+/** Delay between a counted request and writing usage to the key file (ms) */
+export const USAGE_FLUSH_DELAY_MS = 5000;
+
+/** Default key file, relative to the working directory */
+export const DEFAULT_API_KEYS_FILE = path.join('data', 'api-keys.json');
+
+/**
+ * SHA-256 of a key; only hashes are stored
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Key sent with a request
+ * Accepts an `X-API-Key` header, `Authorization: Bearer <key>`, or an
+ * `api_key` query parameter for clients that cannot set headers (EventSource)
+ */
+export function getApiKeyFromRequest(request: Request): string | null {
+  const header = request.headers.get('x-api-key')?.trim();
+  if (header) return header;
+
+  const authorization = request.headers.get('authorization') ?? '';
+  if (authorization.toLowerCase().startsWith('bearer ')) {
+    const bearer = authorization.slice('bearer '.length).trim();
+    if (bearer) return bearer;
+  }
+
+  return new URL(request.url).searchParams.get('api_key')?.trim() || null;
+}
+
+/**
+ * Address of the calling client
+ * Each trusted proxy in front of the app appends the address it received
+ * the request from to X-Forwarded-For; entries left of those are sent by
+ * the client and ignored. TRUSTED_PROXY_HOPS sets how many proxies append
+ * (default 1, the hosting platform's); with 0, or too few entries, every
+ * caller shares the 'unknown' address.
+ */
+export function getClientAddress(
+  request: Request,
+  env: Record<string, string | undefined> = process.env
+): string {
+  const hops = Number(env.TRUSTED_PROXY_HOPS ?? 1);
+  if (!Number.isInteger(hops) || hops <= 0) return 'unknown';
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - hops] ?? 'unknown';
+}
+
+/**
+ * File-backed API key store
+ * Keys live in one JSON file, reloaded when another process changes it.
+ * Operations are serialized so concurrent updates are not lost. Usage is
+ * counted in memory and written in batches, so requests never wait on the
+ * file; counts not yet written are lost if the process exits.
+ */
+export class FileApiKeyStore {
+  private records: ApiKeyRecord[] = [];
+  private loadedMtimeMs: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  /** Usage counted since the last write, by key id */
+  private pendingUsage = new Map<string, ApiKeyUsage>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    readonly file: string,
+    private readonly flushDelayMs = USAGE_FLUSH_DELAY_MS
+  ) {}
+
+  /**
+   * Every key, including revoked ones, with usage not yet written
+   */
+  list(): Promise<ApiKeyRecord[]> {
+    return this.exclusive(async () => {
+      await this.load();
+      return this.records.map((record) => {
+        const pending = this.pendingUsage.get(record.id);
+        const copy = copyRecord(record);
+        return pending
+          ? { ...copy, usage: addUsage(copy.usage, pending) }
+          : copy;
+      });
+    });
+  }
+
+  /**
+   * Issue a new key
+   * @returns The key secret (not stored) and its record
+   */
+  issue(name: string, rateLimitPerHour: number): Promise<IssuedApiKey> {
+    return this.exclusive(async () => {
+      await this.load();
+
+      const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+      const record: ApiKeyRecord = {
+        id: randomUUID(),
+        name,
+        keyHash: hashApiKey(key),
+        keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+        rateLimitPerHour,
+        createdAt: new Date().toISOString(),
+        revokedAt: null,
+        usage: {
+          totalRequests: 0,
+          rejectedRequests: 0,
+          lastUsedAt: null,
+          daily: {},
+        },
+      };
+
+      this.records.push(record);
+      await this.save();
+
+      return { key, apiKey: toApiKeySummary(record) };
+    });
+  }
+
+  /**
+   * Active (not revoked) key matching a secret
+   */
+  authenticate(key: string): Promise<ApiKeyRecord | null> {
+    return this.exclusive(async () => {
+      await this.load();
+      const keyHash = hashApiKey(key);
+      const record = this.records.find(
+        (item) => item.keyHash === keyHash && item.revokedAt === null
+      );
+      return record ? copyRecord(record) : null;
+    });
+  }
+
+  /**
+   * Revoke a key
+   * @returns The revoked key, or null if no key has this id
+   */
+  revoke(id: string): Promise<ApiKeyRecord | null> {
+    return this.exclusive(async () => {
+      await this.load();
+      const record = this.records.find((item) => item.id === id);
+      if (!record) return null;
+
+      if (record.revokedAt === null) {
+        record.revokedAt = new Date().toISOString();
+        await this.save();
+      }
+      return copyRecord(record);
+    });
+  }
+
+  /**
+   * Count a request made with a key
+   * The count is written to the file flushDelayMs later, batched with any
+   * other requests counted meanwhile
+   * @param accepted - False when the rate limit rejected the request
+   */
+  recordUsage(id: string, accepted: boolean, now = new Date()): void {
+    const lastUsedAt = now.toISOString();
+    const request: ApiKeyUsage = {
+      totalRequests: accepted ? 1 : 0,
+      rejectedRequests: accepted ? 0 : 1,
+      lastUsedAt,
+      daily: accepted ? { [lastUsedAt.slice(0, 10)]: 1 } : {},
+    };
+    const pending = this.pendingUsage.get(id);
+    this.pendingUsage.set(id, pending ? addUsage(pending, request) : request);
+
+    if (this.flushTimer === null) {
+      this.flushTimer = setTimeout(() => {
+        this.flush().catch((error) => {
+          console.error('API key usage write failed:', error);
+        });
+      }, this.flushDelayMs);
+      // Pending counts must not keep the process alive
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * Write counted usage to the key file now
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    return this.exclusive(async () => {
+      if (this.pendingUsage.size === 0) return;
+      const written = this.pendingUsage;
+      this.pendingUsage = new Map();
+
+      try {
+        await this.load();
+        for (const [id, usage] of written) {
+          const record = this.records.find((item) => item.id === id);
+          if (record) record.usage = addUsage(record.usage, usage);
+        }
+        await this.save();
+      } catch (error) {
+        // Keep the counts for the next write and drop the half-applied ones
+        for (const [id, usage] of written) {
+          const pending = this.pendingUsage.get(id);
+          this.pendingUsage.set(id, pending ? addUsage(usage, pending) : usage);
+        }
+        this.loadedMtimeMs = null;
+        throw error;
+      }
+    });
+  }
+
+  /** Run operations one at a time, in call order */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Read the file if it changed since the last read */
+  private async load(): Promise<void> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.file)).mtimeMs;
+    } catch {
+      // No file yet: no keys have been issued
+      this.records = [];
+      this.loadedMtimeMs = null;
+      return;
+    }
+
+    if (mtimeMs === this.loadedMtimeMs) return;
+
+    const stored = JSON.parse(await fs.readFile(this.file, 'utf8'));
+    this.records = Array.isArray(stored?.keys) ? stored.keys : [];
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    // Write then rename so readers never see a partial file
+    const tempFile = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(
+      tempFile,
+      JSON.stringify({ keys: this.records }, null, 2),
+      'utf8'
+    );
+    await fs.rename(tempFile, this.file);
+    this.loadedMtimeMs = (await fs.stat(this.file)).mtimeMs;
+  }
+}
+
+/**
+ * Key without its hash, as shown by the admin API
+ */
+export function toApiKeySummary(record: ApiKeyRecord): ApiKeySummary {
+  return {
+    id: record.id,
+    name: record.name,
+    keyPrefix: record.keyPrefix,
+    rateLimitPerHour: record.rateLimitPerHour,
+    createdAt: record.createdAt,
+    revokedAt: record.revokedAt,
+    usage: { ...record.usage, daily: { ...record.usage.daily } },
+  };
+}
+
+/**
+ * Counters after adding more requests; keeps only the most recent days
+ */
+function addUsage(usage: ApiKeyUsage, added: ApiKeyUsage): ApiKeyUsage {
+  const daily = { ...usage.daily };
+  for (const [day, count] of Object.entries(added.daily)) {
+    daily[day] = (daily[day] ?? 0) + count;
+  }
+
+  return {
+    totalRequests: usage.totalRequests + added.totalRequests,
+    rejectedRequests: usage.rejectedRequests + added.rejectedRequests,
+    // ISO timestamps sort chronologically
+    lastUsedAt:
+      (added.lastUsedAt ?? '') > (usage.lastUsedAt ?? '')
+        ? added.lastUsedAt
+        : usage.lastUsedAt,
+    daily: Object.fromEntries(
+      Object.entries(daily)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .slice(-USAGE_HISTORY_DAYS)
+    ),
+  };
+}
+
+function copyRecord(record: ApiKeyRecord): ApiKeyRecord {
+  return {
+    ...record,
+    usage: { ...record.usage, daily: { ...record.usage.daily } },
+  };
+}
+
+/**
+ * Outcome of charging a request to a key's quota
+ */
+export interface ApiKeyQuotaResult {
+  allowed: boolean;
+  /** Requests allowed per hour */
+  limit: number;
+  /** Whole requests left now */
+  remaining: number;
+  /** Time until the next request is allowed (ms); 0 when allowed */
+  retryAfterMs: number;
+}
+
+/**
+ * Per-key hourly quotas
+ * One token bucket per key (or client address), sized from its
+ * rateLimitPerHour
+ */
+export class ApiKeyRateLimiter {
+  private readonly buckets = new Map<string, TokenBucket>();
+
+  /** @param bucketPrefix - Prefix of bucket names in status reports */
+  constructor(private readonly bucketPrefix = 'api-key') {}
+
+  /**
+   * Take one request from a key's quota
+   */
+  consume(
+    record: Pick<ApiKeyRecord, 'id' | 'rateLimitPerHour'>
+  ): ApiKeyQuotaResult {
+    const bucket = this.bucketFor(record);
+    const allowed = bucket.tryRemove();
+
+    return {
+      allowed,
+      limit: bucket.capacity,
+      remaining: bucket.getStatus().remaining,
+      retryAfterMs: allowed ? 0 : bucket.getWaitTime(),
+    };
+  }
+
+  /**
+   * Quota state of every key seen by this process
+   */
+  getStatus(): TokenBucketStatus[] {
+    return [...this.buckets.values()].map((bucket) => bucket.getStatus());
+  }
+
+  /**
+   * Forget every key's bucket (all keys start full again)
+   */
+  reset(): void {
+    this.buckets.clear();
+  }
+
+  private bucketFor(
+    record: Pick<ApiKeyRecord, 'id' | 'rateLimitPerHour'>
+  ): TokenBucket {
+    const existing = this.buckets.get(record.id);
+    // A changed limit takes effect immediately with a fresh bucket
+    if (existing && existing.capacity === record.rateLimitPerHour) {
+      return existing;
+    }
+
+    if (this.buckets.size >= MAX_TRACKED_BUCKETS) this.dropFullBuckets();
+
+    const bucket = new TokenBucket({
+      name: `${this.bucketPrefix}-${record.id}`,
+      capacity: record.rateLimitPerHour,
+      refillIntervalMs: HOUR_MS,
+    });
+    this.buckets.set(record.id, bucket);
+    return bucket;
+  }
+
+  /** Forget callers whose quota has fully refilled; they start full anyway */
+  private dropFullBuckets(): void {
+    for (const [id, bucket] of this.buckets) {
+      const { remaining, capacity } = bucket.getStatus();
+      if (remaining >= capacity) this.buckets.delete(id);
+    }
+  }
+}
+
+/**
+ * Hourly quota given to newly issued keys
+ * API_KEY_RATE_LIMIT_PER_HOUR overrides the default of 100
+ */
+export function getDefaultApiKeyRateLimit(
+  env: Record<string, string | undefined> = process.env
+): number {
+  return positiveIntegerOr(env.API_KEY_RATE_LIMIT_PER_HOUR, 100);
+}
+
+/**
+ * Hourly quota of each keyless first-party client address
+ * ANONYMOUS_RATE_LIMIT_PER_HOUR overrides the default of 600
+ */
+export function getAnonymousRateLimit(
+  env: Record<string, string | undefined> = process.env
+): number {
+  return positiveIntegerOr(env.ANONYMOUS_RATE_LIMIT_PER_HOUR, 600);
+}
+
+function positiveIntegerOr(
+  value: string | undefined,
+  fallback: number
+): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+let apiKeyStore: FileApiKeyStore | null = null;
+
+/**
+ * Store shared by the proxy and the admin API
+ * API_KEYS_FILE overrides the key file location
+ */
+export function getApiKeyStore(): FileApiKeyStore {
+  apiKeyStore ??= new FileApiKeyStore(
+    process.env.API_KEYS_FILE || DEFAULT_API_KEYS_FILE
+  );
+  return apiKeyStore;
+}
+
+/**
+ * Replace the shared store; null recreates it from the environment on next use
+ */
+export function setApiKeyStore(store: FileApiKeyStore | null): void {
+  apiKeyStore = store;
+}
+
+/**
+ * Quotas shared by every versioned API request in this process
+ */
+export const apiKeyRateLimiter = new ApiKeyRateLimiter();
+
+/**
+ * Quotas shared by every keyless first-party request in this process,
+ * one per client address
+ */
+export const anonymousRateLimiter = new ApiKeyRateLimiter('anonymous');
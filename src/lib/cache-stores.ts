@@ -0,0 +1,307 @@
+/**
+ * Persistent cache stores (server-only)
+ * Filesystem and Redis-compatible backends for the shared cache layer
+ */
+
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import os from 'os';
+import path from 'path';
+import {
+  CacheEntry,
+  CacheManager,
+  CacheStore,
+  MemoryCacheStore,
+  CacheDataType,
+  CachePolicy,
+} from './cache';
+
+/**
+ * Filesystem cache store
+ * One JSON file per key; several instances can share a mounted directory
+ */
+export class FileSystemCacheStore implements CacheStore {
+  readonly name = 'filesystem';
+
+  constructor(private readonly directory: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const file = this.fileFor(key);
+    let stored: { key: string; entry: CacheEntry<T> };
+
+    try {
+      stored = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+      return null;
+    }
+
+    if (stored.key !== key) return null;
+    if (Date.now() > stored.entry.staleUntil) {
+      await fs.rm(file, { force: true });
+      return null;
+    }
+
+    return stored.entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write then rename so readers never see a partial file
+    const file = this.fileFor(key);
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify({ key, entry }), 'utf8');
+    await fs.rename(tempFile, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (prefix === undefined) {
+      const files = await this.listFiles();
+      await Promise.all(files.map((file) => fs.rm(file, { force: true })));
+      return;
+    }
+
+    const stored = await this.readKeys();
+    await Promise.all(
+      stored
+        .filter(({ key }) => key.startsWith(prefix))
+        .map(({ file }) => fs.rm(file, { force: true }))
+    );
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const stored = await this.readKeys();
+    return stored.map(({ key }) => key).filter((key) => key.startsWith(prefix));
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => path.join(this.directory, file));
+    } catch {
+      return [];
+    }
+  }
+
+  /** Read the key stored in every cache file, skipping unreadable files */
+  private async readKeys(): Promise<Array<{ file: string; key: string }>> {
+    const files = await this.listFiles();
+    const stored = await Promise.all(
+      files.map(async (file) => {
+        try {
+          const { key } = JSON.parse(await fs.readFile(file, 'utf8'));
+          return typeof key === 'string' ? { file, key } : null;
+        } catch {
+          return null;
+        }
+      })
+    );
+    return stored.filter(
+      (item): item is { file: string; key: string } => item !== null
+    );
+  }
+
+  private fileFor(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
+
+/**
+ * Minimal Redis command interface
+ * Satisfied by the REST client below or a thin wrapper around any Redis client
+ */
+export interface RedisCommandClient {
+  /** Run a Redis command (e.g. ['GET', key]) and return its reply */
+  command(args: Array<string | number>): Promise<unknown>;
+}
+
+/**
+ * Create a client for Redis REST endpoints (Upstash / Vercel KV protocol)
+ * @param url - REST endpoint URL
+ * @param token - Bearer token
+ */
+export function createRestRedisClient(
+  url: string,
+  token: string
+): RedisCommandClient {
+  return {
+    async command(args): Promise<unknown> {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(args),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Redis REST API responded with ${response.status}: ${response.statusText}`
+        );
+      }
+
+      const body = (await response.json()) as {
+        result?: unknown;
+        error?: string;
+      };
+      if (body.error) {
+        throw new Error(`Redis error: ${body.error}`);
+      }
+      return body.result ?? null;
+    },
+  };
+}
+
+/**
+ * Redis-compatible cache store
+ * Entries expire in Redis once their stale window has passed
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly name = 'redis';
+
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly namespace = 'mars-weather:'
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const raw = await this.client.command(['GET', this.namespace + key]);
+    if (typeof raw !== 'string') return null;
+
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    return Date.now() > entry.staleUntil ? null : entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const ttlMs = Math.max(1, Math.ceil(entry.staleUntil - Date.now()));
+    await this.client.command([
+      'SET',
+      this.namespace + key,
+      JSON.stringify(entry),
+      'PX',
+      ttlMs,
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command(['DEL', this.namespace + key]);
+  }
+
+  async clear(prefix = ''): Promise<void> {
+    await this.scan(prefix, async (keys) => {
+      await this.client.command(['DEL', ...keys]);
+    });
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const keys: string[] = [];
+    await this.scan(prefix, async (batch) => {
+      keys.push(...batch.map((key) => key.slice(this.namespace.length)));
+    });
+    return keys;
+  }
+
+  /** Walk namespaced keys matching prefix in SCAN batches */
+  private async scan(
+    prefix: string,
+    onBatch: (keys: string[]) => Promise<void>
+  ): Promise<void> {
+    const pattern = `${this.namespace}${escapeGlob(prefix)}*`;
+    let cursor = '0';
+
+    do {
+      const reply = (await this.client.command([
+        'SCAN',
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        100,
+      ])) as [string, string[]];
+      cursor = String(reply[0]);
+
+      if (reply[1].length > 0) {
+        await onBatch(reply[1]);
+      }
+    } while (cursor !== '0');
+  }
+}
+
+/**
+ * Create the cache store selected by CACHE_BACKEND
+ * memory (default), filesystem (CACHE_DIR) or redis (REDIS_REST_URL/TOKEN)
+ */
+export function createCacheStoreFromEnv(
+  env: Record<string, string | undefined> = process.env
+): CacheStore {
+  const backend = (env.CACHE_BACKEND ?? 'memory').trim().toLowerCase();
+
+  switch (backend) {
+    case 'filesystem':
+      return new FileSystemCacheStore(
+        env.CACHE_DIR || path.join(os.tmpdir(), 'mars-weather-cache')
+      );
+    case 'redis':
+      if (!env.REDIS_REST_URL || !env.REDIS_REST_TOKEN) {
+        console.warn(
+          'CACHE_BACKEND=redis requires REDIS_REST_URL and REDIS_REST_TOKEN; using memory cache'
+        );
+        return new MemoryCacheStore();
+      }
+      return new RedisCacheStore(
+        createRestRedisClient(env.REDIS_REST_URL, env.REDIS_REST_TOKEN)
+      );
+    case 'memory':
+      return new MemoryCacheStore();
+    default:
+      console.warn(`Unknown CACHE_BACKEND "${backend}"; using memory cache`);
+      return new MemoryCacheStore();
+  }
+}
+
+/**
+ * Configure the shared cache from environment variables
+ * CACHE_TTL_<TYPE> and CACHE_SWR_<TYPE> override policies in seconds
+ */
+export function configureCacheFromEnv(
+  env: Record<string, string | undefined> = process.env
+): void {
+  const types: CacheDataType[] = [
+    'weather',
+    'photos',
+    'manifest',
+    'climatology',
+  ];
+  const policies: Partial<Record<CacheDataType, Partial<CachePolicy>>> = {};
+
+  for (const type of types) {
+    const ttl = parseSeconds(env[`CACHE_TTL_${type.toUpperCase()}`]);
+    const swr = parseSeconds(env[`CACHE_SWR_${type.toUpperCase()}`]);
+    if (ttl !== undefined || swr !== undefined) {
+      policies[type] = {
+        ...(ttl !== undefined && { ttlMs: ttl }),
+        ...(swr !== undefined && { staleWhileRevalidateMs: swr }),
+      };
+    }
+  }
+
+  CacheManager.configure({ store: createCacheStoreFromEnv(env), policies });
+}
+
+function parseSeconds(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,496 @@
+/**
+ * Shared cache layer
+ * Pluggable cache stores with per-type TTLs and stale-while-revalidate
+ */
+
+/**
+ * Cached value with freshness timestamps
+ */
+export interface CacheEntry<T = unknown> {
+  /** Cached value */
+  value: T;
+  /** When the value was stored (ms since epoch) */
+  storedAt: number;
+  /** When the value stops being fresh (ms since epoch) */
+  expiresAt: number;
+  /** When the value can no longer be served stale (ms since epoch) */
+  staleUntil: number;
+}
+
+/**
+ * Storage backend for cache entries
+ * Stores must tolerate concurrent use and never throw for a missing key
+ */
+export interface CacheStore {
+  /** Backend name (e.g. "memory", "filesystem", "redis") */
+  readonly name: string;
+  /** Read an entry, or null if missing or past its stale window */
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  /** Write an entry; stores may drop it after staleUntil */
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  /** Remove a single entry */
+  delete(key: string): Promise<void>;
+  /** Remove every entry whose key starts with prefix (all entries if omitted) */
+  clear(prefix?: string): Promise<void>;
+  /** List keys starting with prefix (all keys if omitted) */
+  keys(prefix?: string): Promise<string[]>;
+}
+
+/** Kinds of cached data, each with its own freshness policy */
+export type CacheDataType = 'weather' | 'photos' | 'manifest' | 'climatology';
+
+/**
+ * Freshness policy for a cached data type
+ */
+export interface CachePolicy {
+  /** How long a value is fresh (ms) */
+  ttlMs: number;
+  /** How long past ttl a value may be served while revalidating (ms) */
+  staleWhileRevalidateMs: number;
+}
+
+/**
+ * Result of a cache lookup through CacheManager.getOrLoad
+ */
+export interface CacheResult<T> {
+  /** Cached or freshly loaded value */
+  value: T;
+  /** hit: fresh cache, stale: served while revalidating, miss: loaded */
+  status: 'hit' | 'stale' | 'miss';
+  /** When the value stops being fresh (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Lookup counters for one data type
+ */
+export interface CacheCounters {
+  /** Fresh values served from the cache */
+  hits: number;
+  /** Stale values served while revalidating */
+  stale: number;
+  /** Values loaded because nothing usable was cached */
+  misses: number;
+}
+
+/**
+ * Cache statistics since startup or the last reset
+ */
+export interface CacheStats extends CacheCounters {
+  /** Share of lookups served from the cache, fresh or stale (0-1) */
+  hitRate: number;
+  /** Counters per data type */
+  byType: Record<CacheDataType, CacheCounters>;
+}
+
+/**
+ * Cache entry metadata reported by the admin cache endpoint
+ */
+export interface CacheEntrySummary {
+  /** Cache key */
+  key: string;
+  /** Data type taken from the key namespace, if known */
+  type: CacheDataType | null;
+  /** fresh: within ttl, stale: served while revalidating */
+  state: 'fresh' | 'stale';
+  /** When the value was stored (ISO) */
+  storedAt: string;
+  /** When the value stops being fresh (ISO) */
+  expiresAt: string;
+  /** When the value can no longer be served (ISO) */
+  staleUntil: string;
+  /** Approximate size of the serialized value in bytes */
+  sizeBytes: number;
+}
+
+/** Parameter values accepted by createCacheKey */
+export type CacheKeyParams = Record<
+  string,
+  string | number | boolean | null | undefined
+>;
+
+/**
+ * Default freshness policies per data type
+ */
+export const DEFAULT_CACHE_POLICIES: Record<CacheDataType, CachePolicy> = {
+  weather: {
+    ttlMs: 5 * 60 * 1000, // 5 minutes
+    staleWhileRevalidateMs: 10 * 60 * 1000, // 10 minutes
+  },
+  photos: {
+    ttlMs: 30 * 60 * 1000, // 30 minutes
+    staleWhileRevalidateMs: 2 * 60 * 60 * 1000, // 2 hours
+  },
+  manifest: {
+    ttlMs: 24 * 60 * 60 * 1000, // 1 day
+    staleWhileRevalidateMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+  },
+  climatology: {
+    ttlMs: 60 * 60 * 1000, // 1 hour
+    staleWhileRevalidateMs: 24 * 60 * 60 * 1000, // 1 day
+  },
+};
+
+/**
+ * Build a canonical cache key
+ * Parameters are sorted and empty values dropped, so equivalent requests
+ * share one entry: createCacheKey(['weather', 'curiosity'], { b: 2, a: 1 })
+ * gives "weather:curiosity:a=1&b=2".
+ * @param segments - Key namespace, most general first (e.g. type, rover)
+ * @param params - Request parameters; callers should apply defaults first
+ * @returns Key ending in ":" plus the sorted parameters
+ */
+export function createCacheKey(
+  segments: string[],
+  params: CacheKeyParams = {}
+): string {
+  const query = Object.keys(params)
+    .filter((name) => params[name] !== undefined && params[name] !== null)
+    .sort()
+    .map(
+      (name) =>
+        `${encodeURIComponent(name)}=${encodeURIComponent(String(params[name]))}`
+    )
+    .join('&');
+
+  return `${segments.join(':')}:${query}`;
+}
+
+/**
+ * In-process cache store
+ * Not shared between server instances; evicts the least recently used entry when full
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (Date.now() > entry.staleUntil) {
+      return null;
+    }
+
+    // Re-insert so Map order runs from least to most recently used
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    if (this.entries.size > this.maxEntries) {
+      const leastRecentKey = this.entries.keys().next().value;
+      if (leastRecentKey !== undefined) {
+        this.entries.delete(leastRecentKey);
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (prefix === undefined) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const key of await this.keys(prefix)) {
+      this.entries.delete(key);
+    }
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    return [...this.entries.keys()].filter((key) => key.startsWith(prefix));
+  }
+}
+
+/**
+ * Active store and policies shared by every service
+ */
+let activeStore: CacheStore = new MemoryCacheStore();
+let activePolicies: Record<CacheDataType, CachePolicy> = {
+  ...DEFAULT_CACHE_POLICIES,
+};
+
+/**
+ * Loads currently running per key, shared by concurrent misses and
+ * background revalidations
+ */
+const inFlight = new Map<string, Promise<CacheEntry<unknown>>>();
+
+/**
+ * Lookup counters per data type
+ */
+let counters = createCounters();
+
+/**
+ * Cache Manager
+ * Front door to the active cache store used by WeatherService and PhotosService
+ */
+export class CacheManager {
+  /**
+   * Replace the cache store and/or override policies
+   * @param options - Store and partial per-type policies
+   */
+  static configure(
+    options: {
+      store?: CacheStore;
+      policies?: Partial<Record<CacheDataType, Partial<CachePolicy>>>;
+    } = {}
+  ): void {
+    if (options.store) {
+      activeStore = options.store;
+    }
+
+    if (options.policies) {
+      activePolicies = { ...activePolicies };
+      for (const [type, policy] of Object.entries(options.policies) as Array<
+        [CacheDataType, Partial<CachePolicy>]
+      >) {
+        activePolicies[type] = { ...activePolicies[type], ...policy };
+      }
+    }
+  }
+
+  /**
+   * Restore the default in-memory store and policies
+   */
+  static reset(): void {
+    activeStore = new MemoryCacheStore();
+    activePolicies = { ...DEFAULT_CACHE_POLICIES };
+    inFlight.clear();
+    counters = createCounters();
+  }
+
+  /**
+   * Hit, stale and miss counts since startup or the last reset
+   */
+  static getStats(): CacheStats {
+    const byType = Object.fromEntries(
+      Object.entries(counters).map(([type, counts]) => [type, { ...counts }])
+    ) as Record<CacheDataType, CacheCounters>;
+    const totals = Object.values(byType).reduce(
+      (sum, counts) => ({
+        hits: sum.hits + counts.hits,
+        stale: sum.stale + counts.stale,
+        misses: sum.misses + counts.misses,
+      }),
+      { hits: 0, stale: 0, misses: 0 }
+    );
+    const lookups = totals.hits + totals.stale + totals.misses;
+
+    return {
+      ...totals,
+      hitRate: lookups > 0 ? (totals.hits + totals.stale) / lookups : 0,
+      byType,
+    };
+  }
+
+  /**
+   * Get the active cache store
+   */
+  static getStore(): CacheStore {
+    return activeStore;
+  }
+
+  /**
+   * Get the freshness policy for a data type
+   */
+  static getPolicy(type: CacheDataType): CachePolicy {
+    return activePolicies[type];
+  }
+
+  /**
+   * Read through the cache with stale-while-revalidate semantics
+   * Fresh values are returned as-is; stale values are returned immediately
+   * while one background load refreshes them; missing values are loaded.
+   * Concurrent requests for the same key share a single load.
+   * Cache store failures are logged and never fail the request.
+   * @param type - Data type selecting the freshness policy
+   * @param key - Cache key (should be namespaced by type)
+   * @param load - Loads the value on a miss or revalidation
+   * @param options - shouldCache filters out values that must not be stored
+   * @returns Value with cache status and expiry
+   */
+  static async getOrLoad<T>(
+    type: CacheDataType,
+    key: string,
+    load: () => Promise<T>,
+    options: { shouldCache?: (value: T) => boolean } = {}
+  ): Promise<CacheResult<T>> {
+    const store = activeStore;
+    const entry = await this.safeGet<T>(store, key);
+    const now = Date.now();
+
+    if (entry && now <= entry.expiresAt) {
+      counters[type].hits++;
+      return { value: entry.value, status: 'hit', expiresAt: entry.expiresAt };
+    }
+
+    if (entry && now <= entry.staleUntil) {
+      counters[type].stale++;
+      if (!inFlight.has(key)) {
+        void this.loadOnce(store, type, key, load, options).catch((error) => {
+          console.warn(`Cache revalidation failed for ${key}:`, error);
+        });
+      }
+      return {
+        value: entry.value,
+        status: 'stale',
+        expiresAt: entry.expiresAt,
+      };
+    }
+
+    counters[type].misses++;
+    const loaded = await this.loadOnce(store, type, key, load, options);
+    return { value: loaded.value, status: 'miss', expiresAt: loaded.expiresAt };
+  }
+
+  /**
+   * List cached entries, most recently stored first
+   * @param prefix - Only include keys starting with prefix
+   * @param limit - Maximum number of entries to return
+   * @returns Matching entries and the total number of matching keys
+   */
+  static async listEntries(
+    prefix?: string,
+    limit = 100
+  ): Promise<{ entries: CacheEntrySummary[]; total: number }> {
+    const store = activeStore;
+    const keys = await store.keys(prefix);
+    const entries: CacheEntrySummary[] = [];
+
+    for (const key of keys) {
+      const entry = await this.safeGet(store, key);
+      if (entry) {
+        entries.push(summarizeEntry(key, entry));
+      }
+    }
+
+    entries.sort((a, b) => b.storedAt.localeCompare(a.storedAt));
+    return { entries: entries.slice(0, limit), total: entries.length };
+  }
+
+  /**
+   * Read a cached entry and its metadata without counting it as a lookup
+   */
+  static async inspect(
+    key: string
+  ): Promise<(CacheEntrySummary & { value: unknown }) | null> {
+    const entry = await this.safeGet(activeStore, key);
+    return entry ? { ...summarizeEntry(key, entry), value: entry.value } : null;
+  }
+
+  /**
+   * Remove a single cached entry
+   */
+  static async delete(key: string): Promise<void> {
+    try {
+      await activeStore.delete(key);
+    } catch (error) {
+      console.warn(`Cache delete failed for ${key}:`, error);
+    }
+  }
+
+  /**
+   * Remove cached entries whose keys start with prefix
+   */
+  static async invalidate(prefix?: string): Promise<void> {
+    try {
+      await activeStore.clear(prefix);
+    } catch (error) {
+      console.warn(`Cache invalidation failed for ${prefix ?? '*'}:`, error);
+    }
+  }
+
+  /**
+   * Join the running load for key, or start one
+   */
+  private static loadOnce<T>(
+    store: CacheStore,
+    type: CacheDataType,
+    key: string,
+    load: () => Promise<T>,
+    options: { shouldCache?: (value: T) => boolean }
+  ): Promise<CacheEntry<T>> {
+    const running = inFlight.get(key) as Promise<CacheEntry<T>> | undefined;
+    if (running) return running;
+
+    const pending = this.loadAndStore(store, type, key, load, options).finally(
+      () => {
+        if (inFlight.get(key) === pending) inFlight.delete(key);
+      }
+    );
+    inFlight.set(key, pending);
+    return pending;
+  }
+
+  private static async loadAndStore<T>(
+    store: CacheStore,
+    type: CacheDataType,
+    key: string,
+    load: () => Promise<T>,
+    options: { shouldCache?: (value: T) => boolean }
+  ): Promise<CacheEntry<T>> {
+    const value = await load();
+    const policy = activePolicies[type];
+    const storedAt = Date.now();
+    const entry: CacheEntry<T> = {
+      value,
+      storedAt,
+      expiresAt: storedAt + policy.ttlMs,
+      staleUntil: storedAt + policy.ttlMs + policy.staleWhileRevalidateMs,
+    };
+
+    if (options.shouldCache?.(value) ?? true) {
+      try {
+        await store.set(key, entry);
+      } catch (error) {
+        console.warn(`Cache write failed for ${key} (${store.name}):`, error);
+      }
+    }
+
+    return entry;
+  }
+
+  private static async safeGet<T>(
+    store: CacheStore,
+    key: string
+  ): Promise<CacheEntry<T> | null> {
+    try {
+      return await store.get<T>(key);
+    } catch (error) {
+      console.warn(`Cache read failed for ${key} (${store.name}):`, error);
+      return null;
+    }
+  }
+}
+
+function createCounters(): Record<CacheDataType, CacheCounters> {
+  const types = Object.keys(DEFAULT_CACHE_POLICIES) as CacheDataType[];
+  return Object.fromEntries(
+    types.map((type) => [type, { hits: 0, stale: 0, misses: 0 }])
+  ) as Record<CacheDataType, CacheCounters>;
+}
+
+function summarizeEntry(key: string, entry: CacheEntry): CacheEntrySummary {
+  const namespace = key.slice(0, key.indexOf(':'));
+  return {
+    key,
+    type:
+      namespace in DEFAULT_CACHE_POLICIES ? (namespace as CacheDataType) : null,
+    state: Date.now() <= entry.expiresAt ? 'fresh' : 'stale',
+    storedAt: new Date(entry.storedAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+    staleUntil: new Date(entry.staleUntil).toISOString(),
+    sizeBytes: JSON.stringify(entry.value)?.length ?? 0,
+  };
+}
@@ -1,9 +1,8 @@
 /**
- * Application constants and rover data
+ * Application constants
+ * Rover and lander data lives in the registry in ./rovers
  */
 
-import { RoverLocation } from '@/types/mars-time';
-
 /** Mars planetary constants based on NASA Mars24 algorithm */
 export const MARS_CONSTANTS = {
   /** Mars solar day length in Earth seconds */
@@ -23,24 +22,12 @@ export const MARS_CONSTANTS = {
   
   /** Mars mean motion (degrees per sol) */
   MEAN_MOTION: 0.524021,
-} as const;
-
-/** NASA rover locations and mission data */
-export const ROVER_LOCATIONS: Record<string, RoverLocation> = {
-  curiosity: {
-    name: 'Curiosity',
-    longitude: 137.4417, // Gale Crater
-    latitude: -4.5895,
-    landingDate: new Date('2012-08-06T05:17:57Z'),
-    landingSol: 0,
-  },
-  perseverance: {
-    name: 'Perseverance', 
-    longitude: 77.4509, // Jezero Crater
-    latitude: 18.4447,
-    landingDate: new Date('2021-02-18T20:55:00Z'),
-    landingSol: 0,
-  },
+  
+  /** Mean tropical Mars year length in sols */
+  MARS_YEAR_SOLS: 668.5921,
+  
+  /** Mars Sol Date at the start of Mars Year 1 (Ls 0, 1955-04-11) */
+  MARS_YEAR_ONE_MSD: 28892.66,
 } as const;
 
 /** Time formatting options */
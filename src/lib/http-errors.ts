@@ -0,0 +1,184 @@
+/**
+ * Structured HTTP errors
+ * Carry status codes and rate-limit headers so retry logic never parses messages
+ */
+
+/**
+ * Non-2xx HTTP response
+ */
+export class HttpError extends Error {
+  /** HTTP status code */
+  readonly status: number;
+  /** HTTP status text */
+  readonly statusText: string;
+  /** Requested URL, if known */
+  readonly url: string | null;
+  /** Delay requested by a Retry-After header (ms), if any */
+  readonly retryAfterMs: number | null;
+  /** Requests left in the current quota window (X-RateLimit-Remaining) */
+  readonly rateLimitRemaining: number | null;
+
+  constructor(
+    status: number,
+    statusText: string,
+    options: {
+      url?: string | null;
+      retryAfterMs?: number | null;
+      rateLimitRemaining?: number | null;
+    } = {}
+  ) {
+    super(
+      `${status >= 500 ? 'Server' : 'Client'} error: ${status} ${statusText}`
+    );
+    this.name = 'HttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.url = options.url ? redactApiKey(options.url) : null;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+    this.rateLimitRemaining = options.rateLimitRemaining ?? null;
+  }
+
+  /**
+   * Build an error from a failed response, reading its rate-limit headers
+   */
+  static fromResponse(response: Response, url?: string): HttpError {
+    return new HttpError(response.status, response.statusText, {
+      url: url ?? (response.url || null),
+      retryAfterMs: parseRetryAfter(response.headers?.get('retry-after')),
+      rateLimitRemaining: parseRateLimitRemaining(response.headers),
+    });
+  }
+
+  /** 429 Too Many Requests */
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+
+  /** Timeouts, rate limits and server errors are worth retrying */
+  get isRetryable(): boolean {
+    return (
+      this.status === 408 ||
+      this.status === 429 ||
+      (this.status >= 500 && this.status !== 501)
+    );
+  }
+}
+
+/**
+ * Request exceeded its time limit
+ */
+export class TimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timeout after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Circuit breaker rejected the request without calling upstream
+ */
+export class CircuitOpenError extends Error {
+  readonly circuitName: string;
+  /** When the circuit allows a trial request (ms since epoch) */
+  readonly nextAttemptTime: number;
+
+  constructor(circuitName: string, nextAttemptTime: number) {
+    super(
+      `Circuit breaker is open for ${circuitName}. Next attempt at ${new Date(
+        nextAttemptTime
+      ).toISOString()}`
+    );
+    this.name = 'CircuitOpenError';
+    this.circuitName = circuitName;
+    this.nextAttemptTime = nextAttemptTime;
+  }
+}
+
+/**
+ * Shared request quota is exhausted; the request was not sent
+ */
+export class RateLimitExceededError extends Error {
+  /** Name of the exhausted quota */
+  readonly quota: string;
+  /** Time until a request is allowed again (ms) */
+  readonly retryAfterMs: number;
+
+  constructor(quota: string, retryAfterMs: number) {
+    super(
+      `Rate limit quota exhausted for ${quota}; next request allowed in ${Math.ceil(
+        retryAfterMs / 1000
+      )}s`
+    );
+    this.name = 'RateLimitExceededError';
+    this.quota = quota;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Hide api_key query values so errors can be logged safely */
+function redactApiKey(url: string): string {
+  return url.replace(/([?&]api_key=)[^&]*/i, '$1***');
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ * @param value - Header value
+ * @param now - Current time (ms since epoch)
+ * @returns Delay in milliseconds, or null if missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Read X-RateLimit-Remaining from response headers
+ * @returns Remaining requests, or null if the header is missing or invalid
+ */
+export function parseRateLimitRemaining(
+  headers: Headers | null | undefined
+): number | null {
+  const value = headers?.get('x-ratelimit-remaining');
+  if (value === null || value === undefined || value.trim() === '') {
+    return null;
+  }
+
+  const remaining = Number(value);
+  return Number.isInteger(remaining) && remaining >= 0 ? remaining : null;
+}
+
+/**
+ * Decide whether an error is worth retrying
+ * Structured errors decide by type; other errors fall back to their message
+ */
+export function isRetryableError(error: Error): boolean {
+  if (error instanceof HttpError) return error.isRetryable;
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof CircuitOpenError) return false;
+  if (error instanceof RateLimitExceededError) return false;
+
+  // Unstructured errors: network failures, timeouts and 5xx messages
+  const message = error.message.toLowerCase();
+  return (
+    message.includes('network') ||
+    message.includes('fetch failed') ||
+    message.includes('timeout') ||
+    message.includes('500') ||
+    message.includes('502') ||
+    message.includes('503') ||
+    message.includes('504')
+  );
+}
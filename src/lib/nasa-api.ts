@@ -0,0 +1,234 @@
+/**
+ * NASA Mars Rover Photos API client
+ * Every NASA request goes through here so PhotosService and the weather
+ * providers share circuits, the hourly quota, timeouts and fixture mode
+ */
+
+import { ApiResilience, normalizeRequestUrl } from './retry';
+import { nasaApiQuota } from './rate-limiter';
+import type { RoverName } from '@/types/weather';
+
+/** Base URL of the Mars Rover Photos API */
+export const NASA_API_BASE = 'https://api.nasa.gov/mars-photos/api/v1';
+
+/** Per-attempt timeout for NASA requests (ms) */
+export const NASA_REQUEST_TIMEOUT = 15000;
+
+/** Mars Rover Photos API endpoints */
+export type NasaEndpoint = 'latest_photos' | 'photos' | 'manifest';
+
+/**
+ * Options for a NASA API request
+ */
+export interface NasaRequestOptions {
+  /** Query parameters (api_key is added automatically) */
+  params?: Record<string, string | number | undefined>;
+  /** Attempts including the first (defaults to 3) */
+  maxAttempts?: number;
+  /** Extra fetch options (e.g. Next.js revalidation) */
+  init?: RequestInit;
+  /** Called before each retry */
+  onRetry?: (attempt: number, error: Error) => void;
+}
+
+/**
+ * Fixture mode: record saves successful responses, replay serves them
+ * without touching the network
+ */
+export type NasaFixtureMode = 'off' | 'record' | 'replay';
+
+/**
+ * NASA response saved to a fixture
+ */
+export interface RecordedNasaResponse {
+  /** Fixture key (normalized URL without api_key) */
+  key: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  /** ISO timestamp of the recording */
+  recordedAt: string;
+}
+
+/**
+ * Storage for recorded responses
+ * Kept abstract so this module stays free of server-only imports
+ */
+export interface NasaFixtureStore {
+  readonly name: string;
+  read(key: string): Promise<RecordedNasaResponse | null>;
+  write(recorded: RecordedNasaResponse): Promise<void>;
+}
+
+/**
+ * Replay mode found no recording for a request
+ */
+export class NasaFixtureMissingError extends Error {
+  readonly key: string;
+
+  constructor(key: string) {
+    super(`No recorded NASA fixture for ${key}`);
+    this.name = 'NasaFixtureMissingError';
+    this.key = key;
+  }
+}
+
+let fixtureMode: NasaFixtureMode = 'off';
+let fixtureStore: NasaFixtureStore | null = null;
+
+/**
+ * Enable fixture recording or replay for every NASA request
+ * @param options - Mode and store; 'off' (or no store) restores live requests
+ */
+export function configureNasaFixtures(options: {
+  mode: NasaFixtureMode;
+  store?: NasaFixtureStore | null;
+}): void {
+  fixtureStore = options.store ?? null;
+  fixtureMode = fixtureStore ? options.mode : 'off';
+}
+
+/**
+ * Active fixture mode
+ */
+export function getNasaFixtureMode(): NasaFixtureMode {
+  return fixtureMode;
+}
+
+/**
+ * Fixture key for a request URL
+ * The API key is dropped so recordings replay with any key
+ */
+export function getNasaFixtureKey(url: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.delete('api_key');
+  return normalizeRequestUrl(parsed.toString());
+}
+
+/**
+ * Circuit name for a rover endpoint (e.g. "nasa-latest-photos-curiosity")
+ */
+export function getNasaCircuitName(
+  rover: RoverName,
+  endpoint: NasaEndpoint
+): string {
+  return `nasa-${endpoint.replace('_', '-')}-${rover}`;
+}
+
+/**
+ * Build the URL for a rover endpoint
+ */
+export function buildNasaUrl(
+  rover: RoverName,
+  endpoint: NasaEndpoint,
+  params: Record<string, string | number | undefined> = {}
+): string {
+  const query = new URLSearchParams({
+    api_key: process.env.NASA_API_KEY || 'DEMO_KEY',
+  });
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      query.append(name, String(value));
+    }
+  }
+
+  const path =
+    endpoint === 'manifest'
+      ? `manifests/${rover}`
+      : `rovers/${rover}/${endpoint}`;
+  return `${NASA_API_BASE}/${path}?${query.toString()}`;
+}
+
+/**
+ * Fetch a NASA rover endpoint through the shared resilience layer
+ * In replay mode the response comes from the fixture store instead
+ * @returns Successful response
+ * @throws HttpError, TimeoutError, CircuitOpenError, RateLimitExceededError
+ * or NasaFixtureMissingError
+ */
+export async function fetchNasaApi(
+  rover: RoverName,
+  endpoint: NasaEndpoint,
+  options: NasaRequestOptions = {}
+): Promise<Response> {
+  const url = buildNasaUrl(rover, endpoint, options.params);
+  const store = fixtureStore;
+
+  if (store && fixtureMode === 'replay') {
+    const key = getNasaFixtureKey(url);
+    const recorded = await store.read(key);
+    if (!recorded) {
+      throw new NasaFixtureMissingError(key);
+    }
+    return new Response(recorded.body, {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers,
+    });
+  }
+
+  const response = await fetchLive(rover, endpoint, url, options);
+
+  if (store && fixtureMode === 'record') {
+    await recordResponse(store, url, response);
+  }
+  return response;
+}
+
+function fetchLive(
+  rover: RoverName,
+  endpoint: NasaEndpoint,
+  url: string,
+  options: NasaRequestOptions
+): Promise<Response> {
+  return ApiResilience.resilientFetch(
+    url,
+    {
+      ...options.init,
+      headers: {
+        'User-Agent': 'Mars Weather Dashboard/1.0',
+        Accept: 'application/json',
+      },
+    },
+    {
+      circuitName: getNasaCircuitName(rover, endpoint),
+      retryOptions: {
+        maxAttempts: options.maxAttempts ?? 3,
+        initialDelayMs: 1000,
+        maxDelayMs: 5000,
+        timeoutMs: NASA_REQUEST_TIMEOUT,
+        ...(options.onRetry && { onRetry: options.onRetry }),
+      },
+      circuitOptions: {
+        failureThreshold: 5,
+        resetTimeoutMs: 120000, // 2 minutes
+      },
+      quota: nasaApiQuota,
+    }
+  );
+}
+
+/** Save a successful response; recording failures never fail the request */
+async function recordResponse(
+  store: NasaFixtureStore,
+  url: string,
+  response: Response
+): Promise<void> {
+  const key = getNasaFixtureKey(url);
+  try {
+    await store.write({
+      key,
+      status: response.status,
+      statusText: response.statusText,
+      headers: {
+        'content-type':
+          response.headers?.get('content-type') ?? 'application/json',
+      },
+      body: await response.clone().text(),
+      recordedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.warn(`Failed to record NASA fixture for ${key}:`, error);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * NASA fixture storage (server-only)
+ * Records real NASA responses to disk and replays them for offline runs
+ */
+
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import {
+  NasaFixtureMode,
+  NasaFixtureStore,
+  RecordedNasaResponse,
+  configureNasaFixtures,
+} from './nasa-api';
+
+/** Default fixture directory, relative to the project root */
+export const DEFAULT_NASA_FIXTURE_DIR = path.join('fixtures', 'nasa');
+
+/**
+ * Filesystem fixture store
+ * One readable JSON file per request, named after the endpoint path
+ */
+export class FileSystemNasaFixtureStore implements NasaFixtureStore {
+  readonly name = 'filesystem';
+
+  constructor(private readonly directory: string) {}
+
+  async read(key: string): Promise<RecordedNasaResponse | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(key), 'utf8');
+      return JSON.parse(raw) as RecordedNasaResponse;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async write(recorded: RecordedNasaResponse): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      this.filePath(recorded.key),
+      `${JSON.stringify(recorded, null, 2)}\n`,
+      'utf8'
+    );
+  }
+
+  /** e.g. rovers-curiosity-photos-3f2a9c1b0d4e.json */
+  private filePath(key: string): string {
+    const slug = new URL(key).pathname
+      .replace(/^\/mars-photos\/api\/v1\//, '')
+      .replace(/[^a-z0-9]+/gi, '-')
+      .replace(/^-|-$/g, '')
+      .toLowerCase();
+    const hash = createHash('sha256').update(key).digest('hex').slice(0, 12);
+    return path.join(this.directory, `${slug}-${hash}.json`);
+  }
+}
+
+/**
+ * Configure fixture mode from environment variables
+ * NASA_FIXTURE_MODE selects off (default), record or replay;
+ * NASA_FIXTURE_DIR overrides the fixture directory
+ */
+export function configureNasaFixturesFromEnv(
+  env: Record<string, string | undefined> = process.env
+): NasaFixtureMode {
+  const mode = (env.NASA_FIXTURE_MODE ?? 'off').trim().toLowerCase();
+
+  if (mode !== 'record' && mode !== 'replay') {
+    if (mode !== 'off' && mode !== '') {
+      console.warn(`Unknown NASA_FIXTURE_MODE "${mode}"; using live requests`);
+    }
+    configureNasaFixtures({ mode: 'off' });
+    return 'off';
+  }
+
+  const directory = path.resolve(
+    env.NASA_FIXTURE_DIR || DEFAULT_NASA_FIXTURE_DIR
+  );
+  configureNasaFixtures({
+    mode,
+    store: new FileSystemNasaFixtureStore(directory),
+  });
+  return mode;
+}
@@ -0,0 +1,82 @@
+/**
+ * Page sessions (server-only)
+ * Signed tokens the gateway gives the dashboard's own pages in an HttpOnly,
+ * SameSite=Strict cookie; keyless data route requests must carry one
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/** Cookie holding the page session token */
+export const PAGE_SESSION_COOKIE = 'mwd_session';
+
+/** Lifetime of a page session (seconds) */
+export const PAGE_SESSION_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+let generatedSecret: string | null = null;
+
+/**
+ * Key that signs page sessions
+ * PAGE_SESSION_SECRET keeps sessions valid across restarts and instances;
+ * without it each process signs with its own random key
+ */
+export function getPageSessionSecret(
+  env: Record<string, string | undefined> = process.env
+): string {
+  if (env.PAGE_SESSION_SECRET) return env.PAGE_SESSION_SECRET;
+
+  if (generatedSecret === null) {
+    generatedSecret = randomBytes(32).toString('base64url');
+    if (env.NODE_ENV === 'production') {
+      console.warn(
+        'PAGE_SESSION_SECRET is unset; page sessions only work on this instance'
+      );
+    }
+  }
+  return generatedSecret;
+}
+
+/**
+ * New session token: issue time and random id, signed
+ */
+export function createPageSession(
+  secret: string = getPageSessionSecret(),
+  now = Date.now()
+): string {
+  const payload = `${now.toString(36)}.${randomBytes(12).toString('base64url')}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Issue time (ms) of a session token
+ * @returns null when the token is missing, forged or expired
+ */
+export function verifyPageSession(
+  token: string | undefined,
+  secret: string = getPageSessionSecret(),
+  now = Date.now()
+): number | null {
+  const separator = token?.lastIndexOf('.') ?? -1;
+  if (!token || separator <= 0) return null;
+
+  const payload = token.slice(0, separator);
+  const signature = Buffer.from(token.slice(separator + 1));
+  const expected = Buffer.from(sign(payload, secret));
+  if (
+    signature.length !== expected.length ||
+    !timingSafeEqual(signature, expected)
+  ) {
+    return null;
+  }
+
+  const issuedAt = parseInt(payload.split('.')[0] ?? '', 36);
+  const age = now - issuedAt;
+  return Number.isFinite(issuedAt) &&
+    age >= 0 &&
+    age < PAGE_SESSION_MAX_AGE_SECONDS * 1000
+    ? issuedAt
+    : null;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
@@ -0,0 +1,36 @@
+/**
+ * Seeded pseudo-random number utilities
+ * Provides deterministic random sequences for reproducible data synthesis
+ */
+
+/**
+ * Hash a string seed into a 32-bit unsigned integer (FNV-1a)
+ * @param seed - Seed string to hash
+ * @returns 32-bit unsigned hash
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded random number generator (mulberry32)
+ * The same seed always yields the same sequence, across processes and hosts
+ * @param seed - Seed string (e.g. `${rover}-${sol}`)
+ * @returns Function returning floats in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
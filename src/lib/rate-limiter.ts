@@ -0,0 +1,181 @@
+/**
+ * Request quota management
+ * Token bucket shared by every caller of a rate-limited upstream API
+ */
+
+import {
+  RateLimitExceededError,
+  parseRateLimitRemaining,
+  parseRetryAfter,
+} from './http-errors';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Token bucket configuration
+ */
+export interface TokenBucketOptions {
+  /** Quota name used in errors and status reports */
+  name: string;
+  /** Maximum tokens (requests) held at once */
+  capacity: number;
+  /** Time to refill an empty bucket (ms) */
+  refillIntervalMs: number;
+}
+
+/**
+ * Token bucket snapshot
+ */
+export interface TokenBucketStatus {
+  name: string;
+  capacity: number;
+  /** Whole tokens available now */
+  remaining: number;
+  /** Tokens added per hour */
+  refillPerHour: number;
+  /** Upstream-imposed pause (ISO), if a Retry-After is in effect */
+  blockedUntil: string | null;
+}
+
+/**
+ * Token bucket rate limiter
+ * Refills continuously; upstream rate-limit headers can only lower the count
+ */
+export class TokenBucket {
+  readonly name: string;
+  readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+
+  constructor(options: TokenBucketOptions) {
+    this.name = options.name;
+    this.capacity = options.capacity;
+    this.refillPerMs = options.capacity / options.refillIntervalMs;
+    this.tokens = options.capacity;
+  }
+
+  /**
+   * Take tokens if available
+   * @returns True if the tokens were taken
+   */
+  tryRemove(count = 1): boolean {
+    if (this.getWaitTime(count) > 0) return false;
+    this.tokens -= count;
+    return true;
+  }
+
+  /**
+   * Time until count tokens are available (ms)
+   */
+  getWaitTime(count = 1): number {
+    this.refill();
+    const now = Date.now();
+    const blockedFor = Math.max(0, this.blockedUntil - now);
+    const missing = count - this.tokens;
+    const refillWait = missing > 0 ? Math.ceil(missing / this.refillPerMs) : 0;
+    return Math.max(blockedFor, refillWait);
+  }
+
+  /**
+   * Take a token, waiting up to maxWaitMs for one to become available
+   * @throws RateLimitExceededError when the wait would exceed maxWaitMs
+   */
+  async acquire(maxWaitMs = 0): Promise<void> {
+    const waitMs = this.getWaitTime();
+    if (waitMs > maxWaitMs) {
+      throw new RateLimitExceededError(this.name, waitMs);
+    }
+    if (waitMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+    if (!this.tryRemove()) {
+      throw new RateLimitExceededError(this.name, this.getWaitTime());
+    }
+  }
+
+  /**
+   * Align the bucket with upstream rate-limit information
+   * X-RateLimit-Remaining caps the tokens; a 429 pauses the bucket until
+   * its Retry-After, after which requests take tokens as usual, or empties
+   * the bucket when it names no time
+   */
+  syncFromResponse(response: Response): void {
+    const remaining = parseRateLimitRemaining(response.headers);
+
+    this.refill();
+    if (remaining !== null) {
+      this.tokens = Math.min(this.tokens, remaining);
+    }
+    if (response.status === 429) {
+      const retryAfterMs = parseRetryAfter(
+        response.headers?.get('retry-after')
+      );
+      if (retryAfterMs !== null) {
+        this.blockedUntil = Date.now() + retryAfterMs;
+      } else {
+        this.tokens = 0;
+      }
+    }
+  }
+
+  /**
+   * Current quota state
+   */
+  getStatus(): TokenBucketStatus {
+    this.refill();
+    return {
+      name: this.name,
+      capacity: this.capacity,
+      remaining: Math.floor(this.tokens),
+      refillPerHour: Math.round(this.refillPerMs * HOUR_MS),
+      blockedUntil:
+        this.blockedUntil > Date.now()
+          ? new Date(this.blockedUntil).toISOString()
+          : null,
+    };
+  }
+
+  /**
+   * Refill the bucket and clear any upstream pause
+   */
+  reset(): void {
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+    this.blockedUntil = 0;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs
+    );
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Hourly NASA API quota for the configured key
+ * NASA_RATE_LIMIT_PER_HOUR overrides; DEMO_KEY allows 30 requests per hour
+ * and registered keys 1,000
+ */
+export function getNasaHourlyQuota(
+  env: Record<string, string | undefined> = process.env
+): number {
+  const override = Number(env.NASA_RATE_LIMIT_PER_HOUR);
+  if (Number.isInteger(override) && override > 0) {
+    return override;
+  }
+  return !env.NASA_API_KEY || env.NASA_API_KEY === 'DEMO_KEY' ? 30 : 1000;
+}
+
+/**
+ * Quota shared by every NASA API request in this process
+ */
+export const nasaApiQuota = new TokenBucket({
+  name: 'nasa-api',
+  capacity: getNasaHourlyQuota(),
+  refillIntervalMs: HOUR_MS,
+});
@@ -3,6 +3,20 @@
  * Provides retry logic, circuit breakers, and timeout handling
  */
 
+import {
+  CircuitOpenError,
+  HttpError,
+  RateLimitExceededError,
+  TimeoutError,
+  isRetryableError,
+} from './http-errors';
+import type { TokenBucket } from './rate-limiter';
+import type {
+  CircuitState,
+  CircuitStatus,
+  RetryAttemptRecord,
+} from '@/types/health';
+
 /**
  * Retry configuration options
  */
@@ -19,8 +33,12 @@ export interface RetryOptions {
   timeoutMs: number;
   /** Function to determine if error should trigger retry */
   shouldRetry?: (error: Error) => boolean;
+  /** Longest Retry-After to wait for; longer requests fail immediately (ms) */
+  maxRetryAfterMs: number;
   /** Callback for retry attempts */
   onRetry?: (attempt: number, error: Error) => void;
+  /** Circuit name recorded with retry attempts */
+  circuitName?: string;
 }
 
 /**
@@ -28,7 +46,10 @@ export interface RetryOptions {
  */
 interface CircuitBreakerState {
   isOpen: boolean;
+  /** A trial request is running after the reset timeout */
+  isHalfOpen: boolean;
   failureCount: number;
+  failureThreshold: number;
   lastFailureTime: number;
   nextAttemptTime: number;
 }
@@ -42,18 +63,9 @@ const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   maxDelayMs: 10000,
   backoffMultiplier: 2,
   timeoutMs: 30000,
-  shouldRetry: (error: Error) => {
-    // Retry on network errors, timeouts, and 5xx status codes
-    const message = error.message.toLowerCase();
-    return (
-      message.includes('network') ||
-      message.includes('timeout') ||
-      message.includes('500') ||
-      message.includes('502') ||
-      message.includes('503') ||
-      message.includes('504')
-    );
-  },
+  // Retry on network errors, timeouts, rate limits and 5xx status codes
+  shouldRetry: isRetryableError,
+  maxRetryAfterMs: 30000,
 };
 
 /**
@@ -79,6 +91,41 @@ const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
  */
 const circuitBreakers = new Map<string, CircuitBreakerState>();
 
+/**
+ * Recent retry attempts across all requests, newest first
+ */
+const MAX_RECENT_RETRIES = 50;
+const recentRetries: RetryAttemptRecord[] = [];
+
+/**
+ * Upstream requests currently running, keyed by method and normalized URL
+ */
+const inFlightRequests = new Map<string, Promise<Response>>();
+
+/**
+ * Normalize a URL so equivalent requests share a key
+ * Host case, query parameter order and fragments are ignored
+ */
+export function normalizeRequestUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+/**
+ * Whether an error counts against a circuit
+ * Local quota rejections never reach the upstream, and client errors other
+ * than 408 and 429 show it is answering
+ */
+function isCircuitFailure(error: unknown): boolean {
+  if (error instanceof RateLimitExceededError) return false;
+  if (error instanceof HttpError) {
+    return error.isRetryable || error.status >= 500;
+  }
+  return true;
+}
+
 /**
  * API Resilience utilities
  */
@@ -98,16 +145,17 @@ export class ApiResilience {
     let delay = config.initialDelayMs;
 
     for (let attempt = 1; attempt <= config.maxAttempts; attempt++) {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
       try {
         // Execute with timeout
         const result = await Promise.race([
           fn(),
-          new Promise<never>((_, reject) =>
-            setTimeout(
-              () => reject(new Error('Request timeout')),
+          new Promise<never>((_, reject) => {
+            timeoutId = setTimeout(
+              () => reject(new TimeoutError(config.timeoutMs)),
               config.timeoutMs
-            )
-          ),
+            );
+          }),
         ]);
 
         return result;
@@ -124,15 +172,35 @@ export class ApiResilience {
           throw lastError;
         }
 
+        // Honor Retry-After, but don't hold a request for a long quota reset
+        const retryAfterMs =
+          lastError instanceof HttpError ? lastError.retryAfterMs : null;
+        if (retryAfterMs !== null && retryAfterMs > config.maxRetryAfterMs) {
+          throw lastError;
+        }
+
         // Call retry callback
         config.onRetry?.(attempt, lastError);
 
         // Wait before retrying with exponential backoff
-        await this.delay(Math.min(delay, config.maxDelayMs));
+        const waitMs = Math.max(
+          Math.min(delay, config.maxDelayMs),
+          retryAfterMs ?? 0
+        );
+        this.recordRetry({
+          circuitName: config.circuitName ?? null,
+          attempt,
+          error: lastError.message,
+          delayMs: Math.round(waitMs),
+          timestamp: new Date().toISOString(),
+        });
+        await this.delay(waitMs);
         delay *= config.backoffMultiplier;
 
         // Add jitter to prevent thundering herd
         delay += Math.random() * 1000;
+      } finally {
+        clearTimeout(timeoutId);
       }
     }
 
@@ -158,7 +226,9 @@ export class ApiResilience {
     if (!circuit) {
       circuit = {
         isOpen: false,
+        isHalfOpen: false,
         failureCount: 0,
+        failureThreshold: config.failureThreshold,
         lastFailureTime: 0,
         nextAttemptTime: 0,
       };
@@ -168,27 +238,29 @@ export class ApiResilience {
     // Check if circuit is open
     if (circuit.isOpen) {
       if (now < circuit.nextAttemptTime) {
-        throw new Error(
-          `Circuit breaker is open for ${circuitName}. Next attempt at ${new Date(
-            circuit.nextAttemptTime
-          ).toISOString()}`
-        );
+        throw new CircuitOpenError(circuitName, circuit.nextAttemptTime);
       }
       // Try to reset circuit (half-open state)
       circuit.isOpen = false;
+      circuit.isHalfOpen = true;
     }
 
     try {
       const result = await fn();
 
       // Success - reset circuit
+      circuit.isHalfOpen = false;
       circuit.failureCount = 0;
       circuit.lastFailureTime = 0;
 
       return result;
     } catch (error) {
       // Failure - update circuit state
-      circuit.lastFailureTime = now;
+      circuit.isHalfOpen = false;
+      if (!isCircuitFailure(error)) {
+        throw error;
+      }
+      circuit.failureThreshold = config.failureThreshold;
 
       // Only count failures within the time window
       if (now - circuit.lastFailureTime < config.windowMs) {
@@ -196,6 +268,7 @@ export class ApiResilience {
       } else {
         circuit.failureCount = 1; // Reset count for new time window
       }
+      circuit.lastFailureTime = now;
 
       // Open circuit if threshold exceeded
       if (circuit.failureCount >= config.failureThreshold) {
@@ -222,7 +295,7 @@ export class ApiResilience {
     circuitOptions: Partial<CircuitBreakerOptions> = {}
   ): Promise<T> {
     return this.withCircuitBreaker(
-      () => this.withRetry(fn, retryOptions),
+      () => this.withRetry(fn, { circuitName, ...retryOptions }),
       circuitName,
       circuitOptions
     );
@@ -230,6 +303,12 @@ export class ApiResilience {
 
   /**
    * Create a resilient fetch function
+   * Failed responses throw HttpError; each attempt takes a token from the
+   * quota (if given), which is kept in sync with rate-limit headers, and is
+   * aborted with a TimeoutError after retryOptions.timeoutMs.
+   * Concurrent GET requests for the same normalized URL share one upstream
+   * request (including its retries); each caller gets its own response clone.
+   * Requests with a body or their own abort signal are never coalesced.
    * @param url - URL to fetch
    * @param options - Fetch options
    * @param resilience - Resilience configuration
@@ -242,23 +321,41 @@ export class ApiResilience {
       circuitName?: string;
       retryOptions?: Partial<RetryOptions>;
       circuitOptions?: Partial<CircuitBreakerOptions>;
+      /** Shared request quota consumed by every attempt */
+      quota?: TokenBucket;
+      /** Longest wait for a quota token before failing (ms) */
+      quotaWaitMs?: number;
+      /** Share in-flight identical GET requests (defaults to true) */
+      coalesce?: boolean;
     } = {}
   ): Promise<Response> {
+    const timeoutMs =
+      resilience.retryOptions?.timeoutMs ?? DEFAULT_RETRY_OPTIONS.timeoutMs;
+
     const fetchFn = async (): Promise<Response> => {
-      const response = await fetch(url, options);
+      await resilience.quota?.acquire(resilience.quotaWaitMs ?? 0);
 
-      // Consider 4xx errors as non-retryable
-      if (response.status >= 400 && response.status < 500) {
-        throw new Error(
-          `Client error: ${response.status} ${response.statusText}`
-        );
+      // Abort the attempt itself on timeout so the connection is released
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      options.signal?.addEventListener('abort', () => controller.abort());
+
+      let response: Response;
+      try {
+        response = await fetch(url, { ...options, signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted && !options.signal?.aborted) {
+          throw new TimeoutError(timeoutMs);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
       }
+      resilience.quota?.syncFromResponse(response);
 
-      // Consider 5xx errors as retryable
-      if (response.status >= 500) {
-        throw new Error(
-          `Server error: ${response.status} ${response.statusText}`
-        );
+      // 408, 429 and 5xx are retryable; other 4xx errors are not
+      if (response.status >= 400) {
+        throw HttpError.fromResponse(response, url);
       }
 
       return response;
@@ -267,12 +364,46 @@ export class ApiResilience {
     const circuitName =
       resilience.circuitName || `fetch-${new URL(url).hostname}`;
 
-    return this.withResiliencePattern(
-      fetchFn,
-      circuitName,
-      resilience.retryOptions,
-      resilience.circuitOptions
-    );
+    const run = (): Promise<Response> =>
+      this.withResiliencePattern(
+        fetchFn,
+        circuitName,
+        resilience.retryOptions,
+        resilience.circuitOptions
+      );
+
+    const method = (options.method ?? 'GET').toUpperCase();
+    const coalesce =
+      (resilience.coalesce ?? true) &&
+      (method === 'GET' || method === 'HEAD') &&
+      !options.body &&
+      !options.signal;
+    if (!coalesce) {
+      return run();
+    }
+
+    const key = `${method} ${normalizeRequestUrl(url)}`;
+    let shared = inFlightRequests.get(key);
+    if (!shared) {
+      const request = run().finally(() => {
+        if (inFlightRequests.get(key) === request) {
+          inFlightRequests.delete(key);
+        }
+      });
+      inFlightRequests.set(key, request);
+      shared = request;
+    }
+
+    // Bodies can be read once, so every caller reads its own clone
+    const response = await shared;
+    return typeof response.clone === 'function' ? response.clone() : response;
+  }
+
+  /**
+   * Number of upstream requests currently shared by concurrent callers
+   */
+  static getInFlightCount(): number {
+    return inFlightRequests.size;
   }
 
   /**
@@ -287,9 +418,66 @@ export class ApiResilience {
   /**
    * Reset circuit breaker state
    * @param circuitName - Circuit name to reset
+   * @returns True if the circuit existed
+   */
+  static resetCircuit(circuitName: string): boolean {
+    return circuitBreakers.delete(circuitName);
+  }
+
+  /**
+   * Reset every circuit breaker
+   */
+  static resetAllCircuits(): void {
+    circuitBreakers.clear();
+  }
+
+  /**
+   * Snapshot of every known circuit breaker, sorted by name
+   * @returns Circuit states with ISO timestamps
+   */
+  static getAllCircuits(): CircuitStatus[] {
+    const now = Date.now();
+
+    return [...circuitBreakers.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, circuit]) => {
+        let state: CircuitState = 'closed';
+        if (circuit.isHalfOpen) {
+          state = 'half-open';
+        } else if (circuit.isOpen) {
+          // Past the reset timeout the next request is let through as a trial
+          state = now < circuit.nextAttemptTime ? 'open' : 'half-open';
+        }
+
+        return {
+          name,
+          state,
+          failureCount: circuit.failureCount,
+          failureThreshold: circuit.failureThreshold,
+          lastFailureTime: circuit.lastFailureTime
+            ? new Date(circuit.lastFailureTime).toISOString()
+            : null,
+          nextAttemptTime: circuit.isOpen
+            ? new Date(circuit.nextAttemptTime).toISOString()
+            : null,
+        };
+      });
+  }
+
+  /**
+   * Most recent retry attempts, newest first
+   * @param limit - Maximum number of attempts to return
+   */
+  static getRecentRetries(limit = 20): RetryAttemptRecord[] {
+    return recentRetries.slice(0, limit);
+  }
+
+  /**
+   * Record a scheduled retry, keeping the most recent MAX_RECENT_RETRIES
    */
-  static resetCircuit(circuitName: string): void {
-    circuitBreakers.delete(circuitName);
+  private static recordRetry(record: RetryAttemptRecord): void {
+    recentRetries.unshift(record);
+    recentRetries.length = Math.min(recentRetries.length, MAX_RECENT_RETRIES);
   }
 
   /**
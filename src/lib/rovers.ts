@@ -0,0 +1,174 @@
+/**
+ * Mars surface mission registry
+ * The single list of rovers and landers; routes, validation, types and
+ * selectors are all derived from it
+ */
+
+import type { RoverDefinition, RoverName } from '@/types/rovers';
+
+/** Every supported mission: operating ones first, then by landing date */
+export const ROVERS = {
+  curiosity: {
+    name: 'Curiosity',
+    mission: 'Mars Science Laboratory',
+    missionCodes: ['MSL'],
+    platform: 'rover',
+    siteName: 'Gale Crater',
+    longitude: 137.4417,
+    latitude: -4.5895,
+    launchDate: new Date('2011-11-26T15:02:00Z'),
+    landingDate: new Date('2012-08-06T05:17:57Z'),
+    landingSol: 0,
+    status: 'active',
+    endDate: null,
+    weatherInstrument: 'REMS',
+    instruments: [
+      'Mastcam',
+      'ChemCam',
+      'APXS',
+      'CheMin',
+      'SAM',
+      'DAN',
+      'RAD',
+      'REMS',
+    ],
+    cameras: [
+      'FHAZ',
+      'RHAZ',
+      'MAST',
+      'CHEMCAM_RMI',
+      'MAHLI',
+      'MARDI',
+      'NAVCAM',
+    ],
+    photoArchiveId: 5,
+  },
+  perseverance: {
+    name: 'Perseverance',
+    mission: 'Mars 2020',
+    missionCodes: ['M2020'],
+    platform: 'rover',
+    siteName: 'Jezero Crater',
+    longitude: 77.4509,
+    latitude: 18.4447,
+    launchDate: new Date('2020-07-30T11:50:00Z'),
+    landingDate: new Date('2021-02-18T20:55:00Z'),
+    landingSol: 0,
+    status: 'active',
+    endDate: null,
+    weatherInstrument: 'MEDA',
+    instruments: [
+      'Mastcam-Z',
+      'SuperCam',
+      'PIXL',
+      'SHERLOC',
+      'MOXIE',
+      'MEDA',
+      'RIMFAX',
+    ],
+    cameras: [
+      'FHAZ',
+      'RHAZ',
+      'NAVCAM_LEFT',
+      'NAVCAM_RIGHT',
+      'MCZCAM',
+      'MCZCAM_LEFT',
+      'MCZCAM_RIGHT',
+      'SUPERCAM_RMI',
+      'PIXL',
+      'EDL_RUCAM',
+      'EDL_RDCAM',
+      'EDL_DDCAM',
+      'EDL_PUCAM1',
+      'EDL_PUCAM2',
+    ],
+    photoArchiveId: 8,
+  },
+  spirit: {
+    name: 'Spirit',
+    mission: 'Mars Exploration Rover',
+    missionCodes: ['MER-A', 'MER2'],
+    platform: 'rover',
+    siteName: 'Gusev Crater',
+    longitude: 175.4726,
+    latitude: -14.5684,
+    launchDate: new Date('2003-06-10T17:58:47Z'),
+    landingDate: new Date('2004-01-04T04:35:00Z'),
+    // MER sols are counted from 1
+    landingSol: 1,
+    status: 'complete',
+    endDate: new Date('2010-03-22T00:00:00Z'),
+    weatherInstrument: 'MINITES',
+    instruments: ['Pancam', 'Mini-TES', 'APXS', 'Mössbauer', 'MI', 'RAT'],
+    cameras: ['FHAZ', 'RHAZ', 'NAVCAM', 'PANCAM', 'MINITES', 'ENTRY'],
+    photoArchiveId: 7,
+  },
+  opportunity: {
+    name: 'Opportunity',
+    mission: 'Mars Exploration Rover',
+    missionCodes: ['MER-B', 'MER1'],
+    platform: 'rover',
+    siteName: 'Meridiani Planum',
+    longitude: 354.4734,
+    latitude: -1.9462,
+    launchDate: new Date('2003-07-07T03:18:15Z'),
+    landingDate: new Date('2004-01-25T05:05:00Z'),
+    landingSol: 1,
+    status: 'complete',
+    endDate: new Date('2018-06-10T00:00:00Z'),
+    weatherInstrument: 'MINITES',
+    instruments: ['Pancam', 'Mini-TES', 'APXS', 'Mössbauer', 'MI', 'RAT'],
+    cameras: ['FHAZ', 'RHAZ', 'NAVCAM', 'PANCAM', 'MINITES', 'ENTRY'],
+    photoArchiveId: 6,
+  },
+  insight: {
+    name: 'InSight',
+    mission: 'Interior Exploration using Seismic Investigations',
+    missionCodes: ['NSYT'],
+    platform: 'lander',
+    siteName: 'Elysium Planitia',
+    longitude: 135.6234,
+    latitude: 4.5024,
+    launchDate: new Date('2018-05-05T11:05:00Z'),
+    landingDate: new Date('2018-11-26T19:52:59Z'),
+    landingSol: 0,
+    status: 'complete',
+    endDate: new Date('2022-12-15T00:00:00Z'),
+    weatherInstrument: 'TWINS',
+    instruments: ['SEIS', 'HP3', 'RISE', 'APSS', 'TWINS'],
+    cameras: ['IDC', 'ICC'],
+    // Not part of the Mars Rover Photos API
+    photoArchiveId: null,
+  },
+} satisfies Record<string, RoverDefinition>;
+
+/** Registry keys, in registry order */
+export const ROVER_NAMES = Object.keys(ROVERS) as RoverName[];
+
+/**
+ * Whether a string names a registered rover
+ */
+export function isRoverName(value: string): value is RoverName {
+  return Object.hasOwn(ROVERS, value);
+}
+
+/**
+ * Registry entry of a rover
+ */
+export function getRover(rover: RoverName): RoverDefinition {
+  return ROVERS[rover];
+}
+
+/**
+ * Rovers that are still operating
+ */
+export function getActiveRovers(): RoverName[] {
+  return ROVER_NAMES.filter((rover) => ROVERS[rover].status === 'active');
+}
+
+/**
+ * Rovers with imagery in the Mars Rover Photos API
+ */
+export function getPhotoRovers(): RoverName[] {
+  return ROVER_NAMES.filter((rover) => ROVERS[rover].photoArchiveId !== null);
+}
@@ -58,6 +58,24 @@ export const MARS_TERMINOLOGY: Record<string, TermDefinition> = {
       'Mars Sol Date - a continuous count of Mars days since a reference date.',
     category: 'time',
   },
+  ls: {
+    term: 'Ls',
+    definition:
+      "Solar longitude - Mars' position around the Sun in degrees. Ls 0° is the northern spring equinox, 90° northern summer solstice, 180° northern autumn equinox and 270° northern winter solstice.",
+    category: 'time',
+  },
+  'solar longitude': {
+    term: 'Solar Longitude',
+    definition:
+      "Mars' position around the Sun in degrees (Ls), used to describe Martian seasons. Ls 0° is the northern spring equinox.",
+    category: 'time',
+  },
+  'mars year': {
+    term: 'Mars Year',
+    definition:
+      'A numbered Martian year of about 687 Earth days (668.6 sols). Mars Year 1 began on April 11, 1955 at the northern spring equinox.',
+    category: 'time',
+  },
   utc: {
     term: 'UTC',
     definition:
@@ -3,7 +3,14 @@
  * Provides robust validation and sanitization functions
  */
 
-import { RoverName } from '@/types/weather';
+import {
+  RoverName,
+  TemperatureUnit,
+  PressureUnit,
+  WindUnit,
+} from '@/types/weather';
+import { CameraName } from '@/types/photos';
+import { ROVER_NAMES, getPhotoRovers, getRover, isRoverName } from './rovers';
 
 /**
  * Validation result interface
@@ -15,6 +22,60 @@ export interface ValidationResult<T> {
   code?: string;
 }
 
+/**
+ * Declarative rule for one query parameter
+ */
+export interface QueryParam<T> {
+  /** Validates a present, non-empty parameter value */
+  validate: (value: string) => ValidationResult<T>;
+  /** Value used when the parameter is absent */
+  default?: T;
+  /** Reject requests without the parameter */
+  required?: boolean;
+  /** What the parameter does, for API documentation */
+  description: string;
+  /** JSON type of the parsed value, for API documentation */
+  type: 'integer' | 'string' | 'boolean';
+  /** Allowed values, for API documentation */
+  enum?: readonly string[];
+  /** String format (e.g. date), for API documentation */
+  format?: string;
+  /** Inclusive numeric bounds, for API documentation */
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Query parameter rules keyed by parameter name
+ */
+export type QuerySchema = Record<string, QueryParam<unknown>>;
+
+/**
+ * Parsed values of a query schema; parameters that are neither required nor
+ * defaulted may be undefined
+ */
+export type ParsedQuery<S extends QuerySchema> = {
+  [K in keyof S]: S[K] extends QueryParam<infer T>
+    ? S[K] extends { default: unknown } | { required: true }
+      ? T
+      : T | undefined
+    : never;
+};
+
+/**
+ * One rejected request parameter
+ */
+export interface InvalidParameter {
+  /** Parameter name */
+  parameter: string;
+  /** Value as received */
+  value: string | null;
+  /** Human readable reason */
+  error: string;
+  /** Machine readable reason (e.g. OUT_OF_RANGE) */
+  code: string;
+}
+
 /**
  * Input validation utilities
  */
@@ -33,13 +94,12 @@ export const ValidationUtils = {
       };
     }
 
-    const validRovers: RoverName[] = ['curiosity', 'perseverance'];
-    const normalizedRover = rover.toLowerCase().trim() as RoverName;
+    const normalizedRover = rover.toLowerCase().trim();
 
-    if (!validRovers.includes(normalizedRover)) {
+    if (!isRoverName(normalizedRover)) {
       return {
         isValid: false,
-        error: `Invalid rover name. Must be one of: ${validRovers.join(', ')}`,
+        error: `Invalid rover name. Must be one of: ${ROVER_NAMES.join(', ')}`,
         code: 'INVALID_ROVER',
       };
     }
@@ -50,6 +110,39 @@ export const ValidationUtils = {
     };
   },
 
+  /**
+   * Validate a comma-separated list of rovers to compare
+   * Duplicates are dropped; at least two different rovers are required
+   * @param value - List such as "curiosity,perseverance"
+   * @returns Validation result with the rovers in request order
+   */
+  validateRoverList(value: string): ValidationResult<RoverName[]> {
+    const rovers: RoverName[] = [];
+
+    for (const name of value.split(',')) {
+      if (name.trim() === '') continue;
+      const result = ValidationUtils.validateRover(name);
+      if (!result.isValid || !result.value) {
+        return {
+          isValid: false,
+          error: result.error ?? `Invalid rover: ${name}`,
+          code: result.code ?? 'INVALID_ROVER',
+        };
+      }
+      if (!rovers.includes(result.value)) rovers.push(result.value);
+    }
+
+    if (rovers.length < 2) {
+      return {
+        isValid: false,
+        error: 'List at least two different rovers to compare',
+        code: 'TOO_FEW_ROVERS',
+      };
+    }
+
+    return { isValid: true, value: rovers };
+  },
+
   /**
    * Validate history days parameter
    * @param days - Number of days to validate
@@ -97,9 +190,7 @@ export const ValidationUtils = {
    * @param unit - Temperature unit to validate
    * @returns Validation result with validated unit
    */
-  validateTemperatureUnit(
-    unit: unknown
-  ): ValidationResult<'celsius' | 'fahrenheit'> {
+  validateTemperatureUnit(unit: unknown): ValidationResult<TemperatureUnit> {
     if (typeof unit !== 'string') {
       return {
         isValid: false,
@@ -108,7 +199,7 @@ export const ValidationUtils = {
       };
     }
 
-    const validUnits = ['celsius', 'fahrenheit'] as const;
+    const validUnits = ['celsius', 'fahrenheit', 'kelvin'] as const;
     const normalizedUnit = unit.toLowerCase().trim();
 
     if (!validUnits.includes(normalizedUnit as (typeof validUnits)[number])) {
@@ -121,7 +212,7 @@ export const ValidationUtils = {
 
     return {
       isValid: true,
-      value: normalizedUnit as 'celsius' | 'fahrenheit',
+      value: normalizedUnit as TemperatureUnit,
     };
   },
 
@@ -130,7 +221,7 @@ export const ValidationUtils = {
    * @param unit - Pressure unit to validate
    * @returns Validation result with validated unit
    */
-  validatePressureUnit(unit: unknown): ValidationResult<'pa' | 'hpa' | 'mbar'> {
+  validatePressureUnit(unit: unknown): ValidationResult<PressureUnit> {
     if (typeof unit !== 'string') {
       return {
         isValid: false,
@@ -152,7 +243,7 @@ export const ValidationUtils = {
 
     return {
       isValid: true,
-      value: normalizedUnit as 'pa' | 'hpa' | 'mbar',
+      value: normalizedUnit as PressureUnit,
     };
   },
 
@@ -161,7 +252,7 @@ export const ValidationUtils = {
    * @param unit - Wind unit to validate
    * @returns Validation result with validated unit
    */
-  validateWindUnit(unit: unknown): ValidationResult<'mps' | 'kph' | 'mph'> {
+  validateWindUnit(unit: unknown): ValidationResult<WindUnit> {
     if (typeof unit !== 'string') {
       return {
         isValid: false,
@@ -183,7 +274,154 @@ export const ValidationUtils = {
 
     return {
       isValid: true,
-      value: normalizedUnit as 'mps' | 'kph' | 'mph',
+      value: normalizedUnit as WindUnit,
+    };
+  },
+
+  /**
+   * Validate sol number parameter
+   * @param sol - Sol number to validate
+   * @returns Validation result with validated sol
+   */
+  validateSol(sol: unknown): ValidationResult<number> {
+    const numSol =
+      typeof sol === 'string' && sol.trim() !== ''
+        ? Number(sol)
+        : typeof sol === 'number'
+          ? sol
+          : NaN;
+
+    if (!Number.isInteger(numSol)) {
+      return {
+        isValid: false,
+        error: 'Sol must be a whole number',
+        code: 'INVALID_NUMBER',
+      };
+    }
+
+    if (numSol < 0 || numSol > 100000) {
+      return {
+        isValid: false,
+        error: 'Sol must be between 0 and 100000',
+        code: 'OUT_OF_RANGE',
+      };
+    }
+
+    return {
+      isValid: true,
+      value: numSol,
+    };
+  },
+
+  /**
+   * Validate Earth date parameter (YYYY-MM-DD)
+   * @param date - Date string to validate
+   * @returns Validation result with normalized date string
+   */
+  validateEarthDate(date: unknown): ValidationResult<string> {
+    if (typeof date !== 'string') {
+      return {
+        isValid: false,
+        error: 'Date must be a string',
+        code: 'INVALID_TYPE',
+      };
+    }
+
+    const normalizedDate = date.trim();
+    const parsed = new Date(`${normalizedDate}T00:00:00Z`);
+
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(normalizedDate) ||
+      isNaN(parsed.getTime()) ||
+      parsed.toISOString().slice(0, 10) !== normalizedDate
+    ) {
+      return {
+        isValid: false,
+        error: 'Date must be a valid YYYY-MM-DD date',
+        code: 'INVALID_DATE',
+      };
+    }
+
+    return {
+      isValid: true,
+      value: normalizedDate,
+    };
+  },
+
+  /**
+   * Validate a positive integer parameter (e.g. page, pageSize)
+   * @param value - Value to validate
+   * @param name - Parameter name for error messages
+   * @param max - Maximum allowed value
+   * @returns Validation result with validated number
+   */
+  validatePositiveInteger(
+    value: unknown,
+    name: string,
+    max = Number.MAX_SAFE_INTEGER
+  ): ValidationResult<number> {
+    const num =
+      typeof value === 'string' && value.trim() !== ''
+        ? Number(value)
+        : typeof value === 'number'
+          ? value
+          : NaN;
+
+    if (!Number.isInteger(num)) {
+      return {
+        isValid: false,
+        error: `${name} must be a whole number`,
+        code: 'INVALID_NUMBER',
+      };
+    }
+
+    if (num < 1 || num > max) {
+      return {
+        isValid: false,
+        error: `${name} must be between 1 and ${max}`,
+        code: 'OUT_OF_RANGE',
+      };
+    }
+
+    return {
+      isValid: true,
+      value: num,
+    };
+  },
+
+  /**
+   * Validate camera name parameter
+   * @param camera - Camera name to validate (case-insensitive)
+   * @param rover - Only accept this rover's cameras
+   * @returns Validation result with typed camera name
+   */
+  validateCamera(
+    camera: unknown,
+    rover?: RoverName
+  ): ValidationResult<CameraName> {
+    if (typeof camera !== 'string') {
+      return {
+        isValid: false,
+        error: 'Camera must be a string',
+        code: 'INVALID_TYPE',
+      };
+    }
+
+    const normalizedCamera = camera.toUpperCase().trim() as CameraName;
+
+    const cameras = rover ? getRover(rover).cameras : CAMERA_NAMES;
+    const scope = rover ? ` for ${getRover(rover).name}` : '';
+    if (!cameras.includes(normalizedCamera)) {
+      return {
+        isValid: false,
+        error: `Invalid camera${scope}. Must be one of: ${cameras.join(', ')}`,
+        code: 'INVALID_CAMERA',
+      };
+    }
+
+    return {
+      isValid: true,
+      value: normalizedCamera,
     };
   },
 
@@ -237,88 +475,131 @@ export const ValidationUtils = {
   },
 
   /**
-   * Validate and sanitize query parameters
+   * Validate query parameters against a declarative schema
+   * Absent or empty parameters take their default; every invalid parameter
+   * is reported, not just the first
    * @param searchParams - URLSearchParams object
-   * @returns Validated and sanitized parameters
+   * @param schema - Rules keyed by parameter name
+   * @returns Parsed values and the rejected parameters
    */
-  validateQueryParams(searchParams: URLSearchParams) {
-    const params: {
-      historyDays: number;
-      temperatureUnit: 'celsius' | 'fahrenheit';
-      pressureUnit: 'pa' | 'hpa' | 'mbar';
-      windUnit: 'mps' | 'kph' | 'mph';
-      includeEstimated: boolean;
-    } = {
-      historyDays: 7,
-      temperatureUnit: 'celsius',
-      pressureUnit: 'pa',
-      windUnit: 'mps',
-      includeEstimated: false,
-    };
-
-    const errors: string[] = [];
-
-    // Validate history days
-    const historyParam = searchParams.get('history');
-    if (historyParam) {
-      const historyValidation = this.validateHistoryDays(historyParam);
-      if (historyValidation.isValid && historyValidation.value) {
-        params.historyDays = historyValidation.value;
-      } else {
-        errors.push(historyValidation.error || 'Invalid history parameter');
-      }
-    }
-
-    // Validate temperature unit
-    const tempUnitParam = searchParams.get('tempUnit');
-    if (tempUnitParam) {
-      const tempValidation = this.validateTemperatureUnit(tempUnitParam);
-      if (tempValidation.isValid && tempValidation.value) {
-        params.temperatureUnit = tempValidation.value;
-      } else {
-        errors.push(tempValidation.error || 'Invalid temperature unit');
+  parseQuery<S extends QuerySchema>(
+    searchParams: URLSearchParams,
+    schema: S
+  ): { values: ParsedQuery<S>; invalid: InvalidParameter[] } {
+    const values: Record<string, unknown> = {};
+    const invalid: InvalidParameter[] = [];
+
+    for (const [parameter, rule] of Object.entries(schema)) {
+      const value = searchParams.get(parameter);
+      if (value === null || value.trim() === '') {
+        values[parameter] = rule.default;
+        if (rule.required) {
+          invalid.push({
+            parameter,
+            value,
+            error: `${parameter} is required`,
+            code: 'MISSING_PARAMETER',
+          });
+        }
+        continue;
       }
-    }
 
-    // Validate pressure unit
-    const pressureUnitParam = searchParams.get('pressureUnit');
-    if (pressureUnitParam) {
-      const pressureValidation = this.validatePressureUnit(pressureUnitParam);
-      if (pressureValidation.isValid && pressureValidation.value) {
-        params.pressureUnit = pressureValidation.value;
+      const result = rule.validate(value);
+      if (result.isValid) {
+        values[parameter] = result.value;
       } else {
-        errors.push(pressureValidation.error || 'Invalid pressure unit');
+        values[parameter] = rule.default;
+        invalid.push({
+          parameter,
+          value,
+          error: result.error ?? `Invalid ${parameter}`,
+          code: result.code ?? 'INVALID_VALUE',
+        });
       }
     }
 
-    // Validate wind unit
-    const windUnitParam = searchParams.get('windUnit');
-    if (windUnitParam) {
-      const windValidation = this.validateWindUnit(windUnitParam);
-      if (windValidation.isValid && windValidation.value) {
-        params.windUnit = windValidation.value;
-      } else {
-        errors.push(windValidation.error || 'Invalid wind unit');
-      }
-    }
+    return { values: values as ParsedQuery<S>, invalid };
+  },
 
-    // Validate includeEstimated
-    const includeEstimatedParam = searchParams.get('includeEstimated');
-    if (includeEstimatedParam) {
-      const boolValidation = this.validateBoolean(includeEstimatedParam);
-      if (boolValidation.isValid && boolValidation.value !== undefined) {
-        params.includeEstimated = boolValidation.value;
-      } else {
-        errors.push(
-          boolValidation.error || 'Invalid includeEstimated parameter'
-        );
-      }
-    }
+  /**
+   * Validate and sanitize query parameters
+   * @param searchParams - URLSearchParams object
+   * @returns Validated and sanitized parameters
+   */
+  validateQueryParams(searchParams: URLSearchParams): {
+    params: {
+      historyDays: number;
+      temperatureUnit: TemperatureUnit;
+      pressureUnit: PressureUnit;
+      windUnit: WindUnit;
+      includeEstimated: boolean;
+    };
+    errors: string[];
+    invalid: InvalidParameter[];
+    isValid: boolean;
+  } {
+    const { values, invalid } = this.parseQuery(
+      searchParams,
+      WEATHER_DISPLAY_QUERY
+    );
 
     return {
-      params,
-      errors,
-      isValid: errors.length === 0,
+      params: {
+        historyDays: values.history,
+        temperatureUnit: values.tempUnit,
+        pressureUnit: values.pressureUnit,
+        windUnit: values.windUnit,
+        includeEstimated: values.includeEstimated,
+      },
+      errors: invalid.map(({ error }) => error),
+      invalid,
+      isValid: invalid.length === 0,
     };
   },
 } as const;
+
+/** Camera names accepted by the photos API, across every rover it covers */
+export const CAMERA_NAMES: readonly CameraName[] = [
+  ...new Set(getPhotoRovers().flatMap((rover) => getRover(rover).cameras)),
+];
+
+/**
+ * History length and display units shared by the weather endpoints
+ */
+export const WEATHER_DISPLAY_QUERY = {
+  history: {
+    validate: ValidationUtils.validateHistoryDays,
+    default: 7,
+    description: 'Number of recent sols to include in the history',
+    type: 'integer',
+    minimum: 1,
+    maximum: 30,
+  },
+  tempUnit: {
+    validate: ValidationUtils.validateTemperatureUnit,
+    default: 'celsius' as TemperatureUnit,
+    description: 'Temperature unit',
+    type: 'string',
+    enum: ['celsius', 'fahrenheit', 'kelvin'],
+  },
+  pressureUnit: {
+    validate: ValidationUtils.validatePressureUnit,
+    default: 'pa' as PressureUnit,
+    description: 'Pressure unit',
+    type: 'string',
+    enum: ['pa', 'hpa', 'mbar'],
+  },
+  windUnit: {
+    validate: ValidationUtils.validateWindUnit,
+    default: 'mps' as WindUnit,
+    description: 'Wind speed unit',
+    type: 'string',
+    enum: ['mps', 'kph', 'mph'],
+  },
+  includeEstimated: {
+    validate: ValidationUtils.validateBoolean,
+    default: false,
+    description: 'Include sols with estimated (gap-filled) data',
+    type: 'boolean',
+  },
+} satisfies QuerySchema;
@@ -0,0 +1,246 @@
+/**
+ * Public API gateway
+ * Authenticates /api/v1 requests by API key, enforces each key's hourly
+ * quota, counts usage and forwards accepted requests to the API routes.
+ * The unversioned data routes answer only the dashboard's own pages, which
+ * get a signed session cookie when they load, within an hourly quota per
+ * client address.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ApiKeyQuotaResult,
+  anonymousRateLimiter,
+  apiKeyRateLimiter,
+  getAnonymousRateLimit,
+  getApiKeyFromRequest,
+  getApiKeyStore,
+  getClientAddress,
+  toApiKeySummary,
+} from '@/lib/api-keys';
+import {
+  PAGE_SESSION_COOKIE,
+  PAGE_SESSION_MAX_AGE_SECONDS,
+  createPageSession,
+  verifyPageSession,
+} from '@/lib/page-sessions';
+import { ApiKeyUsageResponse } from '@/types/api-keys';
+import { errorResponse } from '@/app/api/schemas/common';
+
+/** Routes published under /api/v1 */
+const V1_RESOURCES = [
+  'weather',
+  'photos',
+  'manifest',
+  'climatology',
+  'stream',
+] as const;
+
+const V1_PREFIX = '/api/v1/';
+
+/** Session age after which requests get a fresh session cookie (ms) */
+const PAGE_SESSION_RENEW_AFTER_MS = (PAGE_SESSION_MAX_AGE_SECONDS * 1000) / 2;
+
+// Keyed routes may be called from any origin; the key is the credential
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, X-API-Key, Content-Type',
+  'Access-Control-Expose-Headers':
+    'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining',
+};
+
+/**
+ * Handle a page, /api/v1 or unversioned data route request
+ */
+export async function proxy(request: NextRequest): Promise<NextResponse> {
+  const [, root, section] = request.nextUrl.pathname.split('/');
+  if (root !== 'api') return pageProxy(request);
+  if (section !== 'v1') return firstPartyProxy(request);
+
+  if (request.method === 'OPTIONS') {
+    return new NextResponse(null, {
+      status: 204,
+      headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+    });
+  }
+
+  const [resource = '', ...rest] = request.nextUrl.pathname
+    .slice(V1_PREFIX.length)
+    .split('/');
+  const isUsage = resource === 'usage' && rest.length === 0;
+  if (!isUsage && !(V1_RESOURCES as readonly string[]).includes(resource)) {
+    return errorResponse(
+      404,
+      'Unknown API endpoint',
+      'NOT_FOUND',
+      {
+        path: request.nextUrl.pathname,
+        endpoints: [...V1_RESOURCES, 'usage'].map(
+          (name) => `${V1_PREFIX}${name}`
+        ),
+      },
+      CORS_HEADERS
+    );
+  }
+
+  const key = getApiKeyFromRequest(request);
+  if (!key) {
+    return errorResponse(
+      401,
+      'API key required',
+      'API_KEY_REQUIRED',
+      {
+        message:
+          'Send your key in an X-API-Key header, as a Bearer token, or as api_key',
+      },
+      CORS_HEADERS
+    );
+  }
+
+  const store = getApiKeyStore();
+  const record = await store.authenticate(key);
+  if (!record) {
+    return errorResponse(
+      401,
+      'Invalid or revoked API key',
+      'INVALID_API_KEY',
+      undefined,
+      CORS_HEADERS
+    );
+  }
+
+  const quota = apiKeyRateLimiter.consume(record);
+  store.recordUsage(record.id, quota.allowed);
+
+  const rateLimitHeaders = quotaHeaders(quota);
+
+  if (!quota.allowed) {
+    return rateLimitedResponse('API key rate limit exceeded', quota, {
+      ...CORS_HEADERS,
+      ...rateLimitHeaders,
+    });
+  }
+
+  if (isUsage) {
+    const current = (await store.list()).find(({ id }) => id === record.id);
+    const usage: ApiKeyUsageResponse = {
+      apiKey: toApiKeySummary(current ?? record),
+      quota: { limitPerHour: quota.limit, remaining: quota.remaining },
+      timestamp: new Date().toISOString(),
+    };
+    return NextResponse.json(usage, {
+      headers: {
+        ...CORS_HEADERS,
+        ...rateLimitHeaders,
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  const destination = request.nextUrl.clone();
+  destination.pathname = `/api/${[resource, ...rest].join('/')}`;
+  // Keep keys out of route caches and logs
+  destination.searchParams.delete('api_key');
+
+  return NextResponse.rewrite(destination, {
+    headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+  });
+}
+
+/**
+ * Give page visitors the session their data requests need
+ */
+function pageProxy(request: NextRequest): NextResponse {
+  const response = NextResponse.next();
+  const issuedAt = verifyPageSession(
+    request.cookies.get(PAGE_SESSION_COOKIE)?.value
+  );
+  if (
+    issuedAt === null ||
+    Date.now() - issuedAt > PAGE_SESSION_RENEW_AFTER_MS
+  ) {
+    setPageSession(request, response);
+  }
+  return response;
+}
+
+/**
+ * Handle a keyless request to an unversioned data route
+ * Only pages holding a session may call these; anyone else uses /api/v1
+ */
+function firstPartyProxy(request: NextRequest): NextResponse {
+  const issuedAt = verifyPageSession(
+    request.cookies.get(PAGE_SESSION_COOKIE)?.value
+  );
+  if (issuedAt === null) {
+    const { pathname } = request.nextUrl;
+    return errorResponse(401, 'API key required', 'API_KEY_REQUIRED', {
+      message: 'Only this site may call this route; use the keyed endpoint',
+      endpoint: `${V1_PREFIX}${pathname.slice('/api/'.length)}`,
+    });
+  }
+
+  const quota = anonymousRateLimiter.consume({
+    id: getClientAddress(request),
+    rateLimitPerHour: getAnonymousRateLimit(),
+  });
+  const rateLimitHeaders = quotaHeaders(quota);
+
+  if (!quota.allowed) {
+    return rateLimitedResponse('Rate limit exceeded', quota, rateLimitHeaders);
+  }
+
+  const response = NextResponse.next({ headers: rateLimitHeaders });
+  // Keep long-open pages (live streams, polling) signed in
+  if (Date.now() - issuedAt > PAGE_SESSION_RENEW_AFTER_MS) {
+    setPageSession(request, response);
+  }
+  return response;
+}
+
+function setPageSession(request: NextRequest, response: NextResponse): void {
+  response.cookies.set(PAGE_SESSION_COOKIE, createPageSession(), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: PAGE_SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+function quotaHeaders(quota: ApiKeyQuotaResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(quota.limit),
+    'X-RateLimit-Remaining': String(quota.remaining),
+  };
+}
+
+function rateLimitedResponse(
+  message: string,
+  quota: ApiKeyQuotaResult,
+  headers: Record<string, string>
+): NextResponse {
+  const retryAfterSeconds = Math.ceil(quota.retryAfterMs / 1000);
+  return errorResponse(
+    429,
+    message,
+    'RATE_LIMITED',
+    { limitPerHour: quota.limit, retryAfterSeconds },
+    { ...headers, 'Retry-After': String(retryAfterSeconds) }
+  );
+}
+
+// Next reads the matcher statically, so the data routes are listed literally;
+// the last entry matches pages (not API routes, build output or files)
+export const config = {
+  matcher: [
+    '/api/v1/:path*',
+    '/api/weather/:path*',
+    '/api/photos/:path*',
+    '/api/manifest/:path*',
+    '/api/climatology/:path*',
+    '/api/stream/:path*',
+    '/((?!api/|_next/|.*\\..*).*)',
+  ],
+};
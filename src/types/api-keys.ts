@@ -0,0 +1,54 @@
+/**
+ * Public API key types
+ * Client keys issued for the versioned /api/v1 routes
+ */
+
+/** Request counters of one key */
+export interface ApiKeyUsage {
+  /** Requests that passed the rate limit */
+  totalRequests: number;
+  /** Requests rejected by the rate limit */
+  rejectedRequests: number;
+  /** Most recent request (ISO), if any */
+  lastUsedAt: string | null;
+  /** Accepted requests per UTC day (YYYY-MM-DD), most recent days only */
+  daily: Record<string, number>;
+}
+
+/** Stored key; only a hash of the secret is kept */
+export interface ApiKeyRecord {
+  id: string;
+  /** Who the key was issued to */
+  name: string;
+  /** SHA-256 of the key (hex) */
+  keyHash: string;
+  /** First characters of the key, to recognize it in listings */
+  keyPrefix: string;
+  /** Requests allowed per hour */
+  rateLimitPerHour: number;
+  /** Issue time (ISO) */
+  createdAt: string;
+  /** Revocation time (ISO); revoked keys are rejected */
+  revokedAt: string | null;
+  usage: ApiKeyUsage;
+}
+
+/** Key as shown by the admin API */
+export type ApiKeySummary = Omit<ApiKeyRecord, 'keyHash'>;
+
+/** Newly issued key; the secret is only ever returned here */
+export interface IssuedApiKey {
+  key: string;
+  apiKey: ApiKeySummary;
+}
+
+/** GET /api/v1/usage: the calling key's counters and remaining quota */
+export interface ApiKeyUsageResponse {
+  apiKey: ApiKeySummary;
+  quota: {
+    limitPerHour: number;
+    /** Requests left in the current hour */
+    remaining: number;
+  };
+  timestamp: string;
+}
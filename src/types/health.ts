@@ -0,0 +1,60 @@
+/**
+ * Health and resilience observability types
+ */
+
+import type { CacheStats } from '@/lib/cache';
+import type { TokenBucketStatus } from '@/lib/rate-limiter';
+
+/** Circuit breaker state */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** Snapshot of one circuit breaker */
+export interface CircuitStatus {
+  /** Circuit name (e.g. "nasa-latest-photos-curiosity") */
+  name: string;
+  /** closed: requests flow, open: requests rejected, half-open: next request is a trial */
+  state: CircuitState;
+  /** Failures counted toward the threshold */
+  failureCount: number;
+  /** Failures that open the circuit */
+  failureThreshold: number;
+  /** Most recent failure (ISO), if any */
+  lastFailureTime: string | null;
+  /** When an open circuit allows a trial request (ISO), if open */
+  nextAttemptTime: string | null;
+}
+
+/** A retry scheduled after a failed attempt */
+export interface RetryAttemptRecord {
+  /** Circuit the request ran under, if any */
+  circuitName: string | null;
+  /** Attempt that failed (1-based) */
+  attempt: number;
+  /** Error message of the failed attempt */
+  error: string;
+  /** Wait before the next attempt (ms) */
+  delayMs: number;
+  /** When the retry was scheduled (ISO) */
+  timestamp: string;
+}
+
+/** Response of GET /api/health */
+export interface HealthApiResponse {
+  /** degraded while any circuit is open or half-open */
+  status: 'ok' | 'degraded';
+  /** Circuit breakers known to this server instance */
+  circuits: CircuitStatus[];
+  /** Most recent retries, newest first */
+  recentRetries: RetryAttemptRecord[];
+  /** Shared upstream request quotas */
+  quotas: TokenBucketStatus[];
+  /** Shared cache backend and hit/miss statistics */
+  cache: {
+    store: string;
+    stats: CacheStats;
+  };
+  /** Server process uptime in seconds */
+  uptimeSeconds: number;
+  /** Response time (ISO) */
+  timestamp: string;
+}
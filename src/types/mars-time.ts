@@ -2,6 +2,23 @@
  * Mars time-related type definitions
  */
 
+import type { RoverName } from './rovers';
+
+/** Local time and sol at one mission's landing site */
+export interface RoverMarsTime {
+  /** Registered rover or lander */
+  rover: RoverName;
+  
+  /** Local True Solar Time at the landing site */
+  ltst: string;
+  
+  /** Mission sol number (the final sol for completed missions) */
+  sol: number;
+  
+  /** Whether the mission is still operating */
+  active: boolean;
+}
+
 export interface MarsTimeData {
   /** Mars Sol Date - days since Mars epoch */
   msd: number;
@@ -9,22 +26,24 @@ export interface MarsTimeData {
   /** Coordinated Mars Time (24-hour format) */
   mtc: string;
   
-  /** Local True Solar Time for Curiosity location */
-  curiosityLTST: string;
-  
-  /** Local True Solar Time for Perseverance location */
-  perseveranceLTST: string;
-  
-  /** Mission sol number for Curiosity rover */
-  curiositySol: number;
-  
-  /** Mission sol number for Perseverance rover */
-  perseveranceSol: number;
+  /** Local time and sol of every registered rover, in registry order */
+  rovers: RoverMarsTime[];
   
   /** Current Earth time for reference */
   earthTime: string;
 }
 
+/** Mars season in a given hemisphere, derived from solar longitude */
+export type MarsSeason =
+  | 'northern-spring'
+  | 'northern-summer'
+  | 'northern-autumn'
+  | 'northern-winter'
+  | 'southern-spring'
+  | 'southern-summer'
+  | 'southern-autumn'
+  | 'southern-winter';
+
 export interface RoverLocation {
   /** Rover name */
   name: string;
@@ -0,0 +1,68 @@
+/**
+ * OpenAPI 3 document types
+ * Only the parts of the specification the API documents
+ */
+
+/** JSON Schema subset used in the document */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  format?: string;
+  enum?: readonly (string | number)[];
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  $ref?: string;
+}
+
+/** Query, path or header parameter */
+export interface OpenApiParameter {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  required: boolean;
+  description: string;
+  schema: JsonSchema;
+}
+
+/** One operation (method) of a path */
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters: OpenApiParameter[];
+  responses: Record<
+    string,
+    {
+      description: string;
+      content?: Record<string, { schema: JsonSchema }>;
+    }
+  >;
+}
+
+/** API key credential */
+export interface OpenApiSecurityScheme {
+  type: 'apiKey';
+  in: 'header' | 'query';
+  name: string;
+  description: string;
+}
+
+/** OpenAPI 3.0 document */
+export interface OpenApiDocument {
+  openapi: '3.0.3';
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  /** Alternative credentials accepted by every operation */
+  security: Array<Record<string, string[]>>;
+  paths: Record<string, { get: OpenApiOperation }>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, OpenApiSecurityScheme>;
+  };
+}
@@ -3,8 +3,9 @@
  * Based on NASA Mars Rover Photos API
  */
 
-/** Supported rover names */
-export type RoverName = 'curiosity' | 'perseverance';
+import type { RoverName, RoverStatus } from './rovers';
+
+export type { RoverName, RoverStatus } from './rovers';
 
 /** Camera types available on Mars rovers */
 export type CameraName =
@@ -19,6 +20,7 @@ export type CameraName =
   | 'NAVCAM_RIGHT' // Navigation Camera - Right
   | 'PANCAM' // Panoramic Camera
   | 'MINITES' // Miniature Thermal Emission Spectrometer
+  | 'ENTRY' // Entry, Descent, and Landing Camera
   | 'EDL_RUCAM' // Entry, Descent, and Landing - Rover Up-Look Camera
   | 'EDL_RDCAM' // Entry, Descent, and Landing - Rover Down-Look Camera
   | 'EDL_DDCAM' // Entry, Descent, and Landing - Descent Stage Down-Look Camera
@@ -28,7 +30,9 @@ export type CameraName =
   | 'PIXL' // Planetary Instrument for X-ray Lithochemistry
   | 'MCZCAM' // Mast Camera Zoom
   | 'MCZCAM_LEFT' // Mast Camera Zoom - Left
-  | 'MCZCAM_RIGHT'; // Mast Camera Zoom - Right
+  | 'MCZCAM_RIGHT' // Mast Camera Zoom - Right
+  | 'IDC' // Instrument Deployment Camera
+  | 'ICC'; // Instrument Context Camera
 
 /** Camera information */
 export interface CameraInfo {
@@ -42,9 +46,6 @@ export interface CameraInfo {
   roverId: number;
 }
 
-/** Rover status information */
-export type RoverStatus = 'active' | 'complete' | 'inactive';
-
 /** Rover metadata */
 export interface RoverInfo {
   /** Rover ID */
@@ -65,6 +66,57 @@ export interface RoverInfo {
   totalPhotos: number;
 }
 
+/** Imagery on one sol, from the rover photo manifest */
+export interface ManifestSol {
+  /** Mars sol */
+  sol: number;
+  /** Earth date of the sol */
+  earthDate: string;
+  /** Photos taken on this sol across all cameras */
+  totalPhotos: number;
+  /** Cameras that took photos on this sol */
+  cameras: CameraName[];
+}
+
+/** Full rover photo manifest */
+export interface RoverManifest {
+  /** Rover name */
+  rover: RoverName;
+  /** Current mission status */
+  status: RoverStatus;
+  /** Mission landing date */
+  landingDate: string;
+  /** Mission launch date */
+  launchDate: string;
+  /** Latest sol with photos */
+  maxSol: number;
+  /** Earth date of the latest sol with photos */
+  maxDate: string;
+  /** Total photos taken */
+  totalPhotos: number;
+  /** Sols with imagery per camera */
+  cameraSols: Partial<Record<CameraName, number>>;
+  /** Sols with imagery, in ascending order */
+  sols: ManifestSol[];
+}
+
+/** Manifest API response structure */
+export interface ManifestApiResponse {
+  /** Manifest data (sols limited to the requested range) */
+  data: RoverManifest;
+  /** Response metadata */
+  meta: {
+    /** Number of sols returned */
+    solCount: number;
+    /** API request timestamp */
+    requestTime: string;
+    /** Cache information */
+    cached: boolean;
+    /** Cache expiry time */
+    cacheExpiry?: string;
+  };
+}
+
 /** Single Mars rover photo */
 export interface MarsPhoto {
   /** Unique photo ID */
@@ -95,6 +147,8 @@ export interface LatestPhotosData {
   lastFetch: string;
   /** API status */
   status: 'success' | 'partial' | 'error';
+  /** Next page to request, when this page was full */
+  nextPage?: number;
 }
 
 /** Photos API response structure */
@@ -152,3 +206,36 @@ export interface PhotoDisplayData extends MarsPhoto {
   /** Alt text for accessibility */
   altText: string;
 }
+
+/** Which camera of a stereo pair took a photo */
+export type StereoEye = 'left' | 'right';
+
+/** Left/right photos of one stereo exposure */
+export interface StereoPair {
+  /** Stable pair ID (`<leftId>-<rightId>`) */
+  id: string;
+  /** Mars sol when the pair was taken */
+  sol: number;
+  /** Stereo instrument without the eye suffix (e.g. NAVCAM, MCZCAM, FHAZ) */
+  instrument: string;
+  /** Spacecraft clock time of the left exposure, in seconds */
+  sclk: number;
+  /** Left-eye photo */
+  left: MarsPhoto;
+  /** Right-eye photo */
+  right: MarsPhoto;
+}
+
+/** Sequential frames of one camera imaging sequence, in shooting order */
+export interface PanoramaSequence {
+  /** Stable sequence ID (`<sol>-<camera>-<sequence>`) */
+  id: string;
+  /** Mars sol when the sequence was taken */
+  sol: number;
+  /** Camera that took the frames */
+  camera: CameraInfo;
+  /** Imaging sequence ID from the image names */
+  sequence: string;
+  /** Frames, left to right in shooting order */
+  frames: MarsPhoto[];
+}
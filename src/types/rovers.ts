@@ -0,0 +1,41 @@
+/**
+ * Mars surface mission types
+ * Rover names are the keys of the registry in lib/rovers
+ */
+
+import type { ROVERS } from '@/lib/rovers';
+import type { RoverLocation } from './mars-time';
+import type { CameraName } from './photos';
+import type { InstrumentName } from './weather';
+
+/** Supported rover and lander names */
+export type RoverName = keyof typeof ROVERS;
+
+/** Mission status */
+export type RoverStatus = 'active' | 'complete' | 'inactive';
+
+/** Registry entry for one surface mission */
+export interface RoverDefinition extends RoverLocation {
+  /** Mission name (e.g. "Mars Science Laboratory") */
+  mission: string;
+  /** Codes the mission goes by in NASA and PDS archives (e.g. "MSL") */
+  missionCodes: string[];
+  /** Mobile rover or stationary lander */
+  platform: 'rover' | 'lander';
+  /** Landing site (e.g. "Gale Crater") */
+  siteName: string;
+  /** Mission launch date */
+  launchDate: Date;
+  /** Whether the mission is still operating */
+  status: RoverStatus;
+  /** Last contact with the surface; null while operating */
+  endDate: Date | null;
+  /** Instrument supplying weather measurements */
+  weatherInstrument: InstrumentName;
+  /** Science instruments */
+  instruments: string[];
+  /** Cameras, as named by the Mars Rover Photos API */
+  cameras: CameraName[];
+  /** Mission id in the Mars Rover Photos API; null when it has no photos there */
+  photoArchiveId: number | null;
+}
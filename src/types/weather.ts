@@ -1,19 +1,28 @@
 /**
  * Weather data types for Mars rover environmental measurements
- * Based on NASA REMS (Curiosity) and MEDA (Perseverance) instruments
+ * Based on NASA REMS (Curiosity), MEDA (Perseverance), TWINS (InSight) and
+ * Mini-TES (Spirit, Opportunity) instruments
  */
 
-/** Supported rover names */
-export type RoverName = 'curiosity' | 'perseverance';
+import { MarsSeason } from './mars-time';
+import type { RoverName } from './rovers';
+
+export type { RoverName } from './rovers';
+
+/** A rover sol picked in one view and opened in the others */
+export interface SolSelection {
+  rover: RoverName;
+  sol: number;
+}
 
 /** Weather instrument names */
-export type InstrumentName = 'REMS' | 'MEDA' | 'TWINS';
+export type InstrumentName = 'REMS' | 'MEDA' | 'TWINS' | 'MINITES';
 
 /** Data quality indicators */
 export type DataQuality = 'complete' | 'partial' | 'estimated' | 'unavailable';
 
 /** Temperature units */
-export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type TemperatureUnit = 'celsius' | 'fahrenheit' | 'kelvin';
 
 /** Pressure units */
 export type PressureUnit = 'pa' | 'hpa' | 'mbar';
@@ -87,6 +96,12 @@ export interface MarsWeatherSol {
   sol: number;
   /** Earth date for this sol */
   earthDate: string;
+  /** Mars year (MY 1 began 1955-04-11) */
+  marsYear?: number;
+  /** Solar longitude (Ls) at mid-sol in degrees */
+  solarLongitude?: number;
+  /** Season in the rover's hemisphere */
+  season?: MarsSeason;
   /** Temperature measurements */
   temperature: TemperatureData;
   /** Atmospheric conditions */
@@ -121,6 +136,18 @@ export interface MarsWeatherData {
   status: 'success' | 'partial' | 'error';
 }
 
+/** Health of a single weather provider for one request */
+export interface WeatherProviderHealth {
+  /** Provider name (e.g. "nasa-photos", "synthetic") */
+  name: string;
+  /** Outcome of the provider attempt */
+  status: 'ok' | 'failed' | 'skipped';
+  /** Time spent in the provider in milliseconds */
+  responseTimeMs: number;
+  /** Failure reason (if failed or skipped) */
+  error?: string;
+}
+
 /** Weather API response structure */
 export interface WeatherApiResponse {
   /** Weather data */
@@ -135,9 +162,31 @@ export interface WeatherApiResponse {
     cached: boolean;
     /** Cache expiry time */
     cacheExpiry?: string;
+    /** Name of the provider that supplied the data */
+    source?: string;
+    /** Health of each provider attempted, in order */
+    providers?: WeatherProviderHealth[];
+    /** Pagination details for sol-range queries */
+    pagination?: WeatherPagination;
   };
 }
 
+/** Pagination metadata for sol-range queries */
+export interface WeatherPagination {
+  /** Current page (1-based) */
+  page: number;
+  /** Sols per page */
+  pageSize: number;
+  /** Total number of pages in the range */
+  totalPages: number;
+  /** Total number of sols in the range */
+  totalSols: number;
+  /** First sol of the full range */
+  fromSol: number;
+  /** Last sol of the full range */
+  toSol: number;
+}
+
 /** Weather API error response */
 export interface WeatherApiError {
   /** Error message */
@@ -162,6 +211,204 @@ export interface WeatherDataOptions {
   windUnit?: WindUnit;
   /** Include estimated/partial data */
   includeEstimated?: boolean;
+  /** First sol of a historical range (inclusive; overrides historyDays) */
+  fromSol?: number;
+  /** Last sol of a historical range (inclusive) */
+  toSol?: number;
+  /** First Earth date of a historical range (YYYY-MM-DD) */
+  fromDate?: string;
+  /** Last Earth date of a historical range (YYYY-MM-DD) */
+  toDate?: string;
+  /** Page of a sol-range query (1-based) */
+  page?: number;
+  /** Sols per page for sol-range queries */
+  pageSize?: number;
+}
+
+/** Event pushed to live weather subscribers */
+export type WeatherStreamEvent =
+  | {
+      /** A sol newer than any previously seen for the rover */
+      type: 'sol';
+      rover: RoverName;
+      /** Sol data in the subscriber's units */
+      sol: MarsWeatherSol;
+      timestamp: string;
+    }
+  | {
+      /** Cached weather data for the rover is no longer valid */
+      type: 'invalidate';
+      rover: RoverName;
+      /** Why the cache was invalidated */
+      reason: string;
+      timestamp: string;
+    };
+
+/** Min/avg/max summary of one measurement within a climatology bin */
+export interface ClimatologyStats {
+  /** Lowest observed value */
+  min: number;
+  /** Mean value */
+  average: number;
+  /** Highest observed value */
+  max: number;
+}
+
+/** Climatology statistics for one Mars year within an Ls bin */
+export interface ClimatologyYearStats {
+  /** Mars year number */
+  marsYear: number;
+  /** Number of sols contributing */
+  sols: number;
+  /** Temperature statistics (daily min/average/max) */
+  temperature: ClimatologyStats;
+  /** Pressure statistics */
+  pressure: ClimatologyStats;
+}
+
+/** Climatology statistics for one solar longitude bin */
+export interface ClimatologyBin {
+  /** Bin start in degrees of Ls (inclusive) */
+  lsStart: number;
+  /** Bin end in degrees of Ls (exclusive) */
+  lsEnd: number;
+  /** Number of sols contributing across all Mars years */
+  sols: number;
+  /** Temperature statistics across all Mars years (null if no sols) */
+  temperature: ClimatologyStats | null;
+  /** Pressure statistics across all Mars years (null if no sols) */
+  pressure: ClimatologyStats | null;
+  /** Per-Mars-year breakdown, oldest first */
+  years: ClimatologyYearStats[];
+}
+
+/** Seasonal climatology for a rover binned by solar longitude */
+export interface MarsClimatology {
+  /** Rover the climatology was computed for */
+  rover: RoverName;
+  /** Bin width in degrees of Ls */
+  binSize: number;
+  /** Temperature unit of all statistics */
+  temperatureUnit: TemperatureUnit;
+  /** Pressure unit of all statistics */
+  pressureUnit: PressureUnit;
+  /** Mars years covered by the data, oldest first */
+  marsYears: number[];
+  /** Current Mars year at the rover */
+  currentMarsYear: number;
+  /** Current solar longitude in degrees */
+  currentLs: number;
+  /** Ls bins from 0° to 360° */
+  bins: ClimatologyBin[];
+}
+
+/** Options for climatology computation */
+export interface ClimatologyOptions {
+  /** Bin width in degrees of Ls (default 10) */
+  binSize?: number;
+  /** Temperature unit preference */
+  temperatureUnit?: TemperatureUnit;
+  /** Pressure unit preference */
+  pressureUnit?: PressureUnit;
+  /** Include estimated/partial data */
+  includeEstimated?: boolean;
+}
+
+/** Climatology API response structure */
+export interface ClimatologyApiResponse {
+  /** Climatology data */
+  data: MarsClimatology;
+  /** Response metadata */
+  meta: {
+    /** Number of sols the statistics were computed from */
+    totalSols: number;
+    /** API request timestamp */
+    requestTime: string;
+    /** Cache information */
+    cached: boolean;
+    /** Name of the provider that supplied the data */
+    source?: string;
+  };
+}
+
+/** One rover's conditions at a comparison point */
+export interface WeatherComparisonReading {
+  /** Sols combined into this reading */
+  sols: number[];
+  /** Lowest minimum, mean average and highest maximum temperature */
+  temperature: ClimatologyStats;
+  /** Mean pressure */
+  pressure: number;
+  /** Mean wind speed (null when no sol reported wind) */
+  windSpeed: number | null;
+}
+
+/** Readings of the compared rovers on one Earth date */
+export interface EarthDateComparisonPoint {
+  /** Earth date (YYYY-MM-DD) */
+  earthDate: string;
+  /** Solar longitude at noon UTC in degrees */
+  solarLongitude: number;
+  /** Readings of the rovers that reported on this date */
+  readings: Partial<Record<RoverName, WeatherComparisonReading>>;
+}
+
+/** Readings of the compared rovers within one solar longitude bin */
+export interface LsComparisonPoint {
+  /** Bin start in degrees of Ls (inclusive) */
+  lsStart: number;
+  /** Bin end in degrees of Ls (exclusive) */
+  lsEnd: number;
+  /** Readings of the rovers with sols in this bin */
+  readings: Partial<Record<RoverName, WeatherComparisonReading>>;
+}
+
+/** Weather of several rovers aligned on shared axes */
+export interface WeatherComparison {
+  /** Compared rovers, in request order */
+  rovers: RoverName[];
+  /** Temperature unit of all readings */
+  temperatureUnit: TemperatureUnit;
+  /** Pressure unit of all readings */
+  pressureUnit: PressureUnit;
+  /** Wind speed unit of all readings */
+  windUnit: WindUnit;
+  /** Width of the Ls bins in degrees */
+  lsBinSize: number;
+  /** Series aligned by Earth date, oldest first */
+  byEarthDate: EarthDateComparisonPoint[];
+  /** Series aligned by solar longitude, from Ls 0° */
+  byLs: LsComparisonPoint[];
+}
+
+/** Options for weather comparison */
+export interface WeatherComparisonOptions extends Pick<
+  WeatherDataOptions,
+  | 'historyDays'
+  | 'temperatureUnit'
+  | 'pressureUnit'
+  | 'windUnit'
+  | 'includeEstimated'
+  | 'fromDate'
+  | 'toDate'
+> {
+  /** Width of the Ls bins in degrees (default 1) */
+  lsBinSize?: number;
+}
+
+/** Weather comparison API response structure */
+export interface WeatherComparisonApiResponse {
+  /** Aligned series */
+  data: WeatherComparison;
+  /** Response metadata */
+  meta: {
+    /** API request timestamp */
+    requestTime: string;
+    /** True when every rover's data came from the cache */
+    cached: boolean;
+    /** Provider that supplied each rover's data */
+    sources: Partial<Record<RoverName, string>>;
+  };
 }
 
 /** Raw NASA API response types (for transformation) */